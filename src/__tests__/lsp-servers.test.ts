@@ -4,8 +4,8 @@ import { LSP_SERVERS, getServerForFile, getServerForLanguage } from '../tools/ls
 describe('LSP Server Configurations', () => {
   const serverKeys = Object.keys(LSP_SERVERS);
 
-  it('should have 16 configured servers', () => {
-    expect(serverKeys).toHaveLength(16);
+  it('should have 21 configured servers', () => {
+    expect(serverKeys).toHaveLength(21);
   });
 
   it.each(serverKeys)('server "%s" should have valid config', (key) => {
@@ -17,12 +17,16 @@ describe('LSP Server Configurations', () => {
     expect(config.installHint).toBeTruthy();
   });
 
-  it('should have no duplicate extension mappings across servers', () => {
+  it('should only share extensions between alternative HDL servers', () => {
+    const alternatives = [['slang', 'verible', 'svls'], ['vhdl', 'ghdl']];
+    const group = (key: string) => alternatives.findIndex(keys => keys.includes(key));
+
     const seen = new Map<string, string>();
     for (const [key, config] of Object.entries(LSP_SERVERS)) {
       for (const ext of config.extensions) {
-        if (seen.has(ext)) {
-          throw new Error(`Extension "${ext}" mapped to both "${seen.get(ext)}" and "${key}"`);
+        const other = seen.get(ext);
+        if (other && (group(key) === -1 || group(key) !== group(other))) {
+          throw new Error(`Extension "${ext}" mapped to both "${other}" and "${key}"`);
         }
         seen.set(ext, key);
       }
@@ -64,6 +68,14 @@ describe('getServerForFile', () => {
     expect(server!.name).toBe(expectedName);
   });
 
+  it.each(['fifo.sv', 'defs.svh', 'counter.v', 'params.vh'])('should resolve "%s" to a SystemVerilog server', (file) => {
+    expect(['slang-server', 'verible-verilog-ls', 'svls']).toContain(getServerForFile(file)?.command);
+  });
+
+  it.each(['alu.vhd', 'alu_pkg.vhdl'])('should resolve "%s" to a VHDL server', (file) => {
+    expect(['vhdl_ls', 'ghdl-ls']).toContain(getServerForFile(file)?.command);
+  });
+
   it('should return null for unknown extensions', () => {
     expect(getServerForFile('file.xyz')).toBeNull();
   });
@@ -104,6 +116,9 @@ describe('getServerForLanguage', () => {
     ['erb', 'Ruby Language Server (Solargraph)'],
     ['c#', 'OmniSharp'],
     ['cs', 'OmniSharp'],
+    ['systemverilog', 'slang-server'],
+    ['verilog', 'slang-server'],
+    ['vhdl', 'VHDL Language Server (rust_hdl)'],
   ];
 
   it.each(cases)('should resolve language "%s" to "%s"', (lang, expectedName) => {
@@ -3,8 +3,8 @@ import { omcToolsServer, omcToolNames, getOmcToolNames } from '../mcp/omc-tools-
 
 describe('omc-tools-server', () => {
   describe('omcToolNames', () => {
-    it('should export 18 tools total', () => {
-      expect(omcToolNames).toHaveLength(18);
+    it('should export 30 tools total', () => {
+      expect(omcToolNames).toHaveLength(30);
     });
 
     it('should have 12 LSP tools', () => {
@@ -31,30 +31,30 @@ describe('omc-tools-server', () => {
   describe('getOmcToolNames', () => {
     it('should return all tools by default', () => {
       const tools = getOmcToolNames();
-      expect(tools).toHaveLength(18);
+      expect(tools).toHaveLength(30);
     });
 
     it('should filter out LSP tools when includeLsp is false', () => {
       const tools = getOmcToolNames({ includeLsp: false });
       expect(tools.some(t => t.includes('lsp_'))).toBe(false);
-      expect(tools).toHaveLength(6); // 2 AST + 1 python + 3 skills
+      expect(tools).toHaveLength(18); // 2 AST + 1 python + 3 skills + 12 RTL
     });
 
     it('should filter out AST tools when includeAst is false', () => {
       const tools = getOmcToolNames({ includeAst: false });
       expect(tools.some(t => t.includes('ast_'))).toBe(false);
-      expect(tools).toHaveLength(16); // 12 LSP + 1 python + 3 skills
+      expect(tools).toHaveLength(28); // 12 LSP + 1 python + 3 skills + 12 RTL
     });
 
     it('should filter out python_repl when includePython is false', () => {
       const tools = getOmcToolNames({ includePython: false });
       expect(tools.some(t => t.includes('python_repl'))).toBe(false);
-      expect(tools).toHaveLength(17); // 12 LSP + 2 AST + 3 skills
+      expect(tools).toHaveLength(29); // 12 LSP + 2 AST + 3 skills + 12 RTL
     });
 
     it('should filter out skills tools', () => {
       const names = getOmcToolNames({ includeSkills: false });
-      expect(names).toHaveLength(15);
+      expect(names).toHaveLength(27);
       expect(names.every(n => !n.includes('load_omc_skills') && !n.includes('list_omc_skills'))).toBe(true);
     });
 
@@ -62,6 +62,30 @@ describe('omc-tools-server', () => {
       const skillsTools = omcToolNames.filter(n => n.includes('load_omc_skills') || n.includes('list_omc_skills'));
       expect(skillsTools).toHaveLength(3);
     });
+
+    it('should filter out RTL tools when includeRtl is false', () => {
+      const names = getOmcToolNames({ includeRtl: false });
+      expect(names).toHaveLength(18);
+      expect(names.some(n => n.includes('rtl_'))).toBe(false);
+    });
+
+    it('should have 12 RTL tools', () => {
+      const rtlTools = omcToolNames.filter(n => n.includes('rtl_'));
+      expect(rtlTools).toEqual([
+        'mcp__omc-tools__rtl_lint',
+        'mcp__omc-tools__rtl_simulate',
+        'mcp__omc-tools__rtl_waveform_query',
+        'mcp__omc-tools__rtl_synthesize',
+        'mcp__omc-tools__rtl_hierarchy',
+        'mcp__omc-tools__rtl_module_info',
+        'mcp__omc-tools__rtl_find_instances',
+        'mcp__omc-tools__rtl_generate_testbench',
+        'mcp__omc-tools__rtl_generate_uvm',
+        'mcp__omc-tools__rtl_generate_assertions',
+        'mcp__omc-tools__rtl_check_environment',
+        'mcp__omc-tools__rtl_config_explain',
+      ]);
+    });
   });
 
   describe('omcToolsServer', () => {
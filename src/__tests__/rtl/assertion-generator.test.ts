@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { generateAssertions, inferAssertions } from '../../rtl/verification/index.js';
+import { parseDesignUnits } from '../../rtl/design/index.js';
+
+const STREAM_SV = `module stream_arb #(
+  parameter int WIDTH = 8,
+  parameter int PORTS = 4,
+  localparam int BYTES = WIDTH / 8
+) (
+  input  logic             clk,
+  input  logic             rst_n,
+  input  logic             in_valid,
+  output logic             in_ready,
+  input  logic [WIDTH-1:0] in_data,
+  output logic             out_valid,
+  input  logic             out_ready,
+  output logic [WIDTH-1:0] out_data,
+  output logic [BYTES-1:0] out_keep,
+  output logic [PORTS-1:0] grant_oh,
+  output logic [3:0]       ptr_gray,
+  output logic             mem_req,
+  input  logic             mem_ack
+);
+  always_ff @(posedge clk or negedge rst_n) begin
+  end
+endmodule
+`;
+
+const FIFO_SV = `module sync_fifo (
+  input  logic       clk,
+  input  logic       rst,
+  input  logic       wr_en,
+  input  logic       rd_en,
+  input  logic [7:0] wdata,
+  output logic [7:0] rdata,
+  output logic       full,
+  output logic       empty
+);
+  always_ff @(posedge clk) begin
+    if (rst) begin
+    end
+  end
+endmodule
+`;
+
+const [STREAM] = parseDesignUnits(STREAM_SV, '/proj/rtl/stream_arb.sv');
+const [FIFO] = parseDesignUnits(FIFO_SV, '/proj/rtl/sync_fifo.sv');
+
+const content = (files: Array<{ path: string; content: string }>, name: string) =>
+  files.find(file => file.path === name)!.content;
+
+describe('SVA assertion generator', () => {
+  it('should infer templates from port names', () => {
+    expect(inferAssertions(STREAM)).toEqual([
+      { template: 'valid_ready', valid: 'in_valid', ready: 'in_ready', data: ['in_data'] },
+      { template: 'valid_ready', valid: 'out_valid', ready: 'out_ready', data: ['out_data', 'out_keep'] },
+      { template: 'reset_value', signal: 'out_valid' },
+      { template: 'req_ack', req: 'mem_req', ack: 'mem_ack' },
+      { template: 'onehot', signal: 'grant_oh' },
+      { template: 'gray', signal: 'ptr_gray' },
+    ]);
+    expect(inferAssertions(FIFO)).toEqual([
+      { template: 'fifo', full: 'full', push: 'wr_en', empty: 'empty', pop: 'rd_en' },
+    ]);
+  });
+
+  it('should emit a checker module with the DUT parameters and used ports', () => {
+    const set = generateAssertions(STREAM);
+    expect(set.checker).toBe('stream_arb_sva');
+    expect(set.files.map(file => file.path)).toEqual(['stream_arb_sva.sv', 'stream_arb_sva_bind.sv']);
+    expect(set.labels).toEqual([
+      'a_in_valid_hold', 'a_in_data_stable',
+      'a_out_valid_hold', 'a_out_data_stable', 'a_out_keep_stable',
+      'a_out_valid_reset', 'a_mem_req_ack_latency', 'a_grant_oh_onehot', 'a_ptr_gray_gray',
+    ]);
+
+    const checker = content(set.files, 'stream_arb_sva.sv');
+    expect(checker).toContain('#(\n  parameter int WIDTH = 8,\n  parameter int PORTS = 4\n)');
+    expect(checker).toContain('  localparam int BYTES = WIDTH/8;');
+    expect(checker).toContain(
+      '  a_in_data_stable: assert property (@(posedge clk) disable iff (!rst_n)\n' +
+      '    in_valid && !in_ready |=> $stable(in_data))\n' +
+      '    else $error("in_data changed while in_valid waited for in_ready");'
+    );
+    expect(checker).toContain("  a_out_valid_reset: assert property (@(posedge clk)\n    !rst_n |=> out_valid == '0)");
+    expect(checker).toContain('    $rose(mem_req) |-> ##[1:16] mem_ack)');
+    expect(checker).toContain('    $onehot(grant_oh))\n    else $error("grant_oh is not one-hot: %b", grant_oh);');
+    expect(checker).toContain('    $countones(ptr_gray ^ $past(ptr_gray)) <= 1)');
+
+    const [parsed] = parseDesignUnits(checker, 'stream_arb_sva.sv');
+    expect(parsed.name).toBe('stream_arb_sva');
+    expect(parsed.ports.every(port => port.direction === 'input')).toBe(true);
+    expect(parsed.ports.map(port => port.name)).toEqual(STREAM.ports.map(port => port.name));
+    expect(parsed.ports.find(port => port.name === 'out_keep')?.packed).toBe('[BYTES-1:0]');
+  });
+
+  it('should bind the checker into the module', () => {
+    const set = generateAssertions(FIFO, {
+      assertions: [{ template: 'fifo', push: 'wr_en', full: 'full' }, { template: 'onehot', signal: 'rdata', allowZero: true }],
+    });
+    const bind = content(set.files, 'sync_fifo_sva_bind.sv');
+
+    expect(bind).toContain('bind sync_fifo sync_fifo_sva u_sync_fifo_sva (\n  .clk   (clk),\n  .rst   (rst),\n  .wr_en (wr_en),\n');
+    expect(bind).not.toContain('rd_en');
+    // Active-high reset
+    expect(content(set.files, 'sync_fifo_sva.sv')).toContain(
+      '  a_wr_en_overflow: assert property (@(posedge clk) disable iff (rst)\n    wr_en |-> !full)'
+    );
+    expect(set.labels).toEqual(['a_wr_en_overflow', 'a_rdata_onehot0']);
+
+    expect(content(generateAssertions(STREAM).files, 'stream_arb_sva_bind.sv'))
+      .toContain('bind stream_arb stream_arb_sva #(.WIDTH(WIDTH), .PORTS(PORTS)) u_stream_arb_sva (');
+  });
+
+  it('should reject unusable specs', () => {
+    const generate = (spec: Parameters<typeof generateAssertions>[1]) => () => generateAssertions(FIFO, spec);
+
+    expect(generate({ assertions: [{ template: 'gray', signal: 'count' }] })).toThrow('count is not an input or output of sync_fifo');
+    expect(generate({ assertions: [{ template: 'req_ack', req: 'wr_en' }] })).toThrow('req_ack assertion needs ack');
+    expect(generate({ assertions: [{ template: 'req_ack', req: 'wr_en', ack: 'full', min: 4, max: 2 }] })).toThrow('latency bounds');
+    expect(generate({ assertions: [{ template: 'fifo', push: 'wr_en' }] })).toThrow('needs push and full, or pop and empty');
+    expect(generate({ assertions: [{ template: 'gray', signal: 'rdata' }, { template: 'gray', signal: 'rdata' }] }))
+      .toThrow('Duplicate assertion a_rdata_gray');
+    expect(generate({ clock: 'full' })).toThrow('full is not an input of sync_fifo');
+
+    const [counter] = parseDesignUnits('module counter (input logic clk, output logic [3:0] count_gray);\nendmodule\n', 'counter.sv');
+    expect(() => generateAssertions(counter, { assertions: [{ template: 'reset_value', signal: 'count_gray' }] }))
+      .toThrow('needs a reset');
+    expect(generateAssertions(counter).labels).toEqual(['a_count_gray_gray']);
+    const [adder] = parseDesignUnits('module adder (input logic [7:0] a, output logic [7:0] y);\nendmodule\n', 'adder.sv');
+    expect(() => generateAssertions(adder)).toThrow('adder has no clock input');
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import { SimulationResultClassifier, parseCocotbResults } from '../../rtl/tools/simulation/index.js';
+
+const COCOTB_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="results">
+  <testsuite name="all" package="all">
+    <testcase name="test_reset" classname="test_fifo" file="test_fifo.py" lineno="12" time="0.51" sim_time_ns="120.0" ratio_time="235.2"/>
+    <testcase name="test_overflow" classname="test_fifo" file="test_fifo.py" lineno="30" time="1.20" sim_time_ns="900.0">
+      <failure message="Test failed with RANDOM_SEED=1234">Traceback (most recent call last):
+  File "test_fifo.py", line 41, in test_overflow
+    assert dut.full.value == 1
+AssertionError</failure>
+    </testcase>
+    <testcase name="test_skip" classname="test_fifo" time="0">
+      <skipped/>
+    </testcase>
+  </testsuite>
+</testsuites>`;
+
+describe('SimulationResultClassifier', () => {
+  const classifier = new SimulationResultClassifier();
+
+  it('should pass on an explicit pass marker', () => {
+    const verdict = classifier.classify({ stdout: 'cycle 10\nTEST PASSED\n', exitCode: 0 });
+
+    expect(verdict.passed).toBe(true);
+    expect(verdict.status).toBe('pass');
+    expect(verdict.evidence).toEqual([{ kind: 'pass', line: 2, text: 'TEST PASSED' }]);
+  });
+
+  it('should not pass a silent testbench', () => {
+    const verdict = classifier.classify({ stdout: 'cycle 10\n', exitCode: 0 });
+
+    expect(verdict.passed).toBe(false);
+    expect(verdict.status).toBe('no-verdict');
+  });
+
+  it('should pass silent runs when requirePassMarker is disabled', () => {
+    const lenient = new SimulationResultClassifier({ requirePassMarker: false });
+    expect(lenient.classify({ stdout: 'done\n', exitCode: 0 }).passed).toBe(true);
+  });
+
+  it('should not treat an incidental "error:" substring as failure', () => {
+    const verdict = classifier.classify({ stdout: 'parity error: none detected\nTEST PASSED\n', exitCode: 0 });
+    expect(verdict.passed).toBe(true);
+  });
+
+  it('should fail on $fatal reports from different simulators', () => {
+    const reports = [
+      ['[150] %Fatal: tb.sv:42: Assertion failed in TOP.tb', 'assertion'],
+      ['FATAL: tb.v:42: bad state', 'fatal'],
+      ['** Fatal: (vsim-1) tb.sv(42)', 'fatal'],
+    ];
+    for (const [line, kind] of reports) {
+      const verdict = classifier.classify({ stdout: `TEST PASSED\n${line}\n`, exitCode: 0 });
+      expect(verdict.status).toBe('fail');
+      expect(verdict.evidence[0]).toMatchObject({ kind, line: 2 });
+    }
+    // Fatal assertions fail regardless of errorSeverity
+    const lenient = new SimulationResultClassifier({ errorSeverity: 'warning' });
+    expect(lenient.classify({ stdout: `TEST PASSED\n${reports[0][0]}\n`, exitCode: 0 }).passed).toBe(false);
+  });
+
+  it('should honor errorSeverity for $error reports', () => {
+    const output = { stdout: '[10] %Error: tb.sv:20: Assertion failed in TOP.tb\nTEST PASSED\n', exitCode: 0 };
+
+    expect(classifier.classify(output).passed).toBe(false);
+
+    const lenient = new SimulationResultClassifier({ errorSeverity: 'warning' });
+    const verdict = lenient.classify(output);
+    expect(verdict.passed).toBe(true);
+    expect(verdict.evidence).toContainEqual(expect.objectContaining({ kind: 'assertion', line: 1 }));
+    expect(lenient.classify({ stdout: 'ERROR: tb.v:20: bad state\nTEST PASSED\n', exitCode: 0 }).evidence)
+      .toContainEqual(expect.objectContaining({ kind: 'error', line: 1 }));
+  });
+
+  describe('assertions', () => {
+    it('should report assertion failures with file and line', () => {
+      const reports = [
+        '[50] %Error: fifo_sva.sv:42: Assertion failed in TOP.fifo.u_fifo_sva.a_push_overflow: push while full: FIFO overflow',
+        'xmsim: *E,ASRTST (./fifo_sva.sv,42): (time 50 NS) Assertion tb.dut.u_fifo_sva.a_push_overflow has failed',
+        '"fifo_sva.sv", 42: tb.dut.u_fifo_sva.a_push_overflow: started at 40ns failed at 50ns',
+      ];
+      for (const line of reports) {
+        const verdict = classifier.classify({ stdout: `${line}\nTEST PASSED\n`, exitCode: 0 });
+        expect(verdict.passed).toBe(false);
+        expect(verdict.assertions).toHaveLength(1);
+        expect(verdict.assertions![0]).toMatchObject({ file: expect.stringContaining('fifo_sva.sv'), line: 42 });
+        expect(verdict.assertions![0].scope).toContain('u_fifo_sva.a_push_overflow');
+        expect(verdict.evidence[0]).toMatchObject({ kind: 'assertion', line: 1 });
+      }
+
+      const verilator = classifier.classify({ stdout: reports[0], exitCode: 0 });
+      expect(verilator.assertions![0]).toEqual({
+        file: 'fifo_sva.sv',
+        line: 42,
+        scope: 'TOP.fifo.u_fifo_sva.a_push_overflow',
+        time: '50',
+        message: 'push while full: FIFO overflow',
+      });
+      expect(verilator.reason).toBe('assertion marker: TOP.fifo.u_fifo_sva.a_push_overflow failed at fifo_sva.sv:42: push while full: FIFO overflow');
+    });
+
+    it('should join Questa messages with the location on the next line', () => {
+      const stdout = [
+        '# ** Error: pop while empty: FIFO underflow',
+        '#    Time: 50 ns Started: 50 ns  Scope: tb.dut.u_fifo_sva.a_pop_underflow File: /proj/tb/fifo_sva.sv Line: 48',
+        '# TEST PASSED',
+      ].join('\n');
+      const verdict = classifier.classify({ stdout, exitCode: 0 });
+
+      expect(verdict.assertions).toEqual([{
+        file: '/proj/tb/fifo_sva.sv',
+        line: 48,
+        scope: 'tb.dut.u_fifo_sva.a_pop_underflow',
+        time: '50 ns',
+        message: 'pop while empty: FIFO underflow',
+      }]);
+      expect(verdict.evidence).toHaveLength(1);
+      expect(verdict.evidence[0]).toMatchObject({ kind: 'assertion', line: 2 });
+    });
+  });
+
+  it('should fail on a non-zero exit code without markers', () => {
+    const verdict = classifier.classify({ stdout: '', exitCode: 3 });
+    expect(verdict.reason).toContain('exited with code 3');
+  });
+
+  it('should report timeouts', () => {
+    expect(classifier.classify({ stdout: 'TEST PASSED', timedOut: true }).status).toBe('timeout');
+  });
+
+  it('should use configured pass/fail patterns', () => {
+    const custom = new SimulationResultClassifier({
+      passPatterns: ['^SIM_OK$'],
+      failPatterns: ['scoreboard mismatch'],
+      useDefaultPatterns: false,
+    });
+
+    expect(custom.classify({ stdout: 'SIM_OK\n', exitCode: 0 }).passed).toBe(true);
+    expect(custom.classify({ stdout: 'TEST PASSED\n', exitCode: 0 }).status).toBe('no-verdict');
+    expect(custom.classify({ stdout: 'Scoreboard MISMATCH at 40\nSIM_OK\n', exitCode: 0 }).passed).toBe(false);
+  });
+
+  it('should reject invalid patterns', () => {
+    expect(() => new SimulationResultClassifier({ passPatterns: ['('] })).toThrow(/Invalid pass\/fail pattern/);
+  });
+
+  describe('UVM', () => {
+    const summary = (errors: number, fatals: number) => [
+      '--- UVM Report Summary ---',
+      '',
+      '** Report counts by severity',
+      'UVM_INFO :   42',
+      'UVM_WARNING :    1',
+      `UVM_ERROR :    ${errors}`,
+      `UVM_FATAL :    ${fatals}`,
+    ].join('\n');
+
+    it('should pass on a clean report summary', () => {
+      const verdict = classifier.classify({ stdout: summary(0, 0), exitCode: 0 });
+
+      expect(verdict.passed).toBe(true);
+      expect(verdict.uvm).toEqual({ info: 42, warning: 1, error: 0, fatal: 0 });
+    });
+
+    it('should fail when the summary counts errors', () => {
+      const stdout = 'UVM_ERROR tb_scoreboard.sv(88) @ 1250: uvm_test_top.env.sb [SB] mismatch\n' + summary(1, 0);
+      const verdict = classifier.classify({ stdout, exitCode: 0 });
+
+      expect(verdict.passed).toBe(false);
+      expect(verdict.uvm?.error).toBe(1);
+      expect(verdict.evidence[0]).toMatchObject({ kind: 'uvm', line: 1 });
+    });
+  });
+
+  describe('cocotb', () => {
+    it('should parse results.xml test cases', () => {
+      const results = parseCocotbResults(COCOTB_XML);
+
+      expect(results).toMatchObject({ tests: 3, failures: 1, errors: 0, skipped: 1 });
+      expect(results.testCases[0]).toEqual({
+        name: 'test_reset',
+        classname: 'test_fifo',
+        duration: 0.51,
+        simTimeNs: 120,
+        status: 'passed',
+      });
+      expect(results.testCases[1].message).toBe('Test failed with RANDOM_SEED=1234');
+      expect(results.testCases[1].traceback).toContain('AssertionError');
+    });
+
+    it('should fail the verdict when cocotb tests fail', () => {
+      const verdict = classifier.classify({ stdout: '', exitCode: 0, cocotbResultsXml: COCOTB_XML });
+
+      expect(verdict.passed).toBe(false);
+      expect(verdict.evidence[0]).toMatchObject({ kind: 'cocotb', text: expect.stringContaining('test_overflow') });
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmodSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { delimiter, join } from 'path';
+import { tmpdir } from 'os';
+import { CocotbRunner } from '../../rtl/tools/simulation/cocotb.js';
+import { SimulationManager, SimulationResultClassifier } from '../../rtl/tools/simulation/index.js';
+import type { SimulationTool } from '../../rtl/tools/types.js';
+
+const RESULTS_XML = `<testsuites name="results">
+  <testsuite name="all" package="all">
+    <testcase name="test_push" classname="test_fifo" file="tb/test_fifo.py" lineno="12" time="0.41" sim_time_ns="1200.0" ratio_time="2900.1" />
+    <testcase name="test_overflow" classname="test_fifo" file="tb/test_fifo.py" lineno="30" time="0.20" sim_time_ns="640.0" ratio_time="3100.4">
+      <failure message="Test failed with RANDOM_SEED=42">Traceback (most recent call last):
+  File "tb/test_fifo.py", line 41, in test_overflow
+    assert dut.full.value == 1
+AssertionError</failure>
+    </testcase>
+  </testsuite>
+</testsuites>
+`;
+
+describe('cocotb runner', () => {
+  let dir: string;
+  let savedPath: string | undefined;
+
+  const write = (file: string, text: string, mode?: number) => {
+    writeFileSync(join(dir, file), text);
+    if (mode) chmodSync(join(dir, file), mode);
+  };
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `rtl-cocotb-${process.pid}-${Date.now()}`);
+    for (const sub of ['bin', 'rtl', 'tb', 'run']) {
+      mkdirSync(join(dir, sub), { recursive: true });
+    }
+    write('rtl/fifo.sv', 'module fifo; endmodule\n');
+    write('tb/test_fifo.py', 'import cocotb\n');
+    // Stub toolchain: make records its arguments and writes the results file
+    write('bin/cocotb-config', '#!/bin/sh\necho 1.9.2\n', 0o755);
+    write('bin/make', [
+      '#!/bin/sh',
+      'echo "$@" > make-args.txt',
+      'echo "PYTHONPATH=$PYTHONPATH"',
+      `cp "${join(dir, 'results.xml')}" "$COCOTB_RESULTS_FILE"`,
+      'echo "FAIL=1 PASS=1"',
+      '',
+    ].join('\n'), 0o755);
+    write('results.xml', RESULTS_XML);
+    savedPath = process.env.PATH;
+    process.env.PATH = `${join(dir, 'bin')}${delimiter}${savedPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = savedPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should run Makefile.sim with the sources and selected tests of the run', async () => {
+    const runner = new CocotbRunner({ simulator: 'verilator' });
+    expect((await runner.compile([join(dir, 'rtl/fifo.sv')])).success).toBe(true);
+    const plan = runner.planRun(`${join(dir, 'tb/test_fifo.py')},test_common`, ['+verbose'], {
+      workDir: join(dir, 'run'),
+      testcases: ['test_push', 'test_overflow'],
+      files: [join(dir, 'rtl/fifo.sv')],
+      sources: { includeDirs: ['/inc'], defines: { SIM: '' }, top: 'fifo_top' },
+    });
+
+    expect(plan).toMatchObject({
+      modules: ['test_fifo', 'test_common'],
+      testDirs: [join(dir, 'tb')],
+      toplevel: 'fifo_top',
+      resultsFile: join(dir, 'run', 'results.xml'),
+      makefile: undefined,
+    });
+    const command = runner.makeCommand(plan);
+    expect(command).toContain('make -f "$(cocotb-config --makefiles)/Makefile.sim" SIM=verilator TOPLEVEL_LANG=verilog TOPLEVEL=fifo_top');
+    expect(command).toContain(`VERILOG_SOURCES=${join(dir, 'rtl/fifo.sv')}`);
+    expect(command).toContain("COMPILE_ARGS='-I/inc -DSIM'");
+    expect(command).toContain('MODULE=test_fifo,test_common');
+    expect(command).toContain('TESTCASE=test_push,test_overflow PLUSARGS=+verbose WAVES=1');
+  });
+
+  it('should use the Makefile next to the test module when no sources are given', async () => {
+    write('tb/Makefile', 'SIM ?= icarus\n');
+    const runner = new CocotbRunner();
+    await runner.compile([]);
+    const plan = runner.planRun(join(dir, 'tb/test_fifo.py'), [], { workDir: join(dir, 'run') });
+
+    expect(plan.makefile).toBe(join(dir, 'tb/Makefile'));
+    expect(plan.toplevel).toBe('fifo');
+    expect(runner.makeCommand(plan)).toBe(
+      `make -C ${join(dir, 'tb')} MODULE=test_fifo SIM_BUILD=${join(dir, 'run/sim_build')} WAVES=1`
+    );
+  });
+
+  it('should generate a cocotb runner script', async () => {
+    const runner = new CocotbRunner({ flow: 'runner', waves: false });
+    const script = runner.generateRunnerScript(runner.planRun(join(dir, 'tb/test_fifo.py'), [], {
+      workDir: join(dir, 'run'),
+      testcases: ['test_push'],
+      files: [join(dir, 'rtl/fifo.sv')],
+    }));
+
+    expect(script).toContain('    from cocotb_tools.runner import get_runner');
+    expect(script).toContain('runner.test(\n    test_module=",".join(config["modules"]),');
+    expect(script).toContain('\\"testcases\\":[\\"test_push\\"]');
+    expect(script).toContain('\\"waves\\":false');
+  });
+
+  it('should report per-test results with failure tracebacks', async () => {
+    const runner = new CocotbRunner({ classifier: new SimulationResultClassifier() });
+    const result = await runner.simulate(join(dir, 'tb/test_fifo.py'), runner.seedArgs(42), {
+      workDir: join(dir, 'run'),
+      testcases: ['test_overflow'],
+      files: [join(dir, 'rtl/fifo.sv')],
+    });
+
+    expect(readFileSync(join(dir, 'run', 'make-args.txt'), 'utf8')).toContain('TESTCASE=test_overflow PLUSARGS=+ntb_random_seed=42');
+    expect(result.stdout).toContain(`PYTHONPATH=${join(dir, 'tb')}`);
+    expect(result.passed).toBe(false);
+    expect(result.verdict?.status).toBe('fail');
+    expect(result.verdict?.cocotb).toMatchObject({ tests: 2, failures: 1 });
+    expect(result.verdict?.cocotb?.testCases[0]).toMatchObject({ name: 'test_push', status: 'passed', duration: 0.41 });
+    expect(result.verdict?.cocotb?.testCases[1]).toMatchObject({
+      name: 'test_overflow',
+      status: 'failed',
+      simTimeNs: 640,
+      message: 'Test failed with RANDOM_SEED=42',
+    });
+    expect(result.verdict?.cocotb?.testCases[1].traceback).toContain('AssertionError');
+  });
+
+  it('should route Python testbenches to cocotb in the simulation manager', async () => {
+    const compiled: string[] = [];
+    const verilator: SimulationTool = {
+      run: async () => ({ success: true }),
+      isInstalled: async () => true,
+      getVersion: async () => '5.020',
+      compile: async () => {
+        compiled.push('verilator');
+        return { success: true };
+      },
+      simulate: async () => ({ success: true, passed: true }),
+    };
+    const manager = new SimulationManager();
+    manager.register('verilator', verilator);
+    manager.register('cocotb', new CocotbRunner());
+    manager.setPreferred('verilator');
+
+    const result = await manager.simulate([], join(dir, 'tb/test_fifo.py'), [], undefined, { workDir: join(dir, 'run') });
+
+    expect(compiled).toEqual([]);
+    expect(result.verdict?.cocotb?.tests).toBe(2);
+    expect(JSON.parse(readFileSync(join(dir, 'run', 'run.json'), 'utf8')).tool).toBe('cocotb');
+  });
+
+  it('should keep the sources of interleaved runs apart', async () => {
+    write('rtl/uart.sv', 'module uart; endmodule\n');
+    const runner = new CocotbRunner();
+    const runs = ['fifo', 'uart'];
+
+    // Both designs compiled before either run simulates
+    for (const name of runs) {
+      mkdirSync(join(dir, 'run', name));
+      expect((await runner.compile([join(dir, `rtl/${name}.sv`)])).success).toBe(true);
+    }
+    await Promise.all(runs.map(name => runner.simulate(join(dir, 'tb/test_fifo.py'), [], {
+      workDir: join(dir, 'run', name),
+      files: [join(dir, `rtl/${name}.sv`)],
+      sources: { top: name },
+    })));
+
+    for (const name of runs) {
+      const args = readFileSync(join(dir, 'run', name, 'make-args.txt'), 'utf8');
+      expect(args).toContain(`TOPLEVEL=${name} VERILOG_SOURCES=${join(dir, `rtl/${name}.sv`)} `);
+    }
+  });
+});
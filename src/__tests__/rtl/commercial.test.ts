@@ -0,0 +1,327 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmodSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { delimiter, join } from 'path';
+import { tmpdir } from 'os';
+import { SimulationManager, LintManager, detectLicenseError } from '../../rtl/tools/index.js';
+import { XrunSim } from '../../rtl/tools/simulation/xrun.js';
+import { VcsSim } from '../../rtl/tools/simulation/vcs.js';
+import { QuestaSim } from '../../rtl/tools/simulation/questa.js';
+import { SpyglassLint } from '../../rtl/tools/lint/spyglass.js';
+import { sourceArgs } from '../../rtl/sources/index.js';
+import { isInfrastructureError } from '../../rtl/workflow/regression.js';
+
+// Recorded tool logs, trimmed
+const LOGS: Record<string, string> = {
+  'xrun-version': 'TOOL:\txrun(64)\t23.09-s001\n',
+  'xrun-elaborate': [
+    'xrun(64): 23.09-s001: (c) Copyright 1995-2023 Cadence Design Systems, Inc.',
+    'file: rtl/fifo.sv',
+    '\tmodule worklib.fifo:sv',
+    '\t\terrors: 0, warnings: 0',
+    'xmelab: *W,DSEMEL: This SystemVerilog design will be simulated as per IEEE 1800-2009 SystemVerilog simulation semantics.',
+  ].join('\n'),
+  'xrun-pass': [
+    'xcelium> run',
+    '*** TEST PASSED ***',
+    'Simulation complete via $finish(1) at time 1250 NS + 0',
+    'xcelium> exit',
+  ].join('\n'),
+  'xrun-fail': [
+    'xcelium> run',
+    'xmsim: *E,ASRTST (./rtl/fifo_sva.sv,42): (time 450 NS) Assertion tb.dut.a_no_overflow has failed',
+    '*** TEST FAILED ***',
+  ].join('\n'),
+  'xrun-nolicense': [
+    'xrun(64): 23.09-s001: (c) Copyright 1995-2023 Cadence Design Systems, Inc.',
+    'xrun: *F,NOLICN: Unable to checkout license for the Xcelium simulator.',
+  ].join('\n'),
+  'vcs-version': 'vcs script version : U-2023.03-SP2\nCompiler version = VCS U-2023.03-SP2\n',
+  'vcs-compile': [
+    'Parsing design file \'rtl/fifo.sv\'',
+    'Error-[SE] Syntax error',
+    '  Following verilog source has syntax error :',
+    '  "rtl/fifo.sv", 12: token is \'endmodule\'',
+    '1 error',
+  ].join('\n'),
+  'simv-nolicense': [
+    'Chronologic VCS simulator copyright 1991-2023',
+    'Error: Failed to obtain a license for feature \'VCSRuntime_Net\'',
+    'FLEXnet Licensing error:-15,10. System Error: 111 "Connection refused"',
+  ].join('\n'),
+  'vsim-version': 'Questa Sim-64 vsim 2023.3 Simulator 2023.07 Jul 17 2023\n',
+  'vlog-fail': [
+    '-- Compiling module fifo',
+    '** Error: rtl/fifo.sv(12): near "endmodule": syntax error, unexpected endmodule.',
+    'End time: 10:42:01 on Oct 19,2026, Elapsed time: 0:00:00',
+    'Errors: 1, Warnings: 0',
+  ].join('\n'),
+  'vsim-pass': [
+    '# vsim -c -lib work top_opt',
+    '# *** TEST PASSED ***',
+    '# ** Note: $finish    : tb/tb_fifo.sv(40)',
+  ].join('\n'),
+  'vsim-error': [
+    '# vsim -c -lib work top_opt',
+    '# ** Error: tb.sv(20): data mismatch',
+    '# TEST PASSED',
+  ].join('\n'),
+  'vsim-uvm': [
+    '# UVM_INFO @ 0: reporter [RNTST] Running test fifo_test...',
+    '# UVM_ERROR @ 120: uvm_test_top.env.sb [SB] data mismatch',
+    '# --- UVM Report Summary ---',
+    '# UVM_INFO :    1',
+    '# UVM_WARNING :    0',
+    '# UVM_ERROR :    1',
+    '# UVM_FATAL :    0',
+  ].join('\n'),
+  'spyglass-version': 'SpyGlass Predictive Analyzer(R) - Version SpyGlass_vT-2022.06\n',
+  'moresimple': [
+    '##############################################################################',
+    '#   ID    Rule         Alias  Severity  File          Line  Wt   Message',
+    '##############################################################################',
+    '[2]       STX_VE_505          Error     rtl/fifo.sv   20    5    Syntax error near \'endmodule\'',
+    '[3A]      W240                Warning   rtl/fifo.sv   12    2    Input \'en\' declared but not read',
+    '[1]       W528         W528   Info      rtl/fifo.sv   8     1    Variable \'count\' set but not read',
+  ].join('\n'),
+};
+
+describe('Commercial tool adapters', () => {
+  let dir: string;
+  let savedPath: string | undefined;
+
+  const write = (file: string, content: string, mode?: number) => {
+    mkdirSync(join(dir, file, '..'), { recursive: true });
+    writeFileSync(join(dir, file), content);
+    if (mode) chmodSync(join(dir, file), mode);
+  };
+
+  const calls = () => readFileSync(join(dir, 'calls.txt'), 'utf8').trim().split('\n');
+
+  /** Stub recording its call; "log <name>" prints a recorded log */
+  const stub = (file: string, body: string[]) => write(file, [
+    '#!/bin/sh',
+    `echo "$(basename "$0") $@" >> "${join(dir, 'calls.txt')}"`,
+    `log() { cat "${join(dir, 'logs')}/$1.log"; }`,
+    ...body,
+    '',
+  ].join('\n'), 0o755);
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `rtl-commercial-${process.pid}-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+    for (const [name, log] of Object.entries(LOGS)) {
+      write(`logs/${name}.log`, `${log}\n`);
+    }
+    write('rtl/fifo.sv', 'module fifo; endmodule\n');
+    write('tb/tb_fifo.sv', 'module tb_fifo; fifo dut(); endmodule\n');
+    write('vsim.mode', 'pass');
+    mkdirSync(join(dir, 'run'));
+
+    stub('cadence/bin/xrun', [
+      `echo "$CDS_LIC_FILE" > "${join(dir, 'env.txt')}"`,
+      'case "$1" in',
+      '  -version) log xrun-version ;;',
+      `  -elaborate) if [ -e "${join(dir, 'nolicense')}" ]; then log xrun-nolicense; exit 1; fi; log xrun-elaborate ;;`,
+      `  -R) log "xrun-$(cat "${join(dir, 'xrun.mode')}")"; [ "$(cat "${join(dir, 'xrun.mode')}")" = pass ] ;;`,
+      'esac',
+    ]);
+    stub('bin/vcs', [
+      'case "$1" in',
+      '  -ID) log vcs-version ;;',
+      `  *) if [ -e "${join(dir, 'vcs-error')}" ]; then log vcs-compile; exit 1; fi`,
+      '     mkdir -p "$(dirname "$4")"',
+      `     printf '#!/bin/sh\\necho "simv $*" >> "${join(dir, 'calls.txt')}"\\ncat "${join(dir, 'logs')}/simv-nolicense.log"\\nexit 1\\n' > "$4"`,
+      '     chmod +x "$4" ;;',
+      'esac',
+    ]);
+    stub('siemens/bin/vsim', [`case "$1" in -version) log vsim-version ;; *) log "vsim-$(cat "${join(dir, 'vsim.mode')}")" ;; esac`]);
+    stub('siemens/bin/vlib', ['mkdir -p "$1"']);
+    stub('siemens/bin/vlog', [`if [ -e "${join(dir, 'vlog-error')}" ]; then log vlog-fail; exit 2; fi`]);
+    stub('siemens/bin/vopt', []);
+    stub('bin/spyglass', [
+      'case "$1" in',
+      '  -version) log spyglass-version ;;',
+      `  *) wd=$(dirname "$2"); cp "$2" "${join(dir, 'lint.prj')}"`,
+      '     mkdir -p "$wd/lint/lint/lint_rtl/spyglass_reports"',
+      '     log moresimple > "$wd/lint/lint/lint_rtl/spyglass_reports/moresimple.rpt" ;;',
+      'esac',
+    ]);
+
+    savedPath = process.env.PATH;
+    process.env.PATH = `${join(dir, 'bin')}${delimiter}${savedPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = savedPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should compile once and run the xrun snapshot with the configured executable, args and env', async () => {
+    const xrun = new XrunSim({
+      config: {
+        executable: join(dir, 'cadence/bin/xrun'),
+        args: ['-sv'],
+        runArgs: ['-access', '+r'],
+        env: { CDS_LIC_FILE: '5280@lic1' },
+      },
+    });
+    expect(await xrun.isInstalled()).toBe(true);
+    expect(await xrun.getVersion()).toBe('23.09-s001');
+
+    const manager = new SimulationManager();
+    manager.register('xrun', xrun);
+    manager.setSources(async () => ({
+      files: [join(dir, 'rtl/fifo.sv'), join(dir, 'tb/tb_fifo.sv')],
+      includeDirs: [join(dir, 'rtl')],
+      defines: { SIM: '', DEPTH: '8' },
+      libraryDirs: [],
+      libraryFiles: [],
+      libraryExtensions: [],
+      origins: [],
+      ignored: [],
+      top: 'tb_fifo',
+    }));
+
+    write('xrun.mode', 'pass');
+    const passed = await manager.simulate([], 'tb_fifo', ['+VERBOSE'], undefined, { workDir: join(dir, 'run'), seed: 7 });
+    expect(passed).toMatchObject({ success: true, passed: true, verdict: { status: 'pass' } });
+
+    const library = join(dir, 'run/xcelium.d');
+    expect(calls().filter(line => !line.startsWith('xrun -version'))).toEqual([
+      `xrun -elaborate -xmlibdirname ${library} -l ${join(dir, 'run/xrun_compile.log')} +incdir+${join(dir, 'rtl')} +define+SIM +define+DEPTH=8 -top tb_fifo -sv ${join(dir, 'rtl/fifo.sv')} ${join(dir, 'tb/tb_fifo.sv')}`,
+      `xrun -R -xmlibdirname ${library} -l ${join(dir, 'run/xrun.log')} -access +r +VERBOSE -svseed 7`,
+    ]);
+    expect(readFileSync(join(dir, 'env.txt'), 'utf8').trim()).toBe('5280@lic1');
+
+    write('xrun.mode', 'fail');
+    const failed = await xrun.simulate('tb_fifo', [], { executable: library });
+    expect(failed.passed).toBe(false);
+    expect(failed.licenseError).toBeUndefined();
+    expect(failed.verdict?.assertions?.[0]).toMatchObject({ file: './rtl/fifo_sva.sv', line: 42 });
+  });
+
+  it('should report license failures without a verdict, triage or design errors', async () => {
+    const manager = new SimulationManager();
+    manager.register('xrun', new XrunSim({ config: { executable: join(dir, 'cadence/bin/xrun') } }));
+    manager.register('vcs', new VcsSim());
+    manager.setTriage({ searchDirs: [dir] });
+    const files = [join(dir, 'rtl/fifo.sv'), join(dir, 'tb/tb_fifo.sv')];
+
+    // License checked out at compile time
+    write('nolicense', '');
+    const compile = await manager.simulate(files, 'tb_fifo', [], 'xrun', { workDir: join(dir, 'run') });
+    expect(compile).toMatchObject({
+      success: false,
+      passed: false,
+      licenseError: 'xrun: *F,NOLICN: Unable to checkout license for the Xcelium simulator.',
+      errors: ['License checkout failed: xrun: *F,NOLICN: Unable to checkout license for the Xcelium simulator.'],
+    });
+    expect(compile.verdict).toBeUndefined();
+    expect(isInfrastructureError(compile)).toBe(true);
+
+    // License checked out by simv at run time
+    const run = await manager.simulate(files, 'tb_fifo', [], 'vcs', { workDir: join(dir, 'run'), seed: 3 });
+    expect(run.licenseError).toBe('Error: Failed to obtain a license for feature \'VCSRuntime_Net\'');
+    expect(run.verdict).toBeUndefined();
+    expect(run.triage).toBeUndefined();
+    expect(calls()).toContain(`simv -l ${join(dir, 'run/simv.log')} +ntb_random_seed=3`);
+
+    // Design errors stay design errors
+    write('vcs-error', '');
+    const syntax = await new VcsSim().compile(files, { workDir: join(dir, 'run') });
+    expect(syntax).toMatchObject({ success: false, errors: ['Error-[SE] Syntax error'] });
+    expect(syntax.licenseError).toBeUndefined();
+
+    expect(detectLicenseError('# ** Fatal: Unable to checkout a license. Make sure your license file environment variable is set')).toBe(
+      '** Fatal: Unable to checkout a license. Make sure your license file environment variable is set'
+    );
+    expect(detectLicenseError('** Error: rtl/license_check.sv(4): undeclared identifier')).toBeUndefined();
+  });
+
+  it('should compile with vlib/vlog/vopt next to vsim and run the optimized top', async () => {
+    const questa = new QuestaSim({
+      config: { executable: join(dir, 'siemens/bin/vsim'), args: ['-sv'], elaborateArgs: ['+acc'] },
+    });
+    expect(await questa.getVersion()).toBe('2023.3');
+
+    const files = [join(dir, 'rtl/fifo.sv'), join(dir, 'tb/tb_fifo.sv')];
+    const sources = { includeDirs: [join(dir, 'rtl')], top: 'tb_fifo' };
+    const library = join(dir, 'run/work');
+    const compiled = await questa.compile(files, { workDir: join(dir, 'run'), sources });
+    expect(compiled).toMatchObject({ success: true, executable: library });
+
+    const result = await questa.simulate('tb/tb_fifo.sv', ['-sv_seed', '5'], { sources });
+    expect(result).toMatchObject({ success: true, passed: true });
+    expect(calls().slice(1)).toEqual([
+      `vlib ${library}`,
+      `vlog -work ${library} -l ${join(dir, 'run/vlog.log')} +incdir+${join(dir, 'rtl')} -sv ${files.join(' ')}`,
+      `vopt -work ${library} tb_fifo -o top_opt +acc`,
+      `vsim -c -lib ${library} top_opt -do run -all; quit -f -l ${join(dir, 'run/vsim.log')} -sv_seed 5`,
+    ]);
+
+    write('vlog-error', '');
+    const failed = await questa.compile(files, { workDir: join(dir, 'run') });
+    expect(failed).toMatchObject({
+      success: false,
+      errors: ['** Error: rtl/fifo.sv(12): near "endmodule": syntax error, unexpected endmodule.'],
+    });
+  });
+
+  it('should classify failures in the vsim transcript', async () => {
+    const questa = new QuestaSim({ config: { executable: join(dir, 'siemens/bin/vsim') } });
+    const files = [join(dir, 'rtl/fifo.sv'), join(dir, 'tb/tb_fifo.sv')];
+    const compiled = await questa.compile(files, { workDir: join(dir, 'run') });
+    expect(compiled.success).toBe(true);
+
+    write('vsim.mode', 'error');
+    const error = await questa.simulate('tb/tb_fifo.sv');
+    expect(error).toMatchObject({
+      passed: false,
+      verdict: { status: 'fail', reason: 'error marker: ** Error: tb.sv(20): data mismatch' },
+    });
+
+    write('vsim.mode', 'uvm');
+    const uvm = await questa.simulate('tb/tb_fifo.sv');
+    expect(uvm).toMatchObject({
+      passed: false,
+      verdict: { status: 'fail', uvm: { info: 1, warning: 0, error: 1, fatal: 0 } },
+    });
+    expect(uvm.verdict?.evidence[0].text).toBe('UVM_ERROR @ 120: uvm_test_top.env.sb [SB] data mismatch');
+  });
+
+  it('should lint with spyglass and read violations from moresimple.rpt', async () => {
+    const manager = new LintManager();
+    manager.register('spyglass', new SpyglassLint());
+    manager.setSources(async () => ({
+      files: [join(dir, 'rtl/fifo.sv')],
+      includeDirs: [join(dir, 'rtl')],
+      defines: { SYNTHESIS: '' },
+      libraryDirs: [],
+      libraryFiles: [],
+      libraryExtensions: [],
+      origins: [],
+      ignored: [],
+      top: 'fifo',
+    }));
+
+    const result = await manager.lint([]);
+    expect(result.success).toBe(false);
+    expect(result.lintErrors).toEqual([
+      { file: 'rtl/fifo.sv', line: 20, code: 'STX_VE_505', message: 'Syntax error near \'endmodule\'', severity: 'error' },
+    ]);
+    expect(result.warnings).toEqual([
+      { file: 'rtl/fifo.sv', line: 12, code: 'W240', message: 'Input \'en\' declared but not read', severity: 'warning' },
+      { file: 'rtl/fifo.sv', line: 8, code: 'W528', message: 'Variable \'count\' set but not read', severity: 'info' },
+    ]);
+
+    const project = readFileSync(join(dir, 'lint.prj'), 'utf8');
+    expect(project).toContain(`read_file -type verilog {${join(dir, 'rtl/fifo.sv')}}`);
+    expect(project).toContain(`set_option incdir {${join(dir, 'rtl')}}`);
+    expect(project).toContain('set_option define {SYNTHESIS}');
+    expect(project).toContain('set_option top fifo');
+    expect(calls()[1]).toMatch(/^spyglass -project \S+\/lint\.prj -batch -goals lint\/lint_rtl$/);
+
+    expect(sourceArgs({ libraryDirs: ['ip'], libraryFiles: ['cells.v'], libraryExtensions: ['.v', '.sv'] }, 'plusargs'))
+      .toEqual(['-y', 'ip', '-v', 'cells.v', '+libext+.v+.sv']);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { tmpdir } from 'os';
+import {
+  loadRTLConfig,
+  validateRTLConfig,
+  resolveToolPreference,
+  findRTLConfigFile,
+  RTLConfigError,
+  DEFAULT_RTL_CONFIG,
+} from '../../rtl/config/index.js';
+
+describe('RTL config', () => {
+  let testDir: string;
+  let userConfig: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `rtl-config-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    userConfig = join(testDir, 'user-rtl-config.json');
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  describe('validateRTLConfig', () => {
+    it('should accept the default config', () => {
+      expect(validateRTLConfig(DEFAULT_RTL_CONFIG)).toEqual({ valid: true, errors: [] });
+    });
+
+    it('should report dotted paths for nested errors', () => {
+      const result = validateRTLConfig({
+        ...DEFAULT_RTL_CONFIG,
+        tools: { lint: { preferred: 42 } },
+      });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual({ path: 'tools.lint.preferred', message: 'must be string' });
+    });
+
+    it('should report unknown and missing keys by name', () => {
+      const { paths: _paths, ...noPaths } = DEFAULT_RTL_CONFIG;
+      const result = validateRTLConfig({ ...noPaths, tols: {} });
+
+      expect(result.errors).toContainEqual({ path: 'paths', message: 'is required' });
+      expect(result.errors).toContainEqual({ path: 'tols', message: 'is not a recognized option' });
+    });
+
+    it('should accept configs generated from the rtl-init template', () => {
+      const templatePath = join(
+        dirname(fileURLToPath(import.meta.url)),
+        '../../../skills/rtl-init/templates/.rtl-config.json.template'
+      );
+      const config = JSON.parse(
+        readFileSync(templatePath, 'utf8')
+          .replace('{{PROJECT_NAME}}', 'my_fifo')
+          .replace('{{LANGUAGE}}', 'verilog')
+          .replace(/\{\{\w+_TOOL\}\}/g, 'verilator')
+      );
+
+      expect(validateRTLConfig(config)).toEqual({ valid: true, errors: [] });
+      expect(config.language).toBe('verilog');
+    });
+  });
+
+  describe('loadRTLConfig', () => {
+    it('should return defaults when no config files exist', async () => {
+      const config = await loadRTLConfig(testDir, { userConfigPath: null });
+      expect(config).toEqual(DEFAULT_RTL_CONFIG);
+    });
+
+    it('should deep-merge project config over defaults', async () => {
+      writeFileSync(join(testDir, '.rtl-config.json'), JSON.stringify({
+        tools: { simulation: { preferred: 'iverilog' } },
+      }));
+
+      const config = await loadRTLConfig(testDir, { userConfigPath: null });
+
+      expect(config.tools.simulation?.preferred).toBe('iverilog');
+      expect(config.tools.simulation?.coverage?.enabled).toBe(true);
+      expect(config.tools.lint?.preferred).toBe('verilator');
+    });
+
+    it('should layer project config over user config', async () => {
+      writeFileSync(userConfig, JSON.stringify({
+        tools: { lint: { preferred: 'slang' }, synthesis: { preferred: 'yosys', fallback: 'dc' } },
+      }));
+      writeFileSync(join(testDir, 'rtl.config.json'), JSON.stringify({
+        tools: { lint: { preferred: 'verible' } },
+      }));
+
+      const config = await loadRTLConfig(testDir, { userConfigPath: userConfig });
+
+      expect(config.tools.lint?.preferred).toBe('verible');
+      expect(config.tools.synthesis?.fallback).toBe('dc');
+    });
+
+    it('should prefer .rtl-config.json over rtl.config.json', () => {
+      writeFileSync(join(testDir, '.rtl-config.json'), '{}');
+      writeFileSync(join(testDir, 'rtl.config.json'), '{}');
+
+      expect(findRTLConfigFile(testDir)).toBe(join(testDir, '.rtl-config.json'));
+    });
+
+    it('should allow comments in config files', async () => {
+      writeFileSync(join(testDir, '.rtl-config.json'), '{\n  // Verilog-2005 project\n  "language": "verilog",\n}');
+
+      const config = await loadRTLConfig(testDir, { userConfigPath: null });
+      expect(config.language).toBe('verilog');
+    });
+
+    it('should throw RTLConfigError naming the file and path', async () => {
+      const configPath = join(testDir, '.rtl-config.json');
+      writeFileSync(configPath, JSON.stringify({ tools: { simulation: { coverage: { enabled: 'yes' } } } }));
+
+      const error = await loadRTLConfig(testDir, { userConfigPath: null }).catch(e => e);
+
+      expect(error).toBeInstanceOf(RTLConfigError);
+      expect(error.source).toBe(configPath);
+      expect(error.issues).toContainEqual({
+        path: 'tools.simulation.coverage.enabled',
+        message: 'must be boolean',
+      });
+      expect(error.message).toContain(configPath);
+    });
+
+    it('should throw on malformed JSON', async () => {
+      writeFileSync(join(testDir, '.rtl-config.json'), '{ "language": ');
+
+      await expect(loadRTLConfig(testDir, { userConfigPath: null })).rejects.toThrow(RTLConfigError);
+    });
+
+    it('should throw when an explicit config path does not exist', async () => {
+      await expect(
+        loadRTLConfig(testDir, { configPath: 'missing.json', userConfigPath: null })
+      ).rejects.toThrow(/not found/);
+    });
+  });
+
+  describe('resolveToolPreference', () => {
+    it('should return the first installed candidate', () => {
+      expect(resolveToolPreference(['iverilog', 'verilator'], 'vcs', 'iverilog', 'verilator')).toBe('iverilog');
+    });
+
+    it('should skip undefined candidates and flatten lists', () => {
+      expect(resolveToolPreference(['svls'], undefined, ['verible', 'svls'])).toBe('svls');
+    });
+
+    it('should return undefined when nothing is installed', () => {
+      expect(resolveToolPreference([], 'verilator')).toBeUndefined();
+    });
+  });
+});
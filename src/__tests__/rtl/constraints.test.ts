@@ -0,0 +1,342 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  ConstraintsError,
+  parseConstraints,
+  loadConstraints,
+  validateConstraints,
+  parseNetlistPorts,
+  toSdc,
+  toTimingResult,
+  generateNextpnrClockScript,
+  SynthesisManager,
+  type SynthesisTool,
+  type SynthesisRunOptions,
+} from '../../rtl/tools/index.js';
+import type { TimingPath } from '../../rtl/types.js';
+
+const SDC = `# Two clock domains
+create_clock -name sys_clk -period 10 [get_ports clk]
+create_clock -name fast_clk -period 2.5 -waveform {0 1.25} \\
+  [get_ports {pll_clk}]
+create_clock -name vclk -period 20
+
+set_input_delay 2 -clock sys_clk [get_ports {din[*] valid}]
+set_input_delay -clock [get_clocks fast_clk] -max 0.5 [get_ports ready]
+set_output_delay 1.5 -clock sys_clk [all_outputs]
+
+set_false_path -from [get_clocks sys_clk] -to [get_clocks fast_clk]
+set_multicycle_path 2 -setup -from [get_ports din[0]] -to [get_cells acc_reg*]; set_load 0.1 [all_outputs]
+`;
+
+const XDC = `create_clock -period 8.000 -name clk_125 -waveform {0.000 4.000} [get_ports sys_clk_p]
+set_property PACKAGE_PIN E3 [get_ports sys_clk_p]
+set_property IOSTANDARD LVCMOS33 [get_ports {led[*]}]
+set_output_delay -clock [get_clocks clk_125] 1.000 [get_ports {led[*]}]
+`;
+
+const PORTS = {
+  inputs: ['clk', 'pll_clk', 'din', 'valid', 'ready'],
+  outputs: ['dout', 'busy'],
+  inouts: [],
+};
+
+describe('Timing constraints', () => {
+  describe('parseConstraints', () => {
+    it('should read clocks, I/O delays and exceptions from SDC', () => {
+      const constraints = parseConstraints(SDC, 'top.sdc');
+
+      expect(constraints.clocks).toEqual([
+        { file: 'top.sdc', line: 2, name: 'sys_clk', period: 10, ports: ['clk'] },
+        { file: 'top.sdc', line: 3, name: 'fast_clk', period: 2.5, waveform: [0, 1.25], ports: ['pll_clk'] },
+        { file: 'top.sdc', line: 5, name: 'vclk', period: 20, ports: [] },
+      ]);
+      expect(constraints.inputDelays).toEqual([
+        { file: 'top.sdc', line: 7, clock: 'sys_clk', delay: 2, objects: { kind: 'ports', names: ['din[*]', 'valid'] } },
+        {
+          file: 'top.sdc', line: 8, clock: 'fast_clk', delay: 0.5, minMax: 'max',
+          objects: { kind: 'ports', names: ['ready'] },
+        },
+      ]);
+      expect(constraints.outputDelays[0].objects).toEqual({ kind: 'all_outputs', names: [] });
+      expect(constraints.falsePaths).toEqual([{
+        file: 'top.sdc', line: 11,
+        from: { kind: 'clocks', names: ['sys_clk'] },
+        to: { kind: 'clocks', names: ['fast_clk'] },
+        through: undefined,
+      }]);
+      expect(constraints.multicyclePaths[0]).toMatchObject({
+        line: 12,
+        multiplier: 2,
+        setup: true,
+        from: { kind: 'ports', names: ['din[0]'] },
+        to: { kind: 'cells', names: ['acc_reg*'] },
+      });
+      expect(constraints.ignored).toEqual(['top.sdc:12: set_load']);
+    });
+
+    it('should read XDC and skip physical properties', () => {
+      const constraints = parseConstraints(XDC, 'top.xdc');
+
+      expect(constraints.clocks).toEqual([
+        { file: 'top.xdc', line: 1, name: 'clk_125', period: 8, waveform: [0, 4], ports: ['sys_clk_p'] },
+      ]);
+      expect(constraints.outputDelays[0]).toMatchObject({ clock: 'clk_125', delay: 1, objects: { names: ['led[*]'] } });
+      expect(constraints.ignored).toEqual([]);
+    });
+
+    it('should report every malformed command with its line', () => {
+      const text = [
+        'create_clock [get_ports clk]',
+        'create_clock -period 5 -name clk [get_ports clk]',
+        'create_clock -period 5 -name clk [get_ports clk2]',
+        'set_input_delay 1 [get_ports a]',
+        'set_false_path',
+        'set_multicycle_path x -to [get_pins r/D]',
+        'set_output_delay 1 -clock clk [get_wires b]',
+      ].join('\n');
+
+      try {
+        parseConstraints(text, 'bad.sdc');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ConstraintsError);
+        expect((error as ConstraintsError).issues).toEqual([
+          'bad.sdc:1: create_clock: -period must be a number',
+          'bad.sdc:4: set_input_delay: -clock is required',
+          'bad.sdc:5: set_false_path: expected -from, -through or -to',
+          'bad.sdc:6: set_multicycle_path: path multiplier must be a number',
+          'bad.sdc:7: set_output_delay: unsupported object query [get_wires b]',
+          "bad.sdc:3: create_clock: clock 'clk' already defined at line 2",
+        ]);
+      }
+    });
+  });
+
+  describe('loadConstraints', () => {
+    let testDir: string;
+
+    beforeEach(() => {
+      testDir = join(tmpdir(), `rtl-constraints-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      mkdirSync(testDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should merge SDC and XDC files', async () => {
+      writeFileSync(join(testDir, 'top.sdc'), SDC);
+      writeFileSync(join(testDir, 'board.xdc'), XDC);
+
+      const constraints = await loadConstraints([join(testDir, 'top.sdc'), join(testDir, 'board.xdc')]);
+
+      expect(constraints.clocks.map(clock => clock.name)).toEqual(['sys_clk', 'fast_clk', 'vclk', 'clk_125']);
+      expect(constraints.files).toEqual([join(testDir, 'top.sdc'), join(testDir, 'board.xdc')]);
+    });
+
+    it('should reject clocks redefined in another file and missing files', async () => {
+      writeFileSync(join(testDir, 'a.sdc'), 'create_clock -period 10 [get_ports clk]\n');
+      writeFileSync(join(testDir, 'b.sdc'), '\ncreate_clock -period 5 [get_ports clk]\n');
+
+      await expect(loadConstraints([join(testDir, 'a.sdc'), join(testDir, 'b.sdc'), join(testDir, 'c.sdc')]))
+        .rejects.toMatchObject({
+          issues: [
+            expect.stringContaining('c.sdc: ENOENT'),
+            `${join(testDir, 'b.sdc')}:2: create_clock: clock 'clk' already defined at ${join(testDir, 'a.sdc')}:1`,
+          ],
+        });
+    });
+  });
+
+  describe('validateConstraints', () => {
+    it('should accept constraints matching the design ports', () => {
+      expect(validateConstraints(parseConstraints(SDC, 'top.sdc'), PORTS)).toEqual([]);
+    });
+
+    it('should flag unknown ports, wrong directions and undefined clocks', () => {
+      const constraints = parseConstraints([
+        'create_clock -period 10 [get_ports clk_in]',
+        'create_clock -period 10 -name sys [get_ports clk]',
+        'set_input_delay 1 -clock sys [get_ports dout]',
+        'set_output_delay 1 -clock core_clk [get_ports busy]',
+        'set_false_path -from [get_clocks sys] -to [get_clocks io_clk]',
+      ].join('\n'), 'top.sdc');
+
+      expect(validateConstraints(constraints, PORTS)).toEqual([
+        "top.sdc:1: create_clock: port 'clk_in' not found in design",
+        "top.sdc:3: set_input_delay: port 'dout' is not an input",
+        "top.sdc:4: set_output_delay: clock 'core_clk' is not defined by create_clock",
+        "top.sdc:5: set_false_path: clock 'io_clk' is not defined by create_clock",
+      ]);
+    });
+  });
+
+  describe('parseNetlistPorts', () => {
+    it('should read non-ANSI netlist ports of the top module', () => {
+      const netlist = [
+        'module sub(a, y);', '  input a;', '  output y;', 'endmodule',
+        'module top(clk, din, dout);', '  input clk;', '  wire clk;', '  input [7:0] din;',
+        '  output reg [7:0] dout;', 'endmodule',
+      ].join('\n');
+
+      expect(parseNetlistPorts(netlist, 'top')).toEqual({ inputs: ['clk', 'din'], outputs: ['dout'], inouts: [] });
+      expect(parseNetlistPorts(netlist, 'sub').inputs).toEqual(['a']);
+    });
+
+    it('should read ANSI port lists', () => {
+      const rtl = `module fifo #(parameter W = 8) (
+  input  wire         clk, rst_n, // clock and reset
+  input  logic [W-1:0] wdata,
+  output logic [W-1:0] rdata,
+  inout  wire          sda
+);
+endmodule`;
+
+      expect(parseNetlistPorts(rtl)).toEqual({
+        inputs: ['clk', 'rst_n', 'wdata'],
+        outputs: ['rdata'],
+        inouts: ['sda'],
+      });
+    });
+  });
+
+  describe('backends', () => {
+    it('should write supported constraints back as SDC', () => {
+      const sdc = toSdc(parseConstraints(SDC, 'top.sdc'));
+
+      expect(sdc).toContain('create_clock -name fast_clk -period 2.5 -waveform {0 1.25} [get_ports pll_clk]');
+      expect(sdc).toContain('create_clock -name vclk -period 20\n');
+      expect(sdc).toContain('set_input_delay 2 -clock sys_clk -add_delay [get_ports {din[*] valid}]');
+      expect(sdc).toContain('set_output_delay 1.5 -clock sys_clk -add_delay [all_outputs]');
+      expect(sdc).toContain('set_false_path -from [get_clocks sys_clk] -to [get_clocks fast_clk]');
+      expect(sdc).toContain('set_multicycle_path 2 -setup -from [get_ports {din[0]}] -to [get_cells acc_reg*]');
+      expect(sdc).not.toContain('set_load');
+      expect(parseConstraints(sdc).clocks).toHaveLength(3);
+    });
+
+    it('should brace bus ports in SDC', () => {
+      const sdc = toSdc(parseConstraints([
+        'create_clock -name sys_clk -period 10 [get_ports clk]',
+        'set_input_delay 2 -clock sys_clk [get_ports {din[*]}]',
+        'set_output_delay 1 -clock sys_clk [get_ports dout[3]]',
+      ].join('\n')));
+
+      expect(sdc).toContain('set_input_delay 2 -clock sys_clk -add_delay [get_ports {din[*]}]');
+      expect(sdc).toContain('set_output_delay 1 -clock sys_clk -add_delay [get_ports {dout[3]}]');
+      expect(sdc).toContain('create_clock -name sys_clk -period 10 [get_ports clk]');
+      expect(parseConstraints(sdc).inputDelays[0].objects).toEqual({ kind: 'ports', names: ['din[*]'] });
+    });
+
+    it('should constrain each clock port for nextpnr', () => {
+      expect(generateNextpnrClockScript([
+        { name: 'sys_clk', port: 'clk', period: 10 },
+        { name: 'fast_clk', port: 'pll_clk', period: 3 },
+      ])).toBe('# Generated by oh-my-claude-rtl\nctx.addClock("clk", 100)  # sys_clk\nctx.addClock("pll_clk", 333.333)  # fast_clk\n');
+    });
+
+    it('should summarize timing per clock', () => {
+      const path = (clock: string, slack: number): TimingPath => ({
+        startpoint: `${clock}_a`, endpoint: `${clock}_b`, clock, delay: 1, slack, stages: [],
+      });
+      const timing = toTimingResult(
+        [path('sys_clk', 6), path('fast_clk', -0.5), path('sys_clk', 4)],
+        [{ name: 'sys_clk', period: 10 }, { name: 'fast_clk', period: 2.5 }, { name: 'vclk', period: 20 }],
+        'opensta'
+      );
+
+      expect(timing.clocks).toEqual([
+        { name: 'sys_clk', period: 10, slack: 4, frequency: 166.667, met: true },
+        { name: 'fast_clk', period: 2.5, slack: -0.5, frequency: 333.333, met: false },
+      ]);
+      expect(timing).toMatchObject({
+        slack: -0.5,
+        frequency: 333.333,
+        met: false,
+        clock: { name: 'fast_clk', period: 2.5 },
+        criticalPath: { start: 'fast_clk_a', end: 'fast_clk_b' },
+      });
+    });
+  });
+
+  describe('SynthesisManager', () => {
+    let testDir: string;
+
+    class FakeSynth implements SynthesisTool {
+      seen?: unknown;
+
+      async isInstalled() { return true; }
+      async getVersion() { return '1.0'; }
+      async run() { return { success: true }; }
+
+      async synthesize(_design: string[], constraints?: unknown, options?: SynthesisRunOptions) {
+        this.seen = constraints;
+        const netlist = join(options?.workDir ?? testDir, 'synthesized.v');
+        writeFileSync(netlist, 'module top(clk, din, dout);\n  input clk;\n  input din;\n  output dout;\nendmodule\n');
+        return { success: true, netlist, top: 'top' };
+      }
+
+      async analyzeTiming() {
+        return { criticalPath: { start: 'input', end: 'output', delay: 0 }, slack: 0, frequency: 0 };
+      }
+
+      async estimatePPA() {
+        return {
+          area: { cells: 1, area: 10 },
+          power: { dynamic: 0, static: 0, total: 0 },
+          performance: { frequency: 0 },
+        };
+      }
+    }
+
+    beforeEach(() => {
+      testDir = join(tmpdir(), `rtl-constraints-synth-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+      mkdirSync(testDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should pass parsed default constraints to the tool', async () => {
+      writeFileSync(join(testDir, 'top.sdc'), 'create_clock -period 10 [get_ports clk]\n');
+      const tool = new FakeSynth();
+      const manager = new SynthesisManager();
+      manager.register('fake', tool);
+      manager.setDefaultConstraints([join(testDir, 'top.sdc')]);
+
+      const result = await manager.synthesize(['top.v'], [], undefined, { workDir: testDir });
+
+      expect(result.success).toBe(true);
+      expect(tool.seen).toMatchObject({ clocks: [{ name: 'clk', period: 10 }] });
+    });
+
+    it('should fail before synthesis on malformed constraints', async () => {
+      writeFileSync(join(testDir, 'top.sdc'), 'create_clock [get_ports clk]\n');
+      const tool = new FakeSynth();
+      const manager = new SynthesisManager();
+      manager.register('fake', tool);
+
+      const result = await manager.synthesize(['top.v'], join(testDir, 'top.sdc'));
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([`${join(testDir, 'top.sdc')}:1: create_clock: -period must be a number`]);
+      expect(tool.seen).toBeUndefined();
+    });
+
+    it('should fail when constraints do not match the synthesized ports', async () => {
+      writeFileSync(join(testDir, 'top.sdc'), 'create_clock -period 10 [get_ports sys_clk]\n');
+      const manager = new SynthesisManager();
+      manager.register('fake', new FakeSynth());
+
+      const result = await manager.synthesize(['top.v'], [join(testDir, 'top.sdc')], undefined, { workDir: testDir });
+
+      expect(result.success).toBe(false);
+      expect(result.netlist).toBe(join(testDir, 'synthesized.v'));
+      expect(result.errors).toEqual([`${join(testDir, 'top.sdc')}:1: create_clock: port 'sys_clk' not found in design`]);
+      expect(result.timing).toBeUndefined();
+    });
+  });
+});
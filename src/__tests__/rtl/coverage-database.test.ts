@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  CoverageDatabase,
+  openCoverageDatabase,
+  parseCoverageDat,
+  toLcov,
+  toCobertura,
+} from '../../rtl/tools/coverage/index.js';
+import { DEFAULT_RTL_CONFIG } from '../../rtl/config/index.js';
+
+function point(fields: Record<string, string>, count: number): string {
+  const body = Object.entries(fields).map(([k, v]) => `\x01${k}\x02${v}`).join('') + '\x01';
+  return `C '${body}' ${count}`;
+}
+
+/** coverage.dat for fifo.sv with the given hit counts for [line 10, line 20, branch if, branch else] */
+function fifoCoverage(counts: [number, number, number, number]): string {
+  return [
+    '# SystemC::Coverage-3',
+    point({ f: 'rtl/fifo.sv', l: '10', page: 'v_line/fifo', h: 'tb.dut', S: '10-11' }, counts[0]),
+    point({ f: 'rtl/fifo.sv', l: '20', page: 'v_line/fifo', h: 'tb.dut' }, counts[1]),
+    point({ f: 'rtl/fifo.sv', l: '30', page: 'v_branch/fifo', o: 'if', h: 'tb.dut' }, counts[2]),
+    point({ f: 'rtl/fifo.sv', l: '30', page: 'v_branch/fifo', o: 'else', h: 'tb.dut' }, counts[3]),
+  ].join('\n') + '\n';
+}
+
+describe('CoverageDatabase', () => {
+  let testDir: string;
+  let db: CoverageDatabase;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `rtl-covdb-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    db = new CoverageDatabase(join(testDir, 'reports', 'coverage'), { workspaceRoot: testDir });
+  });
+
+  afterEach(() => {
+    if (existsSync(testDir)) {
+      rmSync(testDir, { recursive: true, force: true });
+    }
+  });
+
+  function writeRun(name: string, counts: [number, number, number, number]): string {
+    const file = join(testDir, `${name}.dat`);
+    writeFileSync(file, fifoCoverage(counts));
+    return file;
+  }
+
+  it('should merge hit counts across runs', async () => {
+    await db.addRun(writeRun('a', [3, 0, 1, 0]), { test: 'test_write', commit: 'abc123' });
+    await db.addRun(writeRun('b', [2, 0, 0, 4]), { test: 'test_read', commit: 'abc123' });
+
+    const merged = await db.getMergedCoverage();
+    expect(merged.line).toBe(50);
+    expect(merged.branch).toBe(100);
+
+    const points = parseCoverageDat(readFileSync(db.mergedPath, 'utf8'));
+    expect(points.map(p => p.count)).toEqual([5, 0, 1, 4]);
+  });
+
+  it('should attribute first hits to the earliest run', async () => {
+    const first = await db.addRun(writeRun('a', [3, 0, 1, 0]), { test: 'test_write', commit: 'abc123' });
+    const second = await db.addRun(writeRun('b', [2, 0, 1, 4]), { test: 'test_read', seed: 7, commit: 'abc123' });
+
+    expect(first.newPoints).toBe(2);
+    expect(second.newPoints).toBe(1);
+    expect(second.id).toBe('0002-test_read-7');
+
+    const hits = await db.getFirstHits(second.id);
+    expect(hits).toEqual([
+      expect.objectContaining({ file: 'rtl/fifo.sv', line: 30, comment: 'else', test: 'test_read', seed: 7 }),
+    ]);
+  });
+
+  it('should record every run when runs are added concurrently', async () => {
+    const records = await Promise.all([
+      db.addRun(writeRun('a', [1, 0, 0, 0]), { test: 't1', seed: 1, commit: 'abc123' }),
+      db.addRun(writeRun('b', [0, 1, 0, 0]), { test: 't1', seed: 2, commit: 'abc123' }),
+      db.addRun(writeRun('c', [0, 0, 1, 0]), { test: 't2', seed: 3, commit: 'abc123' }),
+      db.addRun(writeRun('d', [0, 0, 0, 1]), { test: 't2', seed: 4, commit: 'abc123' }),
+    ]);
+
+    expect(records.map(r => r.id)).toEqual(['0001-t1-1', '0002-t1-2', '0003-t2-3', '0004-t2-4']);
+    expect(records.map(r => r.newPoints)).toEqual([1, 1, 1, 1]);
+    expect(await db.getRuns()).toHaveLength(4);
+    expect(parseCoverageDat(readFileSync(db.mergedPath, 'utf8')).map(p => p.count)).toEqual([1, 1, 1, 1]);
+
+    const merged = await db.getMergedCoverage();
+    expect(merged.line).toBe(100);
+    expect(merged.branch).toBe(100);
+    expect((await db.getTrend())[0].runs).toBe(4);
+  });
+
+  it('should track the merged trend per commit', async () => {
+    await db.addRun(writeRun('a', [1, 0, 0, 0]), { test: 't1', commit: 'c1' });
+    await db.addRun(writeRun('b', [0, 1, 0, 0]), { test: 't2', commit: 'c1' });
+    await db.addRun(writeRun('c', [0, 0, 1, 1]), { test: 't1', commit: 'c2' });
+
+    const trend = await db.getTrend();
+    expect(trend.map(t => [t.commit, t.runs, t.line, t.branch])).toEqual([
+      ['c1', 2, 100, 0],
+      ['c2', 1, 100, 100],
+    ]);
+  });
+
+  it('should write LCOV and Cobertura exports of the merged result', async () => {
+    await db.addRun(writeRun('a', [3, 0, 1, 0]), { test: 'test_write', commit: 'abc123' });
+
+    expect(readFileSync(db.lcovPath, 'utf8')).toContain('SF:rtl/fifo.sv');
+    expect(readFileSync(db.coberturaPath, 'utf8')).toContain('filename="rtl/fifo.sv"');
+    expect((await db.getRuns())[0].database).toBe(join('runs', '0001-test_write.dat'));
+  });
+
+  it('should open under paths.reports', () => {
+    const opened = openCoverageDatabase(DEFAULT_RTL_CONFIG, testDir);
+    expect(opened.rootDir).toBe(join(testDir, 'reports', 'coverage'));
+  });
+});
+
+describe('coverage export', () => {
+  const points = parseCoverageDat(fifoCoverage([3, 0, 1, 0]));
+
+  it('should emit LCOV line and branch records', () => {
+    const lcov = toLcov(points, 'merged');
+
+    expect(lcov.split('\n')).toEqual([
+      'TN:merged',
+      'SF:rtl/fifo.sv',
+      'BRDA:30,0,0,1',
+      'BRDA:30,0,1,0',
+      'BRF:2',
+      'BRH:1',
+      'DA:10,3',
+      'DA:11,3',
+      'DA:20,0',
+      'LF:3',
+      'LH:2',
+      'end_of_record',
+      '',
+    ]);
+  });
+
+  it('should emit Cobertura rates and condition coverage', () => {
+    const xml = toCobertura(points, 0);
+
+    expect(xml).toContain('lines-covered="3" lines-valid="4"');
+    expect(xml).toContain('<line number="30" hits="1" branch="true" condition-coverage="50% (1/2)"/>');
+    expect(xml).toContain('<line number="20" hits="0" branch="false"/>');
+  });
+});
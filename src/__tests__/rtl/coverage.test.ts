@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseCoverageDat, summarizeCoverage, toLineRanges } from '../../rtl/tools/coverage/index.js';
+
+/** Build a coverage.dat point line from key/value pairs */
+function point(fields: Record<string, string>, count: number): string {
+  const body = Object.entries(fields).map(([k, v]) => `\x01${k}\x02${v}`).join('') + '\x01';
+  return `C '${body}' ${count}`;
+}
+
+const COVERAGE_DAT = [
+  '# SystemC::Coverage-3',
+  point({ f: 'rtl/counter.sv', l: '10', n: '3', page: 'v_line/counter', o: 'block', h: 'tb.dut', S: '10-12' }, 40),
+  point({ f: 'rtl/counter.sv', l: '14', page: 'v_line/counter', o: 'block', h: 'tb.dut', S: '14-15,17' }, 0),
+  point({ f: 'rtl/counter.sv', l: '20', page: 'v_branch/counter', o: 'if', h: 'tb.dut' }, 3),
+  point({ f: 'rtl/counter.sv', l: '20', page: 'v_branch/counter', o: 'else', h: 'tb.dut' }, 0),
+  point({ f: 'rtl/counter.sv', l: '5', page: 'v_toggle/counter', o: 'count[0]:0->1', h: 'tb.dut' }, 8),
+  point({ f: 'tb/tb.sv', l: '30', page: 'v_line/tb', o: 'block', h: 'tb' }, 1),
+  point({ f: 'tb/tb.sv', l: '40', page: 'v_user/tb', o: 'cover_done', h: 'tb' }, 0),
+  '',
+].join('\n');
+
+describe('Verilator coverage', () => {
+  describe('parseCoverageDat', () => {
+    it('should parse fields of each point', () => {
+      const points = parseCoverageDat(COVERAGE_DAT);
+
+      expect(points).toHaveLength(7);
+      expect(points[0]).toEqual({
+        key: expect.stringContaining('\x01f\x02rtl/counter.sv'),
+        file: 'rtl/counter.sv',
+        line: 10,
+        column: 3,
+        page: 'v_line',
+        metric: 'line',
+        module: 'counter',
+        hierarchy: 'tb.dut',
+        comment: 'block',
+        lines: [10, 11, 12],
+        count: 40,
+      });
+    });
+
+    it('should expand linescov lists and map page kinds to metrics', () => {
+      const points = parseCoverageDat(COVERAGE_DAT);
+
+      expect(points[1].lines).toEqual([14, 15, 17]);
+      expect(points.map(p => p.metric)).toEqual(['line', 'line', 'branch', 'branch', 'toggle', 'line', 'functional']);
+    });
+
+    it('should accept long key names', () => {
+      const [p] = parseCoverageDat(point({ filename: 'a.sv', lineno: '7', page: 'v_line/a' }, 2));
+      expect(p).toMatchObject({ file: 'a.sv', line: 7, lines: [7] });
+    });
+  });
+
+  describe('summarizeCoverage', () => {
+    it('should compute overall percentages and counts', () => {
+      const result = summarizeCoverage(parseCoverageDat(COVERAGE_DAT));
+
+      expect(result.line).toBeCloseTo(66.67);
+      expect(result.branch).toBe(50);
+      expect(result.toggle).toBe(100);
+      expect(result.functional).toBe(0);
+      expect(result.counts?.line).toEqual({ covered: 2, total: 3 });
+    });
+
+    it('should break down coverage per file with uncovered line ranges', () => {
+      const result = summarizeCoverage(parseCoverageDat(COVERAGE_DAT));
+      const counter = result.files?.find(f => f.file === 'rtl/counter.sv');
+
+      expect(counter?.line).toBe(50);
+      expect(counter?.uncoveredLines).toEqual([{ start: 14, end: 15 }, { start: 17, end: 17 }]);
+      expect(result.files?.find(f => f.file === 'tb/tb.sv')?.uncoveredLines).toEqual([]);
+    });
+
+    it('should break down coverage per module', () => {
+      const result = summarizeCoverage(parseCoverageDat(COVERAGE_DAT));
+      expect(result.modules?.map(m => m.module)).toEqual(['counter', 'tb']);
+      expect(result.modules?.[0].branch).toBe(50);
+    });
+
+    it('should report zeros for an empty database', () => {
+      const result = summarizeCoverage([]);
+      expect(result).toMatchObject({ line: 0, toggle: 0, branch: 0, files: [], modules: [] });
+    });
+  });
+
+  describe('toLineRanges', () => {
+    it('should merge consecutive lines', () => {
+      expect(toLineRanges([5, 1, 2, 3, 5, 9])).toEqual([
+        { start: 1, end: 3 },
+        { start: 5, end: 5 },
+        { start: 9, end: 9 },
+      ]);
+    });
+  });
+});
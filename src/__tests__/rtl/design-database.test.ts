@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import { parseDesignUnits, openDesignDatabase, collectDesignFiles } from '../../rtl/design/index.js';
+import { DEFAULT_RTL_CONFIG } from '../../rtl/config/index.js';
+
+const FIFO_SV = `\`include "defs.svh"
+// Synchronous FIFO
+module fifo
+  import fifo_pkg::*;
+#(
+  parameter int WIDTH = 8,
+  parameter DEPTH = 16,
+  localparam int AW = $clog2(DEPTH)
+) (
+  input  logic             clk_i,
+  input  logic             rst_ni,
+  input  logic             clk_en,
+  input  logic [WIDTH-1:0] wdata,
+  output logic [WIDTH-1:0] rdata, /* same type */ spare,
+  output logic [AW:0]      count,
+  axi_if.slave             cfg,
+  input  cmd_t             cmd [2]
+);
+  localparam int unsigned LAST = DEPTH - 1;
+
+  always_ff @(posedge clk_i or negedge rst_ni) begin
+    if (!rst_ni) count <= '0;
+  end
+
+  ram #(.DEPTH(DEPTH), .WIDTH(WIDTH)) u_ram (
+    .clk   (clk_i),
+    .addr  (count[AW-1:0]),
+    .rdata,
+    .*
+  );
+
+  for (genvar i = 0; i < 2; i++) begin : g_sync
+    sync u_sync (.clk(clk_i), .d(wdata[i]), .q());
+  end
+
+  function automatic int unused(input int a);
+    return a;
+  endfunction
+
+  assert property (@(posedge clk_i) count <= DEPTH);
+endmodule
+`;
+
+const LEGACY_V = `module counter (clk, reset, q);
+  parameter N = 4;
+  input clk, reset;
+  output [N-1:0] q;
+  reg [N-1:0] q;
+  always @(posedge clk) q <= reset ? 0 : q + 1;
+endmodule
+
+interface axi_if #(parameter AW = 32) (input logic aclk);
+  logic [AW-1:0] addr;
+  modport master (output addr), slave (input addr);
+endinterface
+
+package fifo_pkg;
+  localparam int DEPTH = 4;
+  typedef logic [1:0] cmd_t;
+endpackage
+`;
+
+describe('Design database', () => {
+  describe('parseDesignUnits', () => {
+    it('should read ANSI ports, parameters, clocks, resets and instances', () => {
+      const [fifo] = parseDesignUnits(FIFO_SV, '/rtl/fifo.sv');
+
+      expect(fifo).toMatchObject({ kind: 'module', name: 'fifo', file: '/rtl/fifo.sv', line: 3, imports: ['fifo_pkg'] });
+      expect(fifo.parameters).toEqual([
+        { name: 'WIDTH', type: 'int', default: '8', local: false, line: 6 },
+        { name: 'DEPTH', default: '16', local: false, line: 7 },
+        { name: 'AW', type: 'int', default: '$clog2(DEPTH)', local: true, line: 8 },
+        { name: 'LAST', type: 'int unsigned', default: 'DEPTH-1', local: true, line: 19 },
+      ]);
+      expect(fifo.ports.map(p => [p.name, p.direction, p.type, p.packed, p.width])).toEqual([
+        ['clk_i', 'input', 'logic', undefined, 1],
+        ['rst_ni', 'input', 'logic', undefined, 1],
+        ['clk_en', 'input', 'logic', undefined, 1],
+        ['wdata', 'input', 'logic', '[WIDTH-1:0]', 8],
+        ['rdata', 'output', 'logic', '[WIDTH-1:0]', 8],
+        ['spare', 'output', 'logic', '[WIDTH-1:0]', 8],
+        ['count', 'output', 'logic', '[AW:0]', 5],
+        ['cfg', 'interface', 'axi_if.slave', undefined, undefined],
+        ['cmd', 'input', 'cmd_t', undefined, undefined],
+      ]);
+      expect(fifo.ports[8].unpacked).toBe('[2]');
+      expect(fifo.clocks).toEqual(['clk_i']);
+      expect(fifo.resets).toEqual([{ name: 'rst_ni', activeLow: true, asynchronous: true }]);
+      expect(fifo.instances).toEqual([
+        {
+          module: 'ram',
+          name: 'u_ram',
+          line: 25,
+          parameters: { DEPTH: 'DEPTH', WIDTH: 'WIDTH' },
+          connections: { clk: 'clk_i', addr: 'count[AW-1:0]', rdata: 'rdata', '*': '*' },
+        },
+        { module: 'sync', name: 'u_sync', line: 33, parameters: {}, connections: { clk: 'clk_i', d: 'wdata[i]', q: '' } },
+      ]);
+    });
+
+    it('should read non-ANSI ports, interfaces and packages', () => {
+      const [counter, axi, pkg] = parseDesignUnits(LEGACY_V, '/rtl/legacy.v');
+
+      expect(counter.ports.map(p => [p.name, p.direction, p.type, p.width])).toEqual([
+        ['clk', 'input', 'logic', 1],
+        ['reset', 'input', 'logic', 1],
+        ['q', 'output', 'reg', 4],
+      ]);
+      expect(counter.parameters).toEqual([{ name: 'N', default: '4', local: false, line: 2 }]);
+      expect(counter.clocks).toEqual(['clk']);
+      expect(counter.resets).toEqual([{ name: 'reset', activeLow: false, asynchronous: false }]);
+
+      expect(axi).toMatchObject({ kind: 'interface', name: 'axi_if', clocks: ['aclk'], modports: ['master', 'slave'] });
+      expect(axi.parameters[0]).toMatchObject({ name: 'AW', default: '32' });
+      expect(pkg).toMatchObject({ kind: 'package', name: 'fifo_pkg', ports: [], parameters: [{ name: 'DEPTH', local: true }] });
+    });
+
+    it('should not mistake declarations, calls and class handles for instances', () => {
+      const [unit] = parseDesignUnits([
+        'module tb;',
+        '  state_t state, next_state;',
+        '  my_type_t table_q [4];',
+        '  initial begin',
+        '    run_test();',
+        '    uvm_config_db#(virtual axi_if)::set(null, "*", "vif", vif);',
+        '    wait fork;',
+        '  end',
+        '  import "DPI-C" function int c_model(input int a);',
+        '  typedef class driver;',
+        '  top dut (.clk);',
+        'endmodule',
+      ].join('\n'), 'tb.sv');
+
+      expect(unit.imports).toEqual([]);
+      expect(unit.instances.map(i => `${i.module} ${i.name}`)).toEqual(['top dut']);
+    });
+  });
+
+  describe('DesignDatabase', () => {
+    let dir: string;
+
+    const write = (file: string, text: string) => {
+      mkdirSync(dirname(join(dir, file)), { recursive: true });
+      writeFileSync(join(dir, file), text);
+    };
+
+    beforeEach(() => {
+      dir = join(tmpdir(), `rtl-design-db-${process.pid}-${Date.now()}`);
+      write('src/rtl/fifo.sv', FIFO_SV);
+      write('src/rtl/legacy.v', LEGACY_V);
+      write('src/rtl/build/stale.sv', 'module stale; endmodule\n');
+      write('tb/tb_top.sv', 'module tb_top;\n  fifo #(.WIDTH(16)) dut (.*);\nendmodule\n');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should collect RTL and testbench files without sources', async () => {
+      expect(await collectDesignFiles(DEFAULT_RTL_CONFIG, dir)).toEqual([
+        join(dir, 'src/rtl/fifo.sv'),
+        join(dir, 'src/rtl/legacy.v'),
+        join(dir, 'tb/tb_top.sv'),
+      ]);
+    });
+
+    it('should reparse only changed files and answer queries', async () => {
+      const db = openDesignDatabase(DEFAULT_RTL_CONFIG, dir);
+      const files = await collectDesignFiles(DEFAULT_RTL_CONFIG, dir);
+
+      expect(await db.update(files)).toEqual({ files: 3, parsed: 3, cached: 0, removed: 0, units: 5, missing: [] });
+      expect(db.indexPath).toBe(join(dir, 'reports', 'design-db.json'));
+
+      write('tb/tb_top.sv', 'module tb_top;\n  fifo u_a (.*);\n  fifo u_b (.*);\nendmodule\n');
+      const stats = await db.update([...files.slice(1), join(dir, 'src/rtl/gone.sv')]);
+      expect(stats).toEqual({ files: 2, parsed: 1, cached: 1, removed: 1, units: 4, missing: [join(dir, 'src/rtl/gone.sv')] });
+
+      expect(await db.getUnit('fifo')).toBeUndefined();
+      expect((await db.getUnit('counter'))?.ports).toHaveLength(3);
+      expect((await db.findInstances('fifo')).map(i => [i.parent, i.name, i.file, i.line])).toEqual([
+        ['tb_top', 'u_a', join(dir, 'tb/tb_top.sv'), 2],
+        ['tb_top', 'u_b', join(dir, 'tb/tb_top.sv'), 3],
+      ]);
+    });
+
+    it('should list the files a unit depends on, packages first', async () => {
+      write('src/rtl/ram.sv', 'module ram; endmodule\n');
+      const db = openDesignDatabase(DEFAULT_RTL_CONFIG, dir);
+      await db.update(await collectDesignFiles(DEFAULT_RTL_CONFIG, dir));
+
+      expect(await db.getDependencyFiles('tb_top')).toEqual([
+        join(dir, 'src/rtl/legacy.v'),
+        join(dir, 'src/rtl/ram.sv'),
+        join(dir, 'src/rtl/fifo.sv'),
+        join(dir, 'tb/tb_top.sv'),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { delimiter, join } from 'path';
+import { tmpdir } from 'os';
+import {
+  SourceSetError,
+  elaborate,
+  elaborationCommand,
+  parseSourceLocator,
+  resolveSourceSet,
+} from '../../rtl/sources/index.js';
+import { LintManager, type LintTool } from '../../rtl/tools/index.js';
+import { DEFAULT_RTL_CONFIG } from '../../rtl/config/index.js';
+import type { RTLProjectConfig } from '../../rtl/types.js';
+
+const FIFO_SV = `// Generated by CIRCT firtool-1.62.0
+module Fifo(
+  input        clock,
+  input        io_enq_valid,
+  output       io_full
+);
+
+  reg [3:0] count;	// src/main/scala/fifo/Fifo.scala:12:22
+  wire      unused =	// src/main/scala/fifo/Fifo.scala:13:9
+    io_enq_valid
+    & count[0];
+  assign io_full = count == 4'h8;	// src/main/scala/fifo/Fifo.scala:15:{17,26}
+endmodule
+`;
+
+class GeneratedLint implements LintTool {
+  async isInstalled() { return true; }
+  async getVersion() { return '5.024'; }
+  async run() { return { success: true }; }
+  async lint(files: string[]) {
+    return {
+      success: true,
+      warnings: [
+        { file: files[0], line: 11, code: 'UNUSEDSIGNAL', message: "Signal is not used: 'unused'", severity: 'warning' as const },
+        { file: files[1], line: 1, code: 'DECLFILENAME', message: 'Filename does not match', severity: 'warning' as const },
+      ],
+      lintErrors: [],
+    };
+  }
+}
+
+describe('Chisel/SpinalHDL elaboration', () => {
+  let dir: string;
+  let savedPath: string | undefined;
+
+  const write = (file: string, content: string, mode?: number) => {
+    mkdirSync(join(dir, file, '..'), { recursive: true });
+    writeFileSync(join(dir, file), content);
+    if (mode) chmodSync(join(dir, file), mode);
+  };
+
+  const runs = () => (existsSync(join(dir, 'sbt-args.txt')) ? readFileSync(join(dir, 'sbt-args.txt'), 'utf8').trim().split('\n') : []);
+
+  const config = (elaboration: RTLProjectConfig['elaboration'], extra: Partial<RTLProjectConfig> = {}): RTLProjectConfig => ({
+    ...DEFAULT_RTL_CONFIG,
+    language: 'chisel',
+    elaboration,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `rtl-elaboration-${process.pid}-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+    write('build.sbt', 'scalaVersion := "2.13.12"\n');
+    write('src/main/scala/fifo/Fifo.scala', 'package fifo\n\nclass Fifo extends Module {}\n');
+    write('rtl/soc_top.sv', 'module soc_top; Fifo u_fifo(); endmodule\n');
+    write('bin/sbt', [
+      '#!/bin/sh',
+      `echo "$@" >> "${join(dir, 'sbt-args.txt')}"`,
+      `if [ -e "${join(dir, 'fail')}" ]; then`,
+      '  echo "[info] compiling 1 Scala source"',
+      '  echo "[error] Fifo.scala:3:28: not found: type Module"',
+      '  echo "[error] (Compile / compileIncremental) Compilation failed"',
+      '  exit 1',
+      'fi',
+      'mkdir -p generated',
+      `cp "${join(dir, 'Fifo.sv')}" generated/Fifo.sv`,
+      'echo "[]" > generated/Fifo.anno.json',
+      '',
+    ].join('\n'), 0o755);
+    write('Fifo.sv', FIFO_SV);
+    savedPath = process.env.PATH;
+    process.env.PATH = `${join(dir, 'bin')}${delimiter}${savedPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = savedPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should build the generator command for sbt, mill and scala-cli', () => {
+    expect(elaborationCommand(config({ mainClass: 'fifo.Main', module: 'core', args: ['--split'] }), dir)).toEqual({
+      generator: 'chisel',
+      buildTool: 'sbt',
+      command: `sbt -batch "core/runMain fifo.Main --split --target-dir ${join(dir, 'generated')}"`,
+      outputDir: join(dir, 'generated'),
+      sourceDirs: [join(dir, 'src')],
+    });
+
+    rmSync(join(dir, 'build.sbt'));
+    expect(elaborationCommand(config({ mainClass: 'fifo.Main', outputDir: 'gen/rtl' }, { language: 'spinalhdl' }), dir)).toMatchObject({
+      generator: 'spinalhdl',
+      buildTool: 'scala-cli',
+      command: `scala-cli run --server=false src --main-class fifo.Main`,
+      outputDir: join(dir, 'gen/rtl'),
+    });
+
+    write('build.mill', '');
+    expect(elaborationCommand(config({ mainClass: 'fifo.Main', module: 'hw.fifo', args: ['-td', 'out/rtl'] }), dir)).toMatchObject({
+      command: 'mill --no-server hw.fifo.runMain fifo.Main -td out/rtl',
+      sourceDirs: [join(dir, 'hw/fifo/src')],
+    });
+    expect(() => elaborationCommand(config({ mainClass: 'fifo.Main' }), dir)).toThrow(SourceSetError);
+  });
+
+  it('should feed generated Verilog to the source set and cache it by source hash', async () => {
+    write('rtl.f', 'rtl/soc_top.sv\n');
+    const project = config({ mainClass: 'fifo.Main' }, { sources: { default: { filelist: 'rtl.f' } } });
+
+    const sources = await resolveSourceSet(project, dir, 'lint');
+    expect(sources.files).toEqual([join(dir, 'generated/Fifo.sv'), join(dir, 'rtl/soc_top.sv')]);
+    expect(sources.elaboration).toMatchObject({
+      cached: false,
+      annotations: [join(dir, 'generated/Fifo.anno.json')],
+      sources: [join(dir, 'src/main/scala/fifo/Fifo.scala')],
+    });
+    expect(runs()).toEqual([`-batch runMain fifo.Main --target-dir ${join(dir, 'generated')}`]);
+
+    // Unchanged sources reuse the outputs, in this and other targets
+    expect((await resolveSourceSet(project, dir, 'synthesis')).elaboration?.cached).toBe(true);
+    expect(runs()).toHaveLength(1);
+
+    write('src/main/scala/fifo/Fifo.scala', 'package fifo\n\nclass Fifo(depth: Int) extends Module {}\n');
+    expect((await elaborate(project, dir)).cached).toBe(false);
+    expect(runs()).toHaveLength(2);
+
+    write('fail', '');
+    const error = await elaborate(project, dir, { force: true }).catch(e => e);
+    expect(error).toBeInstanceOf(SourceSetError);
+    expect(error.message).toContain('Elaboration failed: sbt -batch');
+    expect(error.issues).toEqual([
+      '[error] Fifo.scala:3:28: not found: type Module',
+      '[error] (Compile / compileIncremental) Compilation failed',
+    ]);
+  });
+
+  it('should share concurrent runs unless forced', async () => {
+    const project = config({ mainClass: 'fifo.Main' });
+
+    const shared = await Promise.all([elaborate(project, dir), elaborate(project, dir)]);
+    expect(shared[1]).toBe(shared[0]);
+    expect(runs()).toHaveLength(1);
+
+    const [cached, forced] = await Promise.all([elaborate(project, dir), elaborate(project, dir, { force: true })]);
+    expect(cached.cached).toBe(true);
+    expect(forced.cached).toBe(false);
+    expect(runs()).toHaveLength(2);
+  });
+
+  it('should point diagnostics in generated Verilog at the Scala source', async () => {
+    expect(parseSourceLocator('  reg [3:0] count; // @[Fifo.scala 12:22]')).toEqual({ file: 'Fifo.scala', line: 12, column: 22 });
+    expect(parseSourceLocator('  assign full = c; // src/Fifo.scala:15:{17,26}')).toEqual({ file: 'src/Fifo.scala', line: 15, column: 17 });
+    expect(parseSourceLocator('  reg  r; // @ Fifo.scala l42')).toEqual({ file: 'Fifo.scala', line: 42 });
+    expect(parseSourceLocator("  assign s = \"a.scala 1:2\";")).toBeUndefined();
+
+    const manager = new LintManager();
+    manager.register('verilator', new GeneratedLint());
+    write('rtl.f', 'rtl/soc_top.sv\n');
+    const project = config({ mainClass: 'fifo.Main' }, { sources: { default: { filelist: 'rtl.f' } } });
+    manager.setSources(() => resolveSourceSet(project, dir, 'lint'));
+
+    const result = await manager.lint([]);
+
+    // Line 11 continues the statement started on line 9, located two lines up
+    expect(result.warnings[0].origin).toEqual({ file: join(dir, 'src/main/scala/fifo/Fifo.scala'), line: 13, column: 9 });
+    expect(result.warnings[1].origin).toBeUndefined();
+  });
+});
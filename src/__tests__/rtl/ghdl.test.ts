@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmodSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { delimiter, join } from 'path';
+import { tmpdir } from 'os';
+import {
+  LintManager,
+  SimulationManager,
+  SynthesisManager,
+  designHdl,
+  inferVhdlTop,
+  type LintTool,
+  type SimulationTool,
+} from '../../rtl/tools/index.js';
+import { GhdlLint } from '../../rtl/tools/lint/ghdl.js';
+import { GhdlSim } from '../../rtl/tools/simulation/ghdl.js';
+import { GhdlSynth } from '../../rtl/tools/synthesis/ghdl.js';
+import { YosysSynth } from '../../rtl/tools/synthesis/yosys.js';
+
+const FIFO_VHD = `library ieee;
+use ieee.std_logic_1164.all;
+
+entity fifo is
+  port (clk : in std_logic; full : out std_logic);
+end entity fifo;
+`;
+
+const TB_VHD = `entity tb_fifo is
+end entity;
+
+architecture sim of tb_fifo is
+begin
+  -- u_old : entity work.tb_fifo port map (...)
+  u_fifo : entity work.fifo(rtl) port map (clk => clk, full => full);
+end architecture;
+`;
+
+class VerilogOnly implements LintTool, SimulationTool {
+  async isInstalled() { return true; }
+  async getVersion() { return '5.024'; }
+  async run() { return { success: true }; }
+  async lint() { return { success: true, warnings: [], lintErrors: [], command: 'verilator --lint-only' }; }
+  async compile() { return { success: true }; }
+  async simulate() { return { success: true, passed: true, command: 'verilator' }; }
+}
+
+describe('VHDL through GHDL', () => {
+  let dir: string;
+  let savedPath: string | undefined;
+
+  const write = (file: string, content: string, mode?: number) => {
+    mkdirSync(join(dir, file, '..'), { recursive: true });
+    writeFileSync(join(dir, file), content);
+    if (mode) chmodSync(join(dir, file), mode);
+  };
+
+  const calls = () => readFileSync(join(dir, 'calls.txt'), 'utf8').trim().split('\n');
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `rtl-ghdl-${process.pid}-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+    write('rtl/fifo.vhd', FIFO_VHD);
+    write('tb/tb_fifo.vhd', TB_VHD);
+    write('lib/pkg.vhd', 'package pkg is\nend package;\n');
+    write('bin/ghdl', [
+      '#!/bin/sh',
+      `echo "ghdl $@" >> "${join(dir, 'calls.txt')}"`,
+      'case "$1" in',
+      '  --version) echo "GHDL 4.1.0 (Ubuntu 4.1.0+dfsg-0ubuntu2) [Dunoon edition]" ;;',
+      '  -s) echo "fifo.vhd:5:14:warning: declaration of \\"full\\" hides port \\"full\\" [-Whide]" >&2',
+      '      echo "fifo.vhd:12:8: no declaration for \\"cnt\\"" >&2; exit 1 ;;',
+      '  -r) echo "tb_fifo.vhd:20:5:@50ns:(assertion error): count mismatch"',
+      '      echo "simulation finished @100ns" ;;',
+      'esac',
+      '',
+    ].join('\n'), 0o755);
+    write('bin/yosys', [
+      '#!/bin/sh',
+      `echo "yosys $@" >> "${join(dir, 'calls.txt')}"`,
+      'case "$*" in',
+      '  "-p help ghdl") echo "ERROR: No such command: ghdl (type \'help\' for a command overview)"; exit 1 ;;',
+      '  *"help ghdl"*) echo "    ghdl [options] {files} -e [unit]" ;;',
+      'esac',
+      '',
+    ].join('\n'), 0o755);
+    savedPath = process.env.PATH;
+    process.env.PATH = `${join(dir, 'bin')}${delimiter}${savedPath}`;
+  });
+
+  afterEach(() => {
+    process.env.PATH = savedPath;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should decide the HDL from file extensions, then the configured language', () => {
+    expect(designHdl(['a.sv', 'b.vhd'])).toBe('vhdl');
+    expect(designHdl(['a.sv', 'tb'], 'vhdl')).toBe('verilog');
+    expect(designHdl(['tb_fifo'], 'vhdl')).toBe('vhdl');
+    expect(designHdl([])).toBe('verilog');
+    expect(inferVhdlTop([join(dir, 'rtl/fifo.vhd'), join(dir, 'tb/tb_fifo.vhd')])).toBe('tb_fifo');
+  });
+
+  it('should lint VHDL files with ghdl -s after analyzing the libraries', async () => {
+    const manager = new LintManager();
+    manager.register('verilator', new VerilogOnly());
+    manager.register('ghdl', new GhdlLint({ standard: '08', libraries: { util: [join(dir, 'lib/pkg.vhd')] } }));
+
+    const result = await manager.lint([join(dir, 'rtl/fifo.vhd')]);
+
+    expect(calls().slice(-2)).toEqual([
+      expect.stringMatching(/^ghdl -a --std=08 --work=util --workdir=\S+ -P\S+ .*lib\/pkg\.vhd$/),
+      expect.stringMatching(/^ghdl -s --std=08 --work=work --workdir=\S+ -P\S+ .*rtl\/fifo\.vhd$/),
+    ]);
+    expect(result.success).toBe(false);
+    expect(result.warnings).toEqual([
+      { file: 'fifo.vhd', line: 5, column: 14, code: 'hide', message: 'declaration of "full" hides port "full"', severity: 'warning' },
+    ]);
+    expect(result.lintErrors).toEqual([
+      { file: 'fifo.vhd', line: 12, column: 8, code: 'error', message: 'no declaration for "cnt"', severity: 'error' },
+    ]);
+
+    // Verilog files keep the Verilog lint tool
+    expect((await manager.lint([join(dir, 'rtl/fifo.sv')])).command).toBe('verilator --lint-only');
+  });
+
+  it('should analyze, elaborate and run VHDL testbenches with ghdl', async () => {
+    const manager = new SimulationManager();
+    manager.register('verilator', new VerilogOnly());
+    manager.register('ghdl', new GhdlSim({ standard: '08', waveform: 'ghw' }));
+    const workDir = join(dir, 'run');
+
+    const result = await manager.simulate(
+      [join(dir, 'rtl/fifo.vhd'), join(dir, 'tb/tb_fifo.vhd')],
+      'tb_fifo',
+      ['--stop-time=1us'],
+      undefined,
+      { workDir }
+    );
+
+    const flags = `--std=08 --work=work --workdir=${join(workDir, 'ghdl')} -P${join(workDir, 'ghdl')}`;
+    expect(calls().filter(call => !call.includes('--version'))).toEqual([
+      `ghdl -a ${flags} ${join(dir, 'rtl/fifo.vhd')} ${join(dir, 'tb/tb_fifo.vhd')}`,
+      `ghdl -e ${flags} tb_fifo`,
+      `ghdl -r ${flags} tb_fifo --wave=dump.ghw --stop-time=1us`,
+    ]);
+    expect(result.passed).toBe(false);
+    expect(result.waveform).toBe(join(workDir, 'dump.ghw'));
+    expect(result.verdict?.assertions).toEqual([
+      { file: 'tb_fifo.vhd', line: 20, time: '50ns', message: 'count mismatch' },
+    ]);
+
+    // Verilog testbenches keep the Verilog simulator
+    expect((await manager.simulate([join(dir, 'rtl/fifo.sv')], 'tb', [], undefined, { workDir })).command).toBe('verilator');
+  });
+
+  it('should synthesize VHDL with the yosys ghdl plugin', async () => {
+    const vhdl = { standard: '08' as const, libraries: { util: [join(dir, 'lib/pkg.vhd')] } };
+    const script = new YosysSynth({ vhdl }).generateYosysScript(
+      [join(dir, 'rtl/fifo.vhd'), join(dir, 'rtl/top.sv')],
+      'synthesized.v',
+      'synth_stat.json',
+      undefined,
+      { top: 'top' }
+    );
+    expect(script).toContain(`read_verilog -sv ${join(dir, 'rtl/top.sv')}`);
+    // A Verilog top is not a VHDL unit: ghdl elaborates the VHDL top on its own
+    expect(script).toContain(`ghdl --std=08 --work=util ${join(dir, 'lib/pkg.vhd')} --work=work ${join(dir, 'rtl/fifo.vhd')} -e\n`);
+
+    const manager = new SynthesisManager();
+    manager.register('yosys', new YosysSynth());
+    manager.register('ghdl', new GhdlSynth({ vhdl }));
+    manager.setPreferred('yosys');
+    const result = await manager.synthesize([join(dir, 'rtl/fifo.vhd')], [], undefined, { workDir: dir, sources: { top: 'fifo' } });
+
+    // Not built into this yosys: the plugin is loaded with -m ghdl
+    expect(result.command).toBe(`yosys -m ghdl -s ${join(dir, 'synth_script.ys')} -l ${join(dir, 'synth.log')}`);
+    expect(readFileSync(join(dir, 'synth_script.ys'), 'utf8')).toContain(`--work=work ${join(dir, 'rtl/fifo.vhd')} -e fifo`);
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  parseSlangAstJson,
+  parseVerilatorXml,
+  buildHierarchy,
+  inferTopModule,
+  renderHierarchy,
+  HierarchyManager,
+  type HierarchyTool,
+} from '../../rtl/tools/index.js';
+import type { ElaborationResult, ModuleInfo, SourceOptions } from '../../rtl/types.js';
+
+const instance = (name: string, body: Record<string, unknown>) => ({ name, kind: 'Instance', body });
+const port = (name: string) => ({ name, kind: 'Port' });
+
+const SLANG_AST = {
+  name: '$root',
+  kind: 'Root',
+  members: [
+    { name: '', kind: 'CompilationUnit' },
+    instance('tb_soc', {
+      name: 'tb_soc',
+      kind: 'InstanceBody',
+      members: [
+        instance('dut', {
+          name: 'soc',
+          kind: 'InstanceBody',
+          source_file: '/rtl/soc.sv',
+          source_line: 1,
+          members: [
+            port('clk'),
+            port('rst_n'),
+            instance('u_fifo', { name: 'fifo', kind: 'InstanceBody', members: [port('clk'), instance('u_ram', { name: 'ram', kind: 'InstanceBody', members: [] })] }),
+            {
+              name: 'gen_lanes',
+              kind: 'GenerateBlockArray',
+              members: [
+                { kind: 'GenerateBlock', constructIndex: 0, members: [instance('u_lane', { name: 'lane', kind: 'InstanceBody', members: [port('d')] })] },
+                { kind: 'GenerateBlock', constructIndex: 1, members: [instance('u_lane', { name: 'lane', kind: 'InstanceBody', members: [port('d')] })] },
+              ],
+            },
+            { name: 'gen_dbg', kind: 'GenerateBlock', isUninstantiated: true, members: [instance('u_dbg', { name: 'dbg', kind: 'InstanceBody', members: [] })] },
+            { name: 'u_regs', kind: 'InstanceArray', elements: [instance('', { name: 'reg_slice', kind: 'InstanceBody', members: [] }), instance('', { name: 'reg_slice', kind: 'InstanceBody', members: [] })] },
+          ],
+        }),
+      ],
+    }),
+  ],
+};
+
+const VERILATOR_XML = `<?xml version="1.0" ?>
+<verilator_xml>
+  <files>
+    <file id="a" filename="&lt;built-in&gt;" language="1800-2017"/>
+    <file id="c" filename="/rtl/top.sv" language="1800-2017"/>
+    <file id="d" filename="/rtl/fifo.sv" language="1800-2017"/>
+  </files>
+  <netlist>
+    <module loc="c,1,8,1,11" name="top" origName="top">
+      <var loc="c,2,15,2,18" name="clk" dtype_id="1" dir="input" pinIndex="1" vartype="logic" origName="clk"/>
+      <var loc="c,3,15,3,19" name="dout" dtype_id="2" dir="output" pinIndex="2" vartype="logic" origName="dout"/>
+      <var loc="c,5,9,5,13" name="tmp" dtype_id="2" vartype="logic" origName="tmp"/>
+      <instance loc="c,7,10,7,16" name="u_fifo" defName="fifo__W8" origName="u_fifo">
+        <port loc="c,7,18,7,21" name="clk" direction="in" portIndex="1"/>
+      </instance>
+      <instance loc="c,8,4,8,10" name="u_pll" defName="PLLE2_BASE" origName="u_pll"/>
+    </module>
+    <module loc="d,1,8,1,12" name="fifo__W8" origName="fifo">
+      <var loc="d,2,15,2,18" name="clk" dtype_id="1" dir="input" pinIndex="1" vartype="logic" origName="clk"/>
+    </module>
+    <module loc="c,12,8,12,13" name="spare" origName="spare"/>
+    <typetable loc="a,0,0,0,0"/>
+  </netlist>
+</verilator_xml>
+`;
+
+describe('Module hierarchy', () => {
+  describe('parseSlangAstJson', () => {
+    it('should read each module once with its instances, generate blocks and arrays', () => {
+      const modules = parseSlangAstJson(JSON.stringify(SLANG_AST));
+
+      expect(modules.map(m => m.name)).toEqual(['tb_soc', 'soc', 'fifo', 'ram', 'lane', 'reg_slice']);
+      expect(modules.find(m => m.name === 'soc')).toEqual({
+        name: 'soc',
+        file: '/rtl/soc.sv',
+        line: 1,
+        ports: 2,
+        instances: [
+          { name: 'u_fifo', module: 'fifo' },
+          { name: 'gen_lanes[0].u_lane', module: 'lane' },
+          { name: 'gen_lanes[1].u_lane', module: 'lane' },
+          { name: 'u_regs[2]', module: 'reg_slice' },
+        ],
+      });
+    });
+  });
+
+  describe('parseVerilatorXml', () => {
+    it('should fold parameterized copies into the original module', () => {
+      expect(parseVerilatorXml(VERILATOR_XML)).toEqual([
+        {
+          name: 'top',
+          file: '/rtl/top.sv',
+          line: 1,
+          ports: 2,
+          instances: [
+            { name: 'u_fifo', module: 'fifo', file: '/rtl/top.sv', line: 7 },
+            { name: 'u_pll', module: 'PLLE2_BASE', file: '/rtl/top.sv', line: 8 },
+          ],
+        },
+        { name: 'fifo', file: '/rtl/fifo.sv', line: 1, ports: 1, instances: [] },
+        { name: 'spare', file: '/rtl/top.sv', line: 12, ports: 0, instances: [] },
+      ]);
+    });
+  });
+
+  describe('buildHierarchy', () => {
+    const modules: ModuleInfo[] = [
+      { name: 'soc', ports: 4, instances: [{ name: 'u_core', module: 'core' }, { name: 'u_io', module: 'io_cell' }] },
+      { name: 'core', ports: 2, instances: [{ name: 'u_alu', module: 'alu' }] },
+      { name: 'alu', ports: 3, instances: [] },
+      { name: 'harness', file: '/proj/verif/harness.sv', ports: 1, instances: [{ name: 'dut', module: 'soc' }] },
+      { name: 'fifo_tb', ports: 0, instances: [{ name: 'dut', module: 'alu' }] },
+      { name: 'stub', ports: 1, instances: [] },
+    ];
+
+    it('should classify uninstantiated modules as design or testbench tops', () => {
+      const hierarchy = buildHierarchy(modules, { testbenchDirs: ['/proj/verif'] });
+
+      expect(hierarchy.tops).toEqual([
+        { name: 'harness', kind: 'testbench', reason: 'in testbench directory /proj/verif' },
+        { name: 'fifo_tb', kind: 'testbench', reason: 'testbench module name' },
+        { name: 'stub', kind: 'design', reason: '1 port(s)' },
+      ]);
+      expect(hierarchy.undefinedModules).toEqual(['io_cell']);
+      expect(hierarchy.tree[0].children[0].children.map(node => node.path)).toEqual(['harness.dut.u_core', 'harness.dut.u_io']);
+      expect(hierarchy.tree[0].children[0].children[1].defined).toBe(false);
+    });
+
+    it('should infer the testbench and design tops', () => {
+      const hierarchy = buildHierarchy(modules, { testbenchDirs: ['/proj/verif'] });
+
+      expect(inferTopModule(hierarchy, 'testbench')).toBe('harness');
+      expect(inferTopModule(hierarchy, 'design')).toBe('stub');
+
+      // Only testbench tops: the largest DUT
+      const withoutStub = buildHierarchy(modules.filter(m => m.name !== 'stub'), { testbenchDirs: ['/proj/verif'] });
+      expect(inferTopModule(withoutStub, 'design')).toBe('soc');
+
+      // No testbench top: the design top
+      expect(inferTopModule(buildHierarchy(modules.slice(0, 3)), 'testbench')).toBe('soc');
+    });
+
+    it('should stop at recursive instantiation', () => {
+      const hierarchy = buildHierarchy([
+        { name: 'top', ports: 1, instances: [{ name: 'u_node', module: 'node' }] },
+        { name: 'node', ports: 1, instances: [{ name: 'u_next', module: 'node' }] },
+      ]);
+
+      expect(hierarchy.tree[0].children[0].children[0]).toMatchObject({ path: 'top.u_node.u_next', children: [] });
+    });
+
+    it('should render an outline with locations relative to the root', () => {
+      const hierarchy = buildHierarchy([
+        { name: 'top', file: '/proj/rtl/top.sv', line: 1, ports: 2, instances: [
+          { name: 'u_fifo', module: 'fifo', file: '/proj/rtl/top.sv', line: 7 },
+          { name: 'u_pll', module: 'PLLE2_BASE' },
+        ] },
+        { name: 'fifo', ports: 1, instances: [{ name: 'u_ram', module: 'ram' }] },
+        { name: 'ram', ports: 1, instances: [] },
+      ]);
+
+      expect(renderHierarchy(hierarchy, '/proj')).toBe([
+        'top [design top: 2 port(s)]  rtl/top.sv:1',
+        '├── u_fifo (fifo)  rtl/top.sv:7',
+        '│   └── u_ram (ram)',
+        '└── u_pll (PLLE2_BASE) [no definition]',
+      ].join('\n'));
+    });
+  });
+
+  describe('HierarchyManager', () => {
+    let testDir: string;
+
+    class FakeElaborator implements HierarchyTool {
+      calls: Array<{ files: string[]; sources?: SourceOptions }> = [];
+      async isInstalled() { return true; }
+      async getVersion() { return '1.0'; }
+      async run() { return { success: true }; }
+      async elaborate(files: string[], sources?: SourceOptions): Promise<ElaborationResult> {
+        this.calls.push({ files, sources });
+        return {
+          success: true,
+          modules: [
+            { name: 'tb_top', ports: 0, instances: [{ name: 'dut', module: 'top' }] },
+            { name: 'top', ports: 1, instances: [] },
+          ],
+        };
+      }
+    }
+
+    beforeEach(() => {
+      testDir = join(tmpdir(), `rtl-hierarchy-${process.pid}-${Date.now()}`);
+      mkdirSync(join(testDir, 'rtl'), { recursive: true });
+      writeFileSync(join(testDir, 'rtl', 'top.sv'), '// top level\nmodule top (input logic clk);\nendmodule\n');
+      writeFileSync(join(testDir, 'rtl', 'tb_top.sv'), 'module automatic tb_top;\n  top dut (.clk());\nendmodule\n');
+    });
+
+    afterEach(() => {
+      rmSync(testDir, { recursive: true, force: true });
+    });
+
+    it('should elaborate the source set files and locate the modules', async () => {
+      const tool = new FakeElaborator();
+      const manager = new HierarchyManager();
+      manager.register('fake', tool);
+      const files = [join(testDir, 'rtl', 'top.sv'), join(testDir, 'rtl', 'tb_top.sv')];
+      manager.setSources(async () => ({
+        files, includeDirs: ['/inc'], defines: {}, libraryDirs: [], libraryFiles: [], libraryExtensions: [], origins: [], ignored: [],
+      }));
+
+      const result = await manager.extract([]);
+
+      expect(result.success).toBe(true);
+      expect(tool.calls[0].files).toEqual(files);
+      expect(tool.calls[0].sources?.includeDirs).toEqual(['/inc']);
+      expect(result.modules.map(m => [m.name, m.file, m.line])).toEqual([
+        ['tb_top', files[1], 1],
+        ['top', files[0], 2],
+      ]);
+      expect(result.tops).toEqual([{ name: 'tb_top', kind: 'testbench', reason: 'testbench module name' }]);
+    });
+
+    it('should report when no tool is installed or no files are given', async () => {
+      const manager = new HierarchyManager();
+      expect((await manager.extract(['a.sv'])).stderr).toContain('No hierarchy tool available');
+
+      manager.register('fake', new FakeElaborator());
+      expect((await manager.extract([])).stderr).toContain('No files to elaborate');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import {
+  scanProjectStructure,
+  detectIncludePaths,
+  detectDefines,
+  explainLSPConfig,
+} from '../../rtl/lsp/config-helper.js';
+import { DEFAULT_RTL_CONFIG } from '../../rtl/config/index.js';
+
+describe('LSP include path and define detection', () => {
+  let dir: string;
+
+  const write = (file: string, text = '') => {
+    mkdirSync(dirname(join(dir, file)), { recursive: true });
+    writeFileSync(join(dir, file), text);
+  };
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `rtl-lsp-config-${process.pid}-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+    write('rtl/core/alu.sv', '`include "alu_defs.svh"\nmodule alu; endmodule\n');
+    write('rtl/core/alu_defs.svh');
+    write('rtl/top.sv', '`include "common/pkg.svh"\n`include "uvm_macros.svh"\n`include "missing.svh"\nmodule top; endmodule\n');
+    write('ip/vendor/hdr/common/pkg.svh');
+    write('build/gen/stale.svh');
+    write('tb/tb_defs.svh');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find header and `include target directories below excluded outputs', async () => {
+    const { includePaths, unresolved } = detectIncludePaths(await scanProjectStructure(dir));
+
+    expect(includePaths).toEqual([
+      { dir: join(dir, 'ip/vendor/hdr/common'), sources: ['ip/vendor/hdr/common/pkg.svh: header file'] },
+      { dir: join(dir, 'rtl/core'), sources: ['rtl/core/alu_defs.svh: header file'] },
+      { dir: join(dir, 'ip/vendor/hdr'), sources: ['rtl/top.sv:1: `include "common/pkg.svh"'] },
+      { dir: join(dir, 'rtl'), sources: ['rtl: RTL directory'] },
+    ]);
+    expect(unresolved).toEqual(['rtl/top.sv:3: `include "missing.svh" not found in the workspace']);
+  });
+
+  it('should add testbench directories only when requested', async () => {
+    const structure = await scanProjectStructure(dir);
+    const dirs = detectIncludePaths(structure, { includeTestbench: true }).includePaths.map(entry => entry.dir);
+
+    expect(dirs).toContain(join(dir, 'tb'));
+    expect(detectIncludePaths(structure, { maxDepth: 1 }).includePaths.map(entry => entry.dir))
+      .not.toContain(join(dir, 'ip/vendor/hdr/common'));
+  });
+
+  it('should read defines from Makefiles, CMake, Bender.yml and shell scripts', async () => {
+    write('Makefile', [
+      'WIDTH := 8',
+      'VFLAGS = -DWIDTH=$(WIDTH) \\',
+      '  +define+SIMULATION+TRACE=1 +incdir+ip/vendor/hdr # headers',
+      '# -DCOMMENTED',
+    ].join('\n'));
+    write('CMakeLists.txt', 'add_compile_definitions(FPGA=1)\ntarget_compile_definitions(Vtop PRIVATE\n  "MODE=2"\n  NO_ASSERT)\n');
+    write('Bender.yml', 'package:\n  name: soc\nexport_include_dirs:\n  - rtl/core\nsources:\n  - defines:\n      BENDER: ~\n      WIDTH: 16\n    files:\n      - rtl/top.sv\n');
+    write('sim/run.sh', '#!/bin/sh\nSEED=7\nverilator --lint-only -DSEED=$SEED -DTRACE ../rtl/top.sv\n');
+
+    const structure = await scanProjectStructure(dir);
+    const defines = detectDefines(structure);
+
+    expect(Object.fromEntries(defines.map(entry => [entry.name, entry.value]))).toEqual({
+      BENDER: '',
+      WIDTH: '8',
+      FPGA: '1',
+      MODE: '2',
+      NO_ASSERT: '',
+      SIMULATION: '',
+      TRACE: '',
+      SEED: '7',
+    });
+    expect(defines.find(entry => entry.name === 'WIDTH')).toEqual({
+      name: 'WIDTH',
+      value: '8',
+      source: 'Makefile:2: -D',
+      overridden: [{ value: '16', source: 'Bender.yml: defines' }],
+    });
+    expect(defines.find(entry => entry.name === 'TRACE')).toMatchObject({
+      source: 'sim/run.sh:3: -D',
+      overridden: [{ value: '1', source: 'Makefile:2: +define+' }],
+    });
+    expect(defines.find(entry => entry.name === 'MODE')?.source).toBe('CMakeLists.txt:2: target_compile_definitions');
+
+    const { includePaths } = detectIncludePaths(structure);
+    expect(includePaths.find(entry => entry.dir === join(dir, 'ip/vendor/hdr'))?.sources).toEqual([
+      'Makefile:2: +incdir+',
+      'rtl/top.sv:1: `include "common/pkg.svh"',
+    ]);
+    expect(includePaths[0]).toEqual({ dir: join(dir, 'rtl/core'), sources: ['Bender.yml: export_include_dirs', 'rtl/core/alu_defs.svh: header file'] });
+  });
+
+  it('should explain detected settings with configured ones taking precedence', async () => {
+    write('Makefile', 'SIM_FLAGS = -DWIDTH=8 -DDEBUG\n');
+    const config = { ...DEFAULT_RTL_CONFIG, includePaths: ['include'], defines: { WIDTH: '32' } };
+
+    const explanation = await explainLSPConfig(dir, config);
+
+    expect(explanation.mode).toBe('detected');
+    expect(explanation.includePaths[0]).toEqual({ dir: join(dir, 'include'), sources: ['.rtl-config.json: includePaths'] });
+    expect(explanation.defines).toEqual([
+      { name: 'WIDTH', value: '32', source: '.rtl-config.json: defines', overridden: [{ value: '8', source: 'Makefile:1: -D' }] },
+      { name: 'DEBUG', value: '', source: 'Makefile:1: -D', overridden: [] },
+    ]);
+    expect(explanation.issues).toEqual(['rtl/top.sv:3: `include "missing.svh" not found in the workspace']);
+  });
+
+  it('should read -D and -I only from HDL tool flags and command lines', async () => {
+    write('Makefile', [
+      'CFLAGS = -DNDEBUG -Isw/include',
+      'VFLAGS += -Irtl/core -I ip/vendor/hdr -DWIDTH=8',
+      'lint:',
+      '\tverilator --lint-only $(VFLAGS) -CFLAGS -DFAST -Itb rtl/top.sv',
+      '\tgcc $(CFLAGS) -DHOST sw/main.c',
+    ].join('\n'));
+
+    const explanation = await explainLSPConfig(dir, DEFAULT_RTL_CONFIG);
+
+    expect(explanation.defines.map(entry => [entry.name, entry.source])).toEqual([['WIDTH', 'Makefile:2: -D']]);
+    expect(explanation.includePaths).toContainEqual({ dir: join(dir, 'tb'), sources: ['Makefile:4: -I'] });
+    expect(explanation.includePaths.find(entry => entry.dir === join(dir, 'rtl/core'))?.sources).toContain('Makefile:2: -I');
+    expect(explanation.includePaths.find(entry => entry.dir === join(dir, 'ip/vendor/hdr'))?.sources).toContain('Makefile:2: -I');
+    expect(explanation.includePaths.map(entry => entry.dir)).not.toContain(join(dir, 'sw/include'));
+  });
+
+  it('should explain configured sources and fall back to detection when they fail', async () => {
+    write('files.f', '+incdir+rtl/core\n+define+WIDTH=4\nrtl/core/alu.sv\n');
+    const config = { ...DEFAULT_RTL_CONFIG, defines: { WIDTH: '32', SYNTHESIS: '' }, sources: { default: { filelist: 'files.f' } } };
+
+    const explanation = await explainLSPConfig(dir, config);
+    expect(explanation).toEqual({
+      mode: 'sources',
+      includePaths: [{ dir: join(dir, 'rtl/core'), sources: ['sources: files.f'] }],
+      defines: [
+        { name: 'WIDTH', value: '4', source: 'sources: files.f', overridden: [{ value: '32', source: '.rtl-config.json: defines' }] },
+        { name: 'SYNTHESIS', value: '', source: '.rtl-config.json: defines', overridden: [] },
+      ],
+      issues: [],
+    });
+
+    const broken = await explainLSPConfig(dir, { ...config, sources: { default: { filelist: 'missing.f' } } });
+    expect(broken.mode).toBe('detected');
+    expect(broken.issues[0]).toContain('missing.f');
+  });
+});
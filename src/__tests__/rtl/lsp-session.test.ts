@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RTLLanguageServer } from '../../rtl/lsp/server.js';
+import { findRTLWorkspaceRoot } from '../../rtl/lsp/index.js';
+
+/**
+ * Minimal stdio language server: publishes one diagnostic per opened
+ * document and answers symbol/hover/definition/references requests.
+ */
+const STUB_SERVER = `
+let buffer = '';
+const send = (message) => {
+  const content = JSON.stringify({ jsonrpc: '2.0', ...message });
+  process.stdout.write('Content-Length: ' + Buffer.byteLength(content) + '\\r\\n\\r\\n' + content);
+};
+const range = (line, character) => ({ start: { line, character }, end: { line, character: character + 5 } });
+const results = {
+  initialize: () => ({ capabilities: {} }),
+  shutdown: () => null,
+  'textDocument/documentSymbol': () => [
+    { name: 'fifo', kind: 2, range: range(0, 0), selectionRange: range(0, 7), children: [
+      { name: 'wr_ptr', kind: 13, range: range(4, 2), selectionRange: range(4, 12) },
+    ] },
+  ],
+  'textDocument/hover': () => ({ contents: { kind: 'markdown', value: 'logic [3:0] wr_ptr' }, range: range(4, 12) }),
+  'textDocument/definition': (params) => [
+    { targetUri: params.textDocument.uri, targetRange: range(4, 2), targetSelectionRange: range(4, 12) },
+  ],
+  'textDocument/references': (params) => [
+    { uri: params.textDocument.uri, range: range(4, 12) },
+    { uri: params.textDocument.uri, range: range(9, 6) },
+  ],
+};
+const handle = (message) => {
+  if (message.method === 'textDocument/didOpen') {
+    send({ method: 'textDocument/publishDiagnostics', params: {
+      uri: message.params.textDocument.uri,
+      diagnostics: [{ range: range(2, 4), severity: 2, code: 'unused-signal', message: 'wr_en is never read' }],
+    } });
+  } else if (message.method === 'exit') {
+    process.exit(0);
+  } else if (message.id !== undefined) {
+    send({ id: message.id, result: (results[message.method] ?? (() => null))(message.params) });
+  }
+};
+process.stdin.on('data', (data) => {
+  buffer += data.toString();
+  for (;;) {
+    const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+    if (headerEnd === -1) return;
+    const length = Number(/Content-Length: (\\d+)/i.exec(buffer.slice(0, headerEnd))[1]);
+    if (buffer.length < headerEnd + 4 + length) return;
+    handle(JSON.parse(buffer.slice(headerEnd + 4, headerEnd + 4 + length)));
+    buffer = buffer.slice(headerEnd + 4 + length);
+  }
+});
+`;
+
+describe('RTL language server sessions', () => {
+  let dir: string;
+  let file: string;
+  let server: RTLLanguageServer;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtl-lsp-'));
+    file = path.join(dir, 'fifo.sv');
+    fs.writeFileSync(path.join(dir, 'stub-server.cjs'), STUB_SERVER);
+    fs.writeFileSync(file, 'module fifo;\n');
+    server = new RTLLanguageServer(dir, {
+      name: 'stub',
+      command: 'node',
+      args: [path.join(dir, 'stub-server.cjs')],
+      extensions: ['.sv'],
+      installHint: '',
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should only expose a client while the server runs', async () => {
+    expect(server.client).toBeNull();
+    expect(await server.start()).toBe(true);
+    expect(server.client).not.toBeNull();
+
+    await server.stop();
+    expect(server.client).toBeNull();
+    await expect(server.diagnostics(file)).rejects.toThrow('stub is not running');
+  });
+
+  it('should not start a server that is not installed', async () => {
+    const missing = new RTLLanguageServer(dir, { ...server.config, command: 'no-such-rtl-language-server' });
+    expect(await missing.start()).toBe(false);
+    expect(missing.client).toBeNull();
+  });
+
+  it('should convert published diagnostics to 1-based positions', async () => {
+    await server.start();
+
+    const diagnostics = await server.diagnostics(file);
+    expect(diagnostics).toEqual([
+      { file, line: 3, column: 5, severity: 'warning', message: 'wr_en is never read', code: 'unused-signal' },
+    ]);
+
+    // Reopening re-publishes for the same document
+    expect(await server.diagnostics(file)).toHaveLength(1);
+  });
+
+  it('should flatten document symbols with their container', async () => {
+    await server.start();
+
+    expect(await server.documentSymbols(file)).toEqual([
+      { name: 'fifo', kind: 'Module', location: { file, line: 1, column: 8 } },
+      { name: 'wr_ptr', kind: 'Variable', location: { file, line: 5, column: 13 }, container: 'fifo' },
+    ]);
+  });
+
+  it('should answer hover, definition and references', async () => {
+    await server.start();
+
+    expect(await server.hover(file, 5, 13)).toEqual({
+      contents: 'logic [3:0] wr_ptr',
+      range: { start: { line: 5, column: 13 }, end: { line: 5, column: 18 } },
+    });
+    expect(await server.definition(file, 10, 7)).toEqual([{ file, line: 5, column: 13 }]);
+    expect(await server.references(file, 5, 13)).toEqual([
+      { file, line: 5, column: 13 },
+      { file, line: 10, column: 7 },
+    ]);
+  });
+
+  it('should find the workspace from the nearest RTL config', () => {
+    const nested = path.join(dir, 'ip', 'fifo', 'rtl');
+    fs.mkdirSync(nested, { recursive: true });
+    fs.writeFileSync(path.join(dir, 'ip', 'fifo', '.rtl-config.json'), '{}');
+
+    expect(findRTLWorkspaceRoot(path.join(nested, 'fifo.sv'))).toBe(path.join(dir, 'ip', 'fifo'));
+  });
+});
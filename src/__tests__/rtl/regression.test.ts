@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SimulationManager } from '../../rtl/tools/simulation/index.js';
+import { CoverageDatabase } from '../../rtl/tools/coverage/index.js';
+import type { SimulationTool, SimulationRunOptions, CompileResult } from '../../rtl/tools/types.js';
+import type { CoverageResult, SimulationResult } from '../../rtl/types.js';
+import {
+  RegressionRunner,
+  TestListError,
+  loadTestList,
+  normalizeTestList,
+} from '../../rtl/workflow/index.js';
+
+/**
+ * Fake simulator: the testbench name decides the outcome
+ */
+class FakeSim implements SimulationTool {
+  name = 'fakesim';
+  calls: Array<{ testbench: string; args: string[]; options?: SimulationRunOptions }> = [];
+  flakyFailures = 0;
+
+  async isInstalled(): Promise<boolean> {
+    return true;
+  }
+
+  async getVersion(): Promise<string> {
+    return '1.0';
+  }
+
+  async run(): Promise<any> {
+    return {};
+  }
+
+  async compile(_files: string[], options?: SimulationRunOptions): Promise<CompileResult> {
+    return { success: true, executable: join(options?.workDir ?? '.', 'sim') };
+  }
+
+  seedArgs(seed: number): string[] {
+    return [`+seed=${seed}`];
+  }
+
+  async simulate(testbench: string, args: string[] = [], options?: SimulationRunOptions): Promise<SimulationResult> {
+    this.calls.push({ testbench, args, options });
+    const seed = options?.seed ?? 0;
+
+    if (testbench === 'tb_flaky' && this.flakyFailures > 0) {
+      this.flakyFailures--;
+      return { success: false, passed: false, stderr: 'fork failed: Resource temporarily unavailable' };
+    }
+    if (testbench === 'tb_missing') {
+      return { success: false, passed: false, stderr: "ENOENT: no such file or directory, open 'tb/tb_missing.sv'" };
+    }
+    if (testbench === 'tb_nosim') {
+      return { success: false, passed: false, stderr: 'spawn fakesim ENOENT' };
+    }
+    if (testbench === 'tb_hang') {
+      return {
+        success: false,
+        passed: false,
+        verdict: { passed: false, status: 'timeout', reason: 'Simulation timed out', evidence: [] },
+      };
+    }
+    if (testbench === 'tb_odd' && seed % 2 === 1) {
+      return {
+        success: false,
+        passed: false,
+        stdout: `seed ${seed}\nTEST FAILED`,
+        verdict: { passed: false, status: 'fail', reason: 'fail marker: TEST FAILED', evidence: [] },
+      };
+    }
+    return {
+      success: true,
+      passed: true,
+      stdout: `seed ${seed}\nTEST PASSED`,
+      verdict: { passed: true, status: 'pass', reason: 'pass marker: TEST PASSED', evidence: [] },
+    };
+  }
+}
+
+/**
+ * Fake simulator writing a coverage.dat that hits one line per seed
+ */
+class CoverageSim extends FakeSim {
+  async collectCoverage(options?: SimulationRunOptions): Promise<CoverageResult> {
+    const database = join(options?.workDir ?? '.', 'coverage.dat');
+    const lines = [1, 2, 3, 4].map(line =>
+      `C '\x01f\x02rtl/fifo.sv\x01l\x02${line}\x01page\x02v_line/fifo\x01h\x02tb.dut\x01' ${line === options?.seed ? 1 : 0}`
+    );
+    writeFileSync(database, ['# SystemC::Coverage-3', ...lines, ''].join('\n'));
+    return { line: 25, toggle: 0, fsm: 0, database };
+  }
+}
+
+describe('Regression', () => {
+  let testDir: string;
+  let sim: FakeSim;
+  let manager: SimulationManager;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `rtl-regression-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    sim = new FakeSim();
+    manager = new SimulationManager();
+    manager.register('fakesim', sim);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('test lists', () => {
+    it('should apply defaults and resolve paths relative to the list', () => {
+      const listPath = join(testDir, 'tests.jsonc');
+      writeFileSync(listPath, `{
+        // nightly list
+        "defaults": { "files": ["rtl/fifo.sv"], "timeout": 120, "tags": ["nightly"] },
+        "tests": [
+          { "name": "smoke", "testbench": "tb_fifo", "files": ["tb/tb_fifo.sv"], "plusargs": ["+MODE=1"], "tags": ["smoke"] },
+          { "name": "random", "testbench": "tb_fifo", "seeds": [7, 9], "timeout": 5 },
+        ],
+      }`);
+
+      const tests = loadTestList(listPath);
+
+      expect(tests[0]).toEqual({
+        name: 'smoke',
+        testbench: 'tb_fifo',
+        files: [join(testDir, 'rtl/fifo.sv'), join(testDir, 'tb/tb_fifo.sv')],
+        plusargs: ['+MODE=1'],
+        seeds: 1,
+        timeout: 120,
+        tags: ['nightly', 'smoke'],
+        tool: undefined,
+      });
+      expect(tests[1]).toMatchObject({ seeds: [7, 9], timeout: 5 });
+    });
+
+    it('should report every invalid field', () => {
+      const list = {
+        tests: [
+          { name: 'a', testbench: 'tb', seeds: 0, timout: 5 },
+          { name: 'a' },
+          { name: 'fifo/a', testbench: 'tb', seeds: [1, 2, 1] },
+          { name: 'fifo_a', testbench: 'tb' },
+        ],
+      };
+
+      try {
+        normalizeTestList(list, testDir, 'tests.json');
+        expect.fail('expected TestListError');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TestListError);
+        expect((error as TestListError).issues).toEqual([
+          'tests[0].timout: is not a recognized option',
+          'tests[0].seeds: must be a positive integer or a non-empty array of integers',
+          'tests[1].testbench: is required',
+          "tests[1].name: duplicate test name 'a'",
+          'tests[2].seeds: duplicate seed 1',
+          "tests[3].name: 'fifo_a' and 'fifo/a' share the run directory 'fifo_a'",
+        ]);
+      }
+    });
+  });
+
+  describe('RegressionRunner', () => {
+    it('should run every seed in its own directory and write reports', async () => {
+      const tests = normalizeTestList({
+        tests: [
+          { name: 'smoke', testbench: 'tb_smoke', plusargs: ['+MODE=1'], timeout: 5 },
+          { name: 'odd', testbench: 'tb_odd', seeds: 2 },
+          { name: 'hang', testbench: 'tb_hang' },
+        ],
+      }, testDir);
+
+      const outputDir = join(testDir, 'out');
+      const result = await new RegressionRunner(manager, { jobs: 2, outputDir }).run(tests);
+
+      expect(result.passed).toBe(false);
+      expect(result.totals).toEqual({ runs: 4, pass: 2, fail: 1, timeout: 1, error: 0 });
+      expect(result.runs.map(r => [r.test, r.seed, r.status])).toEqual([
+        ['smoke', 1, 'pass'],
+        ['odd', 1, 'fail'],
+        ['odd', 2, 'pass'],
+        ['hang', 1, 'timeout'],
+      ]);
+
+      const smoke = sim.calls.find(c => c.testbench === 'tb_smoke')!;
+      expect(smoke.args).toEqual(['+MODE=1', '+seed=1']);
+      expect(smoke.options).toMatchObject({
+        workDir: join(outputDir, 'smoke', 'seed_1'),
+        timeoutMs: 5000,
+        seed: 1,
+        testName: 'smoke',
+      });
+      expect(existsSync(join(outputDir, 'odd', 'seed_2', 'sim.log'))).toBe(true);
+
+      const junit = readFileSync(result.junitPath, 'utf8');
+      expect(junit).toContain('<testsuites name="regression" tests="4" failures="2" errors="0"');
+      expect(junit).toContain('<failure type="fail" message="fail marker: TEST FAILED"/>');
+      expect(junit).toContain('<failure type="timeout" message="Simulation timed out"/>');
+
+      const summary = readFileSync(result.summaryPath, 'utf8');
+      expect(summary).toContain('Regression FAILED: 2/4 passed, 1 failed, 1 timed out, 0 errors');
+      expect(summary).toMatch(/odd\s+2\s+1\s+1\s+0\s+0/);
+      expect(existsSync(join(outputDir, 'results.json'))).toBe(true);
+    });
+
+    it('should merge the coverage of every parallel run', async () => {
+      const coverageManager = new SimulationManager();
+      coverageManager.register('coveragesim', new CoverageSim());
+      const db = new CoverageDatabase(join(testDir, 'coverage'), { workspaceRoot: testDir });
+      coverageManager.setCoverageDatabase(db);
+      const tests = normalizeTestList({ tests: [{ name: 'random', testbench: 'tb_random', seeds: 4 }] }, testDir);
+
+      const result = await new RegressionRunner(coverageManager, { jobs: 2, outputDir: join(testDir, 'out') }).run(tests);
+
+      expect(result.totals.pass).toBe(4);
+      const runs = await db.getRuns();
+      expect(runs.map(run => run.seed).sort()).toEqual([1, 2, 3, 4]);
+      expect(runs.map(run => run.newPoints)).toEqual([1, 1, 1, 1]);
+      expect((await db.getMergedCoverage()).line).toBe(100);
+    });
+
+    it('should retry infrastructure errors', async () => {
+      sim.flakyFailures = 1;
+      const tests = normalizeTestList({ tests: [{ name: 'flaky', testbench: 'tb_flaky' }] }, testDir);
+
+      const result = await new RegressionRunner(manager, { outputDir: join(testDir, 'out') }).run(tests);
+
+      expect(result.runs[0]).toMatchObject({ status: 'pass', attempts: 2, tool: 'fakesim' });
+    });
+
+    it('should report an error when retries are exhausted', async () => {
+      sim.flakyFailures = 5;
+      const tests = normalizeTestList({ tests: [{ name: 'flaky', testbench: 'tb_flaky' }] }, testDir);
+
+      const result = await new RegressionRunner(manager, { retries: 2, outputDir: join(testDir, 'out') }).run(tests);
+
+      expect(result.runs[0]).toMatchObject({ status: 'error', attempts: 3 });
+      expect(result.runs[0].reason).toContain('Resource temporarily unavailable');
+    });
+
+    it('should fail missing sources at once and retry tools that could not start', async () => {
+      const tests = normalizeTestList({
+        tests: [
+          { name: 'missing', testbench: 'tb_missing' },
+          { name: 'nosim', testbench: 'tb_nosim' },
+        ],
+      }, testDir);
+
+      const result = await new RegressionRunner(manager, { retries: 1, outputDir: join(testDir, 'out') }).run(tests);
+
+      expect(result.runs.map(r => [r.test, r.status, r.attempts])).toEqual([
+        ['missing', 'error', 1],
+        ['nosim', 'error', 2],
+      ]);
+    });
+
+    it('should filter tests by tag', async () => {
+      const tests = normalizeTestList({
+        tests: [
+          { name: 'smoke', testbench: 'tb_smoke', tags: ['smoke'] },
+          { name: 'long', testbench: 'tb_long', tags: ['nightly'] },
+        ],
+      }, testDir);
+
+      const result = await new RegressionRunner(manager, { tags: ['smoke'], outputDir: join(testDir, 'out') }).run(tests);
+
+      expect(result.runs.map(r => r.test)).toEqual(['smoke']);
+      expect(result.passed).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, existsSync, writeFileSync, readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import {
+  SimulationManager,
+  SynthesisManager,
+  createRunDirectory,
+  writeRunManifest,
+  readRunManifest,
+  type SimulationTool,
+  type SynthesisTool,
+  type SimulationRunOptions,
+  type SynthesisRunOptions,
+} from '../../rtl/tools/index.js';
+import type { TimingConstraints } from '../../rtl/types.js';
+
+class FakeSim implements SimulationTool {
+  async isInstalled() { return true; }
+  async getVersion() { return '5.024'; }
+  async run() { return { success: true }; }
+
+  async compile(files: string[], options?: SimulationRunOptions) {
+    const executable = join(options?.workDir ?? '.', 'obj_dir', 'Vtb');
+    mkdirSync(dirname(executable), { recursive: true });
+    writeFileSync(executable, '');
+    return { success: true, executable, command: `fakesim --build ${files.join(' ')}` };
+  }
+
+  async simulate(_testbench: string, args: string[] = [], options?: SimulationRunOptions) {
+    const workDir = options?.workDir ?? '.';
+    writeFileSync(join(workDir, 'dump.vcd'), '$end');
+    return {
+      success: true,
+      passed: true,
+      command: `${options?.executable} ${args.join(' ')}`,
+      waveform: join(workDir, 'dump.vcd'),
+    };
+  }
+}
+
+class FakeSynth implements SynthesisTool {
+  async isInstalled() { return true; }
+  async getVersion() { return '0.40'; }
+  async run() { return { success: true }; }
+
+  async synthesize(_design: string[], _constraints?: TimingConstraints, options?: SynthesisRunOptions) {
+    const workDir = options?.workDir ?? '.';
+    writeFileSync(join(workDir, 'synthesized.v'), 'module top; endmodule');
+    writeFileSync(join(workDir, 'synth_stats.txt'), 'Number of cells: 4');
+    return {
+      success: true,
+      netlist: join(workDir, 'synthesized.v'),
+      log: join(workDir, 'synth_stats.txt'),
+      script: join(workDir, 'synth_script.ys'),  // never written
+      command: 'yosys -s synth_script.ys',
+    };
+  }
+
+  async analyzeTiming() {
+    return { criticalPath: { start: 'a', end: 'b', delay: 1 }, slack: 0, frequency: 100 };
+  }
+
+  async estimatePPA() {
+    return {
+      area: { cells: 4, area: 40 },
+      power: { dynamic: 0, static: 0, total: 0 },
+      performance: { frequency: 100 },
+    };
+  }
+}
+
+describe('Run directories', () => {
+  let testDir: string;
+  let designFile: string;
+
+  beforeEach(() => {
+    testDir = join(tmpdir(), `rtl-run-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testDir, { recursive: true });
+    designFile = join(testDir, 'fifo.sv');
+    writeFileSync(designFile, 'module fifo; endmodule\n');
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should create unique run directories', async () => {
+    const root = join(testDir, 'runs');
+    const [a, b] = await Promise.all([
+      createRunDirectory(root, 'tb/fifo tb'),
+      createRunDirectory(root, 'tb/fifo tb'),
+    ]);
+
+    expect(a).not.toBe(b);
+    expect(existsSync(a) && existsSync(b)).toBe(true);
+    expect(a).toMatch(/runs\/\d{8}-\d{6}-fifo_tb-/);
+  });
+
+  it('should hash inputs and keep only existing outputs', async () => {
+    const dir = await createRunDirectory(join(testDir, 'runs'), 'fifo');
+    writeFileSync(join(dir, 'out.v'), '');
+
+    const record = await writeRunManifest(dir, {
+      kind: 'synthesis',
+      tool: 'yosys',
+      toolVersion: '0.40',
+      args: [],
+      commands: ['yosys -s synth_script.ys'],
+      inputs: [designFile, join(testDir, 'missing.sv')],
+      outputs: { netlist: join(dir, 'out.v'), log: 'missing.log', script: undefined },
+      success: true,
+      startTime: new Date().toISOString(),
+    });
+
+    expect(record.artifacts).toEqual({ netlist: 'out.v' });
+
+    const manifest = readRunManifest(dir)!;
+    expect(manifest.inputs).toEqual([
+      { path: designFile, sha256: createHash('sha256').update('module fifo; endmodule\n').digest('hex') },
+      { path: join(testDir, 'missing.sv'), sha256: null },
+    ]);
+    expect(manifest.outputs).toEqual({ netlist: 'out.v' });
+  });
+
+  it('should give concurrent simulations separate directories with manifests', async () => {
+    const sim = new FakeSim();
+    const manager = new SimulationManager();
+    manager.register('fakesim', sim);
+    manager.setRunRoot(join(testDir, 'reports', 'runs'));
+
+    const [first, second] = await Promise.all([
+      manager.simulate([designFile], 'tb_fifo', ['+MODE=1']),
+      manager.simulate([designFile], 'tb_fifo', ['+MODE=2']),
+    ]);
+
+    expect(first.run!.dir).not.toBe(second.run!.dir);
+    expect(first.run!.artifacts).toEqual({ executable: join('obj_dir', 'Vtb'), waveform: 'dump.vcd' });
+
+    const manifest = JSON.parse(readFileSync(first.run!.manifest, 'utf8'));
+    expect(manifest).toMatchObject({
+      kind: 'simulation',
+      tool: 'fakesim',
+      toolVersion: '5.024',
+      args: ['+MODE=1'],
+      success: true,
+    });
+    expect(manifest.commands).toHaveLength(2);
+    expect(manifest.commands[0]).toContain('fakesim --build');
+  });
+
+  it('should record synthesis runs under the run root', async () => {
+    const manager = new SynthesisManager();
+    manager.register('fakesynth', new FakeSynth());
+    manager.setRunRoot(join(testDir, 'synth', 'runs'));
+
+    const result = await manager.synthesize([designFile], '');
+
+    expect(result.run!.dir.startsWith(join(testDir, 'synth', 'runs'))).toBe(true);
+    expect(result.run!.artifacts).toEqual({ netlist: 'synthesized.v', log: 'synth_stats.txt' });
+    expect(readRunManifest(result.run!.dir)).toMatchObject({
+      kind: 'synthesis',
+      tool: 'fakesynth',
+      commands: ['yosys -s synth_script.ys'],
+    });
+    expect(result.ppa?.area.cells).toBe(4);
+  });
+
+  it('should write the manifest into an explicit work directory', async () => {
+    const manager = new SimulationManager();
+    manager.register('fakesim', new FakeSim());
+
+    const result = await manager.simulate([designFile], 'tb_fifo', [], undefined, { workDir: testDir });
+
+    expect(result.run?.dir).toBe(testDir);
+    expect(existsSync(join(testDir, 'run.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { tmpdir } from 'os';
+import {
+  SourceSetError,
+  loadFilelist,
+  loadCore,
+  parseCoreYaml,
+  resolveSourceSet,
+  sourceArgs,
+} from '../../rtl/sources/index.js';
+import { DEFAULT_RTL_CONFIG } from '../../rtl/config/index.js';
+import type { RTLProjectConfig } from '../../rtl/types.js';
+
+const FIFO_CORE = `CAPI=2:
+name: acme:ip:fifo:1.0
+description: Synchronous FIFO
+
+filesets:
+  rtl: &rtl
+    files:
+      - include/fifo_pkg.svh: {is_include_file: true}
+      - rtl/fifo.sv
+      - doc/fifo.md: {file_type: user}
+    file_type: systemVerilogSource
+    depend: ["::ram:0"]
+  tb:
+    <<: *rtl
+    files: [tb/fifo_tb.sv]
+    depend: []
+
+parameters:
+  DEPTH:
+    datatype: int
+    default: 16
+    paramtype: vlogdefine
+  SEED:
+    datatype: int
+    paramtype: plusarg
+
+targets:
+  default:
+    filesets: [rtl]
+  sim:
+    filesets: [rtl, "simulation? (tb)"]
+    parameters: [DEPTH=4, SEED]
+    toplevel: fifo_tb
+`;
+
+const RAM_CORE = `CAPI=2:
+name: "acme:ip:ram:0"
+filesets:
+  rtl:
+    files:
+      - rtl/ram.v
+    file_type: verilogSource
+targets:
+  default:
+    filesets: [rtl]
+`;
+
+describe('RTL source sets', () => {
+  let dir: string;
+
+  const write = (file: string, text = '') => {
+    mkdirSync(dirname(join(dir, file)), { recursive: true });
+    writeFileSync(join(dir, file), text);
+  };
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `rtl-sources-${process.pid}-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('filelists', () => {
+    beforeEach(() => {
+      ['rtl/top.sv', 'rtl/alu.sv', 'ip/fifo/fifo.sv', 'ip/fifo/inc/fifo.svh', 'lib/cells/and2.v', 'lib/prims.v']
+        .forEach(file => write(file));
+    });
+
+    it('should read files, include dirs, defines and libraries', async () => {
+      write('ip/fifo/fifo.f', '+incdir+inc\nfifo.sv\n');
+      write('common.f', 'rtl/alu.sv  // shared ALU\n');
+      write('top.f', [
+        '/* project filelist */',
+        '+incdir+$IP_ROOT/fifo/inc',
+        '+define+SYNTHESIS+WIDTH=8',
+        '-DDEBUG',
+        '-y lib/cells +libext+.v+.sv',
+        '-v ${LIB}/prims.v',
+        '-f common.f',
+        '-F ip/fifo/fifo.f',
+        '--top-module top',
+        '-timescale 1ns/1ps',
+        '--trace',
+        '"rtl/top.sv" # top level',
+      ].join('\n'));
+
+      const sources = await loadFilelist('top.f', { root: dir, env: { IP_ROOT: 'ip', LIB: 'lib' } });
+
+      expect(sources.files).toEqual([
+        join(dir, 'rtl/alu.sv'),
+        join(dir, 'ip/fifo/fifo.sv'),
+        join(dir, 'rtl/top.sv'),
+      ]);
+      expect(sources.includeDirs).toEqual([join(dir, 'ip/fifo/inc')]);
+      expect(sources.defines).toEqual({ SYNTHESIS: '', WIDTH: '8', DEBUG: '' });
+      expect(sources.libraryDirs).toEqual([join(dir, 'lib/cells')]);
+      expect(sources.libraryFiles).toEqual([join(dir, 'lib/prims.v')]);
+      expect(sources.libraryExtensions).toEqual(['.v', '.sv']);
+      expect(sources.top).toBe('top');
+      expect(sources.origins).toEqual([join(dir, 'top.f'), join(dir, 'common.f'), join(dir, 'ip/fifo/fifo.f')]);
+      expect(sources.ignored).toEqual([
+        `${join(dir, 'top.f')}:10: -timescale 1ns/1ps`,
+        `${join(dir, 'top.f')}:11: --trace`,
+      ]);
+    });
+
+    it('should list every missing file, variable and self-inclusion', async () => {
+      write('top.f', 'rtl/top.sv\nrtl/missing.sv\n+incdir+$NO_SUCH_DIR\n-f top.f\n');
+
+      const error = await loadFilelist('top.f', { root: dir, env: {} }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SourceSetError);
+      expect(error.issues).toEqual([
+        `${join(dir, 'top.f')}:2: source file not found: rtl/missing.sv`,
+        `${join(dir, 'top.f')}:3: undefined environment variable NO_SUCH_DIR`,
+        `${join(dir, 'top.f')}:3: include directory not found: $NO_SUCH_DIR`,
+        `${join(dir, 'top.f')}: ${join(dir, 'top.f')}: filelist includes itself`,
+      ]);
+    });
+  });
+
+  describe('FuseSoC cores', () => {
+    beforeEach(() => {
+      write('fifo/fifo.core', FIFO_CORE);
+      ['fifo/include/fifo_pkg.svh', 'fifo/rtl/fifo.sv', 'fifo/doc/fifo.md', 'fifo/tb/fifo_tb.sv'].forEach(file => write(file));
+      write('ram/ram.core', RAM_CORE);
+      write('ram/rtl/ram.v');
+    });
+
+    it('should parse anchors, merges and flow collections', () => {
+      const core = parseCoreYaml(FIFO_CORE) as any;
+
+      expect(core.name).toBe('acme:ip:fifo:1.0');
+      expect(core.filesets.tb.file_type).toBe('systemVerilogSource');
+      expect(core.filesets.tb.files).toEqual(['tb/fifo_tb.sv']);
+      expect(core.filesets.rtl.files[0]).toEqual({ 'include/fifo_pkg.svh': { is_include_file: true } });
+      expect(core.parameters.DEPTH.default).toBe(16);
+    });
+
+    it('should resolve a target with its dependencies first', async () => {
+      const sources = await loadCore(join(dir, 'fifo/fifo.core'), { targets: ['sim'], flags: ['simulation'], libraries: [dir] });
+
+      expect(sources.files).toEqual([
+        join(dir, 'ram/rtl/ram.v'),
+        join(dir, 'fifo/rtl/fifo.sv'),
+        join(dir, 'fifo/tb/fifo_tb.sv'),
+      ]);
+      expect(sources.includeDirs).toEqual([join(dir, 'fifo/include')]);
+      expect(sources.defines).toEqual({ DEPTH: '4' });
+      expect(sources.top).toBe('fifo_tb');
+      expect(sources.origins).toEqual([join(dir, 'fifo/fifo.core'), join(dir, 'ram/ram.core')]);
+      expect(sources.ignored).toEqual([`${join(dir, 'fifo/fifo.core')}: fileset rtl: doc/fifo.md (user)`]);
+    });
+
+    it('should skip conditional filesets whose flag is not set', async () => {
+      const sources = await loadCore(join(dir, 'fifo/fifo.core'), { targets: ['sim'], libraries: [dir] });
+      expect(sources.files).not.toContain(join(dir, 'fifo/tb/fifo_tb.sv'));
+    });
+
+    it('should report missing targets and dependencies', async () => {
+      rmSync(join(dir, 'ram'), { recursive: true });
+
+      const error = await loadCore(join(dir, 'fifo/fifo.core'), { targets: ['synth'], libraries: [dir] }).catch(e => e);
+      expect(error).toBeInstanceOf(SourceSetError);
+      expect(error.issues).toEqual([`${join(dir, 'fifo/fifo.core')}: target synth not found (targets: default, sim)`]);
+
+      const missing = await loadCore(join(dir, 'fifo/fifo.core'), { libraries: [dir] }).catch(e => e);
+      expect(missing.issues).toEqual([`${join(dir, 'fifo/fifo.core')}: fileset rtl: dependency ::ram:0 not found`]);
+    });
+  });
+
+  describe('resolveSourceSet', () => {
+    const config = (overrides: Partial<RTLProjectConfig>): RTLProjectConfig => ({
+      ...DEFAULT_RTL_CONFIG,
+      includePaths: ['include'],
+      defines: { WIDTH: '32', SYNTHESIS: '' },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      write('rtl/top.sv');
+      write('rtl/inc/defs.svh');
+      write('include/common.svh');
+      write('lint.f', '+incdir+rtl/inc\n+define+WIDTH=8\nrtl/top.sv\n');
+    });
+
+    it('should only carry the global include paths and defines without sources', async () => {
+      const sources = await resolveSourceSet(config({}), dir, 'lint');
+
+      expect(sources.files).toEqual([]);
+      expect(sources.includeDirs).toEqual([join(dir, 'include')]);
+      expect(sources.defines).toEqual({ WIDTH: '32', SYNTHESIS: '' });
+    });
+
+    it('should use the target entry, else the default entry', async () => {
+      write('fifo/fifo.core', FIFO_CORE);
+      ['fifo/include/fifo_pkg.svh', 'fifo/rtl/fifo.sv', 'fifo/doc/fifo.md', 'fifo/tb/fifo_tb.sv'].forEach(file => write(file));
+      write('ram/ram.core', RAM_CORE);
+      write('ram/rtl/ram.v');
+      const project = config({ sources: { default: { filelist: 'lint.f' }, simulation: { core: 'fifo/fifo.core' } } });
+
+      const lint = await resolveSourceSet(project, dir, 'lint');
+      expect(lint.files).toEqual([join(dir, 'rtl/top.sv')]);
+      expect(lint.includeDirs).toEqual([join(dir, 'rtl/inc'), join(dir, 'include')]);
+      expect(lint.defines).toEqual({ WIDTH: '8', SYNTHESIS: '' });
+
+      const simulation = await resolveSourceSet(project, dir, 'simulation');
+      expect(simulation.top).toBe('fifo_tb');
+      expect(simulation.files).toContain(join(dir, 'fifo/tb/fifo_tb.sv'));
+      expect(simulation.defines).toEqual({ WIDTH: '32', SYNTHESIS: '', DEPTH: '4' });
+    });
+
+    it('should reject an entry with both a filelist and a core', async () => {
+      const project = config({ sources: { lint: { filelist: 'lint.f', core: 'fifo.core' } } });
+      await expect(resolveSourceSet(project, dir, 'lint')).rejects.toThrow('sources.lint: set either filelist or core');
+    });
+  });
+
+  describe('sourceArgs', () => {
+    const sources = {
+      includeDirs: ['/rtl/inc'],
+      defines: { SYNTHESIS: '', WIDTH: '8' },
+      libraryDirs: ['/rtl/lib'],
+      libraryFiles: ['/rtl/prims.v'],
+      libraryExtensions: ['.v', '.sv'],
+    };
+
+    it('should format each tool dialect', () => {
+      expect(sourceArgs(sources, 'verilator')).toEqual([
+        '-I/rtl/inc', '-DSYNTHESIS', '-DWIDTH=8', '-y', '/rtl/lib', '-v', '/rtl/prims.v', '+libext+.v+.sv',
+      ]);
+      expect(sourceArgs(sources, 'iverilog')).toEqual([
+        '-I/rtl/inc', '-DSYNTHESIS', '-DWIDTH=8', '-y/rtl/lib', '-l/rtl/prims.v', '-Y.v', '-Y.sv',
+      ]);
+      expect(sourceArgs(sources, 'slang')).toEqual([
+        '-I', '/rtl/inc', '-D', 'SYNTHESIS', '-D', 'WIDTH=8', '-y', '/rtl/lib', '-v', '/rtl/prims.v', '-Y', '.v', '-Y', '.sv',
+      ]);
+      expect(sourceArgs(undefined, 'verilator')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { generateTestbench } from '../../rtl/verification/index.js';
+import { parseDesignUnits } from '../../rtl/design/index.js';
+import { SimulationResultClassifier } from '../../rtl/tools/simulation/index.js';
+
+const FIFO_SV = `module fifo
+  import fifo_pkg::*;
+#(
+  parameter int WIDTH = 8,
+  parameter DEPTH = 16
+) (
+  input  logic             clk,
+  input  logic             rst_n,
+  input  logic             push,
+  input  logic [WIDTH-1:0] wdata,
+  input  logic [127:0]     wide,
+  output logic [WIDTH-1:0] rdata,
+  output logic             empty,
+  inout  wire              pad
+);
+  always_ff @(posedge clk or negedge rst_n) begin
+  end
+endmodule
+`;
+
+const [FIFO] = parseDesignUnits(FIFO_SV, '/proj/rtl/fifo.sv');
+
+describe('Testbench generator', () => {
+  it('should generate a self-checking SystemVerilog testbench', () => {
+    const [file] = generateTestbench(FIFO, 'systemverilog', { parameters: { WIDTH: '32' } });
+    const tb = file.content;
+
+    expect(file.path).toBe('tb_fifo.sv');
+    expect(tb).toContain('// Generated by oh-my-claude-rtl from fifo.sv:1');
+    expect(tb).toContain('  import fifo_pkg::*;');
+    expect(tb).toContain('  localparam int WIDTH = 32;');
+    expect(tb).toContain('  localparam DEPTH = 16;');
+    expect(tb).toContain('  logic [WIDTH-1:0] wdata;');
+    expect(tb).toContain('  wire              pad;');
+    expect(tb).toContain('    forever #(CLK_PERIOD / 2) clk = ~clk;');
+    expect(tb).toContain("rst_n = 1'b0;\n    repeat (RESET_CYCLES) @(posedge clk);\n    rst_n <= 1'b1;");
+    expect(tb).toContain("    wdata = '0;");
+    expect(tb).toContain('    $dumpvars(0, tb_fifo);');
+
+    // The generated testbench instantiates the DUT with every port connected
+    const [parsed] = parseDesignUnits(tb, file.path);
+    expect(parsed.instances).toEqual([{
+      module: 'fifo',
+      name: 'dut',
+      line: expect.any(Number),
+      parameters: { WIDTH: 'WIDTH', DEPTH: 'DEPTH' },
+      connections: Object.fromEntries(FIFO.ports.map(p => [p.name, p.name])),
+    }]);
+  });
+
+  it('should print verdicts the simulation pass detector recognizes', () => {
+    const [file] = generateTestbench(FIFO, 'systemverilog');
+    const pass = file.content.match(/\$display\("(\*\*\* TEST PASSED \*\*\*)"\)/)![1];
+    const fail = file.content.match(/\$display\("(\*\*\* TEST FAILED \*\*\*) \(timeout/)![1];
+    const classifier = new SimulationResultClassifier({ requirePassMarker: true });
+
+    expect(classifier.classify({ stdout: pass, exitCode: 0 }).status).toBe('pass');
+    expect(classifier.classify({ stdout: `${pass}\n${fail}`, exitCode: 0 }).status).toBe('fail');
+    expect(classifier.classify({ stdout: '[120] ERROR: rdata = 0x1, expected 0x0', exitCode: 0 }).status).toBe('fail');
+  });
+
+  it('should generate a Verilator C++ harness', () => {
+    const [file] = generateTestbench(FIFO, 'verilator', { clockPeriodNs: 4 });
+    const harness = file.content;
+
+    expect(file.path).toBe('tb_fifo.cpp');
+    expect(harness).toContain('#include "Vfifo.h"');
+    expect(harness).toContain('static const uint64_t HALF_PERIOD_PS = 2000;');
+    expect(harness).toContain('    tfp->open("dump.vcd");');
+    expect(harness).toContain('    dut->wdata = 0;');
+    expect(harness).toContain('    // wide: wide or non-constant width, left at its initial value');
+    expect(harness).toContain('dut->rst_n = 0;\n    for (int cycle = 0; cycle < RESET_CYCLES; ++cycle) tick();\n    dut->rst_n = 1;');
+    expect(harness).toContain('printf("*** TEST PASSED ***\\n")');
+  });
+
+  it('should generate a cocotb test and Makefile', () => {
+    const [test, makefile] = generateTestbench(FIFO, 'cocotb', { sources: ['../rtl/pkg.sv', '../rtl/fifo.sv'] });
+
+    expect(test.path).toBe('test_fifo.py');
+    expect(test.content).toContain('    cocotb.start_soon(Clock(dut.clk, CLOCK_PERIOD_NS, units="ns").start())');
+    expect(test.content).toContain('    dut.rst_n.value = 0\n    await ClockCycles(dut.clk, RESET_CYCLES)\n    dut.rst_n.value = 1');
+    expect(test.content).toContain('async def test_fifo(dut):');
+
+    expect(makefile.path).toBe('Makefile');
+    expect(makefile.content).toContain('VERILOG_SOURCES += ../rtl/pkg.sv\nVERILOG_SOURCES += ../rtl/fifo.sv');
+    expect(makefile.content).toContain('TOPLEVEL = fifo\nMODULE = test_fifo');
+  });
+
+  it('should time combinational modules without a clock and reject packages', () => {
+    const [adder, pkg] = parseDesignUnits(
+      'module adder (input logic [7:0] a, b, output logic [8:0] sum);\nendmodule\npackage p;\nendpackage\n',
+      'adder.sv'
+    );
+
+    const tb = generateTestbench(adder, 'systemverilog')[0].content;
+    expect(tb).not.toContain('forever');
+    expect(tb).toContain('    #((RUN_CYCLES) * CLK_PERIOD);');
+    expect(generateTestbench(adder, 'cocotb')[0].content).toContain('await Timer(RUN_CYCLES * CLOCK_PERIOD_NS, units="ns")');
+    expect(() => generateTestbench(pkg, 'systemverilog')).toThrow('p is a package, not a module');
+  });
+});
@@ -0,0 +1,283 @@
+import { describe, it, expect } from 'vitest';
+import { chmodSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { delimiter, join } from 'path';
+import { tmpdir } from 'os';
+import {
+  parseOpenSTAReport,
+  generateOpenSTAScript,
+  parseNextpnrReport,
+  parseNextpnrLog,
+  toTimingResult,
+  Nextpnr,
+  SynthesisManager,
+  type SynthesisTool,
+} from '../../rtl/tools/index.js';
+import { detectClockPorts } from '../../rtl/tools/synthesis/yosys.js';
+import type { TimingResult } from '../../rtl/types.js';
+
+const OPENSTA_REPORT = `Startpoint: count_reg[0] (rising edge-triggered flip-flop clocked by clk)
+Endpoint: count_reg[7] (rising edge-triggered flip-flop clocked by clk)
+Path Group: clk
+Path Type: max
+
+  Delay    Time   Description
+---------------------------------------------------------
+   0.000   0.000   clock clk (rise edge)
+   0.000   0.000   clock network delay (ideal)
+   0.000   0.000 ^ count_reg[0]/CLK (sky130_fd_sc_hd__dfxtp_1)
+   0.350   0.350 ^ count_reg[0]/Q (sky130_fd_sc_hd__dfxtp_1)
+   0.210   0.560 v _042_/Y (sky130_fd_sc_hd__nand2_1)
+   0.180   0.740 ^ _051_/X (sky130_fd_sc_hd__xor2_1)
+   0.000   0.740 ^ count_reg[7]/D (sky130_fd_sc_hd__dfxtp_1)
+           0.740   data arrival time
+
+   2.000   2.000   clock clk (rise edge)
+   0.000   2.000   clock network delay (ideal)
+   0.000   2.000 ^ count_reg[7]/CLK (sky130_fd_sc_hd__dfxtp_1)
+  -0.120   1.880   library setup time
+           1.880   data required time
+---------------------------------------------------------
+           1.880   data required time
+          -0.740   data arrival time
+---------------------------------------------------------
+           1.140   slack (MET)
+
+
+Startpoint: en (input port clocked by clk)
+Endpoint: count_reg[3] (rising edge-triggered flip-flop clocked by clk)
+Path Group: clk
+Path Type: max
+
+  Delay    Time   Description
+---------------------------------------------------------
+   0.000   0.000   clock clk (rise edge)
+   1.500   1.500 v input external delay
+   0.000   1.500 v en (in)
+   0.600   2.100 ^ _013_/Y (sky130_fd_sc_hd__a21oi_1)
+           2.100   data arrival time
+
+   2.000   2.000   clock clk (rise edge)
+  -0.110   1.890   library setup time
+           1.890   data required time
+---------------------------------------------------------
+           1.890   data required time
+          -2.100   data arrival time
+---------------------------------------------------------
+          -0.210   slack (VIOLATED)
+`;
+
+const NEXTPNR_REPORT = JSON.stringify({
+  utilization: { ICESTORM_LC: { used: 40, available: 5280 } },
+  fmax: {
+    'clk$SB_IO_IN_$glb_clk': { achieved: 143.7, constraint: 100 },
+  },
+  critical_paths: [
+    {
+      from: 'posedge clk$SB_IO_IN_$glb_clk',
+      to: 'posedge clk$SB_IO_IN_$glb_clk',
+      path: [
+        { type: 'clk-to-q', from: { cell: 'count_SB_DFF_Q', port: 'CLK' }, to: { cell: 'count_SB_DFF_Q', port: 'O' }, delay: 0.54 },
+        { type: 'routing', net: 'count[0]', from: { cell: 'count_SB_DFF_Q', port: 'O' }, to: { cell: 'add_LC', port: 'I1' }, delay: 2.3 },
+        { type: 'logic', from: { cell: 'add_LC', port: 'I1' }, to: { cell: 'add_LC', port: 'O' }, delay: 1.2 },
+        { type: 'setup', from: { cell: 'add_LC', port: 'O' }, to: { cell: 'count_SB_DFF_Q_7', port: 'D' }, delay: 0.1 },
+      ],
+    },
+  ],
+});
+
+class FakeSynth implements SynthesisTool {
+  constructor(private timing: TimingResult) {}
+
+  async isInstalled() { return true; }
+  async getVersion() { return '1.0'; }
+  async run() { return { success: true }; }
+
+  async synthesize() {
+    return { success: true, netlist: '/tmp/none/synthesized.v', top: 'counter' };
+  }
+
+  async analyzeTiming() {
+    return this.timing;
+  }
+
+  async estimatePPA() {
+    return {
+      area: { cells: 4, area: 40 },
+      power: { dynamic: 0, static: 0, total: 0 },
+      performance: { frequency: 0 },
+    };
+  }
+}
+
+describe('Timing analysis', () => {
+  describe('OpenSTA', () => {
+    it('should parse paths worst-first with per-stage delays', () => {
+      const paths = parseOpenSTAReport(OPENSTA_REPORT);
+
+      expect(paths).toHaveLength(2);
+      expect(paths[0]).toMatchObject({
+        startpoint: 'en',
+        endpoint: 'count_reg[3]',
+        clock: 'clk',
+        delay: 2.1,
+        required: 1.89,
+        slack: -0.21,
+      });
+      expect(paths[1].stages).toEqual([
+        { point: 'count_reg[0]/CLK', cell: 'sky130_fd_sc_hd__dfxtp_1', edge: 'rise', delay: 0, time: 0 },
+        { point: 'count_reg[0]/Q', cell: 'sky130_fd_sc_hd__dfxtp_1', edge: 'rise', delay: 0.35, time: 0.35 },
+        { point: '_042_/Y', cell: 'sky130_fd_sc_hd__nand2_1', edge: 'fall', delay: 0.21, time: 0.56 },
+        { point: '_051_/X', cell: 'sky130_fd_sc_hd__xor2_1', edge: 'rise', delay: 0.18, time: 0.74 },
+        { point: 'count_reg[7]/D', cell: 'sky130_fd_sc_hd__dfxtp_1', edge: 'rise', delay: 0, time: 0.74 },
+      ]);
+    });
+
+    it('should create clocks when no SDC is given', () => {
+      const script = generateOpenSTAScript({
+        netlist: '/run/synthesized.v',
+        liberty: '/lib/cells.lib',
+        top: 'counter',
+        workDir: '/run',
+        clocks: [{ name: 'clk', port: 'clk', period: 2 }],
+        paths: 3,
+      });
+
+      expect(script).toContain('link_design counter');
+      expect(script).toContain('create_clock -name clk -period 2 [get_ports clk]');
+      expect(script).toContain('report_checks -path_delay max -group_count 3');
+
+      const withSdc = generateOpenSTAScript({
+        netlist: '/run/synthesized.v', liberty: '/lib/cells.lib', top: 'counter', workDir: '/run',
+        sdc: '/constraints/top.sdc', clocks: [{ name: 'clk', port: 'clk', period: 2 }], paths: 3,
+      });
+      expect(withSdc).toContain('read_sdc /constraints/top.sdc');
+      expect(withSdc).not.toContain('create_clock');
+    });
+
+    it('should detect clock ports in a netlist', () => {
+      const netlist = 'module top(clk, sys_clk_i, clk_en, rst);\n  input clk;\n  input sys_clk_i;\n  input clk_en;\n  input rst;\n  input [3:0] clk_sel;\n';
+      expect(detectClockPorts(netlist)).toEqual(['clk', 'sys_clk_i']);
+    });
+  });
+
+  describe('nextpnr', () => {
+    it('should parse fmax and critical paths', () => {
+      const report = parseNextpnrReport(NEXTPNR_REPORT);
+
+      expect(report.fmax).toEqual({ clk: { achieved: 143.7, constraint: 100 } });
+      expect(report.paths[0]).toMatchObject({
+        startpoint: 'count_SB_DFF_Q/CLK',
+        endpoint: 'count_SB_DFF_Q_7/D',
+        clock: 'clk',
+        delay: 4.14,
+        required: 10,
+        slack: 5.86,
+      });
+      expect(report.paths[0].stages[1]).toEqual({ point: 'count[0]', cell: 'routing', delay: 2.3, time: 2.84 });
+    });
+
+    it('should parse fmax from the log', () => {
+      const log = "Info: Max frequency for clock 'clk$SB_IO_IN_$glb_clk': 87.10 MHz (FAIL at 100.00 MHz)\n";
+      expect(parseNextpnrLog(log)).toEqual({ clk: { achieved: 87.1, constraint: 100 } });
+    });
+
+    it('should pass device and package flags', () => {
+      const args = new Nextpnr('ice40').buildArgs(
+        { jsonNetlist: 'top.json', workDir: '/run', frequency: 48, device: 'up5k', package: 'sg48' },
+        'report.json',
+        'nextpnr.log'
+      );
+      expect(args).toEqual([
+        '--json', 'top.json', '--report', 'report.json', '--log', 'nextpnr.log', '--freq', '48',
+        '--timing-allow-fail', '--up5k', '--package', 'sg48', '--pcf-allow-unconstrained',
+      ]);
+      expect(new Nextpnr('gowin').executable).toBe('nextpnr-himbaechel');
+    });
+
+    it('should report failing timing when nextpnr exits non-zero', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'rtl-nextpnr-'));
+      const savedPath = process.env.PATH;
+      mkdirSync(join(dir, 'bin'));
+      // Builds without --timing-allow-fail: log the fmax, then exit 1
+      writeFileSync(join(dir, 'bin/nextpnr-ice40'), [
+        '#!/bin/sh',
+        `echo "$@" > "${join(dir, 'args.txt')}"`,
+        'while [ $# -gt 0 ]; do [ "$1" = --log ] && log="$2"; shift; done',
+        'echo "Info: Max frequency for clock \'clk$SB_IO_IN_$glb_clk\': 87.10 MHz (FAIL at 100.00 MHz)" > "$log"',
+        'echo "ERROR: Max frequency for clock \'clk\' is lower than target" >&2',
+        'exit 1',
+        '',
+      ].join('\n'));
+      chmodSync(join(dir, 'bin/nextpnr-ice40'), 0o755);
+      process.env.PATH = `${join(dir, 'bin')}${delimiter}${savedPath}`;
+
+      try {
+        const report = await new Nextpnr('ice40').analyze({ jsonNetlist: join(dir, 'top.json'), workDir: dir, frequency: 100 });
+        expect(report.fmax).toEqual({ clk: { achieved: 87.1, constraint: 100 } });
+        expect(readFileSync(join(dir, 'args.txt'), 'utf8')).toContain('--timing-allow-fail');
+
+        const timing = toTimingResult(report.paths, [{ name: 'clk', period: 10 }], 'nextpnr', { clk: report.fmax.clk.achieved });
+        expect(timing).toMatchObject({ met: false, frequency: 87.1 });
+
+        // No fmax logged: place and route failed
+        writeFileSync(join(dir, 'bin/nextpnr-ice40'), '#!/bin/sh\necho "ERROR: failed to route" >&2\nexit 1\n');
+        rmSync(join(dir, 'nextpnr.log'));
+        await expect(new Nextpnr('ice40').analyze({ jsonNetlist: join(dir, 'top.json'), workDir: dir, frequency: 100 }))
+          .rejects.toThrow(/failed to route/);
+      } finally {
+        process.env.PATH = savedPath;
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('TimingResult', () => {
+    it('should report the worst path against the clock', () => {
+      const timing = toTimingResult(parseOpenSTAReport(OPENSTA_REPORT), [{ name: 'clk', period: 2 }], 'opensta');
+
+      expect(timing).toMatchObject({
+        criticalPath: { start: 'en', end: 'count_reg[3]', delay: 2.1 },
+        slack: -0.21,
+        frequency: 452.489,
+        met: false,
+        source: 'opensta',
+      });
+    });
+
+    it('should fail synthesis on negative slack and report achieved frequency', async () => {
+      const timing = toTimingResult(parseOpenSTAReport(OPENSTA_REPORT), [{ name: 'clk', period: 2 }], 'opensta');
+      const manager = new SynthesisManager();
+      manager.register('fake', new FakeSynth(timing));
+
+      const result = await manager.synthesize(['counter.v'], '');
+
+      expect(result.success).toBe(false);
+      expect(result.netlist).toBe('/tmp/none/synthesized.v');
+      expect(result.errors).toEqual(['Timing not met on clk (2 ns): worst slack -0.21 ns on en -> count_reg[3]']);
+      expect(result.ppa?.performance.frequency).toBe(452.489);
+    });
+
+    it('should keep PPA when timing analysis fails', async () => {
+      const synth = new FakeSynth(toTimingResult([], [{ name: 'clk', period: 10 }], 'nextpnr'));
+      synth.analyzeTiming = async () => { throw new Error('nextpnr crashed'); };
+      const manager = new SynthesisManager();
+      manager.register('fake', synth);
+
+      const result = await manager.synthesize(['counter.v'], '');
+
+      expect(result.timing).toBeUndefined();
+      expect(result.ppa?.area.cells).toBe(4);
+    });
+
+    it('should pass synthesis when timing is met', async () => {
+      const timing = toTimingResult(parseNextpnrReport(NEXTPNR_REPORT).paths, [{ name: 'clk', period: 10 }], 'nextpnr', { clk: 143.7 });
+      const manager = new SynthesisManager();
+      manager.register('fake', new FakeSynth(timing));
+
+      const result = await manager.synthesize(['counter.v'], '');
+
+      expect(result.success).toBe(true);
+      expect(result.timing?.frequency).toBe(143.7);
+    });
+  });
+});
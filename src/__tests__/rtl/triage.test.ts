@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  SimulationManager,
+  SimulationResultClassifier,
+  triageFailure,
+  type SimulationTool,
+  type SimulationRunOptions,
+} from '../../rtl/tools/index.js';
+
+// 10ns clock with posedges at 5, 15, ...; the checker sees its own copies of wr_en/full
+const VCD = `$timescale 1ns $end
+$scope module tb $end
+$var reg 1 ! clk $end
+$var reg 1 " rst_n $end
+$scope module dut $end
+$var wire 1 ! clk $end
+$var wire 1 # wr_en $end
+$var wire 1 $ full $end
+$var wire 4 % count [3:0] $end
+$scope module u_sva $end
+$var wire 1 ! clk $end
+$var wire 1 & wr_en $end
+$var wire 1 ' full $end
+$upscope $end
+$upscope $end
+$upscope $end
+$enddefinitions $end
+#0
+$dumpvars
+0! 0" 0# 0$ b0 % 0& 0'
+$end
+#2
+1"
+#5
+1!
+#10
+0!
+#12
+1# 1&
+#15
+1!
+#20
+0!
+#22
+1$ 1' b100 %
+#25
+1!
+#30
+0!
+#35
+1!
+#40
+0!
+#45
+1!
+#50
+0!
+`;
+
+const SVA = `module fifo_sva (input logic clk, rst_n, wr_en, full);
+  // Pushes must wait for space
+  a_push_overflow: assert property (@(posedge clk) disable iff (!rst_n)
+    wr_en |-> !full)
+    else $error("push while full");
+endmodule
+`;
+
+const TB = `module tb;
+  logic clk = 0;
+  logic rst_n = 0;
+  logic [3:0] expected = 0;
+
+  fifo dut (.*);
+
+  always #5 clk = ~clk;
+
+  always @(posedge clk) begin
+    if (dut.count != expected)
+      $error("count mismatch: %0d", dut.count);
+  end
+endmodule
+`;
+
+class FailingSim implements SimulationTool {
+  constructor(private stdout: string) {}
+
+  async isInstalled() { return true; }
+  async getVersion() { return '5.024'; }
+  async run() { return { success: true }; }
+  async compile() { return { success: true }; }
+
+  async simulate(_testbench: string, _args: string[] = [], options?: SimulationRunOptions) {
+    const workDir = options?.workDir ?? '.';
+    writeFileSync(join(workDir, 'dump.vcd'), VCD);
+    const verdict = new SimulationResultClassifier().classify({ stdout: this.stdout, exitCode: 0 });
+    return {
+      success: true,
+      passed: verdict.passed,
+      verdict,
+      stdout: this.stdout,
+      waveform: join(workDir, 'dump.vcd'),
+    };
+  }
+}
+
+describe('Failure triage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = join(tmpdir(), `rtl-triage-${process.pid}-${Date.now()}`);
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(join(dir, 'fifo_sva.sv'), SVA);
+    writeFileSync(join(dir, 'tb.sv'), TB);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should attach the failing assertion, its source and its signals to a failing run', async () => {
+    const manager = new SimulationManager();
+    manager.register('verilator', new FailingSim(
+      '[5] starting\n' +
+      '[25] %Error: fifo_sva.sv:3: Assertion failed in TOP.tb.dut.u_sva.a_push_overflow: push while full\n' +
+      '%Error: fifo_sva.sv:3: Verilog $stop\n'
+    ));
+    manager.setTriage({ cycles: 3 });
+
+    const result = await manager.simulate([], 'tb', [], undefined, { workDir: dir });
+
+    expect(result.passed).toBe(false);
+    expect(result.triage).toEqual({
+      kind: 'assertion',
+      message: 'TOP.tb.dut.u_sva.a_push_overflow failed at fifo_sva.sv:3: push while full',
+      line: 2,
+      time: '25',
+      source: {
+        file: join(dir, 'fifo_sva.sv'),
+        line: 3,
+        excerpt: [
+          '  1 | module fifo_sva (input logic clk, rst_n, wr_en, full);',
+          '  2 |   // Pushes must wait for space',
+          '> 3 |   a_push_overflow: assert property (@(posedge clk) disable iff (!rst_n)',
+          '  4 |     wr_en |-> !full)',
+          '  5 |     else $error("push while full");',
+          '  6 | endmodule',
+        ],
+      },
+      waveform: {
+        file: join(dir, 'dump.vcd'),
+        timescale: '1ns',
+        time: 25,
+        clock: 'tb.clk',
+        // The checker's ports, not the DUT's, and values sampled before each edge
+        columns: ['time', 'tb.rst_n', 'tb.dut.u_sva.wr_en', 'tb.dut.u_sva.full'],
+        rows: [
+          ['5', '1', '0', '0'],
+          ['15', '1', '1', '0'],
+          ['25', '1', '1', '1'],
+          ['35', '1', '1', '1'],
+        ],
+        truncated: false,
+      },
+    });
+
+    manager.register('passing', new FailingSim('TEST PASSED\n'));
+    expect((await manager.simulate([], 'tb', [], 'passing', { workDir: dir })).triage).toBeUndefined();
+  });
+
+  it('should map a $error report to the testbench and sample its condition', async () => {
+    const stdout = 'ERROR: tb.sv:12: count mismatch: 4\n       Time: 35  Scope: tb\n';
+    const verdict = new SimulationResultClassifier().classify({ stdout, exitCode: 0 });
+    writeFileSync(join(dir, 'dump.vcd'), VCD);
+
+    const triage = await triageFailure(
+      { success: true, passed: false, verdict, stdout, waveform: join(dir, 'dump.vcd') },
+      { files: [join(dir, 'tb.sv')], cycles: 2, signals: ['dut.wr_en', 'missing'] }
+    );
+
+    expect(triage).toMatchObject({ kind: 'error', message: 'ERROR: tb.sv:12: count mismatch: 4', time: '35' });
+    expect(triage?.source?.excerpt).toContain('> 12 |       $error("count mismatch: %0d", dut.count);');
+    expect(triage?.waveform).toMatchObject({
+      time: 35,
+      columns: ['time', 'tb.dut.wr_en', 'tb.dut.count'],
+      rows: [['25', '1', "4'h4"], ['35', '1', "4'h4"], ['45', '1', "4'h4"]],
+    });
+    expect(triage?.notes).toBeUndefined();
+  });
+
+  it('should use the cocotb traceback and explain missing context', async () => {
+    writeFileSync(join(dir, 'test_fifo.py'), 'import cocotb\n\n@cocotb.test()\nasync def test_push(dut):\n    assert dut.full.value == 0, "fifo full"\n');
+    const traceback = [
+      'Traceback (most recent call last):',
+      `  File "${join(dir, 'test_fifo.py')}", line 5, in test_push`,
+      '    assert dut.full.value == 0, "fifo full"',
+      '  File "/usr/lib/python3/site-packages/cocotb/handle.py", line 80, in value',
+      'AssertionError: fifo full',
+    ].join('\n');
+    const verdict = new SimulationResultClassifier().classify({
+      exitCode: 0,
+      cocotbResultsXml: `<testsuites><testsuite><testcase name="test_push" time="0.1" sim_time_ns="45"><failure message="fifo full">${traceback}</failure></testcase></testsuite></testsuites>`,
+    });
+
+    const triage = await triageFailure({ success: true, passed: false, verdict });
+    expect(triage).toMatchObject({ kind: 'cocotb', message: 'test_push: fifo full', time: '45 ns' });
+    expect(triage?.source).toMatchObject({ file: join(dir, 'test_fifo.py'), line: 5 });
+    expect(triage?.notes).toEqual([expect.stringContaining('No waveform')]);
+
+    const timeout = await triageFailure({
+      success: false,
+      passed: false,
+      verdict: new SimulationResultClassifier().classify({ stdout: 'running\n', timedOut: true }),
+    });
+    expect(timeout).toMatchObject({ kind: 'timeout', message: 'Simulation timed out' });
+    expect(timeout?.notes).toContain('No source location in the failure report');
+  });
+});
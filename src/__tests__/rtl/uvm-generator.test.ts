@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { generateUvmEnvironment, writeGeneratedFiles, UVM_MANIFEST } from '../../rtl/verification/index.js';
+import { parseDesignUnits } from '../../rtl/design/index.js';
+import { SimulationManager } from '../../rtl/tools/simulation/index.js';
+import type { SimulationRunOptions, SimulationTool } from '../../rtl/tools/types.js';
+
+const STREAM_SV = `module stream_fifo #(
+  parameter int WIDTH = 8,
+  localparam int BYTES = WIDTH / 8
+) (
+  input  logic             clk,
+  input  logic             rst_n,
+  input  logic             in_valid,
+  output logic             in_ready,
+  input  logic [WIDTH-1:0] in_data,
+  output logic             out_valid,
+  input  logic             out_ready,
+  output logic [WIDTH-1:0] out_data,
+  output logic [BYTES-1:0] out_keep,
+  input  logic             flush,
+  output logic [3:0]       level
+);
+  always_ff @(posedge clk or negedge rst_n) begin
+  end
+endmodule
+`;
+
+const [STREAM] = parseDesignUnits(STREAM_SV, '/proj/rtl/stream_fifo.sv');
+const AGENTS = [{ name: 'in' }, { name: 'out' }, { name: 'status', ports: ['level'] }];
+
+const content = (files: Array<{ path: string; content: string }>, name: string) =>
+  files.find(file => file.path === name)!.content;
+
+describe('UVM environment generator', () => {
+  it('should generate agents, environment, top and filelist', () => {
+    const env = generateUvmEnvironment(STREAM, { agents: AGENTS, parameters: { WIDTH: '32' }, sources: ['../../rtl/stream_fifo.sv'] });
+
+    expect(env.top).toBe('tb_stream_fifo_uvm');
+    expect(env.compileOrder).toEqual([
+      'stream_fifo_params_pkg.sv',
+      'in_if.sv',
+      'out_if.sv',
+      'status_if.sv',
+      'stream_fifo_tb_pkg.sv',
+      'tb_stream_fifo_uvm.sv',
+    ]);
+    // The passive status agent has no sequencer, sequence or driver
+    expect(env.files.map(file => file.path)).not.toContain('status_driver.svh');
+    expect(env.files.map(file => file.path)).toContain('status_monitor.svh');
+
+    const params = content(env.files, 'stream_fifo_params_pkg.sv');
+    expect(params).toContain('  localparam int WIDTH = 32;');
+    expect(params).toContain('  localparam int BYTES = WIDTH/8;');
+
+    const inIf = content(env.files, 'in_if.sv');
+    expect(inIf).toContain('interface in_if\n  import stream_fifo_params_pkg::*;\n(\n  input logic clk,\n  input logic rst_n\n);');
+    expect(inIf).toContain('    output in_valid, in_data;\n    input  in_ready;');
+
+    // Handshakes: the agent drives valid as master, ready as slave
+    const inDriver = content(env.files, 'in_driver.svh');
+    expect(inDriver).toContain("    vif.drv_cb.in_valid <= 1'b1;\n    vif.drv_cb.in_data  <= item.in_data;\n    do @(vif.drv_cb); while (vif.drv_cb.in_ready !== 1'b1);");
+    expect(inDriver).toContain("    while (vif.rst_n !== 1'b1) @(vif.drv_cb);");
+    const outDriver = content(env.files, 'out_driver.svh');
+    expect(outDriver).toContain("    vif.drv_cb.out_ready <= 1'b1;\n    do @(vif.drv_cb); while (vif.drv_cb.out_valid !== 1'b1);");
+
+    const outMonitor = content(env.files, 'out_monitor.svh');
+    expect(outMonitor).toContain("      if (!(vif.mon_cb.out_valid === 1'b1 && vif.mon_cb.out_ready === 1'b1)) continue;");
+    expect(outMonitor).toContain('      item.out_keep = vif.mon_cb.out_keep;');
+
+    const item = content(env.files, 'in_seq_item.svh');
+    expect(item).toContain('  rand logic        [WIDTH-1:0] in_data;  // driven');
+    expect(item).toContain('    `uvm_field_int(in_data, UVM_ALL_ON)');
+    expect(item).not.toContain('in_valid');
+
+    expect(content(env.files, 'stream_fifo_env.svh')).toContain(
+      '    uvm_config_db#(uvm_active_passive_enum)::set(this, "status_agt", "is_active", UVM_PASSIVE);'
+    );
+    expect(content(env.files, 'stream_fifo_scoreboard.svh')).toContain('`uvm_analysis_imp_decl(_out)');
+    const test = content(env.files, 'stream_fifo_base_test.svh');
+    expect(test).toContain('        seq.start(env.in_agt.sequencer);');
+    expect(test).not.toContain('env.status_agt.sequencer');
+
+    const pkg = content(env.files, 'stream_fifo_tb_pkg.sv');
+    expect(pkg).toContain('  `include "in_seq_item.svh"\n  `include "in_sequencer.svh"');
+    expect(pkg.indexOf('stream_fifo_env.svh')).toBeGreaterThan(pkg.indexOf('stream_fifo_scoreboard.svh'));
+
+    expect(content(env.files, 'stream_fifo_uvm.f')).toContain('+incdir+.\n../../rtl/stream_fifo.sv\nstream_fifo_params_pkg.sv\n');
+  });
+
+  it('should bind every DUT port in the top', () => {
+    const env = generateUvmEnvironment(STREAM, { agents: AGENTS });
+    const top = content(env.files, 'tb_stream_fifo_uvm.sv');
+
+    expect(top).toContain('  in_if in_vif (.clk(clk), .rst_n(rst_n));');
+    expect(top).toContain('uvm_config_db#(virtual in_if)::set(null, "uvm_test_top.env.in_agt*", "vif", in_vif);');
+    expect(top).toContain('    run_test("stream_fifo_base_test");');
+    expect(top).toContain("    flush = '0;");
+
+    const [parsed] = parseDesignUnits(top, 'tb_stream_fifo_uvm.sv');
+    expect(parsed.instances.map(i => `${i.module} ${i.name}`)).toEqual([
+      'in_if in_vif', 'out_if out_vif', 'status_if status_vif', 'stream_fifo dut',
+    ]);
+    expect(parsed.instances[3].parameters).toEqual({ WIDTH: 'WIDTH' });
+    expect(parsed.instances[3].connections).toMatchObject({
+      clk: 'clk',
+      in_data: 'in_vif.in_data',
+      out_ready: 'out_vif.out_ready',
+      level: 'status_vif.level',
+      flush: 'flush',
+    });
+  });
+
+  it('should default to one generic agent and reject unusable specs', () => {
+    const env = generateUvmEnvironment(STREAM);
+    expect(env.compileOrder).toContain('stream_fifo_if.sv');
+    expect(content(env.files, 'stream_fifo_monitor.svh')).toContain('// Samples every cycle');
+
+    expect(() => generateUvmEnvironment(STREAM, { agents: [{ name: 'axi' }] }))
+      .toThrow('No ports of stream_fifo for agent axi');
+    expect(() => generateUvmEnvironment(STREAM, { agents: [{ name: 'status', ports: ['level'], protocol: 'valid_ready' }] }))
+      .toThrow('needs a *valid input and *ready output');
+    const [adder] = parseDesignUnits('module adder (input logic [7:0] a, output logic [7:0] y);\nendmodule\n', 'adder.sv');
+    expect(() => generateUvmEnvironment(adder)).toThrow('adder has no clock input');
+  });
+
+  describe('writeGeneratedFiles', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = join(tmpdir(), `rtl-uvm-${process.pid}-${Date.now()}`);
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should update only files not edited since they were generated', async () => {
+      const first = generateUvmEnvironment(STREAM, { agents: AGENTS }).files;
+      expect((await writeGeneratedFiles(dir, first, 'uvm', UVM_MANIFEST)).every(f => f.status === 'created')).toBe(true);
+
+      const edited = `${readFileSync(join(dir, 'stream_fifo_scoreboard.svh'), 'utf8')}// reference model\n`;
+      writeFileSync(join(dir, 'stream_fifo_scoreboard.svh'), edited);
+
+      const second = generateUvmEnvironment(STREAM, { agents: AGENTS, parameters: { WIDTH: '16' } }).files;
+      const statuses = await writeGeneratedFiles(dir, second, 'uvm', UVM_MANIFEST);
+      const status = (name: string) => statuses.find(f => f.path === name)?.status;
+
+      expect(status('stream_fifo_params_pkg.sv')).toBe('updated');
+      expect(status('in_if.sv')).toBe('unchanged');
+      expect(status('stream_fifo_scoreboard.svh')).toBe('kept');
+      expect(readFileSync(join(dir, 'stream_fifo_params_pkg.sv'), 'utf8')).toContain('WIDTH = 16');
+      expect(readFileSync(join(dir, 'stream_fifo_scoreboard.svh'), 'utf8')).toBe(edited);
+
+      // Still protected on the next run, replaced with force
+      expect((await writeGeneratedFiles(dir, second, 'uvm', UVM_MANIFEST)).find(f => f.path === 'stream_fifo_scoreboard.svh')?.status).toBe('kept');
+      expect((await writeGeneratedFiles(dir, second, 'uvm', UVM_MANIFEST, true)).find(f => f.path === 'stream_fifo_scoreboard.svh')?.status).toBe('updated');
+    });
+  });
+
+  it('should compile with the selected simulator and extra sources', async () => {
+    let received: { files: string[]; options?: SimulationRunOptions } | undefined;
+    const sim: SimulationTool = {
+      run: async () => ({ success: true }),
+      isInstalled: async () => true,
+      getVersion: async () => '1.0',
+      compile: async (files, options) => {
+        received = { files, options };
+        return { success: true, executable: 'a.out' };
+      },
+      simulate: async () => ({ success: true, passed: true }),
+    };
+    const manager = new SimulationManager();
+    manager.register('fakesim', sim);
+    manager.setSources(async () => ({
+      files: ['/rtl/ignored.sv'],
+      includeDirs: ['/rtl/include'],
+      defines: { SIM: '' },
+      libraryDirs: [],
+      libraryFiles: [],
+      libraryExtensions: [],
+      origins: [],
+      ignored: [],
+    }));
+
+    const result = await manager.compile(['/uvm/uvm_pkg.sv', '/tb/tb.sv'], undefined, {
+      workDir: '/tmp/unused',
+      sources: { includeDirs: ['/uvm'], top: 'tb_top' },
+    });
+
+    expect(result).toMatchObject({ tool: 'fakesim', success: true, executable: 'a.out' });
+    expect(received?.files).toEqual(['/uvm/uvm_pkg.sv', '/tb/tb.sv']);
+    expect(received?.options?.sources).toMatchObject({ includeDirs: ['/rtl/include', '/uvm'], defines: { SIM: '' }, top: 'tb_top' });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmodSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Readable } from 'stream';
+import { Waveform, formatValue, openWaveform, parseVcd } from '../../rtl/tools/waveform/index.js';
+import { findLatestRunOutput } from '../../rtl/tools/run.js';
+import { rtlWaveformQueryTool } from '../../tools/rtl-tools.js';
+
+// 10ns clock with posedges at 5, 15, ...; the DUT updates right after an edge
+const VCD = `$date today $end
+$version Icarus Verilog $end
+$timescale 1ns $end
+$scope module tb $end
+$var reg 1 ! clk $end
+$var reg 1 " rst_n $end
+$scope module dut $end
+$var wire 1 ! clk $end
+$var wire 1 # in_valid $end
+$var wire 1 $ in_ready $end
+$var wire 8 % in_data [7:0] $end
+$var real 64 ' temp $end
+$upscope $end
+$upscope $end
+$enddefinitions $end
+#0
+$dumpvars
+0!
+0"
+0#
+0$
+bx %
+r0.5 '
+$end
+#5
+1!
+#10
+0!
+#12
+1"
+#15
+1!
+1#
+b10100101 %
+#20
+0!
+#25
+1!
+#30
+0!
+#35
+1!
+1$
+#40
+0!
+#45
+1!
+0#
+b11 %
+#50
+0!
+#55
+1!
+#60
+0!
+`;
+
+const load = async (options?: Parameters<typeof parseVcd>[1]) => new Waveform(await parseVcd(Readable.from([VCD]), options));
+
+describe('Waveform', () => {
+  it('should read the header and values at a time', async () => {
+    const waveform = await load();
+
+    expect(waveform.header).toMatchObject({ timescale: '1ns', timescaleFs: 1e6, version: 'Icarus Verilog' });
+    expect(waveform.header.variables.map(v => v.name)).toEqual([
+      'tb.clk', 'tb.rst_n', 'tb.dut.clk', 'tb.dut.in_valid', 'tb.dut.in_ready', 'tb.dut.in_data', 'tb.dut.temp',
+    ]);
+    expect(waveform.endTime).toBe(60);
+
+    // tb.clk and tb.dut.clk are one signal
+    expect(waveform.signal('clk').name).toBe('tb.clk');
+    expect(waveform.valueAt('dut.in_data', 14)).toBe('xxxxxxxx');
+    expect(waveform.valueAt('in_data', 15)).toBe('10100101');
+    expect(waveform.valueAt('in_data', '0.05us')).toBe('00000011');
+    expect(waveform.valueAt('temp', 0)).toBe('0.5');
+    expect(() => waveform.valueAt('out_valid', 0)).toThrow("Signal 'out_valid' not found");
+  });
+
+  it('should format vector values', () => {
+    expect(formatValue('10100101', 8)).toBe("8'ha5");
+    expect(formatValue('0001xxxx', 8)).toBe("8'h1x");
+    expect(formatValue('000z1', 5)).toBe("5'h0X");
+    expect(formatValue('10100101', 8, 'dec')).toBe('165');
+    expect(formatValue('1', 1)).toBe('1');
+  });
+
+  it('should list transitions in a window', async () => {
+    const waveform = await load();
+
+    expect(waveform.transitions('in_valid')).toEqual({
+      initial: 'x',
+      transitions: [{ time: 0, value: '0' }, { time: 15, value: '1' }, { time: 45, value: '0' }],
+      total: 3,
+      truncated: false,
+    });
+    expect(waveform.transitions('in_valid', { from: 20 })).toMatchObject({ initial: '1', transitions: [{ time: 45, value: '0' }] });
+    expect(waveform.transitions('clk', { limit: 2 })).toMatchObject({ total: 13, truncated: true });
+  });
+
+  it('should find where a condition held on consecutive clock edges', async () => {
+    const waveform = await load();
+
+    // Sampled before each edge: valid waits at 25 and 35, ready arrives at 45
+    expect(waveform.find('in_valid && !in_ready').matches).toEqual([{ start: 25, end: 35, cycles: 2 }]);
+    expect(waveform.find('in_valid && !in_ready', 3).total).toBe(0);
+    expect(waveform.find("in_data == 'ha5", 1, { clock: 'dut.clk' }).matches).toEqual([{ start: 25, end: 45, cycles: 3 }]);
+    expect(waveform.find('in_data[1:0] == 3 && rst_n').matches).toEqual([{ start: 55, end: 55, cycles: 1 }]);
+    // x never satisfies a condition
+    expect(waveform.find('!(in_data == 0)', 1, { to: 15 }).total).toBe(0);
+    expect(() => waveform.find('in_valid &&')).toThrow('Invalid condition');
+  });
+
+  it('should sample signals on a clock', async () => {
+    const waveform = await load();
+
+    expect(waveform.sample(['in_valid', 'in_ready', 'in_data'])).toEqual({
+      columns: ['time', 'tb.dut.in_valid', 'tb.dut.in_ready', 'tb.dut.in_data'],
+      rows: [
+        ['5', '0', '0', "8'hxx"],
+        ['25', '1', '0', "8'ha5"],
+        ['45', '1', '1', "8'ha5"],
+        ['55', '0', '1', "8'h03"],
+      ],
+      truncated: false,
+    });
+    expect(waveform.sample(['in_valid'], { changesOnly: false, limit: 3 })).toMatchObject({ rows: [['5', '0'], ['15', '0'], ['25', '1']], truncated: true });
+  });
+
+  it('should load only selected signals up to a time', async () => {
+    const waveform = await load({ select: () => ['tb.clk', 'tb.dut.in_valid'], until: '20ns' });
+
+    expect(waveform.endTime).toBe(20);
+    expect(waveform.valueAt('in_valid', 60)).toBe('1');
+    expect(() => waveform.valueAt('in_ready', 0)).toThrow("Signal 'tb.dut.in_ready' was not loaded");
+    await expect(parseVcd(Readable.from(['$scope module tb $end\n']))).rejects.toThrow('Not a VCD file');
+  });
+
+  describe('files', () => {
+    let dir: string;
+    let originalPath: string | undefined;
+
+    beforeEach(() => {
+      dir = join(tmpdir(), `rtl-waveform-${process.pid}-${Date.now()}`);
+      mkdirSync(join(dir, 'bin'), { recursive: true });
+      writeFileSync(join(dir, 'dump.vcd'), VCD);
+      originalPath = process.env.PATH;
+    });
+
+    afterEach(() => {
+      process.env.PATH = originalPath;
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should stream FST waveforms through fst2vcd', async () => {
+      writeFileSync(join(dir, 'dump.fst'), 'FST');
+      process.env.PATH = join(dir, 'bin');
+      await expect(openWaveform(join(dir, 'dump.fst'))).rejects.toThrow('fst2vcd not found');
+
+      writeFileSync(join(dir, 'bin', 'fst2vcd'), `#!/bin/sh\ncat "${join(dir, 'dump.vcd')}"\n`);
+      chmodSync(join(dir, 'bin', 'fst2vcd'), 0o755);
+      process.env.PATH = `${join(dir, 'bin')}:${originalPath}`;
+      const waveform = await openWaveform(join(dir, 'dump.fst'));
+      expect(waveform.valueAt('in_ready', 35)).toBe('1');
+    });
+
+    it('should default to the waveform of the latest run', async () => {
+      const run = (name: string, endTime: string, outputs: Record<string, string>) => {
+        mkdirSync(join(dir, 'reports', 'runs', name), { recursive: true });
+        writeFileSync(join(dir, 'reports', 'runs', name, 'run.json'), JSON.stringify({ version: 1, endTime, outputs }));
+      };
+      run('20260101-120000-tb-a', '2026-01-01T12:00:05.000Z', { waveform: '../../../dump.vcd' });
+      run('20260101-130000-tb-b', '2026-01-01T13:00:05.000Z', { executable: 'obj_dir/Vtb' });
+      run('20260101-110000-tb-c', '2026-01-01T11:00:05.000Z', { waveform: 'old.vcd' });
+      expect(findLatestRunOutput(join(dir, 'reports', 'runs'), 'waveform')).toBe(join(dir, 'dump.vcd'));
+
+      const response = await rtlWaveformQueryTool.handler({
+        query: 'find',
+        condition: 'in_valid && !in_ready',
+        cycles: 2,
+        workspaceRoot: dir,
+      });
+      expect(JSON.parse(response.content[0].text)).toEqual({
+        file: 'dump.vcd',
+        timescale: '1ns',
+        condition: 'in_valid && !in_ready',
+        cycles: 2,
+        matches: [{ start: 25, end: 35, cycles: 2 }],
+        total: 1,
+        truncated: false,
+      });
+
+      const value = await rtlWaveformQueryTool.handler({ query: 'value', signals: ['in_data'], time: '15ns', workspaceRoot: dir });
+      expect(JSON.parse(value.content[0].text).values).toEqual({ 'tb.dut.in_data': "8'ha5" });
+      const missing = await rtlWaveformQueryTool.handler({ query: 'sample', workspaceRoot: dir });
+      expect(missing.content[0].text).toBe('Error in rtl_waveform_query: sample query needs signals');
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { YosysSynth, parseYosysStat } from '../../rtl/tools/synthesis/yosys.js';
+import { parseConstraints } from '../../rtl/tools/timing/index.js';
+import { parseClockPeriod, validateRTLConfig, DEFAULT_RTL_CONFIG } from '../../rtl/config/index.js';
+
+const STAT_JSON = JSON.stringify({
+  creator: 'Yosys 0.40',
+  invocation: 'stat -json -liberty cells.lib',
+  modules: {
+    '\\fifo': {
+      num_wires: 12,
+      num_wire_bits: 40,
+      num_memories: 0,
+      num_memory_bits: 0,
+      num_cells: 9,
+      area: 31.5,
+      num_cells_by_type: { sky130_fd_sc_hd__dfxtp_1: 4, sky130_fd_sc_hd__nand2_1: 5 },
+    },
+    '\\top': {
+      num_wires: 3,
+      num_wire_bits: 10,
+      num_memory_bits: 0,
+      num_cells: 2,
+      area: 2.5,
+      num_cells_by_type: { '\\fifo': 2 },
+    },
+  },
+  design: {
+    num_wires: 27,
+    num_wire_bits: 90,
+    num_memory_bits: 64,
+    num_cells: 18,
+    area: 63,
+    num_cells_by_type: { sky130_fd_sc_hd__dfxtp_1: 8, sky130_fd_sc_hd__nand2_1: 10 },
+  },
+});
+
+describe('Yosys synthesis', () => {
+  describe('script generation', () => {
+    it('should auto-detect the top and use generic synth by default', () => {
+      const script = new YosysSynth().generateYosysScript(['/rtl/fifo.v'], '/run/out.v', '/run/stat.json');
+
+      expect(script).toContain('read_verilog /rtl/fifo.v');
+      expect(script).toContain('hierarchy -check -auto-top');
+      expect(script).toMatch(/^synth$/m);
+      expect(script).not.toContain('dfflibmap');
+      expect(script).toContain('tee -q -o /run/stat.json stat -json');
+      expect(script).toContain('write_verilog -noattr /run/out.v');
+    });
+
+    it('should read SystemVerilog with defines and include dirs', () => {
+      const yosys = new YosysSynth({
+        top: 'fifo',
+        includeDirs: ['/rtl/include'],
+        defines: { SYNTHESIS: '', WIDTH: '8' },
+      });
+      const script = yosys.generateYosysScript(['/rtl/fifo.sv', '/rtl/util.v'], '/run/out.v', '/run/stat.json');
+
+      expect(script).toContain('read_verilog -sv -DSYNTHESIS -DWIDTH=8 -I/rtl/include /rtl/fifo.sv');
+      expect(script).toContain('read_verilog -DSYNTHESIS -DWIDTH=8 -I/rtl/include /rtl/util.v');
+      expect(script).toContain('hierarchy -check -top fifo');
+      expect(script).toContain('synth -top fifo');
+    });
+
+    it('should take top, libraries and defines from the source set', () => {
+      const script = new YosysSynth({ defines: { WIDTH: '16' } }).generateYosysScript(
+        ['/rtl/top.v'], '/run/out.v', '/run/stat.json', undefined,
+        {
+          includeDirs: ['/rtl/include'],
+          defines: { WIDTH: '8', SYNTHESIS: '' },
+          libraryDirs: ['/rtl/lib'],
+          libraryFiles: ['/rtl/cells.v'],
+          top: 'top',
+        }
+      );
+
+      expect(script).toContain('read_verilog -DWIDTH=16 -DSYNTHESIS -I/rtl/include /rtl/top.v');
+      expect(script).toContain('read_verilog -DWIDTH=16 -DSYNTHESIS -I/rtl/include /rtl/cells.v');
+      expect(script).toContain('hierarchy -check -libdir /rtl/lib -top top');
+      expect(script).toContain('synth -top top');
+    });
+
+    it('should read every file with -sv for SystemVerilog projects', () => {
+      const script = new YosysSynth({ language: 'systemverilog' })
+        .generateYosysScript(['/rtl/fifo.v'], '/run/out.v', '/run/stat.json');
+      expect(script).toContain('read_verilog -sv /rtl/fifo.v');
+    });
+
+    it('should use the FPGA synth pass for the target', () => {
+      for (const technology of ['ice40', 'ecp5', 'xilinx', 'gowin'] as const) {
+        const script = new YosysSynth({ top: 'top', technology, liberty: '/lib/cells.lib' })
+          .generateYosysScript(['/rtl/top.v'], '/run/out.v', '/run/stat.json');
+
+        expect(script).toContain(`synth_${technology} -top top`);
+        expect(script).not.toContain('liberty');
+      }
+    });
+
+    it('should map to the liberty file with the clock as abc delay target', () => {
+      const script = new YosysSynth({ liberty: '/lib/cells.lib', clockPeriod: parseClockPeriod('200MHz') })
+        .generateYosysScript(['/rtl/fifo.v'], '/run/out.v', '/run/stat.json');
+
+      expect(script).toContain('dfflibmap -liberty /lib/cells.lib');
+      expect(script).toContain('abc -liberty /lib/cells.lib -D 5000');
+      expect(script).toContain('stat -json -liberty /lib/cells.lib');
+    });
+
+    it('should take the abc delay target from the fastest constraint clock', () => {
+      const constraints = parseConstraints(
+        'create_clock -period 10 [get_ports clk]\ncreate_clock -period 2.5 [get_ports pll_clk]\n'
+      );
+      const script = new YosysSynth({ liberty: '/lib/cells.lib', clockPeriod: 10 })
+        .generateYosysScript(['/rtl/fifo.v'], '/run/out.v', '/run/stat.json', constraints);
+
+      expect(script).toContain('abc -liberty /lib/cells.lib -D 2500');
+    });
+  });
+
+  describe('stat -json', () => {
+    it('should prefer whole-design totals', () => {
+      expect(parseYosysStat(STAT_JSON)).toEqual({
+        cells: 18,
+        area: 63,
+        cellTypes: { sky130_fd_sc_hd__dfxtp_1: 8, sky130_fd_sc_hd__nand2_1: 10 },
+        wires: 27,
+        wireBits: 90,
+        memoryBits: 64,
+      });
+    });
+
+    it('should fall back to the top module entry', () => {
+      const { design: _design, ...flat } = JSON.parse(STAT_JSON);
+      const stat = parseYosysStat(JSON.stringify(flat), 'fifo');
+
+      expect(stat.cells).toBe(9);
+      expect(stat.area).toBe(31.5);
+    });
+
+    describe('estimatePPA', () => {
+      let testDir: string;
+
+      beforeEach(() => {
+        testDir = join(tmpdir(), `rtl-yosys-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+        mkdirSync(testDir, { recursive: true });
+      });
+
+      afterEach(() => {
+        rmSync(testDir, { recursive: true, force: true });
+      });
+
+      it('should report liberty area and per-cell-type counts', async () => {
+        writeFileSync(join(testDir, 'synth_stat.json'), STAT_JSON);
+        const ppa = await new YosysSynth().estimatePPA(join(testDir, 'synthesized.v'));
+
+        expect(ppa.area).toMatchObject({ cells: 18, area: 63, estimated: false, memoryBits: 64 });
+        expect(ppa.area.cellTypes?.sky130_fd_sc_hd__nand2_1).toBe(10);
+      });
+
+      it('should estimate area without a liberty file', async () => {
+        writeFileSync(join(testDir, 'synth_stat.json'), JSON.stringify({
+          modules: { '\\fifo': { num_cells: 7, num_cells_by_type: { $_AND_: 7 } } },
+        }));
+        const ppa = await new YosysSynth().estimatePPA(join(testDir, 'synthesized.v'));
+
+        expect(ppa.area).toMatchObject({ cells: 7, area: 70, estimated: true, cellTypes: { $_AND_: 7 } });
+      });
+    });
+  });
+
+  describe('config', () => {
+    it('should convert clock targets to periods in ns', () => {
+      expect(parseClockPeriod('100MHz')).toBe(10);
+      expect(parseClockPeriod('1.25 GHz')).toBe(0.8);
+      expect(parseClockPeriod('2500ps')).toBe(2.5);
+      expect(() => parseClockPeriod('fast')).toThrow(/Invalid clock/);
+    });
+
+    it('should validate synthesis options', () => {
+      const config = JSON.parse(JSON.stringify(DEFAULT_RTL_CONFIG));
+      config.tools.synthesis = {
+        preferred: 'yosys',
+        top: 'fifo',
+        target: { technology: 'asic', clock: '100MHz' },
+        liberty: 'cells.lib',
+        includeDirs: ['include'],
+      };
+
+      expect(validateRTLConfig(config).errors).toEqual([
+        {
+          path: 'tools.synthesis.target.technology',
+          message: 'must be one of: generic, ice40, ecp5, xilinx, gowin',
+        },
+      ]);
+    });
+  });
+});
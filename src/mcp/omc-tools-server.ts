@@ -1,7 +1,7 @@
 /**
  * OMC Tools Server - In-process MCP server for custom tools
  *
- * Exposes 18 custom tools (12 LSP, 2 AST, 1 python_repl, 3 skills) via the Claude Agent SDK's
+ * Exposes the custom LSP, AST, python_repl, skills and RTL tools via the Claude Agent SDK's
  * createSdkMcpServer helper for use by subagents.
  */
 
@@ -10,6 +10,7 @@ import { lspTools } from "../tools/lsp-tools.js";
 import { astTools } from "../tools/ast-tools.js";
 import { pythonReplTool } from "../tools/python-repl/index.js";
 import { skillsTools } from "../tools/skills-tools.js";
+import { rtlTools } from "../tools/rtl-tools.js";
 
 // Type for our tool definitions
 interface ToolDef {
@@ -24,7 +25,8 @@ const allTools: ToolDef[] = [
   ...(lspTools as unknown as ToolDef[]),
   ...(astTools as unknown as ToolDef[]),
   pythonReplTool as unknown as ToolDef,
-  ...(skillsTools as unknown as ToolDef[])
+  ...(skillsTools as unknown as ToolDef[]),
+  ...(rtlTools as unknown as ToolDef[])
 ];
 
 // Convert to SDK tool format
@@ -62,14 +64,16 @@ export function getOmcToolNames(options?: {
   includeAst?: boolean;
   includePython?: boolean;
   includeSkills?: boolean;
+  includeRtl?: boolean;
 }): string[] {
-  const { includeLsp = true, includeAst = true, includePython = true, includeSkills = true } = options || {};
+  const { includeLsp = true, includeAst = true, includePython = true, includeSkills = true, includeRtl = true } = options || {};
 
   return omcToolNames.filter(name => {
     if (!includeLsp && name.includes('lsp_')) return false;
     if (!includeAst && name.includes('ast_')) return false;
     if (!includePython && name.includes('python_repl')) return false;
     if (!includeSkills && (name.includes('load_omc_skills') || name.includes('list_omc_skills'))) return false;
+    if (!includeRtl && name.includes('rtl_')) return false;
     return true;
   });
 }
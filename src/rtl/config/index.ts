@@ -1,11 +1,25 @@
 /**
  * RTL Configuration Management
- * 
+ *
  * Loads and validates .rtl-config.json
+ *
+ * Layers (later wins):
+ * 1. DEFAULT_RTL_CONFIG
+ * 2. User config: ~/.config/oh-my-claude-rtl/rtl-config.json
+ * 3. Project config: .rtl-config.json (or rtl.config.json)
  */
 
+import { readFileSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import * as jsonc from 'jsonc-parser';
+import Ajv, { type ValidateFunction, type ErrorObject } from 'ajv';
+import { deepMerge } from '../../config/loader.js';
+import { RTL_CONFIG_SCHEMA, toLayerSchema } from './schema.js';
 import type { RTLProjectConfig } from '../types.js';
 
+export { RTL_CONFIG_SCHEMA } from './schema.js';
+
 /**
  * Default RTL configuration
  */
@@ -45,17 +59,246 @@ export const DEFAULT_RTL_CONFIG: RTLProjectConfig = {
 };
 
 /**
- * Load RTL configuration from file
+ * Project config file names, in lookup order
+ */
+export const RTL_CONFIG_FILENAMES = ['.rtl-config.json', 'rtl.config.json'];
+
+/**
+ * A single schema violation, addressed by dotted config path
+ */
+export interface RTLConfigIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Validation result
+ */
+export interface RTLConfigValidationResult {
+  valid: boolean;
+  errors: RTLConfigIssue[];
+}
+
+/**
+ * Options for loadRTLConfig
+ */
+export interface RTLConfigLoadOptions {
+  /** Explicit project config file (skips .rtl-config.json lookup) */
+  configPath?: string;
+  /** User-global config file (null disables the user layer) */
+  userConfigPath?: string | null;
+}
+
+/**
+ * Error thrown when a config file cannot be parsed or fails validation
+ */
+export class RTLConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly source: string,
+    public readonly issues: RTLConfigIssue[] = []
+  ) {
+    super(message);
+    this.name = 'RTLConfigError';
+  }
+}
+
+// Compile schemas
+const AjvConstructor = (Ajv as any).default ?? Ajv;
+const ajv = new AjvConstructor({ allErrors: true, strict: false });
+const validateFullConfig: ValidateFunction = ajv.compile(RTL_CONFIG_SCHEMA);
+const validateConfigLayer: ValidateFunction = ajv.compile(toLayerSchema(RTL_CONFIG_SCHEMA));
+
+/**
+ * Convert an Ajv error into a dotted-path issue
+ *
+ * '/tools/lint/preferred' + 'must be string' -> 'tools.lint.preferred: must be string'
+ */
+function toIssue(error: ErrorObject): RTLConfigIssue {
+  const segments = error.instancePath.split('/').filter(Boolean);
+  const params = error.params as Record<string, unknown>;
+  let message = error.message ?? 'is invalid';
+
+  if (error.keyword === 'additionalProperties') {
+    segments.push(String(params.additionalProperty));
+    message = 'is not a recognized option';
+  } else if (error.keyword === 'required') {
+    segments.push(String(params.missingProperty));
+    message = 'is required';
+  } else if (error.keyword === 'enum') {
+    message = `must be one of: ${(params.allowedValues as unknown[]).join(', ')}`;
+  }
+
+  return {
+    path: segments.length > 0 ? segments.join('.') : '(root)',
+    message,
+  };
+}
+
+function collectIssues(validate: ValidateFunction, config: unknown): RTLConfigIssue[] {
+  if (validate(config)) {
+    return [];
+  }
+  return (validate.errors ?? []).map(toIssue);
+}
+
+function formatIssues(issues: RTLConfigIssue[]): string {
+  return issues.map(issue => `  - ${issue.path}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Validate a complete RTL configuration
+ */
+export function validateRTLConfig(config: unknown): RTLConfigValidationResult {
+  const errors = collectIssues(validateFullConfig, config);
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Default location of the user-global RTL config
+ */
+export function getUserRTLConfigPath(): string {
+  const userConfigDir = process.env.XDG_CONFIG_HOME ?? join(homedir(), '.config');
+  return join(userConfigDir, 'oh-my-claude-rtl', 'rtl-config.json');
+}
+
+/**
+ * Find the project config file in a workspace
+ */
+export function findRTLConfigFile(workspaceRoot: string): string | null {
+  for (const name of RTL_CONFIG_FILENAMES) {
+    const candidate = join(workspaceRoot, name);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read and validate a single config layer
+ *
+ * @throws RTLConfigError on parse errors or schema violations
+ */
+function loadConfigLayer(filePath: string): Partial<RTLProjectConfig> {
+  const content = readFileSync(filePath, 'utf-8');
+  const parseErrors: jsonc.ParseError[] = [];
+  const parsed = jsonc.parse(content, parseErrors, {
+    allowTrailingComma: true,
+    allowEmptyContent: true,
+  });
+
+  if (parseErrors.length > 0) {
+    const first = parseErrors[0];
+    throw new RTLConfigError(
+      `Failed to parse ${filePath}: ${jsonc.printParseErrorCode(first.error)} at offset ${first.offset}`,
+      filePath
+    );
+  }
+
+  if (parsed === undefined) {
+    return {};
+  }
+
+  const issues = collectIssues(validateConfigLayer, parsed);
+  if (issues.length > 0) {
+    throw new RTLConfigError(
+      `Invalid RTL config ${filePath}:\n${formatIssues(issues)}`,
+      filePath,
+      issues
+    );
+  }
+
+  return parsed as Partial<RTLProjectConfig>;
+}
+
+/**
+ * Load RTL configuration for a workspace
+ *
+ * Deep-merges user and project config over DEFAULT_RTL_CONFIG.
+ * Arrays (e.g. lsp.fallback) replace rather than concatenate.
+ *
+ * @param workspaceRoot Directory containing .rtl-config.json (default: cwd)
+ * @throws RTLConfigError if any layer is malformed or the result is invalid
  */
-export async function loadRTLConfig(configPath?: string): Promise<RTLProjectConfig> {
-  // TODO: Implement config loading
-  return DEFAULT_RTL_CONFIG;
+export async function loadRTLConfig(
+  workspaceRoot: string = process.cwd(),
+  options: RTLConfigLoadOptions = {}
+): Promise<RTLProjectConfig> {
+  let config = DEFAULT_RTL_CONFIG as unknown as Record<string, unknown>;
+  const sources: string[] = [];
+
+  const userConfigPath = options.userConfigPath === undefined
+    ? getUserRTLConfigPath()
+    : options.userConfigPath;
+  if (userConfigPath && existsSync(userConfigPath)) {
+    config = deepMerge(config, loadConfigLayer(userConfigPath) as Record<string, unknown>);
+    sources.push(userConfigPath);
+  }
+
+  const projectConfigPath = options.configPath
+    ? resolve(workspaceRoot, options.configPath)
+    : findRTLConfigFile(workspaceRoot);
+  if (projectConfigPath) {
+    if (!existsSync(projectConfigPath)) {
+      throw new RTLConfigError(`RTL config not found: ${projectConfigPath}`, projectConfigPath);
+    }
+    config = deepMerge(config, loadConfigLayer(projectConfigPath) as Record<string, unknown>);
+    sources.push(projectConfigPath);
+  }
+
+  const { errors } = validateRTLConfig(config);
+  if (errors.length > 0) {
+    const source = sources.join(', ') || 'defaults';
+    throw new RTLConfigError(
+      `Invalid RTL config (merged from ${source}):\n${formatIssues(errors)}`,
+      source,
+      errors
+    );
+  }
+
+  return config as unknown as RTLProjectConfig;
 }
 
 /**
- * Validate RTL configuration
+ * Pick the tool to prefer from an ordered list of candidates
+ *
+ * Candidates are tried in order; undefined entries are skipped so callers
+ * can pass optional config values directly.
+ *
+ * @example
+ * resolveToolPreference(installed, config.tools.lint?.preferred, 'verilator', 'slang')
  */
-export function validateRTLConfig(config: RTLProjectConfig): boolean {
-  // TODO: Implement validation
-  return true;
+export function resolveToolPreference(
+  installed: string[],
+  ...candidates: Array<string | string[] | undefined>
+): string | undefined {
+  for (const candidate of candidates.flat()) {
+    if (candidate && installed.includes(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Clock period in nanoseconds from a target clock ('100MHz', '2.5ns', ...)
+ *
+ * @throws Error if the clock string is not a frequency or period
+ */
+export function parseClockPeriod(clock: string): number {
+  const match = clock.trim().match(/^(\d+(?:\.\d+)?)\s*(GHz|MHz|kHz|Hz|ns|ps)$/);
+  if (!match) {
+    throw new Error(`Invalid clock '${clock}': expected a frequency (e.g. 100MHz) or period (e.g. 10ns)`);
+  }
+
+  const value = parseFloat(match[1]);
+  switch (match[2]) {
+    case 'GHz': return 1 / value;
+    case 'MHz': return 1e3 / value;
+    case 'kHz': return 1e6 / value;
+    case 'Hz': return 1e9 / value;
+    case 'ps': return value / 1e3;
+    default: return value;
+  }
 }
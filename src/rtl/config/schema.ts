@@ -0,0 +1,246 @@
+/**
+ * RTL Configuration Schema
+ *
+ * JSON Schema describing RTLProjectConfig (.rtl-config.json).
+ * Keep in sync with RTLProjectConfig in ../types.ts.
+ */
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+/**
+ * Full schema for a resolved RTL project configuration
+ */
+export const RTL_CONFIG_SCHEMA = {
+  type: 'object',
+  required: ['language', 'tools', 'paths'],
+  properties: {
+    $schema: { type: 'string' },
+    project: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        version: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+    language: {
+      type: 'string',
+      enum: ['verilog', 'systemverilog', 'vhdl', 'chisel', 'spinalhdl', 'systemc'],
+    },
+    standard: {
+      type: 'string',
+      enum: ['1995', '2001', '2005', '2009', '2012', '2017'],
+    },
+    vhdl: {
+      type: 'object',
+      properties: {
+        standard: { type: 'string', enum: ['87', '93', '93c', '00', '02', '08'] },
+        workLibrary: { type: 'string', pattern: '^[A-Za-z]\\w*$' },
+        libraries: {
+          type: 'object',
+          propertyNames: { pattern: '^[A-Za-z]\\w*$' },
+          additionalProperties: stringArray,
+        },
+        analyzeArgs: stringArray,
+        waveform: { type: 'string', enum: ['vcd', 'fst', 'ghw'] },
+      },
+      additionalProperties: false,
+    },
+    elaboration: {
+      type: 'object',
+      required: ['mainClass'],
+      properties: {
+        mainClass: { type: 'string', minLength: 1 },
+        generator: { type: 'string', enum: ['chisel', 'spinalhdl'] },
+        buildTool: { type: 'string', enum: ['sbt', 'mill', 'scala-cli'] },
+        module: { type: 'string', minLength: 1 },
+        args: stringArray,
+        outputDir: { type: 'string', minLength: 1 },
+        sourceDirs: stringArray,
+        timeoutMs: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    defines: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+    },
+    includePaths: stringArray,
+    sources: {
+      type: 'object',
+      additionalProperties: {
+        type: 'object',
+        properties: {
+          filelist: { type: 'string', minLength: 1 },
+          core: { type: 'string', minLength: 1 },
+          target: { type: 'string', minLength: 1 },
+        },
+        additionalProperties: false,
+      },
+    },
+    tools: {
+      type: 'object',
+      properties: {
+        lsp: {
+          type: 'object',
+          required: ['preferred'],
+          properties: {
+            preferred: { type: 'string', minLength: 1 },
+            fallback: stringArray,
+          },
+          additionalProperties: false,
+        },
+        lint: {
+          type: 'object',
+          required: ['preferred'],
+          properties: {
+            preferred: { type: 'string', minLength: 1 },
+            rules: { type: 'string' },
+            ignore: stringArray,
+          },
+          additionalProperties: false,
+        },
+        simulation: {
+          type: 'object',
+          required: ['preferred'],
+          properties: {
+            preferred: { type: 'string', minLength: 1 },
+            fallback: { type: 'string' },
+            coverage: {
+              type: 'object',
+              required: ['enabled'],
+              properties: {
+                enabled: { type: 'boolean' },
+                types: stringArray,
+              },
+              additionalProperties: false,
+            },
+            passDetection: {
+              type: 'object',
+              properties: {
+                passPatterns: stringArray,
+                failPatterns: stringArray,
+                useDefaultPatterns: { type: 'boolean' },
+                requirePassMarker: { type: 'boolean' },
+                errorSeverity: { type: 'string', enum: ['fail', 'warning'] },
+                uvm: { type: 'boolean' },
+                cocotbResults: { type: 'string' },
+              },
+              additionalProperties: false,
+            },
+            cocotb: {
+              type: 'object',
+              properties: {
+                simulator: { type: 'string', minLength: 1 },
+                flow: { type: 'string', enum: ['makefile', 'runner'] },
+                toplevel: { type: 'string', minLength: 1 },
+                waves: { type: 'boolean' },
+              },
+              additionalProperties: false,
+            },
+            triage: {
+              type: 'object',
+              properties: {
+                enabled: { type: 'boolean' },
+                cycles: { type: 'integer', minimum: 1 },
+                maxSignals: { type: 'integer', minimum: 1 },
+                signals: stringArray,
+              },
+              additionalProperties: false,
+            },
+          },
+          additionalProperties: false,
+        },
+        synthesis: {
+          type: 'object',
+          required: ['preferred'],
+          properties: {
+            preferred: { type: 'string', minLength: 1 },
+            fallback: { type: 'string' },
+            top: { type: 'string', minLength: 1 },
+            target: {
+              type: 'object',
+              required: ['technology'],
+              properties: {
+                technology: { type: 'string', enum: ['generic', 'ice40', 'ecp5', 'xilinx', 'gowin'] },
+                clock: { type: 'string', pattern: '^\\s*\\d+(\\.\\d+)?\\s*(GHz|MHz|kHz|Hz|ns|ps)\\s*$' },
+                device: { type: 'string', minLength: 1 },
+                package: { type: 'string', minLength: 1 },
+              },
+              additionalProperties: false,
+            },
+            liberty: { type: 'string', minLength: 1 },
+            constraints: stringArray,
+            includeDirs: stringArray,
+            defines: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+            },
+          },
+          additionalProperties: false,
+        },
+        commercial: {
+          type: 'object',
+          propertyNames: { enum: ['xrun', 'vcs', 'questa', 'spyglass'] },
+          additionalProperties: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['opensource', 'commercial'] },
+              name: { type: 'string' },
+              executable: { type: 'string', minLength: 1 },
+              args: stringArray,
+              elaborateArgs: stringArray,
+              runArgs: stringArray,
+              env: {
+                type: 'object',
+                additionalProperties: { type: 'string' },
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+    paths: {
+      type: 'object',
+      required: ['rtl', 'testbench', 'synthesis', 'reports'],
+      properties: {
+        rtl: { type: 'string' },
+        testbench: { type: 'string' },
+        synthesis: { type: 'string' },
+        reports: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Derive a schema for a single config layer (user or project file)
+ *
+ * Layers are merged over the defaults, so they only need to be well-typed;
+ * `required` constraints are checked once on the merged result.
+ */
+export function toLayerSchema(schema: Record<string, unknown>): Record<string, unknown> {
+  const layer: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'required') continue;
+
+    if (key === 'properties' && value && typeof value === 'object') {
+      layer.properties = Object.fromEntries(
+        Object.entries(value as Record<string, Record<string, unknown>>).map(
+          ([name, child]) => [name, toLayerSchema(child)]
+        )
+      );
+    } else if ((key === 'items' || key === 'additionalProperties') && value && typeof value === 'object') {
+      layer[key] = toLayerSchema(value as Record<string, unknown>);
+    } else {
+      layer[key] = value;
+    }
+  }
+
+  return layer;
+}
@@ -0,0 +1,215 @@
+/**
+ * Design Database
+ *
+ * Machine-readable index of every module, interface, package and
+ * program in a project: ports, parameters, clocks, resets and
+ * instantiations. Testbench generation, documentation and review query
+ * it instead of re-parsing sources.
+ *
+ * Layout: <paths.reports>/design-db.json, keyed by file. A file is only
+ * parsed again when its content hash changes.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { DesignUnit, InstanceInfo, RTLProjectConfig } from '../types.js';
+import { resolveSourceSet } from '../sources/index.js';
+import { DEFAULT_EXCLUDE_PATTERNS } from '../lsp/config-helper.js';
+import { parseDesignUnits } from './parser.js';
+
+/** File extensions indexed when no sources are configured */
+const HDL_EXTENSIONS = new Set(['.v', '.sv', '.vh', '.svh']);
+
+interface DesignIndex {
+  version: 1;
+  files: Record<string, { hash: string; units: DesignUnit[] }>;
+}
+
+/**
+ * Outcome of an index update
+ */
+export interface DesignUpdateStats {
+  files: number;
+  parsed: number;   // New or changed files
+  cached: number;   // Unchanged files reused from the index
+  removed: number;  // Indexed files no longer in the file set
+  units: number;
+  missing: string[];
+}
+
+/**
+ * An instantiation with the unit containing it
+ */
+export interface InstanceLocation extends InstanceInfo {
+  parent: string;
+  file: string;
+}
+
+export class DesignDatabase {
+  readonly indexPath: string;
+
+  constructor(indexPath: string) {
+    this.indexPath = indexPath;
+  }
+
+  /**
+   * Index the given files, reparsing only new and changed ones
+   *
+   * Files not in the list are dropped, so the index mirrors one file set.
+   */
+  async update(files: string[]): Promise<DesignUpdateStats> {
+    const index = await this.readIndex();
+    const next: DesignIndex = { version: 1, files: {} };
+    const stats: DesignUpdateStats = { files: 0, parsed: 0, cached: 0, removed: 0, units: 0, missing: [] };
+
+    for (const file of files) {
+      let text: string;
+      try {
+        text = await fs.promises.readFile(file, 'utf8');
+      } catch {
+        stats.missing.push(file);
+        continue;
+      }
+
+      const hash = createHash('sha1').update(text).digest('hex');
+      const cached = index.files[file];
+      if (cached?.hash === hash) {
+        next.files[file] = cached;
+        stats.cached++;
+      } else {
+        next.files[file] = { hash, units: parseDesignUnits(text, file) };
+        stats.parsed++;
+      }
+      stats.files++;
+      stats.units += next.files[file].units.length;
+    }
+
+    stats.removed = Object.keys(index.files).filter(file => !next.files[file]).length;
+    if (stats.parsed > 0 || stats.removed > 0) {
+      await this.writeIndex(next);
+    }
+    return stats;
+  }
+
+  /**
+   * Every indexed unit, in file order
+   */
+  async getUnits(): Promise<DesignUnit[]> {
+    const index = await this.readIndex();
+    return Object.values(index.files).flatMap(entry => entry.units);
+  }
+
+  /**
+   * Look up a unit by name (the first definition wins)
+   */
+  async getUnit(name: string): Promise<DesignUnit | undefined> {
+    return (await this.getUnits()).find(unit => unit.name === name);
+  }
+
+  /**
+   * Every place a module or interface is instantiated
+   */
+  async findInstances(module: string): Promise<InstanceLocation[]> {
+    const locations: InstanceLocation[] = [];
+    for (const unit of await this.getUnits()) {
+      for (const instance of unit.instances) {
+        if (instance.module === module) {
+          locations.push({ ...instance, parent: unit.name, file: unit.file });
+        }
+      }
+    }
+    return locations;
+  }
+
+  /**
+   * Files defining a unit and everything it instantiates or imports,
+   * dependencies (packages first) before the files that use them
+   */
+  async getDependencyFiles(name: string): Promise<string[]> {
+    const units = await this.getUnits();
+    const files: string[] = [];
+    const visited = new Set<string>();
+
+    const visit = (unitName: string) => {
+      if (visited.has(unitName)) return;
+      visited.add(unitName);
+      const unit = units.find(u => u.name === unitName);
+      if (!unit) return;
+      unit.imports.forEach(visit);
+      unit.instances.forEach(instance => visit(instance.module));
+      if (!files.includes(unit.file)) files.push(unit.file);
+    };
+
+    visit(name);
+    return files;
+  }
+
+  private async readIndex(): Promise<DesignIndex> {
+    try {
+      const index = JSON.parse(await fs.promises.readFile(this.indexPath, 'utf8')) as DesignIndex;
+      return index.version === 1 ? index : { version: 1, files: {} };
+    } catch {
+      return { version: 1, files: {} };
+    }
+  }
+
+  private async writeIndex(index: DesignIndex): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.indexPath), { recursive: true });
+    await fs.promises.writeFile(this.indexPath, JSON.stringify(index, null, 2));
+  }
+}
+
+/**
+ * Open the project's design database under paths.reports
+ */
+export function openDesignDatabase(
+  config: RTLProjectConfig,
+  workspaceRoot: string = process.cwd()
+): DesignDatabase {
+  return new DesignDatabase(path.resolve(workspaceRoot, config.paths.reports, 'design-db.json'));
+}
+
+/**
+ * Files to index: the configured lint sources, else every Verilog and
+ * SystemVerilog file below paths.rtl and paths.testbench
+ *
+ * @throws SourceSetError when the configured filelist or core is invalid
+ */
+export async function collectDesignFiles(
+  config: RTLProjectConfig,
+  workspaceRoot: string = process.cwd()
+): Promise<string[]> {
+  const root = path.resolve(workspaceRoot);
+  const sources = await resolveSourceSet(config, root, 'lint');
+  if (sources.files.length > 0) {
+    return sources.files;
+  }
+
+  const files: string[] = [];
+  const walk = async (dir: string): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        if (!isExcluded(entry.name)) await walk(full);
+      } else if (HDL_EXTENSIONS.has(path.extname(entry.name)) && !files.includes(full)) {
+        files.push(full);
+      }
+    }
+  };
+
+  for (const dir of [config.paths.rtl, config.paths.testbench]) {
+    await walk(path.resolve(root, dir));
+  }
+  return files;
+}
+
+function isExcluded(name: string): boolean {
+  return DEFAULT_EXCLUDE_PATTERNS.some(pattern => pattern === '.*' ? name.startsWith('.') : name === pattern);
+}
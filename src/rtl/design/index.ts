@@ -0,0 +1,10 @@
+/**
+ * RTL Design Database
+ *
+ * Ports, parameters, clocks, resets and instantiations of every design
+ * unit, parsed from source and cached by file hash.
+ */
+
+export { parseDesignUnits } from './parser.js';
+export { DesignDatabase, openDesignDatabase, collectDesignFiles } from './database.js';
+export type { DesignUpdateStats, InstanceLocation } from './database.js';
@@ -0,0 +1,731 @@
+/**
+ * SystemVerilog Declaration Parser
+ *
+ * Extracts modules, interfaces, packages and programs with their ports,
+ * parameters, clocks, resets and instantiations from source text. It
+ * reads declarations only: no preprocessing beyond dropping directives
+ * (both `ifdef branches are kept), no elaboration, no type resolution.
+ */
+
+import type { DesignUnit, InstanceInfo, ParameterInfo, PortInfo, ResetInfo } from '../types.js';
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+const TOKEN_PATTERN = new RegExp([
+  '\\s+',
+  '\\\\\\S+',                                                  // Escaped identifier
+  '[A-Za-z_$][\\w$]*|`[A-Za-z_]\\w*',                          // Identifier, system task, macro
+  "(?:\\d[\\d_]*\\s*)?'[sS]?[bBoOdDhH]\\s*[\\dA-Fa-fXxZz?_]+",  // Based number
+  "\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?|'[01xXzZ]",        // Decimal, unbased literal
+  '"(?:[^"\\\\\\n]|\\\\.)*"',
+  "::|\\+:|-:|\\*\\*|<<|>>|<=|>=|==|!=|&&|\\|\\||'\\{|[^]",
+].join('|'), 'gy');
+
+const DIRECTIVE_PATTERN = /^\s*`(define|undef|undefineall|include|timescale|ifdef|ifndef|elsif|else|endif|default_nettype|resetall|celldefine|endcelldefine|pragma|line|unconnected_drive|nounconnected_drive|begin_keywords|end_keywords)\b/;
+
+const UNIT_END: Record<DesignUnit['kind'], string> = {
+  module: 'endmodule',
+  interface: 'endinterface',
+  package: 'endpackage',
+  program: 'endprogram',
+};
+
+const DIRECTIONS = new Set(['input', 'output', 'inout', 'ref']);
+
+/** Built-in data types and net types (with the bits of one element) */
+const TYPE_WIDTHS: Record<string, number | undefined> = {
+  logic: 1, wire: 1, reg: 1, bit: 1, var: 1, tri: 1, tri0: 1, tri1: 1, wand: 1, wor: 1, uwire: 1, supply0: 1, supply1: 1,
+  byte: 8, shortint: 16, int: 32, integer: 32, longint: 64, time: 64,
+  signed: 1, unsigned: 1, real: undefined, realtime: undefined, shortreal: undefined, string: undefined,
+  chandle: undefined, event: undefined, type: undefined,
+};
+
+const KEYWORDS = new Set([
+  ...Object.keys(TYPE_WIDTHS), ...DIRECTIONS, ...Object.keys(UNIT_END), ...Object.values(UNIT_END),
+  'macromodule', 'parameter', 'localparam', 'genvar', 'typedef', 'struct', 'union', 'enum', 'packed', 'import', 'export',
+  'always', 'always_ff', 'always_comb', 'always_latch', 'initial', 'final', 'assign', 'deassign', 'force', 'release',
+  'begin', 'end', 'if', 'else', 'case', 'casez', 'casex', 'endcase', 'for', 'foreach', 'while', 'repeat', 'forever', 'do',
+  'generate', 'endgenerate', 'function', 'endfunction', 'task', 'endtask', 'return', 'posedge', 'negedge', 'or', 'and',
+  'not', 'class', 'endclass', 'modport', 'clocking', 'endclocking', 'property', 'endproperty', 'sequence', 'endsequence',
+  'assert', 'assume', 'cover', 'restrict', 'default', 'automatic', 'static', 'const', 'virtual', 'covergroup', 'endgroup',
+  'constraint', 'rand', 'randc', 'unique', 'unique0', 'priority', 'iff', 'disable', 'fork', 'join', 'join_any',
+  'join_none', 'wait', 'void', 'specify', 'endspecify', 'primitive', 'endprimitive', 'table', 'endtable', 'let',
+  'checker', 'endchecker', 'bind', 'defparam', 'extern', 'pure', 'new', 'null', 'this', 'super',
+]);
+
+/** Tokens after which a new statement starts */
+const STATEMENT_BOUNDARIES = new Set([';', 'begin', 'end', 'generate', 'endgenerate', 'else', 'endfunction', 'endtask', 'endclass']);
+
+/** Keywords opening a block whose declarations are not unit-level */
+const BLOCK_OPEN = new Set(['begin', 'function', 'task', 'class', 'covergroup', 'clocking', 'property', 'sequence', 'fork', 'checker']);
+const BLOCK_CLOSE = new Set(['end', 'endfunction', 'endtask', 'endclass', 'endgroup', 'endclocking', 'endproperty', 'endsequence', 'join', 'join_any', 'join_none', 'endchecker']);
+
+const CLOCK_NAME = /(^|_)(clk|clock)(_|\d|$)|clk$/i;
+const NOT_CLOCK_NAME = /(en|enable|sel|gate|div|cnt|count)$/i;
+const RESET_NAME = /(^|_|[ahps])(rst|reset)/i;
+const ACTIVE_LOW_RESET = /(rst|reset)_?(n|ni|b|l)(_|$)/i;
+
+/**
+ * Parse the design units declared in a source file
+ *
+ * @param text File contents
+ * @param file Path recorded in each unit
+ */
+export function parseDesignUnits(text: string, file: string): DesignUnit[] {
+  const tokens = tokenize(text);
+  const units: DesignUnit[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const kind = unitKind(tokens, i);
+    if (!kind) continue;
+
+    const end = findUnitEnd(tokens, i, kind);
+    const unit = parseUnit(tokens.slice(i, end), kind, file);
+    if (unit) {
+      units.push(unit);
+    }
+    i = end;
+  }
+
+  return units;
+}
+
+/**
+ * Strip comments (keeping line breaks) and compiler directives
+ */
+function stripSource(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === '"') {
+      let end = i + 1;
+      while (end < text.length && text[end] !== '"' && text[end] !== '\n') end += text[end] === '\\' ? 2 : 1;
+      const stop = Math.min(end + 1, text.length);
+      out += text.slice(i, stop);
+      i = stop - 1;
+    } else if (c === '/' && text[i + 1] === '/') {
+      while (i < text.length && text[i] !== '\n') i++;
+      i--;
+    } else if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end < 0 ? text.length : end + 2;
+      out += text.slice(i, stop).replace(/[^\n]/g, '');
+      i = stop - 1;
+    } else {
+      out += c;
+    }
+  }
+
+  let continued = false;
+  return out.split('\n').map(line => {
+    const directive = continued || DIRECTIVE_PATTERN.test(line);
+    continued = directive && /\\\s*$/.test(line);
+    return directive ? '' : line;
+  }).join('\n');
+}
+
+function tokenize(text: string): Token[] {
+  const source = stripSource(text);
+  const tokens: Token[] = [];
+  let line = 1;
+
+  TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TOKEN_PATTERN.exec(source)) !== null) {
+    const value = match[0];
+    if (!/^\s/.test(value)) {
+      tokens.push({ text: value.replace(/\s+/g, ''), line });
+    }
+    line += value.split('\n').length - 1;
+  }
+
+  return tokens;
+}
+
+function isWord(token: Token | undefined): boolean {
+  return token !== undefined && /^[A-Za-z_\\`$]/.test(token.text);
+}
+
+function isIdentifier(token: Token | undefined): boolean {
+  return isWord(token) && !KEYWORDS.has(token!.text) && !token!.text.startsWith('$');
+}
+
+function unitKind(tokens: Token[], i: number): DesignUnit['kind'] | undefined {
+  const text = tokens[i].text === 'macromodule' ? 'module' : tokens[i].text;
+  if (!(text in UNIT_END)) return undefined;
+
+  const previous = tokens[i - 1]?.text;
+  if (previous === 'virtual' || previous === 'extern' || previous === 'typedef') return undefined;
+  if (text === 'interface' && tokens[i + 1]?.text === 'class') return undefined;
+  return text as DesignUnit['kind'];
+}
+
+/**
+ * Index of the end keyword closing the unit at i (nested units included)
+ */
+function findUnitEnd(tokens: Token[], start: number, kind: DesignUnit['kind']): number {
+  let depth = 0;
+  for (let i = start; i < tokens.length; i++) {
+    if (unitKind(tokens, i) === kind) {
+      depth++;
+    } else if (tokens[i].text === UNIT_END[kind] && --depth === 0) {
+      return i;
+    }
+  }
+  return tokens.length;
+}
+
+/**
+ * Index of the bracket closing the one at i
+ */
+function matchClose(tokens: Token[], i: number): number {
+  let depth = 0;
+  for (let j = i; j < tokens.length; j++) {
+    const text = tokens[j].text;
+    if (text === '(' || text === '[' || text === '{' || text === "'{") depth++;
+    else if ((text === ')' || text === ']' || text === '}') && --depth === 0) return j;
+  }
+  return tokens.length - 1;
+}
+
+/**
+ * Split at separators outside brackets
+ */
+function splitTop(tokens: Token[], separator = ','): Token[][] {
+  const items: Token[][] = [[]];
+  for (let i = 0; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    if (text === '(' || text === '[' || text === '{' || text === "'{") {
+      const close = matchClose(tokens, i);
+      items[items.length - 1].push(...tokens.slice(i, close + 1));
+      i = close;
+    } else if (text === separator) {
+      items.push([]);
+    } else {
+      items[items.length - 1].push(tokens[i]);
+    }
+  }
+  return items.filter(item => item.length > 0);
+}
+
+/**
+ * Source text of tokens, with spaces only where words would merge
+ *
+ * @param type Also separate dimensions from a preceding type word ("logic [7:0]")
+ */
+function joinTokens(tokens: Token[], type = false): string {
+  const wordLike = (token: Token) => isWord(token) || /^[\d']/.test(token.text);
+  let out = '';
+  tokens.forEach((token, i) => {
+    const previous = tokens[i - 1];
+    if (previous && (previous.text === ',' || (wordLike(previous) && (wordLike(token) || (type && token.text === '['))))) {
+      out += ' ';
+    }
+    out += token.text;
+  });
+  return out;
+}
+
+/**
+ * Whether a statement starts at i (after ';', begin/end and their labels, or a condition)
+ */
+function isStatementStart(tokens: Token[], i: number): boolean {
+  const previous = tokens[i - 1]?.text;
+  if (previous === undefined || previous === ')' || STATEMENT_BOUNDARIES.has(previous)) return true;
+  return tokens[i - 2]?.text === ':' && (tokens[i - 3]?.text === 'begin' || tokens[i - 3]?.text === 'end');
+}
+
+/**
+ * Whether the keyword at i opens a block closed by its end keyword
+ * (not "assert property", "wait fork" or "typedef class")
+ */
+function opensBlock(tokens: Token[], i: number): boolean {
+  const text = tokens[i].text;
+  const previous = tokens[i - 1]?.text;
+  if (!BLOCK_OPEN.has(text)) return false;
+  if ((text === 'property' || text === 'sequence') && ['assert', 'assume', 'cover', 'restrict', 'expect'].includes(previous)) return false;
+  if (text === 'fork' && (previous === 'wait' || previous === 'disable')) return false;
+  if (text === 'class' && previous === 'typedef') return false;
+  return true;
+}
+
+/**
+ * Index of the declared name: the last word before trailing unpacked dimensions
+ */
+function declaredName(tokens: Token[]): number {
+  let i = tokens.length - 1;
+  while (i >= 0 && tokens[i].text === ']') {
+    let depth = 0;
+    for (; i >= 0; i--) {
+      if (tokens[i].text === ']') depth++;
+      else if (tokens[i].text === '[' && --depth === 0) break;
+    }
+    i--;
+  }
+  return isWord(tokens[i]) ? i : -1;
+}
+
+/**
+ * Split a declaration's type tokens into the type text and packed dimensions
+ */
+function splitType(tokens: Token[]): { type: string; packed: Token[][] } {
+  const words: Token[] = [];
+  const packed: Token[][] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].text === '[') {
+      const close = matchClose(tokens, i);
+      packed.push(tokens.slice(i, close + 1));
+      i = close;
+    } else {
+      words.push(tokens[i]);
+    }
+  }
+  return { type: joinTokens(words), packed };
+}
+
+function parseUnit(tokens: Token[], kind: DesignUnit['kind'], file: string): DesignUnit | undefined {
+  let i = 1;
+  while (tokens[i]?.text === 'automatic' || tokens[i]?.text === 'static') i++;
+  const nameToken = tokens[i++];
+  if (!isWord(nameToken)) return undefined;
+
+  const unit: DesignUnit = {
+    kind,
+    name: nameToken.text,
+    file,
+    line: nameToken.line,
+    ports: [],
+    parameters: [],
+    clocks: [],
+    resets: [],
+    instances: [],
+    imports: [],
+  };
+  const parameterValues = new Map<string, Token[]>();
+  const addParameters = (items: Token[][], local: boolean) => {
+    for (const { info, value } of parseParameters(items, local)) {
+      unit.parameters.push(info);
+      parameterValues.set(info.name, value);
+    }
+  };
+
+  // Header: imports, #(parameters), (ports);
+  while (tokens[i]?.text === 'import') {
+    i = parseImport(tokens, i, unit.imports) + 1;
+  }
+  const hasParameterPorts = tokens[i]?.text === '#' && tokens[i + 1]?.text === '(';
+  if (hasParameterPorts) {
+    const close = matchClose(tokens, i + 1);
+    addParameters(splitTop(tokens.slice(i + 2, close)), false);
+    i = close + 1;
+  }
+
+  const portWidths: Array<{ port: PortInfo; base: string; packed: Token[][] }> = [];
+  const addPort = (port: PortInfo, base: string, packed: Token[][]) => {
+    const existing = unit.ports.findIndex(p => p.name === port.name);
+    if (existing >= 0) {
+      unit.ports[existing] = port;
+      portWidths[existing] = { port, base, packed };
+    } else {
+      unit.ports.push(port);
+      portWidths.push({ port, base, packed });
+    }
+  };
+
+  const nonAnsi = new Set<string>();
+  if (tokens[i]?.text === '(') {
+    const close = matchClose(tokens, i);
+    let previous: AnsiPort | undefined;
+    for (const item of splitTop(tokens.slice(i + 1, close))) {
+      if (item.length === 1 && !previous) {
+        nonAnsi.add(item[0].text);
+        addPort({ name: item[0].text, direction: 'inout', type: 'logic', line: item[0].line }, 'logic', []);
+        continue;
+      }
+      const port = parseAnsiPort(item, previous);
+      if (port) {
+        addPort(port.info, port.base, port.packed);
+        previous = port;
+      }
+    }
+    i = close + 1;
+  }
+  if (tokens[i]?.text === ';') i++;
+
+  // Body
+  const edges: Array<{ signal: string; edge: 'posedge' | 'negedge' }> = [];
+  let depth = 0;
+  for (; i < tokens.length; i++) {
+    const text = tokens[i].text;
+    const statementStart = isStatementStart(tokens, i);
+
+    // Prototypes and DPI declarations have no body
+    if (text === 'extern' || text === 'export' || text === 'pure' || (text === 'import' && tokens[i + 1]?.text.startsWith('"'))) {
+      i = statementEnd(tokens, i);
+      continue;
+    }
+    if (opensBlock(tokens, i)) {
+      depth++;
+      continue;
+    }
+    if (BLOCK_CLOSE.has(text)) {
+      depth = Math.max(0, depth - 1);
+      continue;
+    }
+
+    if (text === 'always' || text === 'always_ff' || text === 'always_latch') {
+      if (tokens[i + 1]?.text === '@' && tokens[i + 2]?.text === '(') {
+        const close = matchClose(tokens, i + 2);
+        for (let j = i + 3; j < close; j++) {
+          const edge = tokens[j].text;
+          if ((edge === 'posedge' || edge === 'negedge') && isWord(tokens[j + 1])) {
+            edges.push({ signal: tokens[j + 1].text, edge });
+          }
+        }
+        i = close;
+      }
+      continue;
+    }
+
+    if (!statementStart) continue;
+
+    const end = statementEnd(tokens, i);
+    const statement = tokens.slice(i, end);
+
+    if (depth === 0 && DIRECTIONS.has(text)) {
+      let previous: AnsiPort | undefined;
+      for (const item of splitTop(statement)) {
+        const port = parseAnsiPort(item, previous);
+        if (port) {
+          if (nonAnsi.has(port.info.name)) addPort(port.info, port.base, port.packed);
+          previous = port;
+        }
+      }
+      i = end;
+    } else if (depth === 0 && (text === 'parameter' || text === 'localparam')) {
+      addParameters(splitTop(statement), hasParameterPorts);
+      i = end;
+    } else if (depth === 0 && text === 'import') {
+      i = parseImport(tokens, i, unit.imports);
+    } else if (depth === 0 && text === 'modport') {
+      unit.modports ??= [];
+      unit.modports.push(...splitTop(statement.slice(1)).map(item => item[0].text));
+      i = end;
+    } else if (depth === 0 && text in TYPE_WIDTHS && nonAnsi.size > 0) {
+      // "reg [7:0] q;" refines the type of a non-ANSI port
+      for (const item of splitTop(statement)) {
+        const port = parseAnsiPort([{ text: 'output', line: item[0].line }, ...item]);
+        const existing = port && unit.ports.find(p => p.name === port.info.name && nonAnsi.has(p.name));
+        if (port && existing) {
+          addPort({ ...port.info, direction: existing.direction }, port.base, port.packed);
+        }
+      }
+      i = end;
+    } else if (isIdentifier(tokens[i])) {
+      const parsed = parseInstances(tokens, i);
+      if (parsed) {
+        unit.instances.push(...parsed.instances);
+        i = parsed.next;
+      }
+    }
+  }
+
+  // Widths once every parameter default is known
+  for (const { port, base, packed } of portWidths) {
+    const width = evaluateWidth(base, packed, parameterValues);
+    if (width !== undefined) port.width = width;
+  }
+
+  inferClocksAndResets(unit, edges);
+  return unit;
+}
+
+/**
+ * Index of the ';' ending the statement at i
+ */
+function statementEnd(tokens: Token[], i: number): number {
+  for (let j = i; j < tokens.length; j++) {
+    const text = tokens[j].text;
+    if (text === '(' || text === '[' || text === '{' || text === "'{") j = matchClose(tokens, j);
+    else if (text === ';') return j;
+  }
+  return tokens.length;
+}
+
+function parseImport(tokens: Token[], i: number, imports: string[]): number {
+  const end = statementEnd(tokens, i);
+  for (const item of splitTop(tokens.slice(i + 1, end))) {
+    if (item[0] && !imports.includes(item[0].text)) imports.push(item[0].text);
+  }
+  return end;
+}
+
+interface AnsiPort {
+  info: PortInfo;
+  base: string;
+  packed: Token[][];
+}
+
+/**
+ * Parse "[direction] [type] [packed] name [unpacked] [= default]",
+ * inheriting direction and type from the previous port when omitted
+ */
+function parseAnsiPort(item: Token[], previous?: AnsiPort): AnsiPort | undefined {
+  let tokens = item;
+  const assign = tokens.findIndex(t => t.text === '=');
+  if (assign >= 0) tokens = tokens.slice(0, assign);
+
+  let direction = DIRECTIONS.has(tokens[0]?.text) ? tokens[0].text as PortInfo['direction'] : undefined;
+  const nameIndex = declaredName(tokens);
+  if (nameIndex < 0) return undefined;
+
+  const typeTokens = tokens.slice(direction ? 1 : 0, nameIndex);
+  const unpacked = tokens.slice(nameIndex + 1);
+  const { type, packed } = splitType(typeTokens);
+  const first = type.split(/\s+/)[0];
+  const line = tokens[nameIndex].line;
+
+  let base: string;
+  let resolved: string;
+  if (!type && packed.length === 0) {
+    if (!direction && previous) {
+      return {
+        info: { ...previous.info, name: tokens[nameIndex].text, unpacked: unpacked.length ? joinTokens(unpacked) : undefined, line },
+        base: previous.base,
+        packed: previous.packed,
+      };
+    }
+    base = 'logic';
+    resolved = 'logic';
+  } else if (!direction && first && !(first in TYPE_WIDTHS) && !type.includes('::')) {
+    // Interface port: "axi_if.master m_axi", "axi_if bus"
+    direction = 'interface';
+    base = type;
+    resolved = type;
+  } else {
+    base = !type ? 'logic' : first in TYPE_WIDTHS ? first : type;
+    resolved = !type || first === 'signed' || first === 'unsigned' ? `logic${type ? ` ${type}` : ''}` : type;
+  }
+
+  const info: PortInfo = {
+    name: tokens[nameIndex].text,
+    direction: direction ?? previous?.info.direction ?? 'inout',
+    type: resolved,
+    line,
+  };
+  if (packed.length) info.packed = packed.map(dimension => joinTokens(dimension)).join('');
+  if (unpacked.length) info.unpacked = joinTokens(unpacked);
+  return { info, base: base === 'signed' || base === 'unsigned' ? 'logic' : base, packed };
+}
+
+/**
+ * Parse parameter declarations; the type and keyword carry over to
+ * the following items ("parameter int A = 1, B = 2")
+ */
+function parseParameters(items: Token[][], forceLocal: boolean): Array<{ info: ParameterInfo; value: Token[] }> {
+  const parameters: Array<{ info: ParameterInfo; value: Token[] }> = [];
+  let local = forceLocal;
+  let type: string | undefined;
+
+  for (const item of items) {
+    let tokens = item;
+    if (tokens[0].text === 'parameter' || tokens[0].text === 'localparam') {
+      local = tokens[0].text === 'localparam' || forceLocal;
+      type = undefined;
+      tokens = tokens.slice(1);
+    }
+    const assign = tokens.findIndex(t => t.text === '=');
+    const left = assign >= 0 ? tokens.slice(0, assign) : tokens;
+    const value = assign >= 0 ? tokens.slice(assign + 1) : [];
+    const nameIndex = declaredName(left);
+    if (nameIndex < 0) continue;
+    if (nameIndex > 0) type = joinTokens(left.slice(0, nameIndex), true);
+
+    const info: ParameterInfo = { name: left[nameIndex].text, local, line: left[nameIndex].line };
+    if (type) info.type = type;
+    if (value.length) info.default = joinTokens(value);
+    parameters.push({ info, value });
+  }
+
+  return parameters;
+}
+
+/**
+ * Parse "mod #(params) u_a (conns), u_b (conns);" at i
+ */
+function parseInstances(tokens: Token[], i: number): { instances: InstanceInfo[]; next: number } | undefined {
+  const module = tokens[i].text;
+  let j = i + 1;
+  let parameters: Record<string, string> = {};
+
+  if (tokens[j]?.text === '#') {
+    if (tokens[j + 1]?.text === '(') {
+      const close = matchClose(tokens, j + 1);
+      parameters = parseConnections(tokens.slice(j + 2, close));
+      j = close + 1;
+    } else if (tokens[j + 1]) {
+      parameters = { 0: tokens[j + 1].text };
+      j += 2;
+    }
+  }
+
+  const instances: InstanceInfo[] = [];
+  while (isIdentifier(tokens[j])) {
+    const nameToken = tokens[j++];
+    let name = nameToken.text;
+    while (tokens[j]?.text === '[') {
+      const close = matchClose(tokens, j);
+      name += joinTokens(tokens.slice(j, close + 1));
+      j = close + 1;
+    }
+    if (tokens[j]?.text !== '(') break;
+
+    const close = matchClose(tokens, j);
+    instances.push({ module, name, line: nameToken.line, parameters, connections: parseConnections(tokens.slice(j + 1, close)) });
+    j = close + 1;
+    if (tokens[j]?.text !== ',') break;
+    j++;
+  }
+
+  if (instances.length === 0 || tokens[j]?.text !== ';') return undefined;
+  return { instances, next: j };
+}
+
+/**
+ * Named (".a(x)", ".a", ".*") or positional connections
+ */
+function parseConnections(tokens: Token[]): Record<string, string> {
+  const connections: Record<string, string> = {};
+  splitTop(tokens).forEach((item, index) => {
+    if (item[0].text !== '.') {
+      connections[index] = joinTokens(item);
+    } else if (item[1]?.text === '*') {
+      connections['*'] = '*';
+    } else if (item[1]) {
+      connections[item[1].text] = item[2]?.text === '(' ? joinTokens(item.slice(3, -1)) : item[1].text;
+    }
+  });
+  return connections;
+}
+
+/**
+ * Bits of one element: base type width times the packed dimensions
+ */
+function evaluateWidth(base: string, packed: Token[][], parameters: Map<string, Token[]>): number | undefined {
+  let width = TYPE_WIDTHS[base];
+  if (width === undefined) return undefined;
+
+  for (const dimension of packed) {
+    const inner = dimension.slice(1, -1);
+    const parts = splitTop(inner, ':');
+    let size: number | undefined;
+    const indexed = inner.findIndex(t => t.text === '+:' || t.text === '-:');
+    if (indexed >= 0) {
+      size = evaluate(inner.slice(indexed + 1), parameters);
+    } else if (parts.length === 2) {
+      const msb = evaluate(parts[0], parameters);
+      const lsb = evaluate(parts[1], parameters);
+      size = msb === undefined || lsb === undefined ? undefined : Math.abs(msb - lsb) + 1;
+    } else if (parts.length === 1) {
+      size = evaluate(parts[0], parameters);
+    }
+    if (size === undefined) return undefined;
+    width *= size;
+  }
+
+  return width;
+}
+
+/**
+ * Evaluate a constant integer expression with parameter defaults
+ */
+function evaluate(tokens: Token[], parameters: Map<string, Token[]>, depth = 0): number | undefined {
+  if (depth > 16) return undefined;
+  let pos = 0;
+  const peek = () => tokens[pos]?.text;
+
+  const primary = (): number | undefined => {
+    const token = tokens[pos++];
+    if (!token) return undefined;
+    const text = token.text;
+    if (text === '(') {
+      const value = expression(0);
+      pos++;
+      return value;
+    }
+    if (text === '-' || text === '+' || text === '~') {
+      const value = primary();
+      if (value === undefined) return undefined;
+      return text === '-' ? -value : text === '~' ? ~value : value;
+    }
+    if (text === '$clog2' && peek() === '(') {
+      pos++;
+      const value = expression(0);
+      pos++;
+      return value === undefined ? undefined : value <= 1 ? 0 : Math.ceil(Math.log2(value));
+    }
+    if (/^\d[\d_]*$/.test(text)) return parseInt(text.replace(/_/g, ''), 10);
+    const based = /^(?:\d[\d_]*)?'[sS]?([bBoOdDhH])([\dA-Fa-f_]+)$/.exec(text);
+    if (based) {
+      const radix = { b: 2, o: 8, d: 10, h: 16 }[based[1].toLowerCase() as 'b' | 'o' | 'd' | 'h'];
+      return parseInt(based[2].replace(/_/g, ''), radix);
+    }
+    const value = parameters.get(text);
+    return value && value.length ? evaluate(value, parameters, depth + 1) : undefined;
+  };
+
+  const PRECEDENCE: Record<string, number> = { '<<': 1, '>>': 1, '+': 2, '-': 2, '*': 3, '/': 3, '%': 3, '**': 4 };
+  const expression = (minimum: number): number | undefined => {
+    let left = primary();
+    while (peek() !== undefined && PRECEDENCE[peek()!] !== undefined && PRECEDENCE[peek()!] >= minimum) {
+      const operator = tokens[pos++].text;
+      const right = expression(PRECEDENCE[operator] + (operator === '**' ? 0 : 1));
+      if (left === undefined || right === undefined) return undefined;
+      switch (operator) {
+        case '<<': left = left << right; break;
+        case '>>': left = left >> right; break;
+        case '+': left = left + right; break;
+        case '-': left = left - right; break;
+        case '*': left = left * right; break;
+        case '/': left = right === 0 ? undefined : Math.trunc(left / right); break;
+        case '%': left = right === 0 ? undefined : left % right; break;
+        case '**': left = left ** right; break;
+      }
+    }
+    return left;
+  };
+
+  const value = expression(0);
+  return pos === tokens.length ? value : undefined;
+}
+
+/**
+ * Clocks and resets from edge-triggered sensitivity lists and input port names
+ */
+function inferClocksAndResets(unit: DesignUnit, edges: Array<{ signal: string; edge: 'posedge' | 'negedge' }>): void {
+  const clocks: string[] = [];
+  const resets = new Map<string, ResetInfo>();
+
+  for (const port of unit.ports) {
+    if (port.direction !== 'input') continue;
+    if (RESET_NAME.test(port.name)) {
+      resets.set(port.name, { name: port.name, activeLow: ACTIVE_LOW_RESET.test(port.name), asynchronous: false });
+    } else if (CLOCK_NAME.test(port.name) && !NOT_CLOCK_NAME.test(port.name)) {
+      clocks.push(port.name);
+    }
+  }
+
+  for (const { signal, edge } of edges) {
+    if (RESET_NAME.test(signal)) {
+      resets.set(signal, { name: signal, activeLow: edge === 'negedge', asynchronous: true });
+    } else if (!clocks.includes(signal)) {
+      clocks.push(signal);
+    }
+  }
+
+  unit.clocks = clocks;
+  unit.resets = [...resets.values()];
+}
@@ -4,16 +4,22 @@
  * This module provides RTL development functionality including:
  * - LSP integration (slang, verible, svls)
  * - Tool abstraction (lint, simulation, synthesis)
+ * - Source sets from filelists and FuseSoC cores
+ * - Design database (ports, parameters, instances)
  * - Verification helpers (UVM, cocotb, coverage)
  * - Workflow orchestration
  */
 
+import type { RTLProjectConfig } from './types.js';
+
 export * from './types.js';
 export * from './lsp/index.js';
 export * from './tools/index.js';
 export * from './verification/index.js';
 export * from './workflow/index.js';
 export * from './config/index.js';
+export * from './sources/index.js';
+export * from './design/index.js';
 
 /**
  * RTL Module Version
@@ -24,8 +30,10 @@ export const RTL_VERSION = '0.1.0';
  * Check if RTL environment is properly set up
  *
  * Returns detected tools for each category
+ *
+ * @param rtlConfig RTL project config (default: loaded from the current workspace)
  */
-export async function checkRTLEnvironment(): Promise<{
+export async function checkRTLEnvironment(rtlConfig?: RTLProjectConfig): Promise<{
   lsp: string[];
   lint: string[];
   simulation: string[];
@@ -35,21 +43,24 @@ export async function checkRTLEnvironment(): Promise<{
   const { createLintManager } = await import('./tools/lint/index.js');
   const { createSimulationManager } = await import('./tools/simulation/index.js');
   const { createSynthesisManager } = await import('./tools/synthesis/index.js');
+  const { loadRTLConfig } = await import('./config/index.js');
+
+  const config = rtlConfig ?? await loadRTLConfig();
 
   // Detect LSP
-  const lspType = await detectLSP();
+  const lspType = await detectLSP(config);
   const lsp = lspType === 'none' ? [] : [lspType];
 
   // Detect lint tools
-  const lintManager = await createLintManager();
+  const lintManager = await createLintManager(config);
   const lint = await lintManager.detectInstalledTools();
 
   // Detect simulation tools
-  const simManager = await createSimulationManager();
+  const simManager = await createSimulationManager(config);
   const simulation = await simManager.detectInstalledTools();
 
   // Detect synthesis tools
-  const synthManager = await createSynthesisManager();
+  const synthManager = await createSynthesisManager(config);
   const synthesis = await synthManager.detectInstalledTools();
 
   return {
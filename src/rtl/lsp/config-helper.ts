@@ -7,6 +7,8 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import type { RTLProjectConfig } from '../types.js';
+import { expandEnvironment, parseCoreYaml } from '../sources/index.js';
 
 export interface ProjectStructure {
   root: string;
@@ -14,6 +16,100 @@ export interface ProjectStructure {
   includeDirs: string[];
   testbenchDirs: string[];
   configFiles: string[];
+  /** Makefiles, CMake files, Bender.yml and shell scripts (root directory first) */
+  buildFiles: string[];
+}
+
+/**
+ * Include directory with every reason it was added
+ */
+export interface IncludePathEntry {
+  dir: string;
+  /** e.g. "rtl/top.sv:3: `include \"defs.svh\"", "Makefile:4: +incdir+" */
+  sources: string[];
+}
+
+/**
+ * Effective define value and the values it overrode
+ */
+export interface DefineEntry {
+  name: string;
+  value: string;
+  source: string;
+  overridden: Array<{ value: string; source: string }>;
+}
+
+/**
+ * Include paths and defines handed to the language servers, with origins
+ */
+export interface LSPConfigExplanation {
+  /** 'sources': from the configured filelist/core; 'detected': scanned from the project */
+  mode: 'sources' | 'detected';
+  includePaths: IncludePathEntry[];
+  defines: DefineEntry[];
+  /** Filelist/core problems that forced the fallback to detection */
+  issues: string[];
+}
+
+/** Directories skipped by the recursive scans (build, synthesis and simulator outputs) */
+export const DEFAULT_EXCLUDE_PATTERNS = [
+  '.*', 'node_modules', 'build', 'obj_dir', 'sim_build', 'synth', 'runs', 'reports', 'work', 'xsim.dir', 'csrc', 'simv.daidir',
+];
+
+/** Default depth of the recursive scans below the workspace root */
+const DEFAULT_MAX_DEPTH = 6;
+
+/**
+ * Build script variables and commands whose -D/-I flags go to an HDL tool;
+ * C/C++ flags (CFLAGS, verilator -CFLAGS, ...) are left out
+ */
+const HDL_FLAGS_VARIABLE = /(?:FLAGS|ARGS|OPTS|OPTIONS|DEFINES)$/i;
+const C_FLAGS_VARIABLE = /(?:^|_)(?:C|CXX|CPP|LD)FLAGS$|^CMAKE_/i;
+const HDL_TOOL_COMMAND = /(?:^|[\s/;&|(])(?:verilator|verilate|iverilog|vlog|vsim|vcs|xrun|irun|xvlog|xelab|slang|sv2v|surelog|yosys|verible-verilog-\w+)(?=[\s)]|$)/;
+const C_FLAGS_OPTION = /-(?:CFLAGS|LDFLAGS)\s+(?:"[^"]*"|'[^']*'|\S+)/g;
+
+const HEADER_EXTENSIONS = new Set(['.svh', '.vh']);
+const HDL_EXTENSIONS = new Set(['.v', '.sv', '.svh', '.vh']);
+
+function isBuildFile(name: string): boolean {
+  return ['Makefile', 'makefile', 'GNUmakefile', 'CMakeLists.txt', 'Bender.yml'].includes(name)
+    || /\.(mk|cmake|sh)$/.test(name);
+}
+
+function matchesPattern(name: string, relative: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+  return regex.test(name) || regex.test(relative);
+}
+
+/**
+ * Visit files below root, files of a directory before its subdirectories
+ */
+function walkProject(
+  root: string,
+  options: { maxDepth: number; excludePatterns: string[]; excludeDirs?: string[] },
+  visit: (file: string) => void
+): void {
+  const walk = (dir: string, depth: number) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isFile()) visit(path.join(dir, entry.name));
+    }
+    if (depth >= options.maxDepth) return;
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const full = path.join(dir, entry.name);
+      const relative = path.relative(root, full).split(path.sep).join('/');
+      if (options.excludePatterns.some(pattern => matchesPattern(entry.name, relative, pattern))) continue;
+      if (options.excludeDirs?.includes(full)) continue;
+      walk(full, depth + 1);
+    }
+  };
+  walk(root, 0);
 }
 
 /**
@@ -26,6 +122,7 @@ export async function scanProjectStructure(workspaceRoot: string): Promise<Proje
     includeDirs: [],
     testbenchDirs: [],
     configFiles: [],
+    buildFiles: [],
   };
 
   // Common RTL directory patterns
@@ -61,6 +158,11 @@ export async function scanProjectStructure(workspaceRoot: string): Promise<Proje
 
     // Scan for config files
     structure.configFiles = await findConfigFiles(workspaceRoot);
+
+    // Scan for build files at any depth
+    walkProject(workspaceRoot, { maxDepth: DEFAULT_MAX_DEPTH, excludePatterns: DEFAULT_EXCLUDE_PATTERNS }, file => {
+      if (isBuildFile(path.basename(file))) structure.buildFiles.push(file);
+    });
   } catch (error) {
     console.warn(`Failed to scan project structure: ${error}`);
   }
@@ -100,86 +202,312 @@ async function findConfigFiles(workspaceRoot: string): Promise<string[]> {
 }
 
 /**
- * Auto-detect include paths from project structure
+ * Defines and include dirs found in one build file
+ */
+interface BuildFileSettings {
+  defines: Array<{ name: string; value: string; source: string }>;
+  includeDirs: Array<{ dir: string; source: string }>;
+}
+
+function unquote(text: string): string {
+  return /^(["']).*\1$/.test(text) ? text.slice(1, -1) : text;
+}
+
+function splitDefine(text: string): [string, string] {
+  const eq = text.indexOf('=');
+  return eq === -1 ? [text, ''] : [text.slice(0, eq), unquote(text.slice(eq + 1))];
+}
+
+/**
+ * Join backslash continuations and drop `#` comments, keeping start lines
+ */
+function logicalLines(text: string): Array<{ text: string; line: number }> {
+  const lines: Array<{ text: string; line: number }> = [];
+  const raw = text.split(/\r?\n/);
+  for (let i = 0; i < raw.length; i++) {
+    const start = i + 1;
+    let line = raw[i];
+    while (line.endsWith('\\') && i + 1 < raw.length) {
+      line = line.slice(0, -1) + ' ' + raw[++i];
+    }
+    lines.push({ text: line.replace(/(^|\s)#.*$/, ''), line: start });
+  }
+  return lines;
+}
+
+/**
+ * Collect -D, -I, +define+ and +incdir+ flags from a Makefile, CMake file or shell script
  *
- * TODO: User Implementation Required
- * This function determines which directories should be included in the
- * LSP include path. The strategy affects compilation correctness.
+ * `NAME = value` (make) and `NAME=value` (shell) assignments are expanded
+ * in later lines; CMake add_compile_definitions/target_compile_definitions
+ * are read as well. -D and -I are only read from *FLAGS/*ARGS/*OPTS
+ * variables and HDL tool command lines.
+ */
+function parseBuildScript(file: string, text: string, label: string, expand: (text: string, vars: Record<string, string>) => string): BuildFileSettings {
+  const settings: BuildFileSettings = { defines: [], includeDirs: [] };
+  const vars: Record<string, string> = {};
+  const dir = path.dirname(file);
+
+  for (const { text: raw, line } of logicalLines(text)) {
+    const where = `${label}:${line}`;
+    const assignment = raw.match(/^\s*(?:export\s+)?([A-Za-z_]\w*)\s*(\+=|:{1,2}=|\?=|=)\s*(.*)$/);
+    if (assignment) {
+      const value = unquote(expand(assignment[3].trim(), vars));
+      vars[assignment[1]] = assignment[2] === '+=' && vars[assignment[1]] ? `${vars[assignment[1]]} ${value}` : value;
+    }
+    const cmakeSet = raw.match(/^\s*set\s*\(\s*(\w+)\s+([^)]*)\)/i);
+    if (cmakeSet) {
+      vars[cmakeSet[1]] = unquote(cmakeSet[2].trim());
+    }
+
+    const expanded = expand(raw, vars);
+    const variable = assignment?.[1] ?? cmakeSet?.[1];
+    const hdlFlags = variable !== undefined
+      ? HDL_FLAGS_VARIABLE.test(variable) && !C_FLAGS_VARIABLE.test(variable)
+      : HDL_TOOL_COMMAND.test(expanded);
+    if (hdlFlags) {
+      const flags = expanded.replace(C_FLAGS_OPTION, '');
+      for (const match of flags.matchAll(/(?:^|[\s"'(=])-D([A-Za-z_]\w*(?:=(?:"[^"]*"|'[^']*'|[^\s"')]*))?)/g)) {
+        const [name, value] = splitDefine(match[1]);
+        settings.defines.push({ name, value, source: `${where}: -D` });
+      }
+      for (const match of flags.matchAll(/(?:^|[\s"'(=])-I\s*([^\s"')-][^\s"')]*)/g)) {
+        settings.includeDirs.push({ dir: path.resolve(dir, match[1]), source: `${where}: -I` });
+      }
+    }
+    for (const match of expanded.matchAll(/\+define\+([^\s"')]+)/g)) {
+      for (const item of match[1].split('+').filter(Boolean)) {
+        const [name, value] = splitDefine(item);
+        settings.defines.push({ name, value, source: `${where}: +define+` });
+      }
+    }
+    for (const match of expanded.matchAll(/\+incdir\+([^\s"')]+)/g)) {
+      for (const includeDir of match[1].split('+').filter(Boolean)) {
+        settings.includeDirs.push({ dir: path.resolve(dir, includeDir), source: `${where}: +incdir+` });
+      }
+    }
+  }
+
+  for (const match of text.matchAll(/\b(add_compile_definitions|target_compile_definitions)\s*\(([^)]*)\)/gi)) {
+    const line = text.slice(0, match.index).split('\n').length;
+    const words = match[2].trim().split(/\s+/).filter(Boolean);
+    const items = match[1].toLowerCase() === 'target_compile_definitions' ? words.slice(1) : words;
+    for (const item of items.filter(word => !['PUBLIC', 'PRIVATE', 'INTERFACE'].includes(word))) {
+      const [name, value] = splitDefine(unquote(expand(item, vars)));
+      settings.defines.push({ name, value, source: `${label}:${line}: ${match[1]}` });
+    }
+  }
+
+  return settings;
+}
+
+/**
+ * Collect `defines` and `include_dirs` of the source groups in Bender.yml
+ */
+function parseBenderManifest(file: string, manifest: unknown, label: string): BuildFileSettings {
+  const settings: BuildFileSettings = { defines: [], includeDirs: [] };
+  const dir = path.dirname(file);
+  const isMap = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+  const addDirs = (value: unknown, key: string) => {
+    for (const includeDir of Array.isArray(value) ? value : []) {
+      settings.includeDirs.push({ dir: path.resolve(dir, String(includeDir)), source: `${label}: ${key}` });
+    }
+  };
+  const visit = (group: unknown) => {
+    if (Array.isArray(group)) {
+      group.forEach(visit);
+    } else if (isMap(group)) {
+      if (isMap(group.defines)) {
+        for (const [name, value] of Object.entries(group.defines)) {
+          settings.defines.push({ name, value: value === null || value === true ? '' : String(value), source: `${label}: defines` });
+        }
+      }
+      addDirs(group.include_dirs, 'include_dirs');
+      visit(group.files);
+    }
+  };
+
+  if (isMap(manifest)) {
+    addDirs(manifest.export_include_dirs, 'export_include_dirs');
+    visit(manifest.sources);
+  }
+  return settings;
+}
+
+function parseBuildFile(file: string, root: string): BuildFileSettings {
+  const label = path.relative(root, file) || path.basename(file);
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch {
+    return { defines: [], includeDirs: [] };
+  }
+
+  if (path.basename(file) === 'Bender.yml') {
+    try {
+      return parseBenderManifest(file, parseCoreYaml(text, file), label);
+    } catch (error) {
+      console.warn(`Failed to parse ${file}: ${error}`);
+      return { defines: [], includeDirs: [] };
+    }
+  }
+
+  // Unknown variables stay as written
+  return parseBuildScript(file, text, label, (value, vars) => expandEnvironment(value, vars, () => {}));
+}
+
+function addIncludePath(entries: IncludePathEntry[], dir: string, source: string): void {
+  const existing = entries.find(entry => entry.dir === dir);
+  if (!existing) {
+    entries.push({ dir, sources: [source] });
+  } else if (!existing.sources.includes(source)) {
+    existing.sources.push(source);
+  }
+}
+
+function addDefine(entries: DefineEntry[], name: string, value: string, source: string): void {
+  const existing = entries.find(entry => entry.name === name);
+  if (!existing) {
+    entries.push({ name, value, source, overridden: [] });
+  } else if (existing.value !== value) {
+    existing.overridden.push({ value: existing.value, source: existing.source });
+    existing.value = value;
+    existing.source = source;
+  }
+}
+
+/**
+ * Include directories found by detectIncludePaths()
+ */
+export interface IncludeDetection {
+  includePaths: IncludePathEntry[];
+  /** `include directives whose file is not under the workspace */
+  unresolved: string[];
+}
+
+/**
+ * Detect include paths with the reason for each directory
  *
- * Current strategy:
- * 1. Add all discovered include directories
- * 2. Add RTL source directories
- * 3. Optionally add testbench directories (configurable)
+ * In order:
+ * 1. top-level include directories (include/, inc/, ...)
+ * 2. +incdir+/-I flags and Bender include_dirs in build files
+ * 3. directories holding .svh/.vh headers, at any depth
+ * 4. directories that make `include "a/b.svh" resolve, for includes not
+ *    next to the including file
+ * 5. top-level RTL directories, then testbench directories when requested
  *
- * Questions to consider:
- * - Should testbench directories be included? (They may reference RTL but not vice versa)
- * - Should we recursively scan subdirectories?
- * - How deep should we scan? (1 level? 2 levels? All levels?)
- * - Should we exclude certain directories (e.g., build/, synthesis/)?
+ * Directories matching `excludePatterns` (name or workspace-relative path,
+ * `*` wildcards) are not scanned; testbench directories are skipped unless
+ * `includeTestbench` is set.
  */
-export function autoDetectIncludePaths(structure: ProjectStructure, options?: {
+export function detectIncludePaths(structure: ProjectStructure, options?: {
   includeTestbench?: boolean;
   maxDepth?: number;
   excludePatterns?: string[];
-}): string[] {
-  const includePaths: string[] = [];
+}): IncludeDetection {
+  const root = structure.root;
+  const relative = (file: string) => path.relative(root, file) || '.';
+  const includePaths: IncludePathEntry[] = [];
+  const unresolved: string[] = [];
 
-  // Add include directories (highest priority)
-  includePaths.push(...structure.includeDirs);
+  for (const dir of structure.includeDirs) {
+    addIncludePath(includePaths, dir, `${relative(dir)}: include directory`);
+  }
 
-  // Add RTL directories
-  includePaths.push(...structure.rtlDirs);
+  for (const buildFile of structure.buildFiles) {
+    for (const { dir, source } of parseBuildFile(buildFile, root).includeDirs) {
+      addIncludePath(includePaths, dir, source);
+    }
+  }
 
-  // TODO: User decision - should testbench directories be included?
-  // Testbenches often reference RTL modules, but RTL should NOT reference testbenches.
-  // Including testbench dirs may help with testbench development but may also
-  // cause false positives if RTL accidentally references testbench code.
-  if (options?.includeTestbench) {
-    includePaths.push(...structure.testbenchDirs);
+  const headers: string[] = [];
+  const hdlFiles: string[] = [];
+  walkProject(root, {
+    maxDepth: options?.maxDepth ?? DEFAULT_MAX_DEPTH,
+    excludePatterns: options?.excludePatterns ?? DEFAULT_EXCLUDE_PATTERNS,
+    excludeDirs: options?.includeTestbench ? [] : structure.testbenchDirs,
+  }, file => {
+    const ext = path.extname(file).toLowerCase();
+    if (HEADER_EXTENSIONS.has(ext)) headers.push(file);
+    if (HDL_EXTENSIONS.has(ext)) hdlFiles.push(file);
+  });
+
+  for (const header of headers) {
+    addIncludePath(includePaths, path.dirname(header), `${relative(header)}: header file`);
   }
 
-  // TODO: User implementation - recursive directory scanning
-  // Should we scan subdirectories of discovered directories?
-  // This could find nested include directories but may be slow for large projects.
+  for (const file of hdlFiles) {
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch {
+      continue;
+    }
+    for (const match of text.matchAll(/`include\s+["<]([^">]+)[">]/g)) {
+      const target = match[1];
+      const where = `${relative(file)}:${text.slice(0, match.index).split('\n').length}`;
+      if (path.isAbsolute(target) || fs.existsSync(path.resolve(path.dirname(file), target))) continue;
 
-  return [...new Set(includePaths)]; // Remove duplicates
+      const suffix = path.sep + path.normalize(target);
+      const found = hdlFiles.find(candidate => candidate.endsWith(suffix));
+      if (found) {
+        addIncludePath(includePaths, found.slice(0, -suffix.length), `${where}: \`include "${target}"`);
+      } else if (!/^uvm_|^svunit/.test(target)) {
+        unresolved.push(`${where}: \`include "${target}" not found in the workspace`);
+      }
+    }
+  }
+
+  for (const dir of structure.rtlDirs) {
+    addIncludePath(includePaths, dir, `${relative(dir)}: RTL directory`);
+  }
+  if (options?.includeTestbench) {
+    for (const dir of structure.testbenchDirs) {
+      addIncludePath(includePaths, dir, `${relative(dir)}: testbench directory`);
+    }
+  }
+
+  return { includePaths, unresolved };
 }
 
 /**
- * Auto-detect defines from Makefile or build scripts
- *
- * TODO: User Implementation Required
- * This function should parse Makefile, build scripts, or configuration files
- * to extract preprocessor defines.
+ * Auto-detect include paths from project structure
  *
- * Common sources:
- * - Makefile: DEFINES += -DFOO=1 -DBAR=2
- * - CMakeLists.txt: add_definitions(-DFOO=1)
- * - JSON config: { "defines": { "FOO": "1" } }
+ * Testbench directories are left out by default: RTL should not include
+ * testbench code, and their headers would hide such mistakes.
+ */
+export function autoDetectIncludePaths(structure: ProjectStructure, options?: {
+  includeTestbench?: boolean;
+  maxDepth?: number;
+  excludePatterns?: string[];
+}): string[] {
+  const { includePaths } = detectIncludePaths(structure, options);
+  return includePaths.map(entry => entry.dir);
+}
+
+/**
+ * Detect defines with their origin
  *
- * Implementation strategy:
- * 1. Read Makefile and extract -D flags
- * 2. Read .rtl-config.json if exists
- * 3. Provide sensible defaults (e.g., SIMULATION=1 for testbenches)
+ * Build files are read in scan order (workspace root first), then the
+ * `defines` of JSON config files; a later different value overrides an
+ * earlier one and the earlier value is kept in `overridden`.
  */
-export async function autoDetectDefines(structure: ProjectStructure): Promise<Record<string, string>> {
-  const defines: Record<string, string> = {};
+export function detectDefines(structure: ProjectStructure): DefineEntry[] {
+  const defines: DefineEntry[] = [];
 
-  // TODO: User implementation - parse Makefile
-  // Example:
-  // const makefile = fs.readFileSync(path.join(structure.root, 'Makefile'), 'utf8');
-  // const matches = makefile.matchAll(/-D(\w+)(?:=(\S+))?/g);
-  // for (const match of matches) {
-  //   defines[match[1]] = match[2] || '1';
-  // }
+  for (const buildFile of structure.buildFiles) {
+    for (const { name, value, source } of parseBuildFile(buildFile, structure.root).defines) {
+      addDefine(defines, name, value, source);
+    }
+  }
 
-  // TODO: User implementation - read config files
   for (const configFile of structure.configFiles) {
     if (configFile.endsWith('.json')) {
       try {
         const config = JSON.parse(fs.readFileSync(configFile, 'utf8'));
-        if (config.defines) {
-          Object.assign(defines, config.defines);
+        for (const [name, value] of Object.entries(config.defines ?? {})) {
+          addDefine(defines, name, String(value), `${path.relative(structure.root, configFile)}: defines`);
         }
       } catch (error) {
         console.warn(`Failed to parse config file ${configFile}: ${error}`);
@@ -191,31 +519,64 @@ export async function autoDetectDefines(structure: ProjectStructure): Promise<Re
 }
 
 /**
- * Load or create default RTL configuration
+ * Auto-detect defines from Makefiles, CMake, Bender.yml, shell scripts and config files
  */
-export async function loadRTLConfig(workspaceRoot: string): Promise<any> {
-  const configPath = path.join(workspaceRoot, '.rtl-config.json');
+export async function autoDetectDefines(structure: ProjectStructure): Promise<Record<string, string>> {
+  const defines = detectDefines(structure);
+  return Object.fromEntries(defines.map(entry => [entry.name, entry.value]));
+}
 
-  if (fs.existsSync(configPath)) {
+/**
+ * Include paths and defines the language servers get, with their origins
+ *
+ * A configured filelist or core (`sources.lsp` or `sources.default`) is
+ * used as is, together with the top-level includePaths/defines. Without
+ * one, or when it fails to load, the project is scanned instead; the
+ * configured includePaths come first and configured defines win.
+ */
+export async function explainLSPConfig(workspaceRoot: string, rtlConfig?: RTLProjectConfig): Promise<LSPConfigExplanation> {
+  const { loadRTLConfig } = await import('../config/index.js');
+  const root = path.resolve(workspaceRoot);
+  const config = rtlConfig ?? await loadRTLConfig(root);
+  const configured = (config.includePaths ?? []).map(dir => path.resolve(root, dir));
+  const includePaths: IncludePathEntry[] = [];
+  const defines: DefineEntry[] = [];
+  const issues: string[] = [];
+
+  if (config.sources) {
+    const { resolveSourceSet, SourceSetError } = await import('../sources/index.js');
     try {
-      return JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      // Resolve without the top-level settings to tell the two apart
+      const loaded = await resolveSourceSet({ ...config, includePaths: [], defines: {} }, root, 'lsp');
+      const origin = `sources: ${loaded.origins.map(file => path.relative(root, file)).join(', ')}`;
+
+      loaded.includeDirs.forEach(dir => addIncludePath(includePaths, dir, origin));
+      configured.forEach(dir => addIncludePath(includePaths, dir, '.rtl-config.json: includePaths'));
+      Object.entries(config.defines ?? {}).forEach(([name, value]) => addDefine(defines, name, value, '.rtl-config.json: defines'));
+      Object.entries(loaded.defines).forEach(([name, value]) => addDefine(defines, name, value, origin));
+
+      return { mode: 'sources', includePaths, defines, issues };
     } catch (error) {
-      console.warn(`Failed to load .rtl-config.json: ${error}`);
-    }
-  }
-
-  // Return default configuration
-  return {
-    language: 'systemverilog',
-    tools: {
-      lsp: {
-        preferred: 'slang',
-        fallback: ['verible', 'svls'],
-      },
-      lint: {
-        preferred: 'verilator',
-        rules: 'strict',
-      },
-    },
-  };
+      if (!(error instanceof SourceSetError)) throw error;
+      issues.push(...error.issues);
+    }
+  }
+
+  const structure = await scanProjectStructure(root);
+  const detected = detectIncludePaths(structure, {
+    includeTestbench: false,
+    excludePatterns: [...DEFAULT_EXCLUDE_PATTERNS, config.paths.synthesis, config.paths.reports],
+  });
+
+  configured.forEach(dir => addIncludePath(includePaths, dir, '.rtl-config.json: includePaths'));
+  for (const entry of detected.includePaths) {
+    entry.sources.forEach(source => addIncludePath(includePaths, entry.dir, source));
+  }
+  for (const entry of detectDefines(structure)) {
+    addDefine(defines, entry.name, entry.value, entry.source);
+  }
+  Object.entries(config.defines ?? {}).forEach(([name, value]) => addDefine(defines, name, value, '.rtl-config.json: defines'));
+  issues.push(...detected.unresolved);
+
+  return { mode: 'detected', includePaths, defines, issues };
 }
@@ -6,10 +6,16 @@
  * - verible (Fallback)
  * - svls (Fallback)
  *
- * Auto-detects installed LSP and provides graceful degradation.
+ * Auto-detects installed LSP and provides graceful degradation. Clients
+ * run their language server as a long-lived stdio session once started;
+ * getLSPSession() keeps one started client per workspace.
  */
 
-import type { ToolConfig, ToolResult } from '../types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RTLProjectConfig } from '../types.js';
+import type { LspClient } from '../../tools/lsp/index.js';
+import { loadRTLConfig, RTL_CONFIG_FILENAMES } from '../config/index.js';
 
 // Note: config-helper exports are not re-exported here to avoid conflicts
 // Import them directly from './lsp/config-helper.js' if needed
@@ -21,15 +27,30 @@ export type LSPType = 'slang' | 'verible' | 'svls' | 'none';
 
 /**
  * LSP client interface
+ *
+ * Lines and columns are 1-based.
  */
 export interface LSPClient {
   readonly type: LSPType;
+  /** JSON-RPC client of the running language server (null in CLI mode) */
+  readonly languageClient?: LspClient | null;
   start(): Promise<void>;
   stop(): Promise<void>;
   isInstalled(): Promise<boolean>;
   getDiagnostics(filePath: string): Promise<Diagnostic[]>;
   getDocumentSymbols?(filePath: string): Promise<SymbolInformation[]>;
   getHover?(filePath: string, line: number, column: number): Promise<Hover | null>;
+  getDefinition?(filePath: string, line: number, column: number): Promise<SourceLocation[]>;
+  getReferences?(filePath: string, line: number, column: number): Promise<SourceLocation[]>;
+}
+
+/**
+ * Position in a source file
+ */
+export interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
 }
 
 /**
@@ -50,11 +71,8 @@ export interface Diagnostic {
 export interface SymbolInformation {
   name: string;
   kind: string;
-  location: {
-    file: string;
-    line: number;
-    column: number;
-  };
+  location: SourceLocation;
+  container?: string;  // Enclosing symbol (e.g. module of a port)
 }
 
 /**
@@ -68,44 +86,50 @@ export interface Hover {
   };
 }
 
+/**
+ * LSP servers in the order they are tried
+ *
+ * tools.lsp.preferred, then tools.lsp.fallback (from .rtl-config.json),
+ * then the defaults slang > verible > svls
+ */
+export function getLSPOrder(config?: RTLProjectConfig): Array<Exclude<LSPType, 'none'>> {
+  const order = [
+    config?.tools.lsp?.preferred,
+    ...(config?.tools.lsp?.fallback ?? []),
+    'slang',
+    'verible',
+    'svls',
+  ];
+
+  return [...new Set(order)].filter(
+    (name): name is Exclude<LSPType, 'none'> => name === 'slang' || name === 'verible' || name === 'svls'
+  );
+}
+
 /**
  * Detect installed LSP
  *
- * Priority: slang > verible > svls > none
+ * Tries the servers in getLSPOrder() order, falling back to none
  */
-export async function detectLSP(): Promise<LSPType> {
-  const { createSlangLSP } = await import('./slang.js');
-  const { createVeribleLSP } = await import('./verible.js');
-  const { createSvlsLSP } = await import('./svls.js');
-
-  // Try slang first (primary)
-  try {
-    const slang = await createSlangLSP(process.cwd());
-    if (await slang.isInstalled()) {
-      return 'slang';
-    }
-  } catch {
-    // Continue to next option
-  }
+export async function detectLSP(config?: RTLProjectConfig, workspaceRoot?: string): Promise<LSPType> {
+  const rtlConfig = config ?? await loadRTLConfig();
+  const root = workspaceRoot || process.cwd();
 
-  // Try verible (fallback 1)
-  try {
-    const verible = await createVeribleLSP(process.cwd());
-    if (await verible.isInstalled()) {
-      return 'verible';
-    }
-  } catch {
-    // Continue to next option
-  }
+  const factories: Record<Exclude<LSPType, 'none'>, () => Promise<LSPClient>> = {
+    slang: async () => (await import('./slang.js')).createSlangLSP(root),
+    verible: async () => (await import('./verible.js')).createVeribleLSP(root),
+    svls: async () => (await import('./svls.js')).createSvlsLSP(root),
+  };
 
-  // Try svls (fallback 2)
-  try {
-    const svls = await createSvlsLSP(process.cwd());
-    if (await svls.isInstalled()) {
-      return 'svls';
+  for (const name of getLSPOrder(rtlConfig)) {
+    try {
+      const client = await factories[name]();
+      if (await client.isInstalled()) {
+        return name;
+      }
+    } catch {
+      // Continue to next option
     }
-  } catch {
-    // Fall through to none
   }
 
   return 'none';
@@ -116,7 +140,7 @@ export async function detectLSP(): Promise<LSPType> {
  */
 export async function createLSPClient(workspaceRoot?: string, type?: LSPType): Promise<LSPClient> {
   const root = workspaceRoot || process.cwd();
-  const lspType = type || await detectLSP();
+  const lspType = type || await detectLSP(await loadRTLConfig(root), root);
 
   switch (lspType) {
     case 'slang': {
@@ -136,6 +160,79 @@ export async function createLSPClient(workspaceRoot?: string, type?: LSPType): P
   }
 }
 
+const sessions = new Map<string, Promise<LSPClient>>();
+
+/**
+ * Started LSP client for a workspace, shared by all callers
+ *
+ * The client is created and started on first use; a server that exited
+ * is restarted on the next call.
+ */
+export async function getLSPSession(workspaceRoot: string): Promise<LSPClient> {
+  const root = path.resolve(workspaceRoot);
+
+  let session = sessions.get(root);
+  if (!session) {
+    session = createLSPClient(root).then(async client => {
+      await client.start();
+      return client;
+    });
+    sessions.set(root, session);
+    session.catch(() => sessions.delete(root));
+  }
+
+  const client = await session;
+  if (client.languageClient === null) {
+    await client.start();
+  }
+  return client;
+}
+
+/**
+ * Stop all workspace sessions
+ */
+export async function stopLSPSessions(): Promise<void> {
+  const pending = [...sessions.values()];
+  sessions.clear();
+
+  for (const session of pending) {
+    try {
+      await (await session).stop();
+    } catch {
+      // Ignore errors during shutdown
+    }
+  }
+}
+
+/**
+ * Find the RTL workspace of a file (nearest .rtl-config.json, then .git)
+ */
+export function findRTLWorkspaceRoot(filePath: string): string {
+  const start = path.dirname(path.resolve(filePath));
+
+  for (const markers of [RTL_CONFIG_FILENAMES, ['.git']]) {
+    for (let dir = start; ; dir = path.dirname(dir)) {
+      if (markers.some(marker => fs.existsSync(path.join(dir, marker)))) {
+        return dir;
+      }
+      if (path.dirname(dir) === dir) break;
+    }
+  }
+
+  return start;
+}
+
+/**
+ * JSON-RPC client of the workspace language server for an RTL file
+ *
+ * Used by the generic lsp_* tools for .v/.sv/.svh files. Returns null when
+ * no RTL language server is installed.
+ */
+export async function getRTLLanguageClient(filePath: string): Promise<LspClient | null> {
+  const session = await getLSPSession(findRTLWorkspaceRoot(filePath));
+  return session.languageClient ?? null;
+}
+
 /**
  * No-op LSP client (graceful degradation)
  */
@@ -0,0 +1,202 @@
+/**
+ * RTL Language Server Session
+ *
+ * Runs an HDL language server (slang-server, verible-verilog-ls, svls)
+ * over stdio with the generic JSON-RPC client from src/tools/lsp and
+ * converts its results to the RTL LSP types (1-based lines and columns).
+ */
+
+import { LspClient, commandExists, symbolKindName, uriToPath } from '../../tools/lsp/index.js';
+import type {
+  LspServerConfig,
+  Diagnostic as LspDiagnostic,
+  DocumentSymbol as LspDocumentSymbol,
+  SymbolInformation as LspSymbolInformation,
+  Hover as LspHover,
+  Location as LspLocation,
+} from '../../tools/lsp/index.js';
+import type { Diagnostic, SymbolInformation, Hover, SourceLocation } from './index.js';
+
+/** How long to wait for publishDiagnostics after opening a file */
+export const DIAGNOSTICS_TIMEOUT_MS = 3000;
+
+const SEVERITIES: Record<number, Diagnostic['severity']> = {
+  1: 'error',
+  2: 'warning',
+  3: 'info',
+  4: 'hint',
+};
+
+/**
+ * LocationLink, returned by servers honoring the client's definition linkSupport
+ */
+interface LspLocationLink {
+  targetUri: string;
+  targetSelectionRange: LspLocation['range'];
+}
+
+function toLocation(location: LspLocation | LspLocationLink): SourceLocation {
+  if ('targetUri' in location) {
+    return toLocation({ uri: location.targetUri, range: location.targetSelectionRange });
+  }
+  return {
+    file: uriToPath(location.uri),
+    line: location.range.start.line + 1,
+    column: location.range.start.character + 1,
+  };
+}
+
+function flattenSymbols(
+  symbols: LspDocumentSymbol[],
+  file: string,
+  container?: string
+): SymbolInformation[] {
+  return symbols.flatMap(symbol => [
+    {
+      name: symbol.name,
+      kind: symbolKindName(symbol.kind),
+      location: {
+        file,
+        line: symbol.selectionRange.start.line + 1,
+        column: symbol.selectionRange.start.character + 1,
+      },
+      ...(container ? { container } : {}),
+    },
+    ...flattenSymbols(symbol.children ?? [], file, symbol.name),
+  ]);
+}
+
+function hoverText(contents: LspHover['contents']): string {
+  const parts = Array.isArray(contents) ? contents : [contents];
+  return parts.map(part => (typeof part === 'string' ? part : part.value)).join('\n\n');
+}
+
+/**
+ * Long-lived stdio session with one HDL language server
+ */
+export class RTLLanguageServer {
+  private lspClient: LspClient | null = null;
+
+  constructor(private workspaceRoot: string, readonly config: LspServerConfig) {}
+
+  /**
+   * Running JSON-RPC client, or null when the server is not running
+   */
+  get client(): LspClient | null {
+    return this.lspClient?.connected ? this.lspClient : null;
+  }
+
+  isInstalled(): boolean {
+    return commandExists(this.config.command);
+  }
+
+  /**
+   * Start the server (restarting it if it exited)
+   *
+   * @returns false when the server executable is not installed
+   */
+  async start(): Promise<boolean> {
+    if (this.client) {
+      return true;
+    }
+    if (!this.isInstalled()) {
+      return false;
+    }
+
+    const client = new LspClient(this.workspaceRoot, this.config);
+    await client.connect();
+    this.lspClient = client;
+    return true;
+  }
+
+  async stop(): Promise<void> {
+    await this.lspClient?.disconnect();
+    this.lspClient = null;
+  }
+
+  private requireClient(): LspClient {
+    if (!this.client) {
+      throw new Error(`${this.config.name} is not running`);
+    }
+    return this.client;
+  }
+
+  /**
+   * Diagnostics for the current file contents
+   *
+   * The document is reopened so the server re-analyzes edits made on disk.
+   */
+  async diagnostics(filePath: string, timeout = DIAGNOSTICS_TIMEOUT_MS): Promise<Diagnostic[]> {
+    const client = this.requireClient();
+
+    client.closeDocument(filePath);
+    const published = client.waitForDiagnostics(filePath, timeout);
+    await client.openDocument(filePath);
+
+    return (await published).map((diagnostic: LspDiagnostic) => ({
+      file: filePath,
+      line: diagnostic.range.start.line + 1,
+      column: diagnostic.range.start.character + 1,
+      severity: SEVERITIES[diagnostic.severity ?? 1] ?? 'hint',
+      message: diagnostic.message,
+      ...(diagnostic.code !== undefined ? { code: String(diagnostic.code) } : {}),
+    }));
+  }
+
+  /**
+   * Document symbols, flattened with their enclosing symbol as `container`
+   */
+  async documentSymbols(filePath: string): Promise<SymbolInformation[]> {
+    const symbols = await this.requireClient().documentSymbols(filePath);
+    if (!symbols || symbols.length === 0) {
+      return [];
+    }
+
+    if ('location' in symbols[0]) {
+      return (symbols as LspSymbolInformation[]).map(symbol => ({
+        name: symbol.name,
+        kind: symbolKindName(symbol.kind),
+        location: toLocation(symbol.location),
+        ...(symbol.containerName ? { container: symbol.containerName } : {}),
+      }));
+    }
+
+    return flattenSymbols(symbols as LspDocumentSymbol[], filePath);
+  }
+
+  async hover(filePath: string, line: number, column: number): Promise<Hover | null> {
+    const hover = await this.requireClient().hover(filePath, line - 1, column - 1);
+    if (!hover) {
+      return null;
+    }
+
+    const text = hoverText(hover.contents);
+    if (!text) {
+      return null;
+    }
+
+    return {
+      contents: text,
+      ...(hover.range ? {
+        range: {
+          start: { line: hover.range.start.line + 1, column: hover.range.start.character + 1 },
+          end: { line: hover.range.end.line + 1, column: hover.range.end.character + 1 },
+        },
+      } : {}),
+    };
+  }
+
+  async definition(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    const locations = await this.requireClient().definition(filePath, line - 1, column - 1);
+    if (!locations) {
+      return [];
+    }
+    const list = (Array.isArray(locations) ? locations : [locations]) as Array<LspLocation | LspLocationLink>;
+    return list.map(toLocation);
+  }
+
+  async references(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    const locations = await this.requireClient().references(filePath, line - 1, column - 1);
+    return (locations ?? []).map(toLocation);
+  }
+}
@@ -3,17 +3,19 @@
  *
  * slang is a modern SystemVerilog compiler and language server
  * https://github.com/MikePopoloski/slang
+ * https://github.com/hudson-trading/slang-server
  *
  * Features:
  * - Full IEEE 1800-2017 SystemVerilog support
  * - Fast syntax and semantic analysis
- * - LSP server mode and CLI mode
+ * - LSP server mode (slang-server) and CLI mode (slang --lint)
  */
 
-import { spawn } from 'child_process';
 import { promisify } from 'util';
 import { exec } from 'child_process';
-import type { LSPClient, Diagnostic, SymbolInformation, Hover } from './index.js';
+import type { LSPClient, Diagnostic, SymbolInformation, Hover, SourceLocation } from './index.js';
+import type { LspClient } from '../../tools/lsp/index.js';
+import { RTLLanguageServer } from './server.js';
 
 const execAsync = promisify(exec);
 
@@ -28,33 +30,45 @@ export interface SlangConfig {
 /**
  * slang LSP Client
  *
- * Currently implements CLI mode for diagnostics.
- * TODO: Implement full LSP protocol for symbols, hover, etc.
+ * start() runs slang-server for diagnostics, symbols, hover, definition
+ * and references. Without slang-server, diagnostics fall back to the
+ * slang CLI and the other queries return nothing.
  */
 export class SlangLSP implements LSPClient {
   readonly type = 'slang' as const;
   private config: SlangConfig;
-  private started = false;
+  private server: RTLLanguageServer;
 
   constructor(config: SlangConfig) {
     this.config = {
       standard: '2017',  // Default to SystemVerilog 2017
       ...config,
     };
+    this.server = new RTLLanguageServer(this.config.workspaceRoot, {
+      name: 'slang-server',
+      command: 'slang-server',
+      args: [],
+      extensions: ['.sv', '.svh', '.v', '.vh'],
+      installHint: 'Build from https://github.com/hudson-trading/slang-server',
+    });
+  }
+
+  get languageClient(): LspClient | null {
+    return this.server.client;
   }
 
   async start(): Promise<void> {
-    // TODO: Start LSP server process
-    // For now, we use CLI mode on-demand
-    this.started = true;
+    await this.server.start();
   }
 
   async stop(): Promise<void> {
-    // TODO: Stop LSP server process
-    this.started = false;
+    await this.server.stop();
   }
 
   async isInstalled(): Promise<boolean> {
+    if (this.server.isInstalled()) {
+      return true;
+    }
     try {
       const { stdout } = await execAsync('slang --version');
       return stdout.includes('slang');
@@ -66,9 +80,13 @@ export class SlangLSP implements LSPClient {
   /**
    * Get diagnostics for a file
    *
-   * Uses slang CLI: slang --lint <file>
+   * Uses slang-server when running, otherwise the slang CLI: slang --lint <file>
    */
   async getDiagnostics(filePath: string): Promise<Diagnostic[]> {
+    if (this.server.client) {
+      return this.server.diagnostics(filePath);
+    }
+
     const args = this.buildArgs(filePath);
 
     try {
@@ -82,20 +100,30 @@ export class SlangLSP implements LSPClient {
 
   /**
    * Get document symbols (requires LSP mode)
-   * TODO: Implement with full LSP client
    */
   async getDocumentSymbols(filePath: string): Promise<SymbolInformation[]> {
-    console.warn('slang getDocumentSymbols not implemented yet (requires LSP mode)');
-    return [];
+    return this.server.client ? this.server.documentSymbols(filePath) : [];
   }
 
   /**
    * Get hover information (requires LSP mode)
-   * TODO: Implement with full LSP client
    */
   async getHover(filePath: string, line: number, column: number): Promise<Hover | null> {
-    console.warn('slang getHover not implemented yet (requires LSP mode)');
-    return null;
+    return this.server.client ? this.server.hover(filePath, line, column) : null;
+  }
+
+  /**
+   * Go to definition (requires LSP mode)
+   */
+  async getDefinition(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    return this.server.client ? this.server.definition(filePath, line, column) : [];
+  }
+
+  /**
+   * Find references (requires LSP mode)
+   */
+  async getReferences(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    return this.server.client ? this.server.references(filePath, line, column) : [];
   }
 
   /**
@@ -185,33 +213,22 @@ export class SlangLSP implements LSPClient {
 
 /**
  * Create slang LSP client with auto-detected configuration
+ *
+ * Include paths and defines come from explainLSPConfig(): the configured
+ * filelist/core, else the scanned project.
  */
 export async function createSlangLSP(workspaceRoot: string): Promise<SlangLSP> {
-  const {
-    scanProjectStructure,
-    autoDetectIncludePaths,
-    autoDetectDefines,
-    loadRTLConfig,
-  } = await import('./config-helper.js');
-
-  // Scan project structure
-  const structure = await scanProjectStructure(workspaceRoot);
-
-  // Auto-detect include paths
-  const includePaths = autoDetectIncludePaths(structure, {
-    includeTestbench: false,  // Don't include testbench by default
-  });
-
-  // Auto-detect defines
-  const defines = await autoDetectDefines(structure);
+  const { explainLSPConfig } = await import('./config-helper.js');
+  const { loadRTLConfig } = await import('../config/index.js');
 
   // Load RTL config (if exists)
   const rtlConfig = await loadRTLConfig(workspaceRoot);
+  const { includePaths, defines } = await explainLSPConfig(workspaceRoot, rtlConfig);
 
   const config: SlangConfig = {
     workspaceRoot,
-    includePaths,
-    defines,
+    includePaths: includePaths.map(entry => entry.dir),
+    defines: Object.fromEntries(defines.map(entry => [entry.name, entry.value])),
     standard: rtlConfig.standard || '2017',
   };
 
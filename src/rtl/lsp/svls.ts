@@ -13,7 +13,9 @@
 
 import { promisify } from 'util';
 import { exec } from 'child_process';
-import type { LSPClient, Diagnostic, SymbolInformation, Hover } from './index.js';
+import type { LSPClient, Diagnostic, SymbolInformation, Hover, SourceLocation } from './index.js';
+import type { LspClient } from '../../tools/lsp/index.js';
+import { RTLLanguageServer } from './server.js';
 
 const execAsync = promisify(exec);
 
@@ -25,26 +27,35 @@ export interface SvlsConfig {
 /**
  * svls LSP Client
  *
- * svls primarily works in LSP mode.
- * For CLI diagnostics, use slang or verible.
+ * svls only works in LSP mode: every query returns nothing until start()
+ * has launched the server. For CLI diagnostics, use slang or verible.
  */
 export class SvlsLSP implements LSPClient {
   readonly type = 'svls' as const;
   private config: SvlsConfig;
-  private started = false;
+  private server: RTLLanguageServer;
 
   constructor(config: SvlsConfig) {
     this.config = config;
+    this.server = new RTLLanguageServer(this.config.workspaceRoot, {
+      name: 'svls',
+      command: 'svls',
+      args: [],
+      extensions: ['.sv', '.svh', '.v', '.vh'],
+      installHint: 'cargo install svls',
+    });
+  }
+
+  get languageClient(): LspClient | null {
+    return this.server.client;
   }
 
   async start(): Promise<void> {
-    // TODO: Start svls process via LSP protocol
-    this.started = true;
+    await this.server.start();
   }
 
   async stop(): Promise<void> {
-    // TODO: Stop svls process
-    this.started = false;
+    await this.server.stop();
   }
 
   async isInstalled(): Promise<boolean> {
@@ -63,38 +74,51 @@ export class SvlsLSP implements LSPClient {
    * must come from the LSP server.
    */
   async getDiagnostics(filePath: string): Promise<Diagnostic[]> {
-    console.warn('svls getDiagnostics requires LSP mode (not implemented yet)');
-    return [];
+    return this.server.client ? this.server.diagnostics(filePath) : [];
   }
 
   /**
    * Get document symbols (requires LSP mode)
    */
   async getDocumentSymbols(filePath: string): Promise<SymbolInformation[]> {
-    console.warn('svls getDocumentSymbols not implemented yet (requires LSP mode)');
-    return [];
+    return this.server.client ? this.server.documentSymbols(filePath) : [];
   }
 
   /**
    * Get hover information (requires LSP mode)
    */
   async getHover(filePath: string, line: number, column: number): Promise<Hover | null> {
-    console.warn('svls getHover not implemented yet (requires LSP mode)');
-    return null;
+    return this.server.client ? this.server.hover(filePath, line, column) : null;
+  }
+
+  /**
+   * Go to definition (requires LSP mode)
+   */
+  async getDefinition(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    return this.server.client ? this.server.definition(filePath, line, column) : [];
+  }
+
+  /**
+   * Find references (requires LSP mode)
+   */
+  async getReferences(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    return this.server.client ? this.server.references(filePath, line, column) : [];
   }
 }
 
 /**
  * Create svls LSP client
+ *
+ * Include paths come from explainLSPConfig(): the configured filelist/core,
+ * else the scanned project.
  */
 export async function createSvlsLSP(workspaceRoot: string): Promise<SvlsLSP> {
+  const { explainLSPConfig } = await import('./config-helper.js');
+  const { includePaths } = await explainLSPConfig(workspaceRoot);
+
   const config: SvlsConfig = {
     workspaceRoot,
-    includePaths: [
-      `${workspaceRoot}/src`,
-      `${workspaceRoot}/include`,
-      `${workspaceRoot}/rtl`,
-    ],
+    includePaths: includePaths.map(entry => entry.dir),
   };
 
   return new SvlsLSP(config);
@@ -12,7 +12,9 @@
 
 import { promisify } from 'util';
 import { exec } from 'child_process';
-import type { LSPClient, Diagnostic, SymbolInformation, Hover } from './index.js';
+import type { LSPClient, Diagnostic, SymbolInformation, Hover, SourceLocation } from './index.js';
+import type { LspClient } from '../../tools/lsp/index.js';
+import { RTLLanguageServer } from './server.js';
 
 const execAsync = promisify(exec);
 
@@ -25,32 +27,45 @@ export interface VeribleConfig {
 /**
  * Verible LSP Client
  *
- * Currently implements CLI mode for linting.
- * TODO: Implement full LSP protocol using verible-verilog-ls
+ * start() runs verible-verilog-ls for diagnostics, symbols, hover,
+ * definition and references. Without it, diagnostics fall back to
+ * verible-verilog-lint and the other queries return nothing.
  */
 export class VeribleLSP implements LSPClient {
   readonly type = 'verible' as const;
   private config: VeribleConfig;
-  private started = false;
+  private server: RTLLanguageServer;
 
   constructor(config: VeribleConfig) {
     this.config = {
       ruleset: 'default',
       ...config,
     };
+    this.server = new RTLLanguageServer(this.config.workspaceRoot, {
+      name: 'verible-verilog-ls',
+      command: 'verible-verilog-ls',
+      args: this.config.rules ? ['--rules_config', this.config.rules] : [],
+      extensions: ['.sv', '.svh', '.v', '.vh'],
+      installHint: 'Install from https://github.com/chipsalliance/verible/releases',
+    });
+  }
+
+  get languageClient(): LspClient | null {
+    return this.server.client;
   }
 
   async start(): Promise<void> {
-    // TODO: Start verible-verilog-ls process
-    this.started = true;
+    await this.server.start();
   }
 
   async stop(): Promise<void> {
-    // TODO: Stop verible-verilog-ls process
-    this.started = false;
+    await this.server.stop();
   }
 
   async isInstalled(): Promise<boolean> {
+    if (this.server.isInstalled()) {
+      return true;
+    }
     try {
       const { stdout } = await execAsync('verible-verilog-lint --version');
       return stdout.includes('verible');
@@ -62,9 +77,13 @@ export class VeribleLSP implements LSPClient {
   /**
    * Get diagnostics for a file
    *
-   * Uses verible-verilog-lint CLI
+   * Uses verible-verilog-ls when running, otherwise the verible-verilog-lint CLI
    */
   async getDiagnostics(filePath: string): Promise<Diagnostic[]> {
+    if (this.server.client) {
+      return this.server.diagnostics(filePath);
+    }
+
     const args = this.buildArgs(filePath);
 
     try {
@@ -78,20 +97,30 @@ export class VeribleLSP implements LSPClient {
 
   /**
    * Get document symbols (requires LSP mode)
-   * TODO: Implement with verible-verilog-ls
    */
   async getDocumentSymbols(filePath: string): Promise<SymbolInformation[]> {
-    console.warn('verible getDocumentSymbols not implemented yet (requires LSP mode)');
-    return [];
+    return this.server.client ? this.server.documentSymbols(filePath) : [];
   }
 
   /**
    * Get hover information (requires LSP mode)
-   * TODO: Implement with verible-verilog-ls
    */
   async getHover(filePath: string, line: number, column: number): Promise<Hover | null> {
-    console.warn('verible getHover not implemented yet (requires LSP mode)');
-    return null;
+    return this.server.client ? this.server.hover(filePath, line, column) : null;
+  }
+
+  /**
+   * Go to definition (requires LSP mode)
+   */
+  async getDefinition(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    return this.server.client ? this.server.definition(filePath, line, column) : [];
+  }
+
+  /**
+   * Find references (requires LSP mode)
+   */
+  async getReferences(filePath: string, line: number, column: number): Promise<SourceLocation[]> {
+    return this.server.client ? this.server.references(filePath, line, column) : [];
   }
 
   /**
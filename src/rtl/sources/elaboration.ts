@@ -0,0 +1,347 @@
+/**
+ * Chisel/SpinalHDL Elaboration
+ *
+ * Runs the configured generator main (sbt, mill or scala-cli) and collects
+ * what it writes to the output directory:
+ * - Verilog/SystemVerilog files, passed to every RTL tool
+ * - header directories (.vh/.svh), added as include dirs
+ * - FIRRTL annotations (*.anno.json) and FIRRTL files (*.fir)
+ *
+ * Outputs are cached by a hash of the Scala sources, build files and
+ * generator settings in <outputDir>/.rtl-elaboration.json; the generator
+ * only reruns when the hash changes or an output is missing.
+ *
+ * Generated lines carry source locators that map back to Scala:
+ * chisel (firrtl): "// @[Fifo.scala 42:17]"
+ * chisel (circt):  "// src/main/scala/fifo/Fifo.scala:42:17"
+ * spinalhdl:       "// @ Fifo.scala l42"
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GeneratorRun, RTLProjectConfig, ScalaLocation } from '../types.js';
+import { SourceSetError } from './source-set.js';
+
+const execAsync = promisify(exec);
+
+const MANIFEST_FILENAME = '.rtl-elaboration.json';
+const DEFAULT_OUTPUT_DIR = 'generated';
+const DEFAULT_TIMEOUT_MS = 600000;
+
+/** Build definitions hashed with the sources */
+const BUILD_FILES = ['build.sbt', 'build.sc', 'build.mill', 'project.scala', 'project/build.properties', 'project/plugins.sbt'];
+
+const SOURCE_EXTENSIONS = new Set(['.scala', '.sc', '.java']);
+const VERILOG_EXTENSIONS = new Set(['.v', '.sv']);
+const HEADER_EXTENSIONS = new Set(['.vh', '.svh']);
+
+/** Generator error lines reported as issues */
+const ERROR_LINE = /^\[error\]|\berror:|Exception\b/;
+const MAX_ISSUES = 20;
+
+/**
+ * Source locator in a generated line's comment: file, line, column
+ */
+const LOCATOR_PATTERN = /([\w./\\-]+\.scala)(?::|\s+l?)(\d+)(?:[:.]\{?(\d+))?/;
+
+/** Lines above a generated line searched for a locator */
+const LOCATOR_LOOKBACK = 3;
+
+/** Elaborations in progress, by output directory */
+const pending = new Map<string, Promise<GeneratorRun>>();
+
+/**
+ * Generator command of an elaboration config
+ */
+export interface ElaborationCommand {
+  generator: GeneratorRun['generator'];
+  buildTool: GeneratorRun['buildTool'];
+  command: string;
+  outputDir: string;
+  sourceDirs: string[];
+}
+
+/**
+ * Resolve the build tool, output directory and command line
+ *
+ * Chisel generators get `--target-dir <outputDir>` unless their arguments
+ * already set it; SpinalHDL generators must write to the output directory
+ * themselves (SpinalConfig(targetDirectory = ...)).
+ *
+ * @throws SourceSetError without an elaboration config, or for a mill build without a module
+ */
+export function elaborationCommand(config: RTLProjectConfig, workspaceRoot: string): ElaborationCommand {
+  const elaboration = config.elaboration;
+  if (!elaboration) {
+    throw new SourceSetError('No elaboration configured', ['elaboration: set the generator mainClass in .rtl-config.json']);
+  }
+  const root = path.resolve(workspaceRoot);
+  const generator = elaboration.generator
+    ?? (config.language === 'spinalhdl' ? 'spinalhdl' : 'chisel');
+  const buildTool = elaboration.buildTool ?? (
+    fs.existsSync(path.join(root, 'build.mill')) || fs.existsSync(path.join(root, 'build.sc')) ? 'mill'
+      : fs.existsSync(path.join(root, 'build.sbt')) ? 'sbt'
+        : 'scala-cli'
+  );
+  const outputDir = path.resolve(root, elaboration.outputDir ?? DEFAULT_OUTPUT_DIR);
+
+  const args = [...(elaboration.args ?? [])];
+  if (generator === 'chisel' && !args.some(arg => arg === '--target-dir' || arg === '-td' || arg.startsWith('--target-dir='))) {
+    args.push('--target-dir', outputDir);
+  }
+  const runArgs = [elaboration.mainClass, ...args].join(' ');
+
+  let command: string;
+  let sourceDirs = elaboration.sourceDirs;
+  switch (buildTool) {
+    case 'sbt':
+      command = `sbt -batch "${elaboration.module ? `${elaboration.module}/` : ''}runMain ${runArgs}"`;
+      break;
+    case 'mill':
+      if (!elaboration.module) {
+        throw new SourceSetError(
+          'elaboration: mill needs a module',
+          ['elaboration.module: set the mill module that holds the generator (e.g. "fifo")']
+        );
+      }
+      command = `mill --no-server ${elaboration.module}.runMain ${runArgs}`;
+      sourceDirs ??= [path.join(...elaboration.module.split('.'), 'src')];
+      break;
+    case 'scala-cli':
+      sourceDirs ??= ['src'];
+      command = `scala-cli run --server=false ${sourceDirs.join(' ')} --main-class ${elaboration.mainClass}` +
+        (args.length > 0 ? ` -- ${args.join(' ')}` : '');
+      break;
+  }
+
+  return {
+    generator,
+    buildTool,
+    command,
+    outputDir,
+    sourceDirs: (sourceDirs ?? ['src']).map(dir => path.resolve(root, dir)),
+  };
+}
+
+function listFiles(dir: string, filter: (file: string) => boolean, files: string[] = []): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const entry of entries) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      // Build outputs and tool state
+      if (!entry.name.startsWith('.') && entry.name !== 'target' && entry.name !== 'out') {
+        listFiles(file, filter, files);
+      }
+    } else if (filter(file)) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+/**
+ * Hash of the Scala sources, build files and generator command
+ */
+function hashInputs(root: string, command: ElaborationCommand): { hash: string; sources: string[] } {
+  const sources = command.sourceDirs
+    .flatMap(dir => listFiles(dir, file => SOURCE_EXTENSIONS.has(path.extname(file))))
+    .filter((file, i, all) => all.indexOf(file) === i)
+    .sort();
+  const build = BUILD_FILES.map(file => path.join(root, file)).filter(file => fs.existsSync(file));
+  const projectDir = path.join(root, 'project');
+  build.push(...listFiles(projectDir, file => path.dirname(file) === projectDir && file.endsWith('.scala')).sort());
+
+  const hash = createHash('sha256');
+  hash.update(JSON.stringify({ generator: command.generator, buildTool: command.buildTool, command: command.command }));
+  for (const file of [...build, ...sources]) {
+    hash.update(`\0${path.relative(root, file)}\0`);
+    hash.update(fs.readFileSync(file));
+  }
+  return { hash: hash.digest('hex'), sources };
+}
+
+function readManifest(outputDir: string, hash: string): GeneratorRun | undefined {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(outputDir, MANIFEST_FILENAME), 'utf8')) as GeneratorRun;
+    const outputs = [...manifest.files, ...manifest.annotations, ...manifest.firrtl];
+    if (manifest.hash === hash && outputs.every(file => fs.existsSync(file))) {
+      return manifest;
+    }
+  } catch {
+    // No manifest yet, or an unreadable one
+  }
+  return undefined;
+}
+
+/**
+ * Files the generator wrote, by modification time
+ *
+ * Older files in the output directory are stale outputs of other runs
+ * (renamed modules, other generators) and are left out.
+ */
+function collectOutputs(outputDir: string, since: number): Pick<GeneratorRun, 'files' | 'includeDirs' | 'annotations' | 'firrtl'> {
+  // Some filesystems keep whole seconds
+  const start = Math.floor(since / 1000) * 1000;
+  const written = listFiles(outputDir, file => fs.statSync(file).mtimeMs >= start).sort();
+  return {
+    files: written.filter(file => VERILOG_EXTENSIONS.has(path.extname(file))),
+    includeDirs: [...new Set(written.filter(file => HEADER_EXTENSIONS.has(path.extname(file))).map(file => path.dirname(file)))],
+    annotations: written.filter(file => file.endsWith('.anno.json')),
+    firrtl: written.filter(file => file.endsWith('.fir')),
+  };
+}
+
+async function runGenerator(root: string, command: ElaborationCommand, hash: string, sources: string[], timeoutMs: number): Promise<GeneratorRun> {
+  await fs.promises.mkdir(command.outputDir, { recursive: true });
+  const start = Date.now();
+
+  let stdout: string;
+  let stderr: string;
+  try {
+    ({ stdout, stderr } = await execAsync(command.command, {
+      cwd: root,
+      timeout: timeoutMs,
+      maxBuffer: 64 * 1024 * 1024,
+    }));
+  } catch (error: any) {
+    const output = `${error.stdout ?? ''}\n${error.stderr ?? ''}`;
+    const issues = output.split('\n').filter(line => ERROR_LINE.test(line)).slice(0, MAX_ISSUES);
+    throw new SourceSetError(
+      error.killed ? `Elaboration timed out after ${timeoutMs} ms: ${command.command}` : `Elaboration failed: ${command.command}`,
+      issues.length > 0 ? issues : [error.message]
+    );
+  }
+
+  const outputs = collectOutputs(command.outputDir, start);
+  if (outputs.files.length === 0) {
+    throw new SourceSetError(
+      `Elaboration wrote no Verilog to ${command.outputDir}`,
+      [`${command.command}: no .v/.sv file written to ${command.outputDir} (check the generator's target directory)`]
+    );
+  }
+
+  const result: GeneratorRun = {
+    generator: command.generator,
+    buildTool: command.buildTool,
+    command: command.command,
+    cached: false,
+    hash,
+    outputDir: command.outputDir,
+    ...outputs,
+    sources,
+    time: new Date(start).toISOString(),
+  };
+  await fs.promises.writeFile(path.join(command.outputDir, MANIFEST_FILENAME), JSON.stringify(result, null, 2) + '\n');
+  return { ...result, stdout, stderr };
+}
+
+/**
+ * Run the configured generator, or reuse its cached outputs
+ *
+ * Concurrent calls for the same output directory share one run; a
+ * forced call reruns after it instead.
+ *
+ * @param options.force Rerun even when the cache is up to date
+ * @throws SourceSetError when the generator fails or writes no Verilog
+ */
+export async function elaborate(
+  config: RTLProjectConfig,
+  workspaceRoot: string,
+  options: { force?: boolean } = {}
+): Promise<GeneratorRun> {
+  const root = path.resolve(workspaceRoot);
+  const command = elaborationCommand(config, root);
+
+  const running = pending.get(command.outputDir);
+  if (running && !options.force) {
+    return running;
+  }
+
+  const run = (async () => {
+    // A forced run writes the same directory, so it starts after the run in flight
+    await running?.catch(() => undefined);
+    const { hash, sources } = hashInputs(root, command);
+    const cached = options.force ? undefined : readManifest(command.outputDir, hash);
+    if (cached) {
+      return { ...cached, cached: true };
+    }
+    return runGenerator(root, command, hash, sources, config.elaboration?.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  })();
+
+  pending.set(command.outputDir, run);
+  try {
+    return await run;
+  } finally {
+    if (pending.get(command.outputDir) === run) {
+      pending.delete(command.outputDir);
+    }
+  }
+}
+
+/**
+ * Source locator of one generated line
+ */
+export function parseSourceLocator(line: string): ScalaLocation | undefined {
+  const comment = line.indexOf('//');
+  if (comment < 0) return undefined;
+  const match = line.slice(comment).match(LOCATOR_PATTERN);
+  if (!match) return undefined;
+  return {
+    file: match[1],
+    line: parseInt(match[2], 10),
+    ...(match[3] !== undefined ? { column: parseInt(match[3], 10) } : {}),
+  };
+}
+
+/**
+ * Map lines of generated files back to Scala
+ *
+ * Lines without a locator use the nearest one up to three lines above
+ * (multi-line statements). Locator paths are matched against the hashed
+ * sources by path suffix, else by name.
+ *
+ * @returns Lookup returning undefined for files elaboration did not generate
+ */
+export function createScalaLocator(elaboration: GeneratorRun): (file: string, line: number) => ScalaLocation | undefined {
+  const generated = new Set(elaboration.files.map(file => path.resolve(file)));
+  const texts = new Map<string, string[]>();
+
+  const resolveScala = (file: string): string => {
+    const suffix = path.sep + path.normalize(file).replace(/^(\.\.?[\\/])+/, '');
+    return elaboration.sources.find(source => source.endsWith(suffix))
+      ?? elaboration.sources.find(source => path.basename(source) === path.basename(file))
+      ?? file;
+  };
+
+  return (file, line) => {
+    const resolved = path.resolve(file);
+    if (!generated.has(resolved)) return undefined;
+
+    let text = texts.get(resolved);
+    if (!text) {
+      try {
+        text = fs.readFileSync(resolved, 'utf8').split('\n');
+      } catch {
+        return undefined;
+      }
+      texts.set(resolved, text);
+    }
+
+    for (let n = line; n >= Math.max(1, line - LOCATOR_LOOKBACK); n--) {
+      if (n < line && (text[n - 1] ?? '').trim() === '') break;
+      const location = parseSourceLocator(text[n - 1] ?? '');
+      if (location) {
+        return { ...location, file: resolveScala(location.file) };
+      }
+    }
+    return undefined;
+  };
+}
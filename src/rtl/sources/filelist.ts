@@ -0,0 +1,227 @@
+/**
+ * Verilog Filelists (.f)
+ *
+ * Reads the option subset shared by Verilator, Icarus, VCS and Xcelium:
+ * - source files (any number per line)
+ * - +incdir+<dir>[+<dir>...] and -I<dir>
+ * - +define+<NAME>[=<value>][+...] and -D<NAME>[=<value>]
+ * - -y <dir>, -v <file> and +libext+<ext>[+<ext>...]
+ * - -f <file> (paths relative to the workspace root) and -F <file>
+ *   (paths relative to the nested filelist)
+ * - -top/--top/--top-module/-s <module>
+ * - $VAR, ${VAR} and $(VAR) environment variables
+ *
+ * `//`, `#` and block comments are stripped; any other option is listed
+ * in `ignored`.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SourceSet } from '../types.js';
+import { SourceSetError, emptySourceSet } from './source-set.js';
+
+/**
+ * Filelist reading options
+ */
+export interface FilelistOptions {
+  /** Base for relative paths in the top filelist and -f filelists (default: cwd) */
+  root?: string;
+  /** Variables for $VAR expansion (default: process.env) */
+  env?: Record<string, string | undefined>;
+}
+
+interface Token {
+  text: string;
+  line: number;
+}
+
+/** Options naming the top module */
+const TOP_OPTIONS = new Set(['-top', '--top', '--top-module', '-s']);
+
+/** Tool options that take a separate value (skipped with it) */
+const VALUE_OPTIONS = new Set(['-timescale', '-work', '-L', '-l', '-o', '-j', '-Mdir', '--Mdir', '--prefix']);
+
+/**
+ * Split a filelist into words, dropping comments
+ */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (text.startsWith('//', i) || ch === '#') {
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (text.startsWith('/*', i)) {
+      const end = text.indexOf('*/', i + 2);
+      const stop = end === -1 ? text.length : end + 2;
+      line += (text.slice(i, stop).match(/\n/g) ?? []).length;
+      i = stop;
+    } else {
+      const start = line;
+      let word = '';
+      while (i < text.length && !/\s/.test(text[i])) {
+        if (text[i] === '"') {
+          const end = text.indexOf('"', i + 1);
+          const stop = end === -1 ? text.length : end;
+          word += text.slice(i + 1, stop);
+          i = stop + 1;
+        } else {
+          word += text[i++];
+        }
+      }
+      tokens.push({ text: word, line: start });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Expand $VAR, ${VAR} and $(VAR)
+ */
+export function expandEnvironment(
+  text: string,
+  env: Record<string, string | undefined>,
+  onMissing: (name: string) => void
+): string {
+  return text.replace(/\$(?:\{(\w+)\}|\((\w+)\)|(\w+))/g, (match, braced, parenthesized, bare) => {
+    const name = braced ?? parenthesized ?? bare;
+    const value = env[name];
+    if (value === undefined) {
+      onMissing(name);
+      return match;
+    }
+    return value;
+  });
+}
+
+function splitDefine(text: string): [string, string] {
+  const eq = text.indexOf('=');
+  return eq === -1 ? [text, ''] : [text.slice(0, eq), text.slice(eq + 1)];
+}
+
+class FilelistReader {
+  readonly sources = emptySourceSet();
+  readonly issues: string[] = [];
+
+  constructor(private root: string, private env: Record<string, string | undefined>) {}
+
+  async read(file: string, baseDir: string, stack: string[]): Promise<void> {
+    if (stack.includes(file)) {
+      this.issues.push(`${stack[stack.length - 1]}: ${file}: filelist includes itself`);
+      return;
+    }
+
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+      this.issues.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (!this.sources.origins.includes(file)) {
+      this.sources.origins.push(file);
+    }
+
+    const tokens = tokenize(text);
+    for (let i = 0; i < tokens.length; i++) {
+      const where = `${file}:${tokens[i].line}`;
+      const expand = (word: string) => expandEnvironment(word, this.env, name => {
+        this.issues.push(`${where}: undefined environment variable ${name}`);
+      });
+      const word = expand(tokens[i].text);
+      const value = (): string | undefined => {
+        if (i + 1 >= tokens.length) {
+          this.issues.push(`${where}: ${word}: missing argument`);
+          return undefined;
+        }
+        return expand(tokens[++i].text);
+      };
+
+      if (word === '-f' || word === '-F') {
+        const nested = value();
+        if (nested !== undefined) {
+          const nestedPath = path.resolve(baseDir, nested);
+          await this.read(nestedPath, word === '-F' ? path.dirname(nestedPath) : this.root, [...stack, file]);
+        }
+      } else if (word.startsWith('+incdir+')) {
+        word.slice('+incdir+'.length).split('+').filter(Boolean).forEach(dir => this.addDir(dir, baseDir, where));
+      } else if (word.startsWith('-I')) {
+        const dir = word === '-I' ? value() : word.slice(2);
+        if (dir !== undefined) this.addDir(dir, baseDir, where);
+      } else if (word.startsWith('+define+')) {
+        for (const item of word.slice('+define+'.length).split('+').filter(Boolean)) {
+          const [name, text] = splitDefine(item);
+          this.sources.defines[name] = text;
+        }
+      } else if (word.startsWith('-D')) {
+        const item = word === '-D' ? value() : word.slice(2);
+        if (item !== undefined) {
+          const [name, text] = splitDefine(item);
+          this.sources.defines[name] = text;
+        }
+      } else if (word.startsWith('+libext+')) {
+        for (const ext of word.slice('+libext+'.length).split('+').filter(Boolean)) {
+          if (!this.sources.libraryExtensions.includes(ext)) this.sources.libraryExtensions.push(ext);
+        }
+      } else if (word === '-y') {
+        const dir = value();
+        if (dir !== undefined) this.addPath(this.sources.libraryDirs, dir, baseDir, where, 'library directory');
+      } else if (word === '-v') {
+        const lib = value();
+        if (lib !== undefined) this.addPath(this.sources.libraryFiles, lib, baseDir, where, 'library file');
+      } else if (TOP_OPTIONS.has(word)) {
+        const top = value();
+        if (top !== undefined) this.sources.top = top;
+      } else if (VALUE_OPTIONS.has(word)) {
+        const skipped = value();
+        this.sources.ignored.push(`${where}: ${word}${skipped !== undefined ? ` ${skipped}` : ''}`);
+      } else if (word.startsWith('-') || word.startsWith('+')) {
+        this.sources.ignored.push(`${where}: ${word}`);
+      } else {
+        this.addPath(this.sources.files, word, baseDir, where, 'source file');
+      }
+    }
+  }
+
+  private addDir(dir: string, baseDir: string, where: string): void {
+    this.addPath(this.sources.includeDirs, dir, baseDir, where, 'include directory');
+  }
+
+  private addPath(list: string[], entry: string, baseDir: string, where: string, kind: string): void {
+    const resolved = path.resolve(baseDir, entry);
+    if (!fs.existsSync(resolved)) {
+      this.issues.push(`${where}: ${kind} not found: ${entry}`);
+      return;
+    }
+    if (!list.includes(resolved)) {
+      list.push(resolved);
+    }
+  }
+}
+
+/**
+ * Read a filelist and the filelists it includes
+ *
+ * @param file Filelist path (relative to options.root)
+ * @throws SourceSetError listing every missing file, directory or variable
+ */
+export async function loadFilelist(file: string, options: FilelistOptions = {}): Promise<SourceSet> {
+  const root = path.resolve(options.root ?? process.cwd());
+  const reader = new FilelistReader(root, options.env ?? process.env);
+
+  await reader.read(path.resolve(root, file), root, []);
+
+  if (reader.issues.length > 0) {
+    throw new SourceSetError(`Invalid filelist ${file}: ${reader.issues.length} issue(s)`, reader.issues);
+  }
+
+  return reader.sources;
+}
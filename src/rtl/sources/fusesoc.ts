@@ -0,0 +1,522 @@
+/**
+ * FuseSoC Cores (.core, CAPI2)
+ *
+ * Resolves one target of a core into a source set:
+ * - the target's filesets in order, dependencies first
+ * - HDL files (verilogSource*, systemVerilogSource*, vhdlSource*) become
+ *   sources; `is_include_file` files add their directory (or
+ *   `include_path`) to the include dirs
+ * - `vlogdefine` parameters become defines, `toplevel` the top module
+ * - `depend` entries are looked up by name in the library directories
+ *
+ * Conditional filesets (`tool_verilator? (tb)`) are kept when their flag
+ * is set. Only the YAML used by core files is understood: block and flow
+ * collections, quoted scalars, block scalars, anchors and `<<` merges.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SourceSet } from '../types.js';
+import { SourceSetError, emptySourceSet, mergeSourceSets } from './source-set.js';
+
+/**
+ * Core reading options
+ */
+export interface CoreOptions {
+  /** Targets to try in order (default: ['default']) */
+  targets?: string[];
+  /** Flags enabling conditional filesets (e.g. 'tool_verilator') */
+  flags?: string[];
+  /** Directories searched for dependency cores (default: the core's directory) */
+  libraries?: string[];
+}
+
+type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+type YamlMap = { [key: string]: YamlValue };
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+/** Directories never searched for dependency cores */
+const SKIPPED_DIRS = new Set(['.git', 'node_modules', 'build', 'runs']);
+
+/**
+ * Strip a `#` comment outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+/**
+ * Index of the `:` ending a mapping key, or -1
+ */
+function findKeyColon(text: string): number {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    } else if (ch === ':' && depth === 0 && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+class YamlParser {
+  private lines: YamlLine[] = [];
+  private index = 0;
+  private anchors = new Map<string, YamlValue>();
+
+  constructor(private file: string, text: string) {
+    const raw = text.replace(/\t/g, '    ').split(/\r?\n/);
+    for (let i = 0; i < raw.length; i++) {
+      const body = stripComment(raw[i]).trimEnd();
+      if (body.trim() === '') continue;
+      const indent = body.length - body.trimStart().length;
+      let content = body.trim();
+
+      // Fold block scalars (| and >) into a quoted scalar
+      const block = content.match(/^(.*:)\s+[|>][-+]?$/);
+      if (block) {
+        const parts: string[] = [];
+        while (i + 1 < raw.length && (raw[i + 1].trim() === '' || raw[i + 1].search(/\S/) > indent)) {
+          parts.push(raw[++i].trim());
+        }
+        content = `${block[1]} ${JSON.stringify(parts.join('\n').trim())}`;
+      }
+
+      this.lines.push({ indent, text: content, line: i + 1 });
+    }
+  }
+
+  parse(): YamlValue {
+    if (this.lines.length === 0) {
+      return null;
+    }
+    const value = this.parseBlock(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      throw this.error(this.lines[this.index], 'unexpected indentation');
+    }
+    return value;
+  }
+
+  private error(line: YamlLine, message: string): SourceSetError {
+    return new SourceSetError(`${this.file}:${line.line}: ${message}`, [`${this.file}:${line.line}: ${message}`]);
+  }
+
+  private parseBlock(indent: number): YamlValue {
+    return isSequenceItem(this.lines[this.index].text) ? this.parseSequence(indent) : this.parseMapping(indent);
+  }
+
+  private parseSequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+
+    while (this.index < this.lines.length) {
+      const current = this.lines[this.index];
+      if (current.indent !== indent || !isSequenceItem(current.text)) break;
+
+      const rest = current.text.slice(1).trim();
+      if (rest === '') {
+        this.index++;
+        const next = this.lines[this.index];
+        items.push(next && next.indent > indent ? this.parseBlock(next.indent) : null);
+      } else if (findKeyColon(rest) > 0 && !/^[[{"']/.test(rest)) {
+        // "- key: value" starts a mapping at the item's column
+        const column = indent + current.text.indexOf(rest);
+        this.lines[this.index] = { indent: column, text: rest, line: current.line };
+        items.push(this.parseMapping(column));
+      } else {
+        this.index++;
+        items.push(this.parseValue(rest, current));
+      }
+    }
+
+    return items;
+  }
+
+  private parseMapping(indent: number): YamlMap {
+    const map: YamlMap = {};
+
+    while (this.index < this.lines.length) {
+      const current = this.lines[this.index];
+      if (current.indent !== indent || isSequenceItem(current.text)) break;
+
+      const colon = findKeyColon(current.text);
+      if (colon <= 0) {
+        throw this.error(current, `expected "key: value", got "${current.text}"`);
+      }
+      const key = this.unquote(current.text.slice(0, colon).trim());
+      let rest = current.text.slice(colon + 1).trim();
+      this.index++;
+
+      let anchor: string | undefined;
+      const anchorMatch = rest.match(/^&(\S+)\s*(.*)$/);
+      if (anchorMatch) {
+        anchor = anchorMatch[1];
+        rest = anchorMatch[2];
+      }
+
+      let value: YamlValue;
+      if (rest === '') {
+        const next = this.lines[this.index];
+        const nested = next && (next.indent > indent || (next.indent === indent && isSequenceItem(next.text)));
+        value = nested ? this.parseBlock(next.indent) : null;
+      } else {
+        value = this.parseValue(rest, current);
+      }
+
+      if (anchor) {
+        this.anchors.set(anchor, value);
+      }
+
+      if (key === '<<') {
+        for (const merged of Array.isArray(value) ? value : [value]) {
+          if (merged && typeof merged === 'object' && !Array.isArray(merged)) {
+            for (const [mergedKey, mergedValue] of Object.entries(merged)) {
+              if (!(mergedKey in map)) map[mergedKey] = mergedValue;
+            }
+          }
+        }
+      } else {
+        map[key] = value;
+      }
+    }
+
+    return map;
+  }
+
+  private parseValue(text: string, line: YamlLine): YamlValue {
+    if (text.startsWith('[') || text.startsWith('{')) {
+      const [value, end] = this.parseFlow(text, 0, line);
+      if (text.slice(end).trim() !== '') {
+        throw this.error(line, `unexpected "${text.slice(end).trim()}" after flow collection`);
+      }
+      return value;
+    }
+    return this.scalar(text, line);
+  }
+
+  private parseFlow(text: string, start: number, line: YamlLine): [YamlValue, number] {
+    const close = text[start] === '[' ? ']' : '}';
+    const isMap = close === '}';
+    const list: YamlValue[] = [];
+    const map: YamlMap = {};
+    let i = start + 1;
+
+    const skipSpaces = () => {
+      while (i < text.length && /\s/.test(text[i])) i++;
+    };
+    const readItem = (stops: string): YamlValue => {
+      skipSpaces();
+      if (text[i] === '[' || text[i] === '{') {
+        const [value, end] = this.parseFlow(text, i, line);
+        i = end;
+        return value;
+      }
+      let quote: string | null = null;
+      const begin = i;
+      for (; i < text.length; i++) {
+        const ch = text[i];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+          quote = ch;
+        } else if (stops.includes(ch) && (ch !== ':' || text[i + 1] === ' ')) {
+          break;
+        }
+      }
+      return this.scalar(text.slice(begin, i).trim(), line);
+    };
+
+    for (;;) {
+      skipSpaces();
+      if (i >= text.length) {
+        throw this.error(line, `unterminated flow collection`);
+      }
+      if (text[i] === close) {
+        return [isMap ? map : list, i + 1];
+      }
+
+      if (isMap) {
+        const key = readItem(':,}');
+        if (text[i] === ':') {
+          i++;
+          map[String(key)] = readItem(',}');
+        } else {
+          map[String(key)] = null;
+        }
+      } else {
+        list.push(readItem(',]'));
+      }
+
+      skipSpaces();
+      if (text[i] === ',') i++;
+    }
+  }
+
+  private unquote(text: string): string {
+    if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+      return JSON.parse(text);
+    }
+    if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+    return text;
+  }
+
+  private scalar(text: string, line: YamlLine): YamlValue {
+    if (text.startsWith('*')) {
+      const name = text.slice(1);
+      if (!this.anchors.has(name)) {
+        throw this.error(line, `unknown alias *${name}`);
+      }
+      return this.anchors.get(name)!;
+    }
+    if (/^["']/.test(text)) return this.unquote(text);
+    if (text === '' || text === '~' || text === 'null') return null;
+    if (text === 'true') return true;
+    if (text === 'false') return false;
+    if (/^-?\d+(\.\d+)?$/.test(text)) return Number(text);
+    return text;
+  }
+}
+
+/**
+ * Parse the YAML subset used by core files
+ *
+ * @throws SourceSetError with the offending line
+ */
+export function parseCoreYaml(text: string, file = '<core>'): YamlValue {
+  return new YamlParser(file, text).parse();
+}
+
+function asMap(value: YamlValue | undefined): YamlMap {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+function asList(value: YamlValue | undefined): YamlValue[] {
+  if (Array.isArray(value)) return value;
+  return value === null || value === undefined ? [] : [value];
+}
+
+/**
+ * Name part of a VLNV (`>=vendor:lib:fifo:1.0`, `::fifo:0` -> `fifo`)
+ */
+function vlnvName(vlnv: string): string {
+  const parts = vlnv.trim().replace(/^[<>=~^!]+/, '').split(':');
+  if (parts.length > 1 && /^\d/.test(parts[parts.length - 1])) {
+    parts.pop();
+  }
+  return parts[parts.length - 1];
+}
+
+/**
+ * Expand `flag? (a b)` / `!flag? (a b)` use-flag expressions
+ */
+function expandConditional(entries: YamlValue[], flags: Set<string>): string[] {
+  const names: string[] = [];
+  for (const entry of entries) {
+    const text = String(entry).trim();
+    const conditional = text.match(/^(!?)(\w+)\?\s*\((.*)\)$/);
+    if (!conditional) {
+      names.push(text);
+    } else if (flags.has(conditional[2]) !== (conditional[1] === '!')) {
+      names.push(...expandConditional(conditional[3].trim().split(/\s+/).filter(Boolean), flags));
+    }
+  }
+  return names;
+}
+
+function findCores(dirs: string[]): string[] {
+  const cores: string[] = [];
+  const walk = (dir: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory()) {
+        if (!SKIPPED_DIRS.has(entry.name)) walk(path.join(dir, entry.name));
+      } else if (entry.name.endsWith('.core')) {
+        cores.push(path.join(dir, entry.name));
+      }
+    }
+  };
+  dirs.forEach(walk);
+  return cores;
+}
+
+class CoreReader {
+  private index?: Map<string, string>;
+  private loaded = new Set<string>();
+  readonly issues: string[] = [];
+
+  constructor(private options: CoreOptions, private flags: Set<string>) {}
+
+  async read(file: string, targets: string[], explicit: boolean): Promise<SourceSet> {
+    const sources = emptySourceSet();
+    if (this.loaded.has(file)) {
+      return sources;
+    }
+    this.loaded.add(file);
+
+    let core: YamlMap;
+    try {
+      core = asMap(parseCoreYaml(await fs.promises.readFile(file, 'utf8'), file));
+    } catch (error) {
+      this.issues.push(...(error instanceof SourceSetError ? error.issues : [`${file}: ${error instanceof Error ? error.message : String(error)}`]));
+      return sources;
+    }
+    sources.origins.push(file);
+
+    const coreTargets = asMap(core.targets);
+    const targetName = targets.find(name => name in coreTargets);
+    const filesets = asMap(core.filesets);
+    let filesetNames: string[];
+    let target: YamlMap = {};
+    if (targetName) {
+      target = asMap(coreTargets[targetName]);
+      filesetNames = expandConditional([...asList(target.filesets), ...asList(target.filesets_append)], this.flags);
+    } else if (explicit) {
+      this.issues.push(`${file}: target ${targets.join('/')} not found (targets: ${Object.keys(coreTargets).join(', ') || 'none'})`);
+      return sources;
+    } else {
+      filesetNames = Object.keys(filesets);
+    }
+
+    const dir = path.dirname(file);
+    const own = emptySourceSet();
+    for (const name of filesetNames) {
+      if (!(name in filesets)) {
+        this.issues.push(`${file}: fileset ${name} not found`);
+        continue;
+      }
+      const fileset = asMap(filesets[name]);
+
+      for (const dependency of expandConditional(asList(fileset.depend), this.flags)) {
+        const dependencyFile = this.findDependency(dependency, dir);
+        if (!dependencyFile) {
+          this.issues.push(`${file}: fileset ${name}: dependency ${dependency} not found`);
+          continue;
+        }
+        mergeSourceSets(sources, await this.read(dependencyFile, targets, false));
+      }
+
+      this.addFiles(own, fileset, dir, `${file}: fileset ${name}`);
+    }
+
+    if (targetName) {
+      const parameters = asMap(core.parameters);
+      for (const entry of asList(target.parameters).map(String)) {
+        const [name, override] = entry.includes('=') ? [entry.slice(0, entry.indexOf('=')), entry.slice(entry.indexOf('=') + 1)] : [entry, undefined];
+        const parameter = asMap(parameters[name]);
+        if (parameter.paramtype !== 'vlogdefine') continue;
+        const value = override ?? parameter.default;
+        own.defines[name] = value === undefined || value === null ? '' : String(value === true ? 1 : value === false ? 0 : value);
+      }
+      if (typeof target.toplevel === 'string') {
+        own.top = target.toplevel;
+      }
+    }
+
+    return mergeSourceSets(sources, own);
+  }
+
+  private addFiles(sources: SourceSet, fileset: YamlMap, dir: string, where: string): void {
+    const defaultType = typeof fileset.file_type === 'string' ? fileset.file_type : undefined;
+
+    for (const entry of asList(fileset.files)) {
+      let name: string;
+      let attributes: YamlMap = {};
+      if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+        [name] = Object.keys(entry);
+        attributes = asMap(entry[name]);
+      } else {
+        name = String(entry);
+      }
+
+      const file = path.resolve(dir, name);
+      const fileType = typeof attributes.file_type === 'string' ? attributes.file_type : defaultType;
+      if (!fs.existsSync(file)) {
+        this.issues.push(`${where}: file not found: ${name}`);
+        continue;
+      }
+
+      if (attributes.is_include_file === true) {
+        const includeDir = typeof attributes.include_path === 'string'
+          ? path.resolve(dir, attributes.include_path)
+          : path.dirname(file);
+        if (!sources.includeDirs.includes(includeDir)) sources.includeDirs.push(includeDir);
+      } else if (/^(verilogSource|systemVerilogSource|vhdlSource)/.test(fileType ?? '')) {
+        if (!sources.files.includes(file)) sources.files.push(file);
+      } else {
+        sources.ignored.push(`${where}: ${name} (${fileType ?? 'no file_type'})`);
+      }
+    }
+  }
+
+  private findDependency(vlnv: string, coreDir: string): string | undefined {
+    if (!this.index) {
+      this.index = new Map();
+      for (const core of findCores(this.options.libraries ?? [coreDir])) {
+        try {
+          const name = asMap(parseCoreYaml(fs.readFileSync(core, 'utf8'), core)).name;
+          if (typeof name === 'string') {
+            this.index.set(vlnvName(name), core);
+          }
+        } catch {
+          // Unreadable cores are reported only when they are the dependency
+        }
+      }
+    }
+    return this.index.get(vlnvName(vlnv));
+  }
+}
+
+/**
+ * Read one target of a FuseSoC core and its dependencies
+ *
+ * @param file Core file path
+ * @throws SourceSetError listing missing targets, filesets, files and dependencies
+ */
+export async function loadCore(file: string, options: CoreOptions = {}): Promise<SourceSet> {
+  const corePath = path.resolve(file);
+  const targets = options.targets ?? ['default'];
+  const reader = new CoreReader(options, new Set(options.flags ?? []));
+
+  const sources = await reader.read(corePath, targets, true);
+
+  if (reader.issues.length > 0) {
+    throw new SourceSetError(`Invalid core ${file}: ${reader.issues.length} issue(s)`, reader.issues);
+  }
+
+  return sources;
+}
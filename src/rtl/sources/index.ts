@@ -0,0 +1,117 @@
+/**
+ * RTL Source Sets
+ *
+ * Resolves the sources of a target (lint, simulation, synthesis, lsp)
+ * from .rtl-config.json:
+ * - `includePaths` and `defines` apply to every target
+ * - `sources.<target>` (or `sources.default`) names a filelist or a
+ *   FuseSoC core whose files, include dirs and defines are added
+ * - `elaboration` runs a Chisel/SpinalHDL generator (cached) whose
+ *   Verilog comes first in the files
+ *
+ * Every backend receives the same source set, so lint, simulation,
+ * synthesis and the language servers see identical compile options.
+ */
+
+import * as path from 'path';
+import type { RTLProjectConfig, SourceSet } from '../types.js';
+import { SourceSetError, emptySourceSet } from './source-set.js';
+import { loadFilelist } from './filelist.js';
+import { loadCore } from './fusesoc.js';
+import { elaborate } from './elaboration.js';
+
+export { SourceSetError, emptySourceSet, mergeSourceSets, sourceArgs } from './source-set.js';
+export type { SourceArgsStyle } from './source-set.js';
+export { loadFilelist, expandEnvironment } from './filelist.js';
+export type { FilelistOptions } from './filelist.js';
+export { loadCore, parseCoreYaml } from './fusesoc.js';
+export type { CoreOptions } from './fusesoc.js';
+export { elaborate, elaborationCommand, parseSourceLocator, createScalaLocator } from './elaboration.js';
+export type { ElaborationCommand } from './elaboration.js';
+
+/**
+ * Targets with their own `sources` entry
+ */
+export type SourceTarget = 'lint' | 'simulation' | 'synthesis' | 'lsp';
+
+/** FuseSoC target tried first for each RTL target (then 'default') */
+const CORE_TARGETS: Record<SourceTarget, string> = {
+  lint: 'lint',
+  simulation: 'sim',
+  synthesis: 'synth',
+  lsp: 'lint',
+};
+
+/** FuseSoC use flags for each RTL target */
+const CORE_FLAGS: Record<SourceTarget, string[]> = {
+  lint: ['target_lint'],
+  simulation: ['target_sim', 'simulation'],
+  synthesis: ['target_synth', 'synth'],
+  lsp: ['target_lint'],
+};
+
+/**
+ * Resolve the source set of a target
+ *
+ * Without a `sources` entry the set only carries the global include
+ * paths and defines (and the elaborated files), and callers pass their
+ * own files.
+ *
+ * @throws SourceSetError when the filelist or core is missing or invalid,
+ * or elaboration fails
+ */
+export async function resolveSourceSet(
+  config: RTLProjectConfig,
+  workspaceRoot: string,
+  target: SourceTarget
+): Promise<SourceSet> {
+  const root = path.resolve(workspaceRoot);
+  const sources = emptySourceSet();
+  sources.includeDirs = (config.includePaths ?? []).map(dir => path.resolve(root, dir));
+  sources.defines = { ...config.defines };
+
+  if (config.elaboration) {
+    const elaboration = await elaborate(config, root);
+    sources.files.push(...elaboration.files);
+    sources.includeDirs.push(...elaboration.includeDirs.filter(dir => !sources.includeDirs.includes(dir)));
+    sources.elaboration = elaboration;
+  }
+
+  const key = config.sources?.[target] ? target : 'default';
+  const spec = config.sources?.[key];
+  if (!spec) {
+    return sources;
+  }
+
+  if (spec.filelist && spec.core) {
+    throw new SourceSetError(
+      `sources.${key}: set either filelist or core`,
+      [`sources.${key}: set either filelist or core, not both`]
+    );
+  }
+
+  let loaded: SourceSet | undefined;
+  if (spec.filelist) {
+    loaded = await loadFilelist(spec.filelist, { root });
+  } else if (spec.core) {
+    loaded = await loadCore(path.resolve(root, spec.core), {
+      targets: spec.target ? [spec.target] : [CORE_TARGETS[target], 'default'],
+      flags: CORE_FLAGS[target],
+      libraries: [root],
+    });
+  }
+  if (!loaded) {
+    return sources;
+  }
+
+  // Filelist/core include dirs come first, its defines override the globals
+  const includeDirs = loaded.includeDirs;
+  includeDirs.push(...sources.includeDirs.filter(dir => !includeDirs.includes(dir)));
+  loaded.defines = { ...sources.defines, ...loaded.defines };
+  // Generated modules are instantiated by the filelist/core files
+  loaded.files = [...sources.files, ...loaded.files.filter(file => !sources.files.includes(file))];
+  if (sources.elaboration) {
+    loaded.elaboration = sources.elaboration;
+  }
+  return loaded;
+}
@@ -0,0 +1,124 @@
+/**
+ * Source Sets
+ *
+ * Ordered files, include directories, defines and libraries shared by the
+ * lint, simulation, synthesis and LSP backends.
+ */
+
+import type { SourceOptions, SourceSet } from '../types.js';
+
+/**
+ * Filelist or core read failure (missing files, undefined variables, ...)
+ */
+export class SourceSetError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'SourceSetError';
+  }
+}
+
+/**
+ * Command-line dialects for sourceArgs()
+ *
+ * 'plusargs' is the +incdir+/+define+ dialect of xrun, vcs and vlog.
+ */
+export type SourceArgsStyle = 'verilator' | 'iverilog' | 'slang' | 'plusargs';
+
+export function emptySourceSet(): SourceSet {
+  return {
+    files: [],
+    includeDirs: [],
+    defines: {},
+    libraryDirs: [],
+    libraryFiles: [],
+    libraryExtensions: [],
+    origins: [],
+    ignored: [],
+  };
+}
+
+function appendUnique(list: string[], items: string[]): void {
+  for (const item of items) {
+    if (!list.includes(item)) {
+      list.push(item);
+    }
+  }
+}
+
+/**
+ * Append `next` to `base` in place
+ *
+ * Files and directories keep their first position; later defines and top win.
+ */
+export function mergeSourceSets(base: SourceSet, next: SourceSet): SourceSet {
+  appendUnique(base.files, next.files);
+  appendUnique(base.includeDirs, next.includeDirs);
+  Object.assign(base.defines, next.defines);
+  appendUnique(base.libraryDirs, next.libraryDirs);
+  appendUnique(base.libraryFiles, next.libraryFiles);
+  appendUnique(base.libraryExtensions, next.libraryExtensions);
+  appendUnique(base.origins, next.origins);
+  base.ignored.push(...next.ignored);
+  if (next.top) {
+    base.top = next.top;
+  }
+  return base;
+}
+
+function define(name: string, value: string, style: SourceArgsStyle): string[] {
+  const text = value === '' ? name : `${name}=${value}`;
+  switch (style) {
+    case 'slang':
+      return ['-D', text];
+    case 'plusargs':
+      return [`+define+${text}`];
+    default:
+      return [`-D${text}`];
+  }
+}
+
+/**
+ * Command-line flags for include directories, defines and libraries
+ *
+ * The top module is left to each tool (--top-module, -s, --top).
+ */
+export function sourceArgs(sources: SourceOptions = {}, style: SourceArgsStyle): string[] {
+  const {
+    includeDirs = [],
+    defines = {},
+    libraryDirs = [],
+    libraryFiles = [],
+    libraryExtensions = [],
+  } = sources;
+  const args: string[] = [];
+
+  for (const dir of includeDirs) {
+    args.push(...(style === 'slang' ? ['-I', dir] : style === 'plusargs' ? [`+incdir+${dir}`] : [`-I${dir}`]));
+  }
+  for (const [name, value] of Object.entries(defines)) {
+    args.push(...define(name, value, style));
+  }
+
+  switch (style) {
+    case 'verilator':
+    case 'plusargs':
+      libraryDirs.forEach(dir => args.push('-y', dir));
+      libraryFiles.forEach(file => args.push('-v', file));
+      if (libraryExtensions.length > 0) {
+        args.push(`+libext+${libraryExtensions.join('+')}`);
+      }
+      break;
+    case 'iverilog':
+      libraryDirs.forEach(dir => args.push(`-y${dir}`));
+      libraryFiles.forEach(file => args.push(`-l${file}`));
+      libraryExtensions.forEach(ext => args.push(`-Y${ext}`));
+      break;
+    case 'slang':
+      libraryDirs.forEach(dir => args.push('-y', dir));
+      libraryFiles.forEach(file => args.push('-v', file));
+      libraryExtensions.forEach(ext => args.push('-Y', ext));
+      break;
+  }
+
+  return args;
+}
@@ -0,0 +1,118 @@
+/**
+ * Commercial Tool Helpers
+ *
+ * Shared by the xrun, vcs, questa and spyglass adapters:
+ * - executables, extra arguments and environment from
+ *   tools.commercial.<tool> (ToolConfig)
+ * - license checkout failures, told apart from design failures so runs
+ *   can be retried or moved to another tool instead of debugged
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as path from 'path';
+import type { ToolConfig, ToolResult } from '../types.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * License checkout failures
+ *
+ * cadence:  "xrun: *F,NOLICN: Unable to checkout license for Xcelium"
+ * synopsys: "Error: Failed to obtain a license" / "Licensed number of users already reached"
+ * siemens:  "** Fatal: Unable to checkout a license. Make sure your license file ..."
+ * flexlm:   "FLEXnet Licensing error:-15,10" / "lmgrd is not running"
+ */
+const LICENSE_PATTERNS = [
+  /\*[EF],(?:NOLICN|NOLIC|LICERR|LICFAIL)\b/,
+  /(?:unable|failed) to (?:obtain|check ?out) (?:a |the )?licen[cs]e/i,
+  /licen[cs]e checkout (?:failed|error)/i,
+  /(?:FLEXnet|FlexNet|FLEXlm) Licensing error/i,
+  /cannot connect to (?:the )?licen[cs]e server/i,
+  /licensed number of users already reached/i,
+  /lmgrd is not running/i,
+  /invalid licen[cs]e environment/i,
+];
+
+/**
+ * First license failure line of a tool's output
+ */
+export function detectLicenseError(output: string): string | undefined {
+  for (const line of output.split('\n')) {
+    if (LICENSE_PATTERNS.some(pattern => pattern.test(line))) {
+      return line.replace(/^#\s*/, '').trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Command of a tool (config.executable, else the command on PATH)
+ */
+export function toolExecutable(config: ToolConfig | undefined, command: string): string {
+  return config?.executable ?? command;
+}
+
+/**
+ * Command installed next to the configured executable (vlog next to vsim)
+ */
+export function siblingExecutable(config: ToolConfig | undefined, command: string): string {
+  return config?.executable && path.dirname(config.executable) !== '.'
+    ? path.join(path.dirname(config.executable), command)
+    : command;
+}
+
+/**
+ * Run one command of a commercial tool
+ *
+ * Output is checked for license failures whatever the exit code.
+ */
+export async function runToolCommand(
+  cmd: string,
+  options: { config?: ToolConfig; cwd?: string; env?: Record<string, string>; timeoutMs?: number } = {}
+): Promise<ToolResult & { timedOut?: boolean }> {
+  try {
+    const { stdout, stderr } = await execAsync(cmd, {
+      cwd: options.cwd,
+      env: { ...process.env, ...options.config?.env, ...options.env },
+      timeout: options.timeoutMs,
+      maxBuffer: 64 * 1024 * 1024,
+    });
+    const licenseError = detectLicenseError(`${stdout}\n${stderr}`);
+    return {
+      success: licenseError === undefined,
+      stdout,
+      stderr,
+      exitCode: 0,
+      command: cmd,
+      ...(licenseError ? { licenseError, errors: [`License checkout failed: ${licenseError}`] } : {}),
+    };
+  } catch (error: any) {
+    const stdout = error.stdout || '';
+    const stderr = error.stderr || '';
+    const licenseError = detectLicenseError(`${stdout}\n${stderr}`);
+    return {
+      success: false,
+      stdout,
+      stderr,
+      exitCode: typeof error.code === 'number' ? error.code : 1,
+      errors: [licenseError ? `License checkout failed: ${licenseError}` : error.message],
+      command: cmd,
+      ...(licenseError ? { licenseError } : {}),
+      ...(error.killed === true ? { timedOut: true } : {}),
+    };
+  }
+}
+
+/**
+ * Output of a version command, or undefined when the tool cannot run
+ */
+export async function probeTool(cmd: string, config?: ToolConfig): Promise<string | undefined> {
+  const result = await runToolCommand(cmd, { config, timeoutMs: 30000 });
+  // 126/127: not executable / not found
+  if (result.exitCode === 126 || result.exitCode === 127) {
+    return undefined;
+  }
+  const output = `${result.stdout ?? ''}\n${result.stderr ?? ''}`;
+  return output.trim() === '' ? undefined : output;
+}
@@ -0,0 +1,330 @@
+/**
+ * Coverage Database
+ *
+ * Merges coverage across simulation runs (testbenches, seeds, regressions)
+ * so sign-off uses combined coverage rather than per-test numbers.
+ *
+ * Layout under <paths.reports>/coverage/:
+ *   index.json           Run history, first-hit attribution, per-commit trend
+ *   runs/<id>.dat        Copy of each run's coverage.dat
+ *   merged.dat           Merged coverage.dat (hit counts summed per point)
+ *   merged.info          LCOV export of merged.dat
+ *   merged.cobertura.xml Cobertura export of merged.dat
+ *
+ * Runs added concurrently (parallel regression jobs) are recorded one at a
+ * time, and files are replaced atomically so readers never see a partial write.
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { CoverageResult, CoverageMetric, RTLProjectConfig } from '../../types.js';
+import {
+  parseCoverageDat,
+  formatCoverageDat,
+  mergeCoveragePoints,
+  summarizeCoverage,
+  type CoveragePoint,
+} from './verilator.js';
+import { toLcov, toCobertura } from './export.js';
+
+const execAsync = promisify(exec);
+
+/** Last queued update, by database directory */
+const updates = new Map<string, Promise<unknown>>();
+
+/**
+ * Headline percentages stored per run and per trend entry
+ */
+export interface CoverageSummary {
+  line: number;
+  toggle: number;
+  branch: number;
+  functional?: number;
+}
+
+/**
+ * A run recorded in the database
+ */
+export interface CoverageRunRecord {
+  id: string;
+  test: string;
+  seed?: number;
+  commit: string;
+  timestamp: string;
+  /** Path of the stored coverage.dat, relative to the database root */
+  database: string;
+  coverage: CoverageSummary;
+  /** Points this run hit that no earlier run had hit */
+  newPoints: number;
+}
+
+/**
+ * Merged coverage after the last run recorded for a commit
+ */
+export interface CoverageTrendEntry extends CoverageSummary {
+  commit: string;
+  timestamp: string;
+  runs: number;
+}
+
+/**
+ * The run that first hit a coverage point
+ */
+export interface CoverageFirstHit {
+  file: string;
+  line: number;
+  metric: CoverageMetric | null;
+  comment?: string;
+  hierarchy?: string;
+  test: string;
+  seed?: number;
+  runId: string;
+}
+
+/**
+ * Metadata for a run being added
+ */
+export interface CoverageRunMetadata {
+  test: string;
+  seed?: number;
+  /** Commit under test (default: `git rev-parse --short HEAD` in the workspace) */
+  commit?: string;
+}
+
+interface CoverageIndex {
+  version: 1;
+  runs: CoverageRunRecord[];
+  firstHits: Record<string, { runId: string; test: string; seed?: number }>;
+  trend: CoverageTrendEntry[];
+}
+
+/**
+ * Write to a temp file, then rename over the target (atomic on POSIX)
+ */
+async function writeFileAtomic(file: string, content: string): Promise<void> {
+  const tmpPath = `${file}.tmp.${process.pid}`;
+  try {
+    await fs.promises.writeFile(tmpPath, content);
+    await fs.promises.rename(tmpPath, file);
+  } catch (error) {
+    await fs.promises.rm(tmpPath, { force: true });
+    throw error;
+  }
+}
+
+function summarize(coverage: CoverageResult): CoverageSummary {
+  const summary: CoverageSummary = {
+    line: coverage.line,
+    toggle: coverage.toggle,
+    branch: coverage.branch ?? 0,
+  };
+  if (coverage.functional !== undefined) {
+    summary.functional = coverage.functional;
+  }
+  return summary;
+}
+
+export class CoverageDatabase {
+  readonly rootDir: string;
+  private workspaceRoot: string;
+
+  constructor(rootDir: string, options: { workspaceRoot?: string } = {}) {
+    this.rootDir = rootDir;
+    this.workspaceRoot = options.workspaceRoot ?? process.cwd();
+  }
+
+  get mergedPath(): string {
+    return path.join(this.rootDir, 'merged.dat');
+  }
+
+  get lcovPath(): string {
+    return path.join(this.rootDir, 'merged.info');
+  }
+
+  get coberturaPath(): string {
+    return path.join(this.rootDir, 'merged.cobertura.xml');
+  }
+
+  private get indexPath(): string {
+    return path.join(this.rootDir, 'index.json');
+  }
+
+  /**
+   * Add a run's coverage.dat to the database and refresh merged outputs
+   *
+   * Calls for the same database directory are applied in order, each after
+   * the previous one has written index.json and merged.dat.
+   */
+  async addRun(coverageFile: string, metadata: CoverageRunMetadata): Promise<CoverageRunRecord> {
+    const key = path.resolve(this.rootDir);
+    const previous = updates.get(key) ?? Promise.resolve();
+    const update = previous.then(() => this.recordRun(coverageFile, metadata));
+    const queued = update.catch(() => undefined);
+    updates.set(key, queued);
+
+    try {
+      return await update;
+    } finally {
+      if (updates.get(key) === queued) {
+        updates.delete(key);
+      }
+    }
+  }
+
+  private async recordRun(coverageFile: string, metadata: CoverageRunMetadata): Promise<CoverageRunRecord> {
+    const index = await this.readIndex();
+    const runPoints = parseCoverageDat(await fs.promises.readFile(coverageFile, 'utf8'));
+    const mergedPoints = mergeCoveragePoints(await this.readMergedPoints(), runPoints);
+
+    const commit = metadata.commit ?? await this.detectCommit();
+    const id = this.nextRunId(index, metadata);
+    const relativeDb = path.join('runs', `${id}.dat`);
+
+    await fs.promises.mkdir(path.join(this.rootDir, 'runs'), { recursive: true });
+    await fs.promises.copyFile(coverageFile, path.join(this.rootDir, relativeDb));
+
+    let newPoints = 0;
+    for (const point of runPoints) {
+      if (point.count > 0 && !index.firstHits[point.key]) {
+        index.firstHits[point.key] = { runId: id, test: metadata.test, seed: metadata.seed };
+        newPoints++;
+      }
+    }
+
+    const record: CoverageRunRecord = {
+      id,
+      test: metadata.test,
+      seed: metadata.seed,
+      commit,
+      timestamp: new Date().toISOString(),
+      database: relativeDb,
+      coverage: summarize(summarizeCoverage(runPoints)),
+      newPoints,
+    };
+    index.runs.push(record);
+
+    const merged = summarize(summarizeCoverage(mergedPoints));
+    const trendEntry: CoverageTrendEntry = {
+      commit,
+      timestamp: record.timestamp,
+      runs: index.runs.filter(run => run.commit === commit).length,
+      ...merged,
+    };
+    const last = index.trend[index.trend.length - 1];
+    if (last && last.commit === commit) {
+      index.trend[index.trend.length - 1] = trendEntry;
+    } else {
+      index.trend.push(trendEntry);
+    }
+
+    await this.writeMerged(mergedPoints);
+    await this.writeIndex(index);
+
+    return record;
+  }
+
+  /**
+   * Merged coverage across all recorded runs
+   */
+  async getMergedCoverage(): Promise<CoverageResult> {
+    const coverage = summarizeCoverage(await this.readMergedPoints());
+    coverage.database = this.mergedPath;
+    return coverage;
+  }
+
+  /**
+   * Recorded runs, oldest first
+   */
+  async getRuns(): Promise<CoverageRunRecord[]> {
+    return (await this.readIndex()).runs;
+  }
+
+  /**
+   * Merged coverage per commit, oldest first
+   */
+  async getTrend(): Promise<CoverageTrendEntry[]> {
+    return (await this.readIndex()).trend;
+  }
+
+  /**
+   * Which run first hit each covered point
+   *
+   * @param runId Only return points first hit by this run
+   */
+  async getFirstHits(runId?: string): Promise<CoverageFirstHit[]> {
+    const index = await this.readIndex();
+    const hits: CoverageFirstHit[] = [];
+
+    for (const point of await this.readMergedPoints()) {
+      const hit = index.firstHits[point.key];
+      if (!hit || (runId && hit.runId !== runId)) continue;
+      hits.push({
+        file: point.file,
+        line: point.line,
+        metric: point.metric,
+        comment: point.comment,
+        hierarchy: point.hierarchy,
+        ...hit,
+      });
+    }
+
+    return hits;
+  }
+
+  private nextRunId(index: CoverageIndex, metadata: CoverageRunMetadata): string {
+    const sequence = String(index.runs.length + 1).padStart(4, '0');
+    const test = path.basename(metadata.test).replace(/[^A-Za-z0-9_.-]/g, '_');
+    return metadata.seed !== undefined ? `${sequence}-${test}-${metadata.seed}` : `${sequence}-${test}`;
+  }
+
+  private async detectCommit(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('git rev-parse --short HEAD', { cwd: this.workspaceRoot });
+      return stdout.trim() || 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  private async readIndex(): Promise<CoverageIndex> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.indexPath, 'utf8')) as CoverageIndex;
+    } catch {
+      return { version: 1, runs: [], firstHits: {}, trend: [] };
+    }
+  }
+
+  private async writeIndex(index: CoverageIndex): Promise<void> {
+    await fs.promises.mkdir(this.rootDir, { recursive: true });
+    await writeFileAtomic(this.indexPath, JSON.stringify(index, null, 2));
+  }
+
+  private async readMergedPoints(): Promise<CoveragePoint[]> {
+    if (!fs.existsSync(this.mergedPath)) {
+      return [];
+    }
+    return parseCoverageDat(await fs.promises.readFile(this.mergedPath, 'utf8'));
+  }
+
+  private async writeMerged(points: CoveragePoint[]): Promise<void> {
+    await fs.promises.mkdir(this.rootDir, { recursive: true });
+    await writeFileAtomic(this.mergedPath, formatCoverageDat(points));
+    await writeFileAtomic(this.lcovPath, toLcov(points, 'merged'));
+    await writeFileAtomic(this.coberturaPath, toCobertura(points));
+  }
+}
+
+/**
+ * Open the coverage database under the project's reports directory
+ */
+export function openCoverageDatabase(
+  config: RTLProjectConfig,
+  workspaceRoot: string = process.cwd()
+): CoverageDatabase {
+  return new CoverageDatabase(
+    path.resolve(workspaceRoot, config.paths.reports, 'coverage'),
+    { workspaceRoot }
+  );
+}
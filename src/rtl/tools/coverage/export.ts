@@ -0,0 +1,160 @@
+/**
+ * Coverage Export Formats
+ *
+ * Converts coverage points to formats understood by CI dashboards:
+ * - LCOV tracefile (genhtml, Codecov, Coveralls)
+ * - Cobertura XML (Jenkins, GitLab)
+ *
+ * Only line and branch points are exported; toggle and user coverage
+ * have no equivalent in either format.
+ */
+
+import type { CoveragePoint } from './verilator.js';
+
+interface FileLines {
+  /** line -> max hit count of any line point covering it */
+  lines: Map<number, number>;
+  /** line -> hit counts of each branch point on that line */
+  branches: Map<number, number[]>;
+}
+
+function collectFileLines(points: CoveragePoint[]): Map<string, FileLines> {
+  const files = new Map<string, FileLines>();
+
+  for (const point of points) {
+    if (point.metric !== 'line' && point.metric !== 'branch') continue;
+
+    let entry = files.get(point.file);
+    if (!entry) {
+      entry = { lines: new Map(), branches: new Map() };
+      files.set(point.file, entry);
+    }
+
+    if (point.metric === 'line') {
+      for (const line of point.lines) {
+        entry.lines.set(line, Math.max(entry.lines.get(line) ?? 0, point.count));
+      }
+    } else {
+      const counts = entry.branches.get(point.line) ?? [];
+      counts.push(point.count);
+      entry.branches.set(point.line, counts);
+    }
+  }
+
+  return new Map([...files].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Export coverage points as an LCOV tracefile
+ */
+export function toLcov(points: CoveragePoint[], testName = ''): string {
+  const out: string[] = [];
+
+  for (const [file, { lines, branches }] of collectFileLines(points)) {
+    out.push(`TN:${testName}`, `SF:${file}`);
+
+    let branchesFound = 0;
+    let branchesHit = 0;
+    for (const [line, counts] of [...branches].sort(([a], [b]) => a - b)) {
+      counts.forEach((count, index) => {
+        out.push(`BRDA:${line},0,${index},${count}`);
+        branchesFound++;
+        if (count > 0) branchesHit++;
+      });
+    }
+    out.push(`BRF:${branchesFound}`, `BRH:${branchesHit}`);
+
+    const sortedLines = [...lines].sort(([a], [b]) => a - b);
+    for (const [line, count] of sortedLines) {
+      out.push(`DA:${line},${count}`);
+    }
+    out.push(`LF:${sortedLines.length}`, `LH:${sortedLines.filter(([, count]) => count > 0).length}`);
+    out.push('end_of_record');
+  }
+
+  return out.join('\n') + '\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function rate(hit: number, total: number): string {
+  return total === 0 ? '1' : (hit / total).toFixed(4);
+}
+
+/**
+ * Export coverage points as Cobertura XML (one class per source file)
+ */
+export function toCobertura(points: CoveragePoint[], timestamp = Date.now()): string {
+  const classes: string[] = [];
+  let linesValid = 0;
+  let linesCovered = 0;
+  let branchesValid = 0;
+  let branchesCovered = 0;
+
+  for (const [file, { lines, branches }] of collectFileLines(points)) {
+    const numbers = [...new Set([...lines.keys(), ...branches.keys()])].sort((a, b) => a - b);
+    const lineXml: string[] = [];
+    let fileLinesCovered = 0;
+    let fileBranchesValid = 0;
+    let fileBranchesCovered = 0;
+
+    for (const number of numbers) {
+      const branchCounts = branches.get(number);
+      const hits = lines.get(number) ?? Math.max(0, ...(branchCounts ?? []));
+      if (hits > 0) fileLinesCovered++;
+
+      if (branchCounts) {
+        const taken = branchCounts.filter(count => count > 0).length;
+        fileBranchesValid += branchCounts.length;
+        fileBranchesCovered += taken;
+        const pct = Math.round((taken / branchCounts.length) * 100);
+        lineXml.push(
+          `            <line number="${number}" hits="${hits}" branch="true" condition-coverage="${pct}% (${taken}/${branchCounts.length})"/>`
+        );
+      } else {
+        lineXml.push(`            <line number="${number}" hits="${hits}" branch="false"/>`);
+      }
+    }
+
+    linesValid += numbers.length;
+    linesCovered += fileLinesCovered;
+    branchesValid += fileBranchesValid;
+    branchesCovered += fileBranchesCovered;
+
+    classes.push([
+      `        <class name="${escapeXml(file)}" filename="${escapeXml(file)}" line-rate="${rate(fileLinesCovered, numbers.length)}" branch-rate="${rate(fileBranchesCovered, fileBranchesValid)}" complexity="0">`,
+      '          <methods/>',
+      '          <lines>',
+      ...lineXml,
+      '          </lines>',
+      '        </class>',
+    ].join('\n'));
+  }
+
+  const lineRate = rate(linesCovered, linesValid);
+  const branchRate = rate(branchesCovered, branchesValid);
+
+  return [
+    '<?xml version="1.0" ?>',
+    '<!DOCTYPE coverage SYSTEM "http://cobertura.sourceforge.net/xml/coverage-04.dtd">',
+    `<coverage line-rate="${lineRate}" branch-rate="${branchRate}" lines-covered="${linesCovered}" lines-valid="${linesValid}" branches-covered="${branchesCovered}" branches-valid="${branchesValid}" complexity="0" version="1" timestamp="${Math.floor(timestamp / 1000)}">`,
+    '  <sources>',
+    '    <source>.</source>',
+    '  </sources>',
+    '  <packages>',
+    `    <package name="rtl" line-rate="${lineRate}" branch-rate="${branchRate}" complexity="0">`,
+    '      <classes>',
+    ...classes,
+    '      </classes>',
+    '    </package>',
+    '  </packages>',
+    '</coverage>',
+    '',
+  ].join('\n');
+}
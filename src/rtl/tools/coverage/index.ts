@@ -0,0 +1,26 @@
+/**
+ * Coverage Tools
+ *
+ * Parsers and reports for simulator coverage databases:
+ * - verilator (coverage.dat)
+ * - merged coverage database across runs
+ * - LCOV / Cobertura export
+ */
+
+export {
+  parseCoverageDat,
+  formatCoverageDat,
+  mergeCoveragePoints,
+  summarizeCoverage,
+  toLineRanges,
+} from './verilator.js';
+export type { CoveragePoint } from './verilator.js';
+export { toLcov, toCobertura } from './export.js';
+export { CoverageDatabase, openCoverageDatabase } from './database.js';
+export type {
+  CoverageSummary,
+  CoverageRunRecord,
+  CoverageTrendEntry,
+  CoverageFirstHit,
+  CoverageRunMetadata,
+} from './database.js';
@@ -0,0 +1,274 @@
+/**
+ * Verilator Coverage Database Parser
+ *
+ * Parses coverage.dat written by Verilator-built simulations (--coverage).
+ *
+ * Format (one point per line):
+ * # SystemC::Coverage-3
+ * C '\x01f\x02rtl/top.sv\x01l\x0242\x01page\x02v_line/top\x01h\x02tb.dut\x01S\x0242-44\x01' 17
+ *
+ * Each point is a \x01-separated list of key\x02value pairs followed by its hit count.
+ *
+ * https://verilator.org/guide/latest/exe_verilator_coverage.html
+ */
+
+import type {
+  CoverageResult,
+  CoverageMetric,
+  CoverageCount,
+  FileCoverage,
+  ModuleCoverage,
+  LineRange,
+} from '../../types.js';
+
+/**
+ * A single coverage point from coverage.dat
+ */
+export interface CoveragePoint {
+  /** Raw point key, identical across runs of the same build (used for merging) */
+  key: string;
+  file: string;
+  line: number;
+  column?: number;
+  /** Verilator page prefix, e.g. 'v_line', 'v_toggle', 'v_branch', 'v_user' */
+  page: string;
+  /** Metric this point counts towards (null for unsupported kinds like v_expr) */
+  metric: CoverageMetric | null;
+  module?: string;
+  hierarchy?: string;
+  comment?: string;
+  /** Source lines covered by this point (from linescov, falls back to `line`) */
+  lines: number[];
+  count: number;
+}
+
+/** Long key names accepted alongside Verilator's compressed keys */
+const KEY_ALIASES: Record<string, string> = {
+  filename: 'f',
+  lineno: 'l',
+  column: 'n',
+  comment: 'o',
+  hier: 'h',
+  linescov: 'S',
+};
+
+const PAGE_METRICS: Record<string, CoverageMetric> = {
+  v_line: 'line',
+  v_toggle: 'toggle',
+  v_branch: 'branch',
+  v_user: 'functional',
+};
+
+/**
+ * Parse a linescov value ("42-44,47") into line numbers
+ */
+function parseLinesCov(value: string): number[] {
+  const lines: number[] = [];
+
+  for (const part of value.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:-(\d+))?$/);
+    if (!match) continue;
+
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : start;
+    for (let line = start; line <= end; line++) {
+      lines.push(line);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Parse coverage.dat content into coverage points
+ */
+export function parseCoverageDat(content: string): CoveragePoint[] {
+  const points: CoveragePoint[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const match = rawLine.match(/^C '(.*)'\s+(\d+)\s*$/);
+    if (!match) continue;
+
+    const fields: Record<string, string> = {};
+    for (const pair of match[1].split('\x01')) {
+      const sep = pair.indexOf('\x02');
+      if (sep <= 0) continue;
+      const key = pair.slice(0, sep);
+      fields[KEY_ALIASES[key] ?? key] = pair.slice(sep + 1);
+    }
+
+    const page = fields.page ?? '';
+    const [pagePrefix, pageModule] = page.split('/', 2);
+    const line = parseInt(fields.l ?? '0', 10);
+    const linesCov = fields.S ? parseLinesCov(fields.S) : [];
+
+    points.push({
+      key: match[1],
+      file: fields.f ?? '',
+      line,
+      column: fields.n !== undefined ? parseInt(fields.n, 10) : undefined,
+      page: pagePrefix,
+      metric: PAGE_METRICS[pagePrefix] ?? null,
+      module: pageModule || undefined,
+      hierarchy: fields.h,
+      comment: fields.o,
+      lines: linesCov.length > 0 ? linesCov : line > 0 ? [line] : [],
+      count: parseInt(match[2], 10),
+    });
+  }
+
+  return points;
+}
+
+/**
+ * Serialize coverage points back to coverage.dat format
+ */
+export function formatCoverageDat(points: CoveragePoint[]): string {
+  const lines = ['# SystemC::Coverage-3'];
+  for (const point of points) {
+    lines.push(`C '${point.key}' ${point.count}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Merge coverage points from several runs, summing hit counts per point key
+ */
+export function mergeCoveragePoints(...runs: CoveragePoint[][]): CoveragePoint[] {
+  const merged = new Map<string, CoveragePoint>();
+
+  for (const points of runs) {
+    for (const point of points) {
+      const existing = merged.get(point.key);
+      if (existing) {
+        existing.count += point.count;
+      } else {
+        merged.set(point.key, { ...point, lines: [...point.lines] });
+      }
+    }
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Collapse line numbers into sorted inclusive ranges
+ */
+export function toLineRanges(lines: Iterable<number>): LineRange[] {
+  const sorted = [...new Set(lines)].sort((a, b) => a - b);
+  const ranges: LineRange[] = [];
+
+  for (const line of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && line === last.end + 1) {
+      last.end = line;
+    } else {
+      ranges.push({ start: line, end: line });
+    }
+  }
+
+  return ranges;
+}
+
+function percent(count: CoverageCount | undefined): number {
+  if (!count || count.total === 0) {
+    return 0;
+  }
+  return Math.round((count.covered / count.total) * 10000) / 100;
+}
+
+function countByMetric(points: CoveragePoint[]): Partial<Record<CoverageMetric, CoverageCount>> {
+  const counts: Partial<Record<CoverageMetric, CoverageCount>> = {};
+
+  for (const point of points) {
+    if (!point.metric) continue;
+    const count = counts[point.metric] ?? (counts[point.metric] = { covered: 0, total: 0 });
+    count.total++;
+    if (point.count > 0) {
+      count.covered++;
+    }
+  }
+
+  return counts;
+}
+
+function groupBy(points: CoveragePoint[], key: (point: CoveragePoint) => string | undefined): Map<string, CoveragePoint[]> {
+  const groups = new Map<string, CoveragePoint[]>();
+
+  for (const point of points) {
+    const name = key(point);
+    if (!name) continue;
+    const group = groups.get(name) ?? [];
+    group.push(point);
+    groups.set(name, group);
+  }
+
+  return groups;
+}
+
+/**
+ * Lines that belong to at least one unhit line point and no hit one
+ */
+function uncoveredLines(points: CoveragePoint[]): LineRange[] {
+  const hit = new Set<number>();
+  const missed = new Set<number>();
+
+  for (const point of points) {
+    if (point.metric !== 'line') continue;
+    for (const line of point.lines) {
+      (point.count > 0 ? hit : missed).add(line);
+    }
+  }
+
+  return toLineRanges([...missed].filter(line => !hit.has(line)));
+}
+
+/**
+ * Summarize coverage points into a CoverageResult with per-file and per-module breakdowns
+ */
+export function summarizeCoverage(points: CoveragePoint[]): CoverageResult {
+  const counts = countByMetric(points);
+
+  const files: FileCoverage[] = [...groupBy(points, p => p.file)]
+    .map(([file, filePoints]) => {
+      const fileCounts = countByMetric(filePoints);
+      return {
+        file,
+        line: percent(fileCounts.line),
+        toggle: percent(fileCounts.toggle),
+        branch: percent(fileCounts.branch),
+        counts: fileCounts,
+        uncoveredLines: uncoveredLines(filePoints),
+      };
+    })
+    .sort((a, b) => a.file.localeCompare(b.file));
+
+  const modules: ModuleCoverage[] = [...groupBy(points, p => p.module)]
+    .map(([module, modulePoints]) => {
+      const moduleCounts = countByMetric(modulePoints);
+      return {
+        module,
+        line: percent(moduleCounts.line),
+        toggle: percent(moduleCounts.toggle),
+        branch: percent(moduleCounts.branch),
+        counts: moduleCounts,
+      };
+    })
+    .sort((a, b) => a.module.localeCompare(b.module));
+
+  const result: CoverageResult = {
+    line: percent(counts.line),
+    toggle: percent(counts.toggle),
+    fsm: 0,  // Verilator does not collect FSM coverage
+    branch: percent(counts.branch),
+    counts,
+    files,
+    modules,
+  };
+
+  if (counts.functional) {
+    result.functional = percent(counts.functional);
+  }
+
+  return result;
+}
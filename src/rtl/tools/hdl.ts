@@ -0,0 +1,107 @@
+/**
+ * HDL Helpers
+ *
+ * Which HDL a design is written in, which tools read it, and the GHDL
+ * command-line flags shared by VHDL lint, simulation and synthesis.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RTLLanguage, VhdlConfig } from '../types.js';
+import type { HdlFamily, ToolRunner } from './types.js';
+
+const VHDL_EXTENSIONS = new Set(['.vhd', '.vhdl']);
+const VERILOG_EXTENSIONS = new Set(['.v', '.vh', '.sv', '.svh']);
+
+/**
+ * Whether a file is VHDL, by extension
+ */
+export function isVhdlFile(file: string): boolean {
+  return VHDL_EXTENSIONS.has(path.extname(file).toLowerCase());
+}
+
+/**
+ * HDL family of a design
+ *
+ * VHDL when any VHDL file is compiled, Verilog when only Verilog files are;
+ * without HDL files (e.g. only a testbench name), the configured language.
+ */
+export function designHdl(files: string[], language?: RTLLanguage): HdlFamily {
+  const hdlFiles = files.filter(file => isVhdlFile(file) || VERILOG_EXTENSIONS.has(path.extname(file).toLowerCase()));
+  if (hdlFiles.length === 0) {
+    return language === 'vhdl' ? 'vhdl' : 'verilog';
+  }
+  return hdlFiles.some(isVhdlFile) ? 'vhdl' : 'verilog';
+}
+
+/**
+ * Whether a tool reads an HDL family
+ */
+export function readsHdl(tool: ToolRunner, hdl: HdlFamily): boolean {
+  return (tool.hdls ?? ['verilog']).includes(hdl);
+}
+
+/**
+ * VHDL settings with library files resolved against the workspace root
+ */
+export function resolveVhdlConfig(config: VhdlConfig = {}, workspaceRoot: string): VhdlConfig {
+  return {
+    ...config,
+    libraries: Object.fromEntries(
+      Object.entries(config.libraries ?? {}).map(([name, files]) => [name, files.map(file => path.resolve(workspaceRoot, file))])
+    ),
+  };
+}
+
+/**
+ * GHDL flags for the standard, library and library directory
+ *
+ * The same flags must be given to every analyze (-a), elaborate (-e) and
+ * run (-r) command of a design.
+ *
+ * @param libraryDir Directory holding the analyzed libraries (--workdir, -P)
+ * @param library Library to analyze into (default: the work library)
+ */
+export function ghdlArgs(config: VhdlConfig, libraryDir: string, library: string = config.workLibrary ?? 'work'): string[] {
+  return [
+    ...(config.standard ? [`--std=${config.standard}`] : []),
+    `--work=${library}`,
+    `--workdir=${libraryDir}`,
+    `-P${libraryDir}`,
+    ...(config.analyzeArgs ?? []),
+  ];
+}
+
+/**
+ * Arguments analyzing each configured library (ghdl -a), in config order
+ */
+export function ghdlLibraryArgs(config: VhdlConfig, libraryDir: string): string[][] {
+  return Object.entries(config.libraries ?? {})
+    .filter(([, files]) => files.length > 0)
+    .map(([library, files]) => ['-a', ...ghdlArgs(config, libraryDir, library), ...files]);
+}
+
+/**
+ * Entity to elaborate: the last entity that no file instantiates
+ *
+ * Testbenches come last in compile order and are never instantiated.
+ */
+export function inferVhdlTop(files: string[]): string | undefined {
+  const entities: string[] = [];
+  const instantiated = new Set<string>();
+
+  for (const file of files.filter(isVhdlFile)) {
+    if (!fs.existsSync(file)) continue;
+    const text = fs.readFileSync(file, 'utf8').replace(/--.*$/gm, '');
+    for (const match of text.matchAll(/^\s*entity\s+(\w+)\s+is\b/gim)) {
+      entities.push(match[1].toLowerCase());
+    }
+    // u_fifo : entity work.fifo port map (...) / u_fifo : fifo generic map (...)
+    const instance = /:\s*(?:entity\s+(?:\w+\.)?(\w+)(?:\s*\(\s*\w+\s*\))?|(?:component\s+)?(\w+))\s+(?:generic|port)\s+map\b/gi;
+    for (const match of text.matchAll(instance)) {
+      instantiated.add((match[1] ?? match[2]).toLowerCase());
+    }
+  }
+
+  return entities.filter(entity => !instantiated.has(entity)).pop();
+}
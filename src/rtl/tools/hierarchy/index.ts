@@ -0,0 +1,350 @@
+/**
+ * Hierarchy Manager
+ *
+ * Builds the module instance tree from an elaborating tool:
+ * - slang (--ast-json, primary)
+ * - verilator (--xml-only)
+ *
+ * Uninstantiated modules are the top candidates, classified as testbench
+ * or design tops so simulation and synthesis can pick the right one.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HierarchyTool } from '../types.js';
+import type {
+  HierarchyNode,
+  HierarchyResult,
+  ModuleInfo,
+  RTLProjectConfig,
+  SourceSet,
+  TopModule,
+} from '../../types.js';
+import { loadRTLConfig, resolveToolPreference } from '../../config/index.js';
+import { SourceSetError, resolveSourceSet } from '../../sources/index.js';
+
+export { SlangHierarchy, parseSlangAstJson } from './slang.js';
+export { VerilatorHierarchy, parseVerilatorXml } from './verilator.js';
+
+/** Module names that mark a testbench (tb_fifo, fifo_tb, testbench, test_top, ...) */
+const TESTBENCH_NAME = /^(tb|test|testbench|bench)(_|$)|_(tb|test|testbench|bench)$|testbench/i;
+
+/**
+ * Modules, top candidates and instance trees of a design
+ */
+export type DesignHierarchy = Pick<HierarchyResult, 'modules' | 'tops' | 'tree' | 'undefinedModules'>;
+
+/**
+ * Hierarchy building options
+ */
+export interface HierarchyOptions {
+  /** Directories whose uninstantiated modules are testbench tops */
+  testbenchDirs?: string[];
+}
+
+function classifyTop(module: ModuleInfo, testbenchDirs: string[]): TopModule {
+  if (TESTBENCH_NAME.test(module.name)) {
+    return { name: module.name, kind: 'testbench', reason: 'testbench module name' };
+  }
+  const file = module.file ? path.resolve(module.file) : undefined;
+  const dir = file && testbenchDirs.find(tbDir => file.startsWith(path.resolve(tbDir) + path.sep));
+  if (dir) {
+    return { name: module.name, kind: 'testbench', reason: `in testbench directory ${dir}` };
+  }
+  if (module.ports === 0) {
+    return { name: module.name, kind: 'testbench', reason: 'no ports' };
+  }
+  return { name: module.name, kind: 'design', reason: `${module.ports} port(s)` };
+}
+
+/**
+ * Build the instance trees of every uninstantiated module
+ *
+ * Instances of modules without a definition become leaves with
+ * `defined: false`; recursive instantiation stops at the repeated module.
+ */
+export function buildHierarchy(modules: ModuleInfo[], options: HierarchyOptions = {}): DesignHierarchy {
+  const byName = new Map(modules.map(module => [module.name, module]));
+  const instantiated = new Set(modules.flatMap(module => module.instances.map(instance => instance.module)));
+  const undefinedModules = [...instantiated].filter(name => !byName.has(name));
+
+  const expand = (instance: string, module: string, parent: string, ancestors: Set<string>, location: { file?: string; line?: number }): HierarchyNode => {
+    const definition = byName.get(module);
+    const nodePath = parent ? `${parent}.${instance}` : instance;
+    const node: HierarchyNode = { instance, module, path: nodePath, ...location, defined: !!definition, children: [] };
+    if (definition && !ancestors.has(module)) {
+      const nested = new Set(ancestors).add(module);
+      node.children = definition.instances.map(child =>
+        expand(child.name, child.module, nodePath, nested, { file: child.file, line: child.line })
+      );
+    }
+    return node;
+  };
+
+  const topModules = modules.filter(module => !instantiated.has(module.name));
+  const tops = topModules.map(module => classifyTop(module, options.testbenchDirs ?? []));
+  const tree = topModules.map(module => expand(module.name, module.name, '', new Set(), { file: module.file, line: module.line }));
+
+  return { modules, tops, tree, undefinedModules };
+}
+
+function countInstances(node: HierarchyNode): number {
+  return node.children.reduce((sum, child) => sum + 1 + countInstances(child), 0);
+}
+
+/**
+ * Pick the top module of a kind
+ *
+ * Several candidates: the one with the largest instance tree. No design
+ * top: the largest module instantiated by a testbench top (the DUT). No
+ * testbench top: the design top (C++ or cocotb testbenches).
+ */
+export function inferTopModule(
+  hierarchy: Pick<HierarchyResult, 'tops' | 'tree'>,
+  kind: TopModule['kind']
+): string | undefined {
+  const largest = (nodes: HierarchyNode[]) =>
+    [...nodes].sort((a, b) => countInstances(b) - countInstances(a))[0]?.module;
+  const treeOf = (name: string) => hierarchy.tree.find(node => node.module === name);
+
+  const candidates = hierarchy.tops.filter(top => top.kind === kind).map(top => treeOf(top.name)!).filter(Boolean);
+  if (candidates.length > 0) {
+    return largest(candidates);
+  }
+
+  if (kind === 'design') {
+    const testbenches = hierarchy.tops.map(top => treeOf(top.name)!).filter(Boolean);
+    return largest(testbenches.flatMap(node => node.children.filter(child => child.defined)));
+  }
+  return largest(hierarchy.tree);
+}
+
+/**
+ * Render the instance trees as an indented outline
+ *
+ * @param root Directory file locations are shown relative to
+ */
+export function renderHierarchy(hierarchy: Pick<HierarchyResult, 'tops' | 'tree'>, root?: string): string {
+  const where = (node: HierarchyNode) => {
+    if (!node.file) return '';
+    const file = root ? path.relative(root, node.file) : node.file;
+    return `  ${file}${node.line ? `:${node.line}` : ''}`;
+  };
+  const lines: string[] = [];
+
+  const renderChildren = (node: HierarchyNode, indent: string) => {
+    node.children.forEach((child, index) => {
+      const last = index === node.children.length - 1;
+      const label = `${child.instance} (${child.module})${child.defined ? '' : ' [no definition]'}`;
+      lines.push(`${indent}${last ? '└── ' : '├── '}${label}${where(child)}`);
+      renderChildren(child, indent + (last ? '    ' : '│   '));
+    });
+  };
+
+  for (const node of hierarchy.tree) {
+    const top = hierarchy.tops.find(candidate => candidate.name === node.module);
+    lines.push(`${node.module} [${top ? `${top.kind} top: ${top.reason}` : 'top'}]${where(node)}`);
+    renderChildren(node, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Fill in missing module locations from `module <name>` declarations
+ */
+function locateModules(modules: ModuleInfo[], files: string[]): void {
+  const missing = new Map(modules.filter(module => !module.file).map(module => [module.name, module]));
+  for (const file of files) {
+    if (missing.size === 0) return;
+    let text: string;
+    try {
+      text = fs.readFileSync(file, 'utf8');
+    } catch {
+      continue;
+    }
+    text.split('\n').forEach((line, index) => {
+      const match = line.match(/^\s*(?:macromodule|module)\s+(?:(?:automatic|static)\s+)?(\w+)/);
+      const module = match && missing.get(match[1]);
+      if (module) {
+        module.file = path.resolve(file);
+        module.line = index + 1;
+        missing.delete(match[1]);
+      }
+    });
+  }
+}
+
+export class HierarchyManager {
+  private tools: Map<string, HierarchyTool>;
+  private preferredTool?: string;
+  private resolveSources?: () => Promise<SourceSet>;
+  private testbenchDirs: string[] = [];
+
+  constructor() {
+    this.tools = new Map();
+  }
+
+  /**
+   * Register a hierarchy tool
+   */
+  register(name: string, tool: HierarchyTool): void {
+    this.tools.set(name, tool);
+  }
+
+  /**
+   * Set preferred tool
+   */
+  setPreferred(name: string): void {
+    if (!this.tools.has(name)) {
+      throw new Error(`Hierarchy tool '${name}' not registered`);
+    }
+    this.preferredTool = name;
+  }
+
+  /**
+   * Detect installed hierarchy tools
+   */
+  async detectInstalledTools(): Promise<string[]> {
+    const installed: string[] = [];
+
+    for (const [name, tool] of this.tools) {
+      try {
+        if (await tool.isInstalled()) {
+          installed.push(name);
+        }
+      } catch (error) {
+        console.warn(`Failed to check if ${name} is installed: ${error}`);
+      }
+    }
+
+    return installed;
+  }
+
+  /**
+   * Resolve include dirs, defines and default files before every run
+   */
+  setSources(resolve: () => Promise<SourceSet>): void {
+    this.resolveSources = resolve;
+  }
+
+  /**
+   * Directories whose uninstantiated modules are testbench tops
+   */
+  setTestbenchDirs(dirs: string[]): void {
+    this.testbenchDirs = dirs;
+  }
+
+  /**
+   * Elaborate the design and build its hierarchy
+   *
+   * @param files Design and testbench files (default: the files of the source set)
+   * @param preferredTool Override preferred tool for this run
+   */
+  async extract(files: string[], preferredTool?: string): Promise<HierarchyResult> {
+    const empty = { modules: [], tops: [], tree: [], undefinedModules: [] };
+    const tool = await this.selectTool(preferredTool);
+
+    if (!tool) {
+      return { success: false, ...empty, stderr: 'No hierarchy tool available (install slang or verilator)' };
+    }
+
+    let sources: SourceSet | undefined;
+    try {
+      sources = await this.resolveSources?.();
+    } catch (error) {
+      if (!(error instanceof SourceSetError)) throw error;
+      return { success: false, ...empty, errors: error.issues, stderr: error.message };
+    }
+
+    const designFiles = files.length > 0 ? files : sources?.files ?? [];
+    if (designFiles.length === 0) {
+      return { success: false, ...empty, stderr: 'No files to elaborate (pass files or configure sources in .rtl-config.json)' };
+    }
+
+    try {
+      const { modules, ...result } = await tool.elaborate(designFiles, sources);
+      if (modules.length === 0) {
+        return { ...result, success: false, ...empty };
+      }
+
+      locateModules(modules, designFiles);
+      return { ...result, ...buildHierarchy(modules, { testbenchDirs: this.testbenchDirs }) };
+    } catch (error: any) {
+      return { success: false, ...empty, stderr: error.message };
+    }
+  }
+
+  /**
+   * Select appropriate hierarchy tool
+   *
+   * Priority:
+   * 1. User-specified preferred tool
+   * 2. Manager's preferred tool
+   * 3. First installed tool
+   */
+  private async selectTool(preferred?: string): Promise<HierarchyTool | null> {
+    for (const name of [preferred, this.preferredTool]) {
+      const tool = name ? this.tools.get(name) : undefined;
+      if (tool && await tool.isInstalled()) {
+        return tool;
+      }
+    }
+
+    for (const tool of this.tools.values()) {
+      if (await tool.isInstalled()) {
+        return tool;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Get available tools
+   */
+  getAvailableTools(): string[] {
+    return Array.from(this.tools.keys());
+  }
+}
+
+/**
+ * Create default hierarchy manager with all supported tools
+ *
+ * @param config RTL project config (default: loaded from the current workspace)
+ * @param workspaceRoot Project root for filelists and the testbench directory (default: cwd)
+ */
+export async function createHierarchyManager(
+  config?: RTLProjectConfig,
+  workspaceRoot: string = process.cwd()
+): Promise<HierarchyManager> {
+  const rtlConfig = config ?? await loadRTLConfig(workspaceRoot);
+  const manager = new HierarchyManager();
+
+  // Dynamically import tools to avoid loading unused dependencies
+  try {
+    const { SlangHierarchy } = await import('./slang.js');
+    manager.register('slang', new SlangHierarchy());
+  } catch (error) {
+    console.warn('Failed to load slang hierarchy:', error);
+  }
+
+  try {
+    const { VerilatorHierarchy } = await import('./verilator.js');
+    manager.register('verilator', new VerilatorHierarchy());
+  } catch (error) {
+    console.warn('Failed to load verilator hierarchy:', error);
+  }
+
+  // Set preference: configured lint tool when it elaborates, then slang (full SystemVerilog)
+  const installed = await manager.detectInstalledTools();
+  const preferred = resolveToolPreference(installed, rtlConfig.tools.lint?.preferred, 'slang', 'verilator');
+  if (preferred) {
+    manager.setPreferred(preferred);
+  }
+
+  manager.setTestbenchDirs([path.resolve(workspaceRoot, rtlConfig.paths.testbench)]);
+  manager.setSources(() => resolveSourceSet(rtlConfig, workspaceRoot, 'lint'));
+
+  return manager;
+}
@@ -0,0 +1,157 @@
+/**
+ * slang Hierarchy Extraction
+ *
+ * `slang --ast-json` elaborates every uninstantiated module as a top and
+ * dumps the instance tree; module bodies are read once per definition.
+ *
+ * https://github.com/MikePopoloski/slang
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { HierarchyTool, ToolInput } from '../types.js';
+import type { ElaborationResult, ModuleInfo, SourceOptions, ToolResult } from '../../types.js';
+import { sourceArgs } from '../../sources/index.js';
+
+const execAsync = promisify(exec);
+
+type AstNode = Record<string, any>;
+
+/** Port symbol kinds of an instance body */
+const PORT_KINDS = new Set(['Port', 'MultiPort', 'InterfacePort']);
+
+/**
+ * Read modules and their instances from `slang --ast-json` output
+ */
+export function parseSlangAstJson(json: string | AstNode): ModuleInfo[] {
+  const root: AstNode = typeof json === 'string' ? JSON.parse(json) : json;
+  const modules = new Map<string, ModuleInfo>();
+
+  const location = (node: AstNode): { file?: string; line?: number } => (
+    typeof node.source_file === 'string'
+      ? { file: node.source_file, line: typeof node.source_line === 'number' ? node.source_line : undefined }
+      : {}
+  );
+
+  const readBody = (body: AstNode): string => {
+    const name = String(body.name);
+    if (modules.has(name)) return name;
+
+    const module: ModuleInfo = { name, ...location(body), ports: 0, instances: [] };
+    modules.set(name, module);
+    readMembers(body.members ?? [], module, '');
+    return name;
+  };
+
+  const readMembers = (members: AstNode[], owner: ModuleInfo, prefix: string) => {
+    for (const member of members) {
+      switch (member.kind) {
+        case 'Instance':
+          if (member.body) {
+            owner.instances.push({ name: prefix + member.name, module: readBody(member.body), ...location(member) });
+          }
+          break;
+        case 'InstanceArray': {
+          const elements: AstNode[] = member.elements ?? member.members ?? [];
+          const first = elements.find(element => element.body);
+          if (first) {
+            owner.instances.push({ name: `${prefix}${member.name}[${elements.length}]`, module: readBody(first.body), ...location(member) });
+          }
+          break;
+        }
+        case 'GenerateBlock':
+          if (!member.isUninstantiated) {
+            readMembers(member.members ?? [], owner, member.name ? `${prefix}${member.name}.` : prefix);
+          }
+          break;
+        case 'GenerateBlockArray':
+          (member.members ?? []).forEach((block: AstNode, index: number) => {
+            if (block.kind === 'GenerateBlock' && !block.isUninstantiated) {
+              readMembers(block.members ?? [], owner, `${prefix}${member.name}[${block.constructIndex ?? index}].`);
+            }
+          });
+          break;
+        default:
+          if (PORT_KINDS.has(member.kind)) owner.ports++;
+      }
+    }
+  };
+
+  for (const member of root.members ?? []) {
+    if (member.kind === 'Instance' && member.body) {
+      readBody(member.body);
+    }
+  }
+
+  return [...modules.values()];
+}
+
+export class SlangHierarchy implements HierarchyTool {
+  async isInstalled(): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync('slang --version');
+      return stdout.includes('slang');
+    } catch {
+      return false;
+    }
+  }
+
+  async getVersion(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('slang --version');
+      const match = stdout.match(/slang\s+version\s+([\d.]+)/i);
+      return match ? match[1] : 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async run(input: ToolInput): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    const cmd = `slang ${args.join(' ')}`;
+
+    try {
+      const { stdout, stderr } = await execAsync(cmd, {
+        env: { ...process.env, ...input.env },
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return { success: true, stdout, stderr, exitCode: 0, command: cmd };
+    } catch (error: any) {
+      return {
+        success: false,
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: error.code || 1,
+        errors: error.stderr ? [error.stderr] : [error.message],
+        command: cmd,
+      };
+    }
+  }
+
+  /**
+   * Elaborate with --ast-json
+   *
+   * Unknown modules (vendor cells, black boxes) are left as leaf instances.
+   */
+  async elaborate(files: string[], sources?: SourceOptions): Promise<ElaborationResult> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtl-hierarchy-'));
+    const jsonFile = path.join(dir, 'ast.json');
+
+    try {
+      const result = await this.run({
+        files,
+        args: ['--ignore-unknown-modules', '--ast-json', jsonFile, ...sourceArgs(sources, 'slang')],
+      });
+
+      if (!fs.existsSync(jsonFile)) {
+        return { ...result, success: false, modules: [] };
+      }
+      return { ...result, modules: parseSlangAstJson(fs.readFileSync(jsonFile, 'utf8')) };
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Verilator Hierarchy Extraction
+ *
+ * `verilator --xml-only` writes the elaborated netlist: one <module> per
+ * (parameterized) definition with its <instance> cells. Parameterized
+ * copies (fifo__W8) are folded back into their original module name.
+ *
+ * https://www.veripool.org/verilator/
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { HierarchyTool, ToolInput } from '../types.js';
+import type { ElaborationResult, ModuleInfo, SourceOptions, ToolResult } from '../../types.js';
+import { sourceArgs } from '../../sources/index.js';
+
+const execAsync = promisify(exec);
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)="([^"]*)"/g)) {
+    attrs[match[1]] = decodeXml(match[2]);
+  }
+  return attrs;
+}
+
+/**
+ * Read modules and their instances from `verilator --xml-only` output
+ */
+export function parseVerilatorXml(xml: string): ModuleInfo[] {
+  const files = new Map<string, string>();
+  for (const match of xml.matchAll(/<file\s([^>]*?)\/?>/g)) {
+    const attrs = attributes(match[1]);
+    if (attrs.id && attrs.filename) files.set(attrs.id, attrs.filename);
+  }
+
+  // loc="<file id>,<first line>,<first column>,<last line>,<last column>"
+  const location = (loc: string | undefined): { file?: string; line?: number } => {
+    const [id, line] = (loc ?? '').split(',');
+    const file = files.get(id);
+    return file && !file.startsWith('<') ? { file, line: Number(line) } : {};
+  };
+
+  const originalNames = new Map<string, string>();
+  const modules = new Map<string, ModuleInfo>();
+  const blocks: Array<{ name: string; body: string }> = [];
+
+  for (const match of xml.matchAll(/<module\s([^>]*?)(?:\/>|>([\s\S]*?)<\/module>)/g)) {
+    const attrs = attributes(match[1]);
+    const name = attrs.origName ?? attrs.name;
+    if (!name || name.startsWith('$') || name.startsWith('__0')) continue;
+    originalNames.set(attrs.name, name);
+    if (!modules.has(name)) {
+      modules.set(name, { name, ...location(attrs.loc), ports: 0, instances: [] });
+      blocks.push({ name, body: match[2] ?? '' });
+    }
+  }
+
+  for (const { name, body } of blocks) {
+    const module = modules.get(name)!;
+    module.ports = [...body.matchAll(/<var\s[^>]*\bpinIndex="/g)].length;
+    for (const match of body.matchAll(/<instance\s([^>]*?)\/?>/g)) {
+      const attrs = attributes(match[1]);
+      module.instances.push({
+        name: attrs.origName ?? attrs.name,
+        module: originalNames.get(attrs.defName) ?? attrs.defName,
+        ...location(attrs.loc),
+      });
+    }
+  }
+
+  return [...modules.values()];
+}
+
+export class VerilatorHierarchy implements HierarchyTool {
+  async isInstalled(): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync('verilator --version');
+      return stdout.includes('Verilator');
+    } catch {
+      return false;
+    }
+  }
+
+  async getVersion(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('verilator --version');
+      const match = stdout.match(/Verilator\s+([\d.]+)/);
+      return match ? match[1] : 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async run(input: ToolInput): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    const cmd = `verilator ${args.join(' ')}`;
+
+    try {
+      const { stdout, stderr } = await execAsync(cmd, {
+        env: { ...process.env, ...input.env },
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return { success: true, stdout, stderr, exitCode: 0, command: cmd };
+    } catch (error: any) {
+      return {
+        success: false,
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: error.code || 1,
+        errors: [error.message],
+        command: cmd,
+      };
+    }
+  }
+
+  /**
+   * Elaborate with --xml-only
+   *
+   * Warnings (including MULTITOP for several uninstantiated modules) are
+   * not fatal.
+   */
+  async elaborate(files: string[], sources?: SourceOptions): Promise<ElaborationResult> {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtl-hierarchy-'));
+    const xmlFile = path.join(dir, 'netlist.xml');
+
+    try {
+      const result = await this.run({
+        files,
+        args: ['--xml-only', '--xml-output', xmlFile, '--Mdir', dir, '-Wno-fatal', ...sourceArgs(sources, 'verilator')],
+      });
+
+      if (!result.success || !fs.existsSync(xmlFile)) {
+        return { ...result, success: false, modules: [] };
+      }
+      return { ...result, modules: parseVerilatorXml(fs.readFileSync(xmlFile, 'utf8')) };
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+}
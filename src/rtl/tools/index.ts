@@ -2,16 +2,26 @@
  * RTL Tools Abstraction Layer
  *
  * Provides unified interface for:
- * - Lint tools (verilator, verible, slang, spyglass)
- * - Simulation tools (verilator, iverilog, xrun, vcs, questa)
- * - Synthesis tools (yosys, dc, genus)
- * - Coverage tools (TODO)
- * - Waveform tools (TODO)
+ * - Lint tools (verilator, verible, slang, spyglass, ghdl)
+ * - Simulation tools (verilator, iverilog, xrun, vcs, questa, ghdl)
+ * - Synthesis tools (yosys, yosys with the ghdl plugin, dc, genus)
+ * - HDL detection (Verilog or VHDL) for tool selection
+ * - Commercial tool config (tools.commercial) and license failure detection
+ * - Timing analysis (nextpnr, OpenSTA)
+ * - Module hierarchy and top inference (slang, verilator)
+ * - Coverage tools (verilator coverage.dat)
+ * - Run directories and manifests
+ * - Waveform queries (VCD, FST via fst2vcd)
  */
 
 export * from './types.js';
+export * from './hdl.js';
+export * from './commercial.js';
 export * from './lint/index.js';
 export * from './simulation/index.js';
 export * from './synthesis/index.js';
-// export * from './coverage/index.js';
-// export * from './waveform/index.js';
+export * from './timing/index.js';
+export * from './hierarchy/index.js';
+export * from './coverage/index.js';
+export * from './run.js';
+export * from './waveform/index.js';
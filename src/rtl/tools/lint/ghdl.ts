@@ -0,0 +1,160 @@
+/**
+ * GHDL Lint Tool
+ *
+ * GHDL is an open-source VHDL analyzer, compiler and simulator.
+ * `ghdl -s` runs the full analysis (syntax and semantics) without
+ * generating code.
+ *
+ * https://github.com/ghdl/ghdl
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { HdlFamily, LintTool, ToolInput } from '../types.js';
+import type { LintResult, LintWarning, LintError, SourceOptions, ToolResult, VhdlConfig } from '../../types.js';
+import { ghdlArgs, ghdlLibraryArgs, isVhdlFile } from '../hdl.js';
+
+const execAsync = promisify(exec);
+
+export class GhdlLint implements LintTool {
+  readonly hdls: HdlFamily[] = ['vhdl'];
+  private config: VhdlConfig;
+
+  /**
+   * @param config VHDL settings with library files resolved (resolveVhdlConfig)
+   */
+  constructor(config: VhdlConfig = {}) {
+    this.config = config;
+  }
+
+  async isInstalled(): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync('ghdl --version');
+      return stdout.includes('GHDL');
+    } catch {
+      return false;
+    }
+  }
+
+  async getVersion(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('ghdl --version');
+      const match = stdout.match(/GHDL\s+([\d.]+)/);
+      return match ? match[1] : 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async run(input: ToolInput): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    const cmd = `ghdl ${args.join(' ')}`;
+
+    try {
+      const { stdout, stderr } = await execAsync(cmd, {
+        env: { ...process.env, ...input.env },
+      });
+      return {
+        success: true,
+        stdout,
+        stderr,
+        exitCode: 0,
+        command: cmd,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: error.code || 1,
+        errors: [error.message],
+        command: cmd,
+      };
+    }
+  }
+
+  /**
+   * Check VHDL files
+   *
+   * Configured libraries are analyzed first into a scratch directory so
+   * the design's `library`/`use` clauses resolve. Verilog files in the
+   * list are skipped.
+   */
+  async lint(files: string[], _sources?: SourceOptions): Promise<LintResult> {
+    const vhdlFiles = files.filter(isVhdlFile);
+    if (vhdlFiles.length === 0) {
+      return { success: false, warnings: [], lintErrors: [], stderr: 'No VHDL files to lint' };
+    }
+
+    const libraryDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ghdl-lint-'));
+    try {
+      for (const args of ghdlLibraryArgs(this.config, libraryDir)) {
+        const result = await this.run({ files: [], args });
+        if (!result.success) {
+          return this.parseLintOutput(result);
+        }
+      }
+
+      const result = await this.run({ files: vhdlFiles, args: ['-s', ...ghdlArgs(this.config, libraryDir)] });
+      return this.parseLintOutput(result);
+    } finally {
+      await fs.promises.rm(libraryDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Parse GHDL messages
+   *
+   * Format examples:
+   * fifo.vhd:12:8: no declaration for "cnt"
+   * fifo.vhd:12:8:error: no declaration for "cnt"
+   * fifo.vhd:5:14:warning: declaration of "a" hides port "a" [-Whide]
+   */
+  private parseLintOutput(result: ToolResult): LintResult {
+    const warnings: LintWarning[] = [];
+    const errors: LintError[] = [];
+
+    const output = (result.stdout || '') + (result.stderr || '');
+    for (const line of output.split('\n')) {
+      const match = line.match(/^(.+?):(\d+):(\d+):\s*(?:(warning|error|note)\s*:)?\s*(.+)$/);
+      if (!match || match[4] === 'note') continue;
+
+      const [, file, lineStr, columnStr, severity, text] = match;
+      const option = text.match(/\s*\[-W([\w-]+)\]\s*$/);
+      const message = (option ? text.slice(0, option.index) : text).trim();
+
+      if (severity === 'warning') {
+        warnings.push({
+          file,
+          line: parseInt(lineStr, 10),
+          column: parseInt(columnStr, 10),
+          code: option?.[1] ?? 'warning',
+          message,
+          severity: 'warning',
+        });
+      } else {
+        errors.push({
+          file,
+          line: parseInt(lineStr, 10),
+          column: parseInt(columnStr, 10),
+          code: 'error',
+          message,
+          severity: 'error',
+        });
+      }
+    }
+
+    return {
+      // GHDL also fails without a located message, e.g. on a missing file
+      success: result.success && errors.length === 0,
+      warnings,
+      lintErrors: errors,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      command: result.command,
+    };
+  }
+}
@@ -5,15 +5,24 @@
  * - verilator (opensource, primary)
  * - verible (opensource, style)
  * - slang (opensource, semantic)
+ * - ghdl (opensource, VHDL)
  * - spyglass (commercial, comprehensive)
+ *
+ * VHDL designs are checked only by tools that read VHDL. Diagnostics in
+ * Verilog generated by elaboration point back to the Scala source (origin).
  */
 
-import type { LintTool } from '../types.js';
-import type { LintResult } from '../../types.js';
+import type { HdlFamily, LintTool } from '../types.js';
+import type { LintResult, RTLLanguage, RTLProjectConfig, SourceSet } from '../../types.js';
+import { loadRTLConfig, resolveToolPreference } from '../../config/index.js';
+import { SourceSetError, createScalaLocator, resolveSourceSet } from '../../sources/index.js';
+import { designHdl, readsHdl, resolveVhdlConfig } from '../hdl.js';
 
 export class LintManager {
   private tools: Map<string, LintTool>;
   private preferredTool?: string;
+  private resolveSources?: () => Promise<SourceSet>;
+  private language?: RTLLanguage;
 
   constructor() {
     this.tools = new Map();
@@ -55,26 +64,72 @@ export class LintManager {
     return installed;
   }
 
+  /**
+   * Resolve include dirs, defines and default files before every run
+   */
+  setSources(resolve: () => Promise<SourceSet>): void {
+    this.resolveSources = resolve;
+  }
+
+  /**
+   * Configured language, deciding the HDL when no HDL file is given
+   */
+  setLanguage(language: RTLLanguage): void {
+    this.language = language;
+  }
+
   /**
    * Run lint on files
    *
-   * @param files Files to lint
+   * @param files Files to lint (default: the files of the source set)
    * @param preferredTool Override preferred tool for this run
    */
   async lint(files: string[], preferredTool?: string): Promise<LintResult> {
-    const tool = await this.selectTool(preferredTool);
+    let sources: SourceSet | undefined;
+    try {
+      sources = await this.resolveSources?.();
+    } catch (error) {
+      if (!(error instanceof SourceSetError)) throw error;
+      return {
+        success: false,
+        warnings: [],
+        lintErrors: [],
+        errors: error.issues,
+        stderr: error.message,
+      };
+    }
+
+    const lintFiles = files.length > 0 ? files : sources?.files ?? [];
+    if (lintFiles.length === 0) {
+      return {
+        success: false,
+        warnings: [],
+        lintErrors: [],
+        stderr: 'No files to lint (pass files or configure sources in .rtl-config.json)',
+      };
+    }
 
+    const hdl = designHdl(lintFiles, this.language);
+    const tool = await this.selectTool(preferredTool, hdl);
     if (!tool) {
       return {
         success: false,
         warnings: [],
         lintErrors: [],
-        stderr: 'No lint tool available',
+        stderr: hdl === 'vhdl' ? 'No VHDL lint tool available (install GHDL)' : 'No lint tool available',
       };
     }
 
     try {
-      return await tool.lint(files);
+      const result = await tool.lint(lintFiles, sources);
+      if (sources?.elaboration) {
+        const locate = createScalaLocator(sources.elaboration);
+        for (const diagnostic of [...result.warnings, ...result.lintErrors]) {
+          const origin = locate(diagnostic.file, diagnostic.line);
+          if (origin) diagnostic.origin = origin;
+        }
+      }
+      return result;
     } catch (error: any) {
       return {
         success: false,
@@ -88,16 +143,16 @@ export class LintManager {
   /**
    * Select appropriate lint tool
    *
-   * Priority:
+   * Priority, among tools reading the design's HDL:
    * 1. User-specified preferred tool
    * 2. Manager's preferred tool
    * 3. First installed tool
    */
-  private async selectTool(preferred?: string): Promise<LintTool | null> {
+  private async selectTool(preferred?: string, hdl: HdlFamily = 'verilog'): Promise<LintTool | null> {
     // User override
     if (preferred && this.tools.has(preferred)) {
       const tool = this.tools.get(preferred)!;
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
@@ -105,14 +160,14 @@ export class LintManager {
     // Manager's preferred
     if (this.preferredTool && this.tools.has(this.preferredTool)) {
       const tool = this.tools.get(this.preferredTool)!;
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
 
     // First installed
     for (const [name, tool] of this.tools) {
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
@@ -130,8 +185,15 @@ export class LintManager {
 
 /**
  * Create default lint manager with all supported tools
+ *
+ * @param config RTL project config (default: loaded from the current workspace)
+ * @param workspaceRoot Project root for filelists and include paths (default: cwd)
  */
-export async function createLintManager(): Promise<LintManager> {
+export async function createLintManager(
+  config?: RTLProjectConfig,
+  workspaceRoot: string = process.cwd()
+): Promise<LintManager> {
+  const rtlConfig = config ?? await loadRTLConfig(workspaceRoot);
   const manager = new LintManager();
 
   // Dynamically import tools to avoid loading unused dependencies
@@ -156,15 +218,36 @@ export async function createLintManager(): Promise<LintManager> {
     console.warn('Failed to load slang lint:', error);
   }
 
-  // Set default preference: verilator (most widely used)
+  try {
+    const { GhdlLint } = await import('./ghdl.js');
+    manager.register('ghdl', new GhdlLint(resolveVhdlConfig(rtlConfig.vhdl, workspaceRoot)));
+  } catch (error) {
+    console.warn('Failed to load ghdl lint:', error);
+  }
+
+  try {
+    const { SpyglassLint } = await import('./spyglass.js');
+    manager.register('spyglass', new SpyglassLint({ config: rtlConfig.tools.commercial?.spyglass }));
+  } catch (error) {
+    console.warn('Failed to load spyglass lint:', error);
+  }
+
+  // Set preference: configured tool, then verilator (most widely used);
+  // VHDL designs skip to the first installed tool that reads VHDL
   const installed = await manager.detectInstalledTools();
-  if (installed.includes('verilator')) {
-    manager.setPreferred('verilator');
-  } else if (installed.includes('slang')) {
-    manager.setPreferred('slang');
-  } else if (installed.includes('verible')) {
-    manager.setPreferred('verible');
+  const preferred = resolveToolPreference(
+    installed,
+    rtlConfig.tools.lint?.preferred,
+    'verilator',
+    'slang',
+    'verible'
+  );
+  if (preferred) {
+    manager.setPreferred(preferred);
   }
 
+  manager.setSources(() => resolveSourceSet(rtlConfig, workspaceRoot, 'lint'));
+  manager.setLanguage(rtlConfig.language);
+
   return manager;
 }
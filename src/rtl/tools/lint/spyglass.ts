@@ -0,0 +1,177 @@
+/**
+ * SpyGlass Lint Tool
+ *
+ * Synopsys SpyGlass runs the lint/lint_rtl goal in batch mode from a
+ * generated project file; violations are read from moresimple.rpt.
+ *
+ * https://www.synopsys.com/verification/static-and-formal-verification/spyglass.html
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { HdlFamily, LintTool, ToolInput } from '../types.js';
+import type { LintResult, LintWarning, LintError, SourceOptions, ToolConfig, ToolResult } from '../../types.js';
+import { isVhdlFile } from '../hdl.js';
+import { probeTool, runToolCommand, toolExecutable } from '../commercial.js';
+
+/** Goal run by lint() */
+const LINT_GOAL = 'lint/lint_rtl';
+
+export interface SpyglassLintOptions {
+  /** Executable, extra args and env (tools.commercial.spyglass) */
+  config?: ToolConfig;
+}
+
+export class SpyglassLint implements LintTool {
+  readonly hdls: HdlFamily[] = ['verilog', 'vhdl'];
+  private config?: ToolConfig;
+
+  constructor(options: SpyglassLintOptions = {}) {
+    this.config = options.config;
+  }
+
+  private get command(): string {
+    return toolExecutable(this.config, 'spyglass');
+  }
+
+  async isInstalled(): Promise<boolean> {
+    const output = await probeTool(`${this.command} -version`, this.config);
+    return output !== undefined && /SpyGlass/i.test(output);
+  }
+
+  async getVersion(): Promise<string> {
+    const output = await probeTool(`${this.command} -version`, this.config);
+    const match = output?.match(/SpyGlass\s+(?:version\s+)?(\S*\d\S*)/i);
+    return match ? match[1] : 'unknown';
+  }
+
+  async run(input: ToolInput, cwd?: string): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    return runToolCommand(`${this.command} ${args.join(' ')}`, { config: this.config, cwd, env: input.env });
+  }
+
+  async lint(files: string[], sources?: SourceOptions): Promise<LintResult> {
+    const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rtl-spyglass-'));
+
+    try {
+      const project = path.join(workDir, 'lint.prj');
+      fs.writeFileSync(project, this.projectFile(files, sources, workDir));
+
+      const result = await this.run({
+        files: [],
+        args: ['-project', project, '-batch', '-goals', LINT_GOAL, ...(this.config?.args ?? [])],
+      }, workDir);
+
+      if (result.licenseError) {
+        return {
+          success: false,
+          warnings: [],
+          lintErrors: [],
+          errors: result.errors,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          command: result.command,
+          licenseError: result.licenseError,
+        };
+      }
+
+      const report = findReport(workDir, 'moresimple.rpt');
+      if (!report) {
+        return {
+          success: false,
+          warnings: [],
+          lintErrors: [],
+          errors: result.errors,
+          stdout: result.stdout,
+          stderr: result.stderr || 'SpyGlass wrote no moresimple.rpt',
+          command: result.command,
+        };
+      }
+
+      return {
+        ...this.parseReport(fs.readFileSync(report, 'utf8')),
+        stdout: result.stdout,
+        stderr: result.stderr,
+        command: result.command,
+      };
+    } finally {
+      fs.rmSync(workDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Tcl project reading the design
+   */
+  private projectFile(files: string[], sources: SourceOptions = {}, workDir: string): string {
+    const verilog = files.filter(file => !isVhdlFile(file));
+    const vhdl = files.filter(isVhdlFile);
+    const defines = Object.entries(sources.defines ?? {})
+      .map(([name, value]) => (value === '' ? name : `${name}=${value}`));
+
+    return [
+      ...(verilog.length > 0 ? [`read_file -type verilog {${verilog.join(' ')}}`] : []),
+      ...(vhdl.length > 0 ? [`read_file -type vhdl {${vhdl.join(' ')}}`] : []),
+      'set_option enableSV09 yes',
+      ...(sources.includeDirs?.length ? [`set_option incdir {${sources.includeDirs.join(' ')}}`] : []),
+      ...(defines.length > 0 ? [`set_option define {${defines.join(' ')}}`] : []),
+      ...(sources.top ? [`set_option top ${sources.top}`] : []),
+      `set_option projectwdir ${workDir}`,
+      `current_goal ${LINT_GOAL}`,
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Parse moresimple.rpt
+   *
+   * Format:
+   * #   ID  Rule        Alias  Severity  File          Line  Wt  Message
+   * [2]     W240               Warning   rtl/fifo.sv   12    2   Input 'en' declared but not read
+   * [1]     STX_VE_505         Error     rtl/fifo.sv   20    5   Syntax error near 'endmodule'
+   */
+  private parseReport(report: string): Omit<LintResult, 'stdout' | 'stderr'> {
+    const warnings: LintWarning[] = [];
+    const errors: LintError[] = [];
+
+    for (const line of report.split('\n')) {
+      const match = line.match(/^\[\w+\]\s+(\S+)\s+(?:(\S+)\s+)?(Fatal|Error|Warning|Info)\s+(\S+)\s+(\d+)\s+\d+\s+(.*)$/);
+      if (!match) continue;
+
+      const [, rule, , severity, file, lineStr, message] = match;
+      const diagnostic = {
+        file,
+        line: parseInt(lineStr, 10),
+        code: rule,
+        message: message.trim(),
+      };
+
+      if (severity === 'Fatal' || severity === 'Error') {
+        errors.push({ ...diagnostic, severity: 'error' });
+      } else {
+        warnings.push({ ...diagnostic, severity: severity === 'Warning' ? 'warning' : 'info' });
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      warnings,
+      lintErrors: errors,
+    };
+  }
+}
+
+/**
+ * First file with the given name under a directory
+ */
+function findReport(dir: string, name: string): string | undefined {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isFile() && entry.name === name) return entryPath;
+    if (entry.isDirectory()) {
+      const found = findReport(entryPath, name);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
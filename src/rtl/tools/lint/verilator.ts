@@ -10,7 +10,8 @@
 import { promisify } from 'util';
 import { exec } from 'child_process';
 import type { LintTool, ToolInput } from '../types.js';
-import type { LintResult, LintWarning, LintError, ToolResult } from '../../types.js';
+import type { LintResult, LintWarning, LintError, SourceOptions, ToolResult } from '../../types.js';
+import { sourceArgs } from '../../sources/index.js';
 
 const execAsync = promisify(exec);
 
@@ -59,10 +60,15 @@ export class VerilatorLint implements LintTool {
     }
   }
 
-  async lint(files: string[]): Promise<LintResult> {
+  async lint(files: string[], sources?: SourceOptions): Promise<LintResult> {
     const result = await this.run({
       files,
-      args: ['--lint-only', '--Wall'],
+      args: [
+        '--lint-only',
+        '--Wall',
+        ...sourceArgs(sources, 'verilator'),
+        ...(sources?.top ? ['--top-module', sources.top] : []),
+      ],
     });
 
     return this.parseLintOutput(result);
@@ -0,0 +1,161 @@
+/**
+ * Run Directories
+ *
+ * Every simulation or synthesis run gets its own directory so concurrent
+ * runs (regressions, parallel agents) never share build outputs. Each
+ * directory holds a run.json manifest describing how it was produced:
+ *
+ *   {
+ *     "kind": "simulation",
+ *     "tool": "verilator", "toolVersion": "5.024",
+ *     "args": ["+seed=3"],
+ *     "commands": ["verilator --cc ...", "/abs/obj_dir/Vtb +seed=3"],
+ *     "inputs": [{ "path": "/abs/rtl/fifo.sv", "sha256": "..." }],
+ *     "outputs": { "executable": "obj_dir/Vtb", "waveform": "dump.vcd" },
+ *     ...
+ *   }
+ *
+ * Output paths in the manifest (and in RunRecord.artifacts) are relative
+ * to the run directory.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { RunRecord } from '../types.js';
+
+export const RUN_MANIFEST_FILENAME = 'run.json';
+
+/**
+ * Hashed input file
+ */
+export interface RunInput {
+  path: string;
+  sha256: string | null;  // null when the file could not be read
+}
+
+/**
+ * Contents of run.json
+ */
+export interface RunManifest {
+  version: 1;
+  kind: 'simulation' | 'synthesis';
+  tool: string;
+  toolVersion: string;
+  args: string[];
+  commands: string[];
+  inputs: RunInput[];
+  outputs: Record<string, string>;
+  success: boolean;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Manifest fields supplied by the caller
+ *
+ * `inputs` are file paths (hashed on write); `outputs` may be absolute or
+ * relative to the run directory and are dropped if the file does not exist.
+ */
+export interface RunManifestInput extends Omit<RunManifest, 'version' | 'inputs' | 'outputs' | 'endTime'> {
+  inputs: string[];
+  outputs: Record<string, string | undefined>;
+}
+
+function timestamp(date: Date = new Date()): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d+Z$/, '').replace('T', '-');
+}
+
+/**
+ * Create a new, uniquely named run directory under root
+ *
+ * Names look like `20260101-120000-tb_fifo-a1B2c3`.
+ */
+export async function createRunDirectory(root: string, label: string): Promise<string> {
+  await fs.promises.mkdir(root, { recursive: true });
+  const safeLabel = path.basename(label).replace(/[^A-Za-z0-9_.-]/g, '_') || 'run';
+  return fs.promises.mkdtemp(path.join(root, `${timestamp()}-${safeLabel}-`));
+}
+
+/**
+ * SHA-256 of each input file
+ */
+export async function hashInputs(files: string[]): Promise<RunInput[]> {
+  return Promise.all(files.map(async file => {
+    const resolved = path.resolve(file);
+    try {
+      const content = await fs.promises.readFile(resolved);
+      return { path: resolved, sha256: createHash('sha256').update(content).digest('hex') };
+    } catch {
+      return { path: resolved, sha256: null };
+    }
+  }));
+}
+
+/**
+ * Write run.json into a run directory
+ *
+ * @returns The run record to attach to the tool result
+ */
+export async function writeRunManifest(dir: string, manifest: RunManifestInput): Promise<RunRecord> {
+  const outputs: Record<string, string> = {};
+  for (const [name, output] of Object.entries(manifest.outputs)) {
+    if (!output) continue;
+    const absolute = path.resolve(dir, output);
+    if (fs.existsSync(absolute)) {
+      outputs[name] = path.relative(dir, absolute) || '.';
+    }
+  }
+
+  const content: RunManifest = {
+    version: 1,
+    ...manifest,
+    inputs: await hashInputs(manifest.inputs),
+    outputs,
+    endTime: new Date().toISOString(),
+  };
+
+  const manifestPath = path.join(dir, RUN_MANIFEST_FILENAME);
+  await fs.promises.writeFile(manifestPath, JSON.stringify(content, null, 2));
+
+  return { dir, manifest: manifestPath, artifacts: outputs };
+}
+
+/**
+ * Read a run directory's manifest
+ */
+export function readRunManifest(dir: string): RunManifest | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(dir, RUN_MANIFEST_FILENAME), 'utf8')) as RunManifest;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Output of the most recent run under root that recorded it
+ *
+ * @param root Run root (`<paths.reports>/runs`)
+ * @param output Output name in run.json ('waveform', 'coverage', ...)
+ * @returns Absolute path, or undefined when no run has the output
+ */
+export function findLatestRunOutput(root: string, output: string): string | undefined {
+  let entries: string[];
+  try {
+    entries = fs.readdirSync(root);
+  } catch {
+    return undefined;
+  }
+
+  let latest: { endTime: string; path: string } | undefined;
+  for (const entry of entries) {
+    const dir = path.join(root, entry);
+    const manifest = readRunManifest(dir);
+    const relative = manifest?.outputs[output];
+    if (!manifest || !relative) continue;
+    if (!latest || manifest.endTime > latest.endTime) {
+      latest = { endTime: manifest.endTime, path: path.resolve(dir, relative) };
+    }
+  }
+  return latest?.path;
+}
@@ -0,0 +1,384 @@
+/**
+ * Simulation Result Classifier
+ *
+ * Decides whether a simulation run passed, shared by all simulators.
+ * Configurable from .rtl-config.json (tools.simulation.passDetection).
+ *
+ * Evaluation order:
+ * 1. Timeout
+ * 2. Failure evidence: fail patterns, $fatal, $error and assertion failures
+ *    (unless errorSeverity is 'warning'), UVM_ERROR/UVM_FATAL counts,
+ *    cocotb failures
+ * 3. Non-zero exit code
+ * 4. Pass evidence: pass patterns, clean UVM report summary, cocotb results
+ * 5. No evidence: fail with 'no-verdict' when requirePassMarker is set,
+ *    so silent testbenches never count as passing
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  PassDetectionConfig,
+  SimulationVerdict,
+  VerdictEvidence,
+  UVMReportCounts,
+  CocotbResults,
+  CocotbTestCase,
+  AssertionFailure,
+} from '../../types.js';
+
+/** Max evidence lines kept per verdict */
+const MAX_EVIDENCE = 20;
+
+const DEFAULT_PASS_PATTERNS = [
+  /test passed/i,
+  /all tests passed/i,
+  /simulation passed/i,
+  /\*\*\* PASS(ED)? \*\*\*/i,
+];
+
+const DEFAULT_FAIL_PATTERNS = [
+  /test failed/i,
+  /assertion failed/i,
+  /\*\*\* FAIL(ED)? \*\*\*/i,
+];
+
+/**
+ * $fatal / $error reports across simulators
+ *
+ * verilator: "[100] %Fatal: tb.sv:20: ..."      / "%Error: tb.sv:20: ..."
+ * iverilog:  "FATAL: tb.sv:20: ..."             / "ERROR: tb.sv:20: ..."
+ * questa:    "** Fatal: ..."                    / "** Error: ..."
+ * xrun:      "xmsim: *F,..."                    / "xmsim: *E,..."
+ * vcs:       "Fatal: ..."                       / "Error: \"tb.sv\", 20: ..."
+ * ghdl:      "tb.vhd:20:5:@50ns:(report failure): ..." / "tb.vhd:20:5:@50ns:(report error): ..."
+ */
+const FATAL_PATTERN = /^\s*(?:\[[^\]]*\]\s*)?(?:%Fatal\b|FATAL:|\*\* Fatal:|Fatal:|\S+:\s*\*F,|\S+:\d+:\d+:@[^:]*:\((?:assertion|report) failure\))/;
+const ERROR_PATTERN = /^\s*(?:\[[^\]]*\]\s*)?(?:%Error\b|ERROR:|\*\* Error:|Error:|Error-\[|\S+:\s*\*E,|\S+:\d+:\d+:@[^:]*:\((?:assertion|report) error\))/;
+
+/**
+ * Assertion failures with the location of the assertion
+ *
+ * verilator: "[50] %Error: fifo_sva.sv:42: Assertion failed in TOP.fifo.u_fifo_sva.a_push_overflow: ..."
+ * questa:    "** Error: ..." then "Time: 50 ns Started: 40 ns  Scope: tb.dut.a_x File: fifo_sva.sv Line: 42"
+ * xrun:      "xmsim: *E,ASRTST (./fifo_sva.sv,42): (time 50 NS) Assertion tb.dut.a_x has failed"
+ * vcs:       "\"fifo_sva.sv\", 42: tb.dut.a_x: started at 40ns failed at 50ns"
+ * ghdl:      "fifo_tb.vhd:42:5:@50ns:(assertion error): ..."
+ */
+const VERILATOR_ASSERTION_PATTERN = /^\s*(?:\[([^\]]*)\]\s*)?%(?:Error|Fatal):\s*(.+?):(\d+):\s*Assertion failed in\s+([^\s:]+):?\s*(.*)$/;
+const QUESTA_ASSERTION_PATTERN = /Time:\s*(.+?)\s+Started:.*?Scope:\s*(\S+)\s+File:\s*(\S+)\s+Line:\s*(\d+)/;
+const QUESTA_MESSAGE_PATTERN = /^#?\s*\*\* (Error|Fatal):\s*(.*)$/;
+const XRUN_ASSERTION_PATTERN = /\*[EF],ASRT\w*\s*\(([^,]+),(\d+)\):\s*(?:\(time\s+([^)]+)\)\s*)?Assertion\s+(\S+)\s+has failed\s*(.*)$/;
+const GHDL_ASSERTION_PATTERN = /^\s*(\S+?):(\d+):\d+:@([^:]*):\(assertion (?:error|failure)\):?\s*(.*)$/;
+const VCS_ASSERTION_PATTERN = /^\s*"([^"]+)",\s*(\d+):\s*(\S+?):\s*started at\s+\S+\s+failed at\s+(\S+)\s*(.*)$/;
+
+const UVM_SUMMARY_PATTERN = /^\s*(UVM_INFO|UVM_WARNING|UVM_ERROR|UVM_FATAL)\s*:\s*(\d+)\s*$/;
+const UVM_MESSAGE_PATTERN = /^\s*(UVM_ERROR|UVM_FATAL)\b(?!\s*:\s*\d+\s*$)/;
+
+/** Questa prefixes every vsim transcript line with "# " */
+const TRANSCRIPT_PREFIX = /^#\s?/;
+
+/**
+ * Raw output of a simulation run
+ */
+export interface SimulationOutput {
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+  timedOut?: boolean;
+  /** Contents of a cocotb results.xml */
+  cocotbResultsXml?: string;
+}
+
+/**
+ * Compile a user-supplied pattern (case-insensitive)
+ */
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new Error(`Invalid pass/fail pattern '${pattern}': ${(error as Error).message}`);
+  }
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse an assertion failure report line
+ */
+export function parseAssertionFailure(text: string): AssertionFailure | undefined {
+  const optional = (value: string | undefined) => value?.trim() || undefined;
+  let match = text.match(VERILATOR_ASSERTION_PATTERN);
+  if (match) {
+    return { file: match[2], line: parseInt(match[3], 10), scope: match[4], time: optional(match[1]), message: optional(match[5]) };
+  }
+  match = text.match(QUESTA_ASSERTION_PATTERN);
+  if (match) {
+    return { file: match[3], line: parseInt(match[4], 10), scope: match[2], time: match[1] };
+  }
+  match = text.match(XRUN_ASSERTION_PATTERN);
+  if (match) {
+    return { file: match[1], line: parseInt(match[2], 10), scope: match[4], time: optional(match[3]), message: optional(match[5]) };
+  }
+  match = text.match(GHDL_ASSERTION_PATTERN);
+  if (match) {
+    return { file: match[1], line: parseInt(match[2], 10), time: match[3], message: optional(match[4]) };
+  }
+  match = text.match(VCS_ASSERTION_PATTERN);
+  if (match) {
+    return { file: match[1], line: parseInt(match[2], 10), scope: match[3], time: match[4], message: optional(match[5]) };
+  }
+  return undefined;
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? decodeXmlEntities(match[1]) : undefined;
+}
+
+/**
+ * Parse a cocotb (JUnit-style) results.xml
+ */
+export function parseCocotbResults(xml: string): CocotbResults {
+  const testCases: CocotbTestCase[] = [];
+  const testCasePattern = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+
+  for (const match of xml.matchAll(testCasePattern)) {
+    const [, attributes, body = ''] = match;
+    const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+    const skipped = /<skipped\b/.test(body);
+
+    const testCase: CocotbTestCase = {
+      name: xmlAttribute(attributes, 'name') ?? 'unknown',
+      classname: xmlAttribute(attributes, 'classname'),
+      duration: parseFloat(xmlAttribute(attributes, 'time') ?? '0') || 0,
+      status: failure ? (failure[1] === 'error' ? 'error' : 'failed') : skipped ? 'skipped' : 'passed',
+    };
+
+    const simTime = xmlAttribute(attributes, 'sim_time_ns');
+    if (simTime !== undefined) {
+      testCase.simTimeNs = parseFloat(simTime);
+    }
+
+    if (failure) {
+      testCase.message = xmlAttribute(failure[2], 'message');
+      const traceback = failure[3] ? decodeXmlEntities(failure[3]).trim() : '';
+      if (traceback) {
+        testCase.traceback = traceback;
+      }
+    }
+
+    testCases.push(testCase);
+  }
+
+  return {
+    tests: testCases.length,
+    failures: testCases.filter(t => t.status === 'failed').length,
+    errors: testCases.filter(t => t.status === 'error').length,
+    skipped: testCases.filter(t => t.status === 'skipped').length,
+    testCases,
+  };
+}
+
+/**
+ * Configurable pass/fail classifier for simulation output
+ */
+export class SimulationResultClassifier {
+  private passPatterns: RegExp[];
+  private failPatterns: RegExp[];
+  private config: PassDetectionConfig;
+
+  constructor(config: PassDetectionConfig = {}) {
+    this.config = config;
+    this.passPatterns = [
+      ...(config.useDefaultPatterns === false ? [] : DEFAULT_PASS_PATTERNS),
+      ...(config.passPatterns ?? []).map(compilePattern),
+    ];
+    this.failPatterns = [
+      ...(config.useDefaultPatterns === false ? [] : DEFAULT_FAIL_PATTERNS),
+      ...(config.failPatterns ?? []).map(compilePattern),
+    ];
+  }
+
+  /**
+   * Read the configured cocotb results.xml, if present
+   */
+  readCocotbResults(cwd: string = process.cwd()): string | undefined {
+    if (!this.config.cocotbResults) {
+      return undefined;
+    }
+    const resultsPath = path.resolve(cwd, this.config.cocotbResults);
+    return fs.existsSync(resultsPath) ? fs.readFileSync(resultsPath, 'utf8') : undefined;
+  }
+
+  /**
+   * Classify a simulation run
+   */
+  classify(output: SimulationOutput): SimulationVerdict {
+    const lines = [
+      ...(output.stdout ?? '').split('\n'),
+      ...(output.stderr ?? '').split('\n'),
+    ].map(line => line.replace(TRANSCRIPT_PREFIX, ''));
+
+    const failures: VerdictEvidence[] = [];
+    const passes: VerdictEvidence[] = [];
+    const notes: VerdictEvidence[] = [];
+    const assertions: AssertionFailure[] = [];
+    const uvm: UVMReportCounts = { info: 0, warning: 0, error: 0, fatal: 0 };
+    let uvmSummarySeen = false;
+    const uvmEnabled = this.config.uvm !== false;
+    const errorsFail = this.config.errorSeverity !== 'warning';
+
+    lines.forEach((text, index) => {
+      const evidence = (kind: VerdictEvidence['kind']): VerdictEvidence => ({
+        kind,
+        line: index + 1,
+        text: text.trim(),
+      });
+
+      if (uvmEnabled) {
+        const summary = text.match(UVM_SUMMARY_PATTERN);
+        if (summary) {
+          uvmSummarySeen = true;
+          const key = summary[1].slice(4).toLowerCase() as keyof UVMReportCounts;
+          uvm[key] = parseInt(summary[2], 10);
+          if ((key === 'error' || key === 'fatal') && uvm[key] > 0) {
+            failures.push(evidence('uvm'));
+          }
+          return;
+        }
+        if (UVM_MESSAGE_PATTERN.test(text)) {
+          failures.push(evidence('uvm'));
+          return;
+        }
+      }
+
+      const assertion = parseAssertionFailure(text);
+      if (assertion) {
+        // Questa reports the message on the line before the location
+        let fatal = FATAL_PATTERN.test(text);
+        const previous = !assertion.message && index > 0 ? lines[index - 1].match(QUESTA_MESSAGE_PATTERN) : null;
+        if (previous) {
+          for (const list of [failures, notes]) {
+            if (list[list.length - 1]?.line === index) list.pop();
+          }
+          fatal ||= previous[1] === 'Fatal';
+          assertion.message = previous[2].trim();
+        }
+        assertions.push(assertion);
+        (errorsFail || fatal ? failures : notes).push({
+          kind: 'assertion',
+          line: index + 1,
+          text: `${assertion.scope ?? 'Assertion'} failed at ${assertion.file}:${assertion.line}${assertion.message ? `: ${assertion.message}` : ''}`,
+        });
+        return;
+      }
+
+      if (FATAL_PATTERN.test(text)) {
+        failures.push(evidence('fatal'));
+      } else if (ERROR_PATTERN.test(text)) {
+        (errorsFail ? failures : notes).push(evidence('error'));
+      } else if (this.failPatterns.some(p => p.test(text))) {
+        failures.push(evidence('fail'));
+      } else if (this.passPatterns.some(p => p.test(text))) {
+        passes.push(evidence('pass'));
+      }
+    });
+
+    const verdict: SimulationVerdict = {
+      passed: false,
+      status: 'fail',
+      reason: '',
+      evidence: [],
+    };
+
+    if (uvmSummarySeen) {
+      verdict.uvm = uvm;
+    }
+
+    if (assertions.length > 0) {
+      verdict.assertions = assertions;
+    }
+
+    if (output.cocotbResultsXml) {
+      const cocotb = parseCocotbResults(output.cocotbResultsXml);
+      verdict.cocotb = cocotb;
+      for (const testCase of cocotb.testCases) {
+        if (testCase.status === 'failed' || testCase.status === 'error') {
+          failures.push({
+            kind: 'cocotb',
+            text: `${testCase.name}: ${testCase.message ?? testCase.status}`,
+          });
+        }
+      }
+      if (cocotb.tests > 0 && cocotb.failures === 0 && cocotb.errors === 0) {
+        passes.push({ kind: 'cocotb', text: `${cocotb.tests} cocotb test(s) passed` });
+      }
+    }
+
+    if (output.timedOut) {
+      return {
+        ...verdict,
+        status: 'timeout',
+        reason: 'Simulation timed out',
+        evidence: failures.slice(0, MAX_EVIDENCE),
+      };
+    }
+
+    if (failures.length > 0) {
+      const first = failures[0];
+      return {
+        ...verdict,
+        reason: `${first.kind} marker: ${first.text}`,
+        evidence: failures.slice(0, MAX_EVIDENCE),
+      };
+    }
+
+    if (output.exitCode !== undefined && output.exitCode !== 0) {
+      return {
+        ...verdict,
+        reason: `Simulator exited with code ${output.exitCode}`,
+        evidence: notes.slice(0, MAX_EVIDENCE),
+      };
+    }
+
+    if (uvmSummarySeen) {
+      passes.push({ kind: 'uvm', text: 'UVM report summary: 0 UVM_ERROR, 0 UVM_FATAL' });
+    }
+
+    if (passes.length > 0) {
+      return {
+        ...verdict,
+        passed: true,
+        status: 'pass',
+        reason: `${passes[0].kind} marker: ${passes[0].text}`,
+        evidence: [...passes, ...notes].slice(0, MAX_EVIDENCE),
+      };
+    }
+
+    if (this.config.requirePassMarker !== false) {
+      return {
+        ...verdict,
+        status: 'no-verdict',
+        reason: 'No pass marker found in simulation output',
+        evidence: notes.slice(0, MAX_EVIDENCE),
+      };
+    }
+
+    return {
+      ...verdict,
+      passed: true,
+      status: 'pass',
+      reason: 'No failure markers found (requirePassMarker disabled)',
+      evidence: notes.slice(0, MAX_EVIDENCE),
+    };
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * cocotb Test Runner
+ *
+ * cocotb drives an HDL simulator (icarus, verilator, questa, ...) from
+ * Python coroutine tests. The design is built as part of the test run,
+ * either through the cocotb makefiles or the Python runner API
+ * (cocotb_tools.runner, cocotb.runner before 2.0).
+ *
+ * Each run writes results.xml to the work directory; it is parsed into
+ * per-test pass/fail, duration and failure tracebacks.
+ *
+ * https://www.cocotb.org/
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HdlFamily, SimulationTool, SimulationRunOptions, ToolInput, CompileResult } from '../types.js';
+import type { CocotbConfig, SimulationResult, SourceOptions, ToolResult } from '../../types.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { sourceArgs } from '../../sources/index.js';
+
+const execAsync = promisify(exec);
+
+/** Builds and runs share one timeout, so allow longer than a plain simulation */
+const DEFAULT_TIMEOUT_MS = 300000;
+
+const VHDL_EXTENSIONS = new Set(['.vhd', '.vhdl']);
+
+export interface CocotbRunnerOptions extends CocotbConfig {
+  /** Pass/fail classifier (default: built-in patterns) */
+  classifier?: SimulationResultClassifier;
+}
+
+/**
+ * Test modules, toplevel and output paths of one cocotb run
+ */
+export interface CocotbRunPlan {
+  modules: string[];     // Python test modules (MODULE)
+  testDirs: string[];    // Directories added to PYTHONPATH
+  toplevel: string;      // HDL toplevel (TOPLEVEL)
+  testcases: string[];   // Selected test functions (empty: all)
+  files: string[];       // Design sources (empty: the project Makefile lists them)
+  sources?: SourceOptions;
+  plusargs: string[];
+  workDir: string;
+  buildDir: string;
+  resultsFile: string;
+  /** Project Makefile next to the first test module, used instead of Makefile.sim */
+  makefile?: string;
+}
+
+export class CocotbRunner implements SimulationTool {
+  private options: CocotbRunnerOptions;
+  private classifier: SimulationResultClassifier;
+
+  constructor(options: CocotbRunnerOptions = {}) {
+    this.options = options;
+    this.classifier = options.classifier ?? new SimulationResultClassifier();
+  }
+
+  private get simulator(): string {
+    return this.options.simulator ?? 'icarus';
+  }
+
+  /**
+   * HDLs the configured simulator reads
+   */
+  get hdls(): HdlFamily[] {
+    switch (this.simulator) {
+      case 'icarus':
+      case 'verilator':
+        return ['verilog'];
+      case 'ghdl':
+      case 'nvc':
+        return ['vhdl'];
+      default:
+        return ['verilog', 'vhdl'];
+    }
+  }
+
+  async isInstalled(): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync('cocotb-config --version');
+      return /^\d+\.\d+/.test(stdout.trim());
+    } catch {
+      return false;
+    }
+  }
+
+  async getVersion(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('cocotb-config --version');
+      const match = stdout.match(/(\d+\.\d+\S*)/);
+      return match ? match[1] : 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async run(input: ToolInput): Promise<ToolResult> {
+    const cmd = ['make', ...(input.args || []), ...input.files].join(' ');
+
+    try {
+      const { stdout, stderr } = await execAsync(cmd, {
+        env: { ...process.env, ...input.env },
+      });
+      return {
+        success: true,
+        stdout,
+        stderr,
+        exitCode: 0,
+        command: cmd,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: error.code || 1,
+        errors: [error.message],
+        command: cmd,
+      };
+    }
+  }
+
+  /**
+   * Check the design sources
+   *
+   * cocotb compiles the design as part of each test run, so nothing is
+   * built here; simulate() takes the files and sources from its options.
+   * Files may be empty when the test directory has its own Makefile
+   * listing the sources.
+   */
+  async compile(files: string[]): Promise<CompileResult> {
+    const missing = files.filter(file => !fs.existsSync(file));
+    if (missing.length > 0) {
+      return {
+        success: false,
+        errors: missing.map(file => `Source file not found: ${file}`),
+        stderr: `Source file not found: ${missing[0]}`,
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Build the design and run cocotb tests
+   *
+   * @param testbench Test module(s): a .py file or module name, comma-separated for several
+   * @param args Plusargs passed to the simulator
+   * @param options Work directory, timeout, design files, sources and selected test functions for this run
+   */
+  async simulate(testbench: string, args?: string[], options?: SimulationRunOptions): Promise<SimulationResult> {
+    const plan = this.planRun(testbench, args ?? [], options);
+    const command = this.options.flow === 'runner'
+      ? `python3 ${quote(await this.writeRunnerScript(plan))}`
+      : this.makeCommand(plan);
+
+    await fs.promises.rm(plan.resultsFile, { force: true });
+    const env = {
+      ...process.env,
+      PYTHONPATH: [...plan.testDirs, process.env.PYTHONPATH].filter(Boolean).join(path.delimiter),
+      COCOTB_RESULTS_FILE: plan.resultsFile,
+    };
+
+    let stdout = '';
+    let stderr = '';
+    let exitCode = 0;
+    let timedOut = false;
+    try {
+      ({ stdout, stderr } = await execAsync(command, {
+        cwd: plan.workDir,
+        env,
+        timeout: options?.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+        maxBuffer: 16 * 1024 * 1024,
+      }));
+    } catch (error: any) {
+      stdout = error.stdout || '';
+      stderr = error.stderr || error.message;
+      exitCode = typeof error.code === 'number' ? error.code : 1;
+      timedOut = error.killed === true;
+    }
+
+    const resultsXml = fs.existsSync(plan.resultsFile)
+      ? fs.readFileSync(plan.resultsFile, 'utf8')
+      : this.classifier.readCocotbResults(plan.workDir);
+    const verdict = this.classifier.classify({
+      stdout,
+      stderr,
+      exitCode,
+      timedOut,
+      cocotbResultsXml: resultsXml,
+    });
+
+    return {
+      success: exitCode === 0,
+      passed: exitCode === 0 && verdict.passed,
+      verdict,
+      stdout,
+      stderr,
+      exitCode,
+      command,
+      waveform: findWaveform(plan.buildDir),
+    };
+  }
+
+  /**
+   * Resolve test modules, toplevel and output paths for a run
+   */
+  planRun(testbench: string, plusargs: string[], options: SimulationRunOptions = {}): CocotbRunPlan {
+    const workDir = path.resolve(options.workDir ?? process.cwd());
+    const modules: string[] = [];
+    const testDirs: string[] = [];
+
+    for (const item of testbench.split(',').map(s => s.trim()).filter(Boolean)) {
+      if (item.endsWith('.py')) {
+        const file = path.resolve(item);
+        modules.push(path.basename(file, '.py'));
+        if (!testDirs.includes(path.dirname(file))) testDirs.push(path.dirname(file));
+      } else {
+        modules.push(item);
+      }
+    }
+    if (modules.length === 0) {
+      throw new Error('No cocotb test module given');
+    }
+
+    const files = options.files ?? [];
+    const makefile = testDirs.length > 0 ? path.join(testDirs[0], 'Makefile') : undefined;
+
+    return {
+      modules,
+      testDirs,
+      toplevel: this.options.toplevel ?? options.sources?.top ?? modules[0].replace(/^test_/, ''),
+      testcases: options.testcases ?? [],
+      files,
+      sources: options.sources,
+      plusargs,
+      workDir,
+      buildDir: path.join(workDir, 'sim_build'),
+      resultsFile: path.join(workDir, 'results.xml'),
+      makefile: files.length === 0 && makefile && fs.existsSync(makefile) ? makefile : undefined,
+    };
+  }
+
+  /**
+   * make invocation for the cocotb makefiles
+   *
+   * A project Makefile keeps its own sources and simulator; otherwise
+   * Makefile.sim is run with the sources of the plan.
+   */
+  makeCommand(plan: CocotbRunPlan): string {
+    const vars: Record<string, string> = {};
+
+    if (plan.makefile) {
+      if (this.options.simulator) vars.SIM = this.options.simulator;
+      if (this.options.toplevel) vars.TOPLEVEL = this.options.toplevel;
+    } else {
+      const vhdl = plan.files.filter(file => VHDL_EXTENSIONS.has(path.extname(file).toLowerCase()));
+      const verilog = plan.files.filter(file => !vhdl.includes(file));
+      vars.SIM = this.simulator;
+      vars.TOPLEVEL_LANG = verilog.length === 0 && vhdl.length > 0 ? 'vhdl' : 'verilog';
+      vars.TOPLEVEL = plan.toplevel;
+      if (verilog.length > 0) vars.VERILOG_SOURCES = verilog.join(' ');
+      if (vhdl.length > 0) vars.VHDL_SOURCES = vhdl.join(' ');
+      const compileArgs = this.compileArgs(plan.sources);
+      if (compileArgs.length > 0) vars.COMPILE_ARGS = compileArgs.join(' ');
+    }
+
+    vars.MODULE = plan.modules.join(',');
+    vars.SIM_BUILD = plan.buildDir;
+    if (plan.testcases.length > 0) vars.TESTCASE = plan.testcases.join(',');
+    if (plan.plusargs.length > 0) vars.PLUSARGS = plan.plusargs.join(' ');
+    if (this.options.waves !== false) vars.WAVES = '1';
+
+    const makefile = plan.makefile
+      ? `-C ${quote(path.dirname(plan.makefile))}`
+      : '-f "$(cocotb-config --makefiles)/Makefile.sim"';
+    const assignments = Object.entries(vars).map(([name, value]) => `${name}=${quote(value)}`);
+    return ['make', makefile, ...assignments].join(' ');
+  }
+
+  /**
+   * Python script driving the cocotb runner API
+   */
+  generateRunnerScript(plan: CocotbRunPlan): string {
+    const vhdl = plan.files.filter(file => VHDL_EXTENSIONS.has(path.extname(file).toLowerCase()));
+    const config = {
+      simulator: this.simulator,
+      toplevel: plan.toplevel,
+      verilog_sources: plan.files.filter(file => !vhdl.includes(file)),
+      vhdl_sources: vhdl,
+      includes: plan.sources?.includeDirs ?? [],
+      defines: plan.sources?.defines ?? {},
+      modules: plan.modules,
+      test_dir: plan.testDirs[0] ?? plan.workDir,
+      testcases: plan.testcases,
+      plusargs: plan.plusargs,
+      build_dir: plan.buildDir,
+      results_xml: plan.resultsFile,
+      waves: this.options.waves !== false,
+    };
+
+    return [
+      '# Generated by oh-my-claude-rtl',
+      'import json',
+      '',
+      'try:',
+      '    from cocotb_tools.runner import get_runner',
+      'except ImportError:',
+      '    from cocotb.runner import get_runner',
+      '',
+      `config = json.loads(${JSON.stringify(JSON.stringify(config))})`,
+      '',
+      'runner = get_runner(config["simulator"])',
+      'runner.build(',
+      '    verilog_sources=config["verilog_sources"],',
+      '    vhdl_sources=config["vhdl_sources"],',
+      '    hdl_toplevel=config["toplevel"],',
+      '    includes=config["includes"],',
+      '    defines=config["defines"],',
+      '    build_dir=config["build_dir"],',
+      '    waves=config["waves"],',
+      '    always=True,',
+      ')',
+      'runner.test(',
+      '    test_module=",".join(config["modules"]),',
+      '    hdl_toplevel=config["toplevel"],',
+      '    testcase=config["testcases"] or None,',
+      '    plusargs=config["plusargs"],',
+      '    build_dir=config["build_dir"],',
+      '    test_dir=config["test_dir"],',
+      '    results_xml=config["results_xml"],',
+      '    waves=config["waves"],',
+      ')',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Seed plusarg read by cocotb (equivalent to RANDOM_SEED)
+   */
+  seedArgs(seed: number): string[] {
+    return [`+ntb_random_seed=${seed}`];
+  }
+
+  private compileArgs(sources?: SourceOptions): string[] {
+    switch (this.simulator) {
+      case 'icarus':
+        return sourceArgs(sources, 'iverilog');
+      case 'verilator':
+        return sourceArgs(sources, 'verilator');
+      default:
+        return [];
+    }
+  }
+
+  private async writeRunnerScript(plan: CocotbRunPlan): Promise<string> {
+    const script = path.join(plan.workDir, 'cocotb_runner.py');
+    await fs.promises.mkdir(plan.workDir, { recursive: true });
+    await fs.promises.writeFile(script, this.generateRunnerScript(plan));
+    return script;
+  }
+}
+
+function quote(value: string): string {
+  return /^[\w./,:=+-]+$/.test(value) ? value : `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+function findWaveform(buildDir: string): string | undefined {
+  try {
+    const waveform = fs.readdirSync(buildDir).sort().find(name => /\.(fst|vcd)$/.test(name));
+    return waveform ? path.join(buildDir, waveform) : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * GHDL Simulation Tool
+ *
+ * GHDL analyzes, elaborates and runs VHDL testbenches (mcode, LLVM or
+ * GCC backend).
+ *
+ * https://github.com/ghdl/ghdl
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HdlFamily, SimulationTool, SimulationRunOptions, ToolInput, CompileResult } from '../types.js';
+import type { SimulationResult, ToolResult, VhdlConfig } from '../../types.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { ghdlArgs, ghdlLibraryArgs, inferVhdlTop, isVhdlFile } from '../hdl.js';
+
+const execAsync = promisify(exec);
+
+/** Directory of the analyzed libraries inside the work directory */
+const LIBRARY_DIR = 'ghdl';
+
+const WAVEFORM_OPTIONS: Record<NonNullable<VhdlConfig['waveform']>, { flag: string; file: string }> = {
+  vcd: { flag: '--vcd', file: 'dump.vcd' },
+  fst: { flag: '--fst', file: 'dump.fst' },
+  ghw: { flag: '--wave', file: 'dump.ghw' },
+};
+
+export interface GhdlSimOptions extends VhdlConfig {
+  /** Pass/fail classifier (default: built-in patterns) */
+  classifier?: SimulationResultClassifier;
+}
+
+export class GhdlSim implements SimulationTool {
+  readonly hdls: HdlFamily[] = ['vhdl'];
+  private executable?: string;
+  private options: GhdlSimOptions;
+  private classifier: SimulationResultClassifier;
+
+  /**
+   * @param options VHDL settings with library files resolved (resolveVhdlConfig)
+   */
+  constructor(options: GhdlSimOptions = {}) {
+    this.options = options;
+    this.classifier = options.classifier ?? new SimulationResultClassifier();
+  }
+
+  async isInstalled(): Promise<boolean> {
+    try {
+      const { stdout } = await execAsync('ghdl --version');
+      return stdout.includes('GHDL');
+    } catch {
+      return false;
+    }
+  }
+
+  async getVersion(): Promise<string> {
+    try {
+      const { stdout } = await execAsync('ghdl --version');
+      const match = stdout.match(/GHDL\s+([\d.]+)/);
+      return match ? match[1] : 'unknown';
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  async run(input: ToolInput, cwd?: string): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    const cmd = `ghdl ${args.join(' ')}`;
+
+    try {
+      const { stdout, stderr } = await execAsync(cmd, {
+        cwd,
+        env: { ...process.env, ...input.env },
+      });
+      return {
+        success: true,
+        stdout,
+        stderr,
+        exitCode: 0,
+        command: cmd,
+      };
+    } catch (error: any) {
+      return {
+        success: false,
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: error.code || 1,
+        errors: [error.message],
+        command: cmd,
+      };
+    }
+  }
+
+  /**
+   * Analyze and elaborate VHDL
+   *
+   * GHDL workflow:
+   * 1. ghdl -a --work=<lib> <library files>   (each configured library)
+   * 2. ghdl -a --work=work design.vhd tb.vhd
+   * 3. ghdl -e --work=work tb
+   * 4. ghdl -r --work=work tb --vcd=dump.vcd
+   *
+   * Libraries are analyzed into <workDir>/ghdl. The top entity is
+   * options.sources.top, else the last entity no file instantiates.
+   * The returned executable is <workDir>/<top>; simulate() runs it with
+   * `ghdl -r`, which also works with the mcode backend that writes no file.
+   */
+  async compile(files: string[], options?: SimulationRunOptions): Promise<CompileResult> {
+    const verilog = files.filter(file => !isVhdlFile(file));
+    if (verilog.length > 0) {
+      return { success: false, stderr: `GHDL compiles VHDL only: ${verilog.join(', ')}` };
+    }
+
+    const top = options?.sources?.top ?? inferVhdlTop(files);
+    if (!top) {
+      return { success: false, stderr: 'No top entity found: set the top in the sources' };
+    }
+
+    const workDir = options?.workDir ?? process.cwd();
+    const libraryDir = path.join(workDir, LIBRARY_DIR);
+    await fs.promises.mkdir(libraryDir, { recursive: true });
+
+    const commands: string[] = [];
+    const steps = [
+      ...ghdlLibraryArgs(this.options, libraryDir),
+      ['-a', ...ghdlArgs(this.options, libraryDir), ...files],
+      ['-e', ...ghdlArgs(this.options, libraryDir), top],
+    ];
+    for (const args of steps) {
+      const result = await this.run({ files: [], args }, workDir);
+      commands.push(result.command!);
+      if (!result.success) {
+        return {
+          success: false,
+          errors: result.errors,
+          stdout: result.stdout,
+          stderr: result.stderr,
+          command: commands.join(' && '),
+        };
+      }
+    }
+
+    const executable = path.join(workDir, top);
+    this.executable = executable;
+
+    return {
+      success: true,
+      executable,
+      command: commands.join(' && '),
+    };
+  }
+
+  /**
+   * Run the elaborated testbench
+   *
+   * @param testbench Testbench (ignored, runs the compiled top entity)
+   * @param args Simulation options after the entity (--stop-time=1us, -gDEPTH=16, ...)
+   * @param options Work directory, timeout and executable for this run
+   */
+  async simulate(testbench: string, args?: string[], options?: SimulationRunOptions): Promise<SimulationResult> {
+    const executable = options?.executable ?? this.executable;
+    if (!executable) {
+      return {
+        success: false,
+        passed: false,
+        stderr: 'Design not compiled. Call compile() first.',
+      };
+    }
+
+    const cwd = path.dirname(executable);
+    const waveform = WAVEFORM_OPTIONS[this.options.waveform ?? 'vcd'];
+    const runArgs = [
+      '-r',
+      ...ghdlArgs(this.options, path.join(cwd, LIBRARY_DIR)),
+      path.basename(executable),
+      `${waveform.flag}=${waveform.file}`,
+      ...(args ?? []),
+    ];
+    const cmd = `ghdl ${runArgs.join(' ')}`;
+
+    try {
+      const { stdout, stderr } = await execAsync(cmd, {
+        cwd,
+        timeout: options?.timeoutMs ?? 60000,  // 60 second default timeout
+      });
+
+      const verdict = this.classifier.classify({
+        stdout,
+        stderr,
+        exitCode: 0,
+        cocotbResultsXml: this.classifier.readCocotbResults(cwd),
+      });
+
+      return {
+        success: true,
+        passed: verdict.passed,
+        verdict,
+        stdout,
+        stderr,
+        command: cmd,
+        waveform: path.join(cwd, waveform.file),
+      };
+    } catch (error: any) {
+      const verdict = this.classifier.classify({
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: typeof error.code === 'number' ? error.code : 1,
+        timedOut: error.killed === true,
+      });
+
+      return {
+        success: false,
+        passed: false,
+        verdict,
+        stdout: error.stdout || '',
+        stderr: error.stderr || error.message,
+        command: cmd,
+        waveform: path.join(cwd, waveform.file),
+      };
+    }
+  }
+}
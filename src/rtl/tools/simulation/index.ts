@@ -4,17 +4,37 @@
  * Provides unified interface for various simulation tools:
  * - verilator (opensource, fast C++ sim)
  * - iverilog (opensource, simple)
+ * - cocotb (Python tests on icarus, verilator or a commercial simulator)
+ * - ghdl (opensource, VHDL)
  * - xrun (commercial, Cadence)
  * - vcs (commercial, Synopsys)
  * - questa (commercial, Siemens/Mentor)
  */
 
-import type { SimulationTool } from '../types.js';
-import type { SimulationResult } from '../../types.js';
+import * as path from 'path';
+import type { HdlFamily, SimulationTool, SimulationRunOptions, CompileResult } from '../types.js';
+import type { SimulationResult, RTLLanguage, RTLProjectConfig, SourceSet } from '../../types.js';
+import { loadRTLConfig, resolveToolPreference } from '../../config/index.js';
+import { SourceSetError, resolveSourceSet } from '../../sources/index.js';
+import { openCoverageDatabase, type CoverageDatabase } from '../coverage/database.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { triageFailure, type TriageOptions } from './triage.js';
+import { createRunDirectory, writeRunManifest } from '../run.js';
+import { designHdl, readsHdl, resolveVhdlConfig } from '../hdl.js';
+
+export { SimulationResultClassifier, parseCocotbResults, parseAssertionFailure } from './classifier.js';
+export type { SimulationOutput } from './classifier.js';
+export { triageFailure } from './triage.js';
+export type { TriageOptions } from './triage.js';
 
 export class SimulationManager {
   private tools: Map<string, SimulationTool>;
   private preferredTool?: string;
+  private coverageDatabase?: CoverageDatabase;
+  private runRoot?: string;
+  private resolveSources?: () => Promise<SourceSet>;
+  private triageOptions?: TriageOptions;
+  private language?: RTLLanguage;
 
   constructor() {
     this.tools = new Map();
@@ -37,6 +57,27 @@ export class SimulationManager {
     this.preferredTool = name;
   }
 
+  /**
+   * Record coverage from every run into a merged coverage database
+   */
+  setCoverageDatabase(database: CoverageDatabase): void {
+    this.coverageDatabase = database;
+  }
+
+  /**
+   * Configured language, deciding the HDL when no HDL file is given
+   */
+  setLanguage(language: RTLLanguage): void {
+    this.language = language;
+  }
+
+  /**
+   * Attach a failure triage report to every failing run
+   */
+  setTriage(options: TriageOptions): void {
+    this.triageOptions = options;
+  }
+
   /**
    * Detect installed simulation tools
    */
@@ -56,72 +97,267 @@ export class SimulationManager {
     return installed;
   }
 
+  /**
+   * Use a fresh run directory under root for every run without options.workDir
+   */
+  setRunRoot(root: string): void {
+    this.runRoot = root;
+  }
+
+  /**
+   * Resolve include dirs, defines and default files before every run
+   */
+  setSources(resolve: () => Promise<SourceSet>): void {
+    this.resolveSources = resolve;
+  }
+
   /**
    * Compile and simulate design
    *
-   * @param files Design files to compile
-   * @param testbench Testbench file
+   * Runs with a work directory (options.workDir or a new directory under the
+   * run root) write a run.json manifest there and return it as `result.run`.
+   *
+   * Python testbenches (test_*.py) run with cocotb unless a tool is given;
+   * VHDL designs run on a simulator that reads VHDL.
+   *
+   * Failing runs get `result.triage` when triage is set: the first failure,
+   * its source lines and the signal values up to it.
+   *
+   * @param files Design files to compile (default: the files of the source set)
+   * @param testbench Testbench file, or cocotb test module(s)
    * @param args Additional simulation arguments
    * @param preferredTool Override preferred tool for this run
+   * @param options Work directory, timeout, seed and test name for this run
    */
   async simulate(
     files: string[],
     testbench: string,
     args?: string[],
-    preferredTool?: string
+    preferredTool?: string,
+    options: SimulationRunOptions = {}
   ): Promise<SimulationResult> {
-    const tool = await this.selectTool(preferredTool);
+    let sources: SourceSet | undefined;
+    try {
+      sources = await this.resolveSources?.();
+    } catch (error) {
+      if (!(error instanceof SourceSetError)) throw error;
+      return {
+        success: false,
+        passed: false,
+        errors: error.issues,
+        stderr: error.message,
+      };
+    }
+
+    const compileFiles = files.length > 0 ? files : sources?.files ?? [];
+
+    const cocotbTest = !preferredTool && testbench.endsWith('.py') && this.tools.has('cocotb');
+    const hdl = designHdl([...compileFiles, testbench], this.language);
+    const tool = cocotbTest
+      ? (await this.tools.get('cocotb')!.isInstalled() ? this.tools.get('cocotb')! : null)
+      : await this.selectTool(preferredTool, hdl);
 
     if (!tool) {
       return {
         success: false,
         passed: false,
-        stderr: 'No simulation tool available',
+        stderr: cocotbTest
+          ? 'cocotb not installed (cocotb-config not found)'
+          : hdl === 'vhdl' ? 'No VHDL simulation tool available (install GHDL)' : 'No simulation tool available',
       };
     }
 
+    const startTime = new Date().toISOString();
+    const runOptions: SimulationRunOptions = { sources, ...options };
+    const commands: string[] = [];
+    const simArgs = [...(args ?? [])];
+    if (options.seed !== undefined && tool.seedArgs) {
+      simArgs.push(...tool.seedArgs(options.seed));
+    }
+
+    let result: SimulationResult;
     try {
-      // Compile design
-      const compileResult = await tool.compile(files);
-      if (!compileResult.success) {
-        return {
-          success: false,
-          passed: false,
-          errors: compileResult.errors,
-          stderr: compileResult.stderr,
-        };
+      if (!runOptions.workDir && this.runRoot) {
+        runOptions.workDir = await createRunDirectory(this.runRoot, options.testName ?? testbench);
       }
+      result = await this.compileAndRun(tool, compileFiles, testbench, simArgs, runOptions, commands);
+    } catch (error: any) {
+      result = {
+        success: false,
+        passed: false,
+        stderr: error.message,
+      };
+    }
 
-      // Run simulation
-      const simResult = await tool.simulate(testbench, args);
+    if (this.triageOptions && result.verdict && !result.passed) {
+      try {
+        result.triage = await triageFailure(result, {
+          ...this.triageOptions,
+          files: [...compileFiles, testbench],
+          elaboration: sources?.elaboration,
+          searchDirs: [...(runOptions.workDir ? [runOptions.workDir] : []), ...(this.triageOptions.searchDirs ?? [])],
+        });
+      } catch (error) {
+        console.warn('Failed to triage simulation failure:', error);
+      }
+    }
 
-      // Collect coverage if supported
-      if (tool.collectCoverage && simResult.success) {
-        try {
-          simResult.coverage = await tool.collectCoverage();
-        } catch (error) {
-          console.warn('Failed to collect coverage:', error);
-        }
+    if (runOptions.workDir) {
+      try {
+        result.run = await writeRunManifest(runOptions.workDir, {
+          kind: 'simulation',
+          tool: this.toolName(tool) ?? 'unknown',
+          toolVersion: await tool.getVersion(),
+          args: simArgs,
+          commands,
+          inputs: [...compileFiles, ...(sources?.origins ?? [])],
+          outputs: {
+            executable: runOptions.executable,
+            waveform: result.waveform,
+            coverage: result.coverage?.database,
+            annotated: result.coverage?.annotated,
+          },
+          success: result.success,
+          startTime,
+        });
+      } catch (error) {
+        console.warn('Failed to write run manifest:', error);
       }
+    }
+
+    return result;
+  }
+
+  /**
+   * Compile without running, e.g. to check that a generated testbench builds
+   *
+   * Include dirs and defines of options.sources are added to the source set's.
+   *
+   * @param files Files to compile, in order
+   * @param preferredTool Override preferred tool for this run
+   * @param options Work directory, extra sources and top module
+   */
+  async compile(
+    files: string[],
+    preferredTool?: string,
+    options: SimulationRunOptions = {}
+  ): Promise<CompileResult & { tool: string | null }> {
+    const tool = await this.selectTool(preferredTool, designHdl(files, this.language));
+    if (!tool) {
+      return { tool: null, success: false, stderr: 'No simulation tool available' };
+    }
+
+    let sources: SourceSet | undefined;
+    try {
+      sources = await this.resolveSources?.();
+    } catch (error) {
+      if (!(error instanceof SourceSetError)) throw error;
+      return { tool: this.toolName(tool), success: false, errors: error.issues, stderr: error.message };
+    }
 
-      return simResult;
+    const runOptions: SimulationRunOptions = {
+      ...options,
+      sources: {
+        ...sources,
+        ...options.sources,
+        includeDirs: [...(sources?.includeDirs ?? []), ...(options.sources?.includeDirs ?? [])],
+        defines: { ...sources?.defines, ...options.sources?.defines },
+      },
+    };
+    try {
+      if (!runOptions.workDir && this.runRoot) {
+        runOptions.workDir = await createRunDirectory(this.runRoot, options.testName ?? 'compile');
+      }
+      return { tool: this.toolName(tool), ...await tool.compile(files, runOptions) };
     } catch (error: any) {
+      return { tool: this.toolName(tool), success: false, stderr: error.message };
+    }
+  }
+
+  private async compileAndRun(
+    tool: SimulationTool,
+    files: string[],
+    testbench: string,
+    simArgs: string[],
+    runOptions: SimulationRunOptions,
+    commands: string[]
+  ): Promise<SimulationResult> {
+    // Compile design
+    const compileResult = await tool.compile(files, runOptions);
+    if (compileResult.command) {
+      commands.push(compileResult.command);
+    }
+    if (!compileResult.success) {
       return {
         success: false,
         passed: false,
-        stderr: error.message,
+        errors: compileResult.errors,
+        stdout: compileResult.stdout,
+        stderr: compileResult.stderr,
+        ...(compileResult.licenseError ? { licenseError: compileResult.licenseError } : {}),
       };
     }
+
+    // Run simulation
+    runOptions.executable = compileResult.executable;
+    runOptions.files = files;
+    const simResult = await tool.simulate(testbench, simArgs, runOptions);
+    if (simResult.command) {
+      commands.push(simResult.command);
+    }
+
+    // Collect coverage if supported
+    if (tool.collectCoverage && simResult.success) {
+      try {
+        simResult.coverage = await tool.collectCoverage(runOptions);
+      } catch (error) {
+        console.warn('Failed to collect coverage:', error);
+      }
+    }
+
+    // Merge into the coverage database
+    if (this.coverageDatabase && simResult.coverage?.database) {
+      try {
+        await this.coverageDatabase.addRun(simResult.coverage.database, {
+          test: runOptions.testName ?? testbench,
+          seed: runOptions.seed,
+        });
+      } catch (error) {
+        console.warn('Failed to record coverage run:', error);
+      }
+    }
+
+    return simResult;
   }
 
   /**
-   * Select appropriate simulation tool
+   * Name of the tool a run would use
+   *
+   * @param preferred Override preferred tool
+   * @param files Files of the run (default: decided by the configured language)
    */
-  private async selectTool(preferred?: string): Promise<SimulationTool | null> {
+  async resolveToolName(preferred?: string, files: string[] = []): Promise<string | null> {
+    const tool = await this.selectTool(preferred, designHdl(files, this.language));
+    return tool ? this.toolName(tool) : null;
+  }
+
+  private toolName(tool: SimulationTool): string | null {
+    for (const [name, registered] of this.tools) {
+      if (registered === tool) {
+        return name;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Select appropriate simulation tool among those reading the design's HDL
+   */
+  private async selectTool(preferred?: string, hdl: HdlFamily = 'verilog'): Promise<SimulationTool | null> {
     // User override
     if (preferred && this.tools.has(preferred)) {
       const tool = this.tools.get(preferred)!;
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
@@ -129,14 +365,14 @@ export class SimulationManager {
     // Manager's preferred
     if (this.preferredTool && this.tools.has(this.preferredTool)) {
       const tool = this.tools.get(this.preferredTool)!;
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
 
     // First installed
     for (const [name, tool] of this.tools) {
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
@@ -154,31 +390,93 @@ export class SimulationManager {
 
 /**
  * Create default simulation manager with all supported tools
+ *
+ * @param config RTL project config (default: loaded from the current workspace)
+ * @param workspaceRoot Project root for run directories, the coverage database and filelists (default: cwd)
  */
-export async function createSimulationManager(): Promise<SimulationManager> {
+export async function createSimulationManager(
+  config?: RTLProjectConfig,
+  workspaceRoot: string = process.cwd()
+): Promise<SimulationManager> {
+  const rtlConfig = config ?? await loadRTLConfig(workspaceRoot);
+  const classifier = new SimulationResultClassifier(rtlConfig.tools.simulation?.passDetection);
   const manager = new SimulationManager();
 
   // Load opensource tools
   try {
     const { VerilatorSim } = await import('./verilator.js');
-    manager.register('verilator', new VerilatorSim());
+    manager.register('verilator', new VerilatorSim({ classifier }));
   } catch (error) {
     console.warn('Failed to load verilator sim:', error);
   }
 
   try {
     const { IcarusSim } = await import('./iverilog.js');
-    manager.register('iverilog', new IcarusSim());
+    manager.register('iverilog', new IcarusSim({ classifier }));
   } catch (error) {
     console.warn('Failed to load iverilog sim:', error);
   }
 
-  // Set default preference
+  try {
+    const { CocotbRunner } = await import('./cocotb.js');
+    manager.register('cocotb', new CocotbRunner({ ...rtlConfig.tools.simulation?.cocotb, classifier }));
+  } catch (error) {
+    console.warn('Failed to load cocotb runner:', error);
+  }
+
+  try {
+    const { GhdlSim } = await import('./ghdl.js');
+    manager.register('ghdl', new GhdlSim({ ...resolveVhdlConfig(rtlConfig.vhdl, workspaceRoot), classifier }));
+  } catch (error) {
+    console.warn('Failed to load ghdl sim:', error);
+  }
+
+  // Load commercial tools (tools.commercial: executable, args, env)
+  try {
+    const { XrunSim } = await import('./xrun.js');
+    manager.register('xrun', new XrunSim({ config: rtlConfig.tools.commercial?.xrun, classifier }));
+  } catch (error) {
+    console.warn('Failed to load xrun sim:', error);
+  }
+
+  try {
+    const { VcsSim } = await import('./vcs.js');
+    manager.register('vcs', new VcsSim({ config: rtlConfig.tools.commercial?.vcs, classifier }));
+  } catch (error) {
+    console.warn('Failed to load vcs sim:', error);
+  }
+
+  try {
+    const { QuestaSim } = await import('./questa.js');
+    manager.register('questa', new QuestaSim({ config: rtlConfig.tools.commercial?.questa, classifier }));
+  } catch (error) {
+    console.warn('Failed to load questa sim:', error);
+  }
+
+  // Set preference: configured tool, configured fallback, then defaults
   const installed = await manager.detectInstalledTools();
-  if (installed.includes('verilator')) {
-    manager.setPreferred('verilator');
-  } else if (installed.includes('iverilog')) {
-    manager.setPreferred('iverilog');
+  const preferred = resolveToolPreference(
+    installed,
+    rtlConfig.tools.simulation?.preferred,
+    rtlConfig.tools.simulation?.fallback,
+    'verilator',
+    'iverilog'
+  );
+  if (preferred) {
+    manager.setPreferred(preferred);
+  }
+
+  manager.setRunRoot(path.resolve(workspaceRoot, rtlConfig.paths.reports, 'runs'));
+  manager.setSources(() => resolveSourceSet(rtlConfig, workspaceRoot, 'simulation'));
+  manager.setLanguage(rtlConfig.language);
+
+  if (rtlConfig.tools.simulation?.coverage?.enabled) {
+    manager.setCoverageDatabase(openCoverageDatabase(rtlConfig, workspaceRoot));
+  }
+
+  const triage = rtlConfig.tools.simulation?.triage;
+  if (triage?.enabled !== false) {
+    manager.setTriage({ ...triage, searchDirs: [workspaceRoot] });
   }
 
   return manager;
@@ -9,13 +9,26 @@
 
 import { promisify } from 'util';
 import { exec } from 'child_process';
-import type { SimulationTool, ToolInput, CompileResult } from '../types.js';
+import * as path from 'path';
+import type { SimulationTool, SimulationRunOptions, ToolInput, CompileResult } from '../types.js';
 import type { SimulationResult, ToolResult } from '../../types.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { sourceArgs } from '../../sources/index.js';
 
 const execAsync = promisify(exec);
 
+export interface IcarusSimOptions {
+  /** Pass/fail classifier (default: built-in patterns) */
+  classifier?: SimulationResultClassifier;
+}
+
 export class IcarusSim implements SimulationTool {
   private executable?: string;
+  private classifier: SimulationResultClassifier;
+
+  constructor(options: IcarusSimOptions = {}) {
+    this.classifier = options.classifier ?? new SimulationResultClassifier();
+  }
 
   async isInstalled(): Promise<boolean> {
     try {
@@ -49,6 +62,7 @@ export class IcarusSim implements SimulationTool {
         stdout,
         stderr,
         exitCode: 0,
+        command: cmd,
       };
     } catch (error: any) {
       return {
@@ -57,6 +71,7 @@ export class IcarusSim implements SimulationTool {
         stderr: error.stderr || '',
         exitCode: error.code || 1,
         errors: [error.message],
+        command: cmd,
       };
     }
   }
@@ -67,12 +82,16 @@ export class IcarusSim implements SimulationTool {
    * iverilog workflow:
    * 1. iverilog -o design.vvp design.v testbench.v
    * 2. vvp design.vvp
+   *
+   * With options.workDir, the VVP file is written inside the work directory.
+   * options.sources adds -I/-D/-y/-l/-Y flags.
    */
-  async compile(files: string[]): Promise<CompileResult> {
-    this.executable = 'a.out';
+  async compile(files: string[], options?: SimulationRunOptions): Promise<CompileResult> {
+    const executable = options?.workDir ? path.join(options.workDir, 'a.out') : 'a.out';
 
     const compileArgs = [
-      '-o', this.executable,
+      '-o', executable,
+      ...sourceArgs(options?.sources, 'iverilog'),
       ...files,
     ];
 
@@ -86,14 +105,18 @@ export class IcarusSim implements SimulationTool {
         success: false,
         errors: result.errors,
         stderr: result.stderr,
+        command: result.command,
       };
     }
 
+    this.executable = executable;
+
     return {
       success: true,
-      executable: this.executable,
+      executable,
       stdout: result.stdout,
       stderr: result.stderr,
+      command: result.command,
     };
   }
 
@@ -102,9 +125,11 @@ export class IcarusSim implements SimulationTool {
    *
    * @param testbench VVP executable (ignored, uses compiled executable)
    * @param args Simulation arguments
+   * @param options Work directory, timeout and executable for this run
    */
-  async simulate(testbench: string, args?: string[]): Promise<SimulationResult> {
-    if (!this.executable) {
+  async simulate(testbench: string, args?: string[], options?: SimulationRunOptions): Promise<SimulationResult> {
+    const executable = options?.executable ?? this.executable;
+    if (!executable) {
       return {
         success: false,
         passed: false,
@@ -113,66 +138,54 @@ export class IcarusSim implements SimulationTool {
     }
 
     const simArgs = args || [];
-    const cmd = `vvp ${this.executable} ${simArgs.join(' ')}`;
+    const cwd = options?.workDir ?? process.cwd();
+    const cmd = `vvp ${path.resolve(executable)} ${simArgs.join(' ')}`;
 
     try {
       const { stdout, stderr } = await execAsync(cmd, {
-        timeout: 60000,  // 60 second timeout
+        cwd,
+        timeout: options?.timeoutMs ?? 60000,  // 60 second default timeout
       });
 
-      // Check for pass/fail in output
-      const passed = this.checkSimulationPassed(stdout);
+      const verdict = this.classifier.classify({
+        stdout,
+        stderr,
+        exitCode: 0,
+        cocotbResultsXml: this.classifier.readCocotbResults(cwd),
+      });
 
       return {
         success: true,
-        passed,
+        passed: verdict.passed,
+        verdict,
         stdout,
         stderr,
-        waveform: 'dump.vcd',  // Default VCD output
+        command: cmd,
+        waveform: path.join(cwd, 'dump.vcd'),  // Default VCD output
       };
     } catch (error: any) {
+      const verdict = this.classifier.classify({
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: typeof error.code === 'number' ? error.code : 1,
+        timedOut: error.killed === true,
+      });
+
       return {
         success: false,
         passed: false,
+        verdict,
         stdout: error.stdout || '',
         stderr: error.stderr || error.message,
+        command: cmd,
       };
     }
   }
 
   /**
-   * Check if simulation passed
+   * Seed plusarg (read by the testbench via $value$plusargs)
    */
-  private checkSimulationPassed(output: string): boolean {
-    const passPatterns = [
-      /test passed/i,
-      /all tests passed/i,
-      /simulation passed/i,
-      /\*\*\* PASS \*\*\*/i,
-    ];
-
-    const failPatterns = [
-      /test failed/i,
-      /error:/i,
-      /assertion failed/i,
-      /\*\*\* FAIL \*\*\*/i,
-    ];
-
-    // Check for explicit failure first
-    for (const pattern of failPatterns) {
-      if (pattern.test(output)) {
-        return false;
-      }
-    }
-
-    // Check for explicit pass
-    for (const pattern of passPatterns) {
-      if (pattern.test(output)) {
-        return true;
-      }
-    }
-
-    // If no explicit pass/fail, assume pass if no errors
-    return true;
+  seedArgs(seed: number): string[] {
+    return [`+seed=${seed}`];
   }
 }
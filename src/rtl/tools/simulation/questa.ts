@@ -0,0 +1,224 @@
+/**
+ * Siemens Questa Simulation Tool
+ *
+ * Questa compiles into a library with vlog (Verilog/SystemVerilog) or
+ * vcom (VHDL), optimizes the top with vopt and runs it with vsim.
+ *
+ * https://eda.sw.siemens.com/en-US/ic/questa/simulation/
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HdlFamily, SimulationTool, SimulationRunOptions, ToolInput, CompileResult } from '../types.js';
+import type { SimulationResult, ToolConfig, ToolResult } from '../../types.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { sourceArgs } from '../../sources/index.js';
+import { isVhdlFile } from '../hdl.js';
+import { probeTool, runToolCommand, siblingExecutable, toolExecutable } from '../commercial.js';
+
+/** Work library inside the work directory */
+const LIBRARY_DIR = 'work';
+
+/** Optimized design unit name */
+const OPTIMIZED_TOP = 'top_opt';
+
+export interface QuestaSimOptions {
+  /** Pass/fail classifier (default: built-in patterns) */
+  classifier?: SimulationResultClassifier;
+  /** Executable (vsim), extra args and env (tools.commercial.questa) */
+  config?: ToolConfig;
+}
+
+export class QuestaSim implements SimulationTool {
+  readonly hdls: HdlFamily[] = ['verilog', 'vhdl'];
+  private executable?: string;
+  private design?: string;
+  private classifier: SimulationResultClassifier;
+  private config?: ToolConfig;
+
+  constructor(options: QuestaSimOptions = {}) {
+    this.classifier = options.classifier ?? new SimulationResultClassifier();
+    this.config = options.config;
+  }
+
+  private get command(): string {
+    return toolExecutable(this.config, 'vsim');
+  }
+
+  async isInstalled(): Promise<boolean> {
+    const output = await probeTool(`${this.command} -version`, this.config);
+    return output !== undefined && /vsim/i.test(output);
+  }
+
+  async getVersion(): Promise<string> {
+    const output = await probeTool(`${this.command} -version`, this.config);
+    const match = output?.match(/vsim\s+(\d[\w.]*)/);
+    return match ? match[1] : 'unknown';
+  }
+
+  async run(input: ToolInput, cwd?: string): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    return runToolCommand(`${this.command} ${args.join(' ')}`, { config: this.config, cwd, env: input.env });
+  }
+
+  /**
+   * Compile into the work library and optimize the top
+   *
+   * Questa workflow:
+   * 1. vlib <workDir>/work
+   * 2. vlog -work <lib> [+incdir+...] verilog files / vcom -work <lib> vhdl files
+   * 3. vopt -work <lib> <top> -o top_opt (with a configured top)
+   * 4. vsim -c -lib <lib> top_opt -do "run -all; quit -f"
+   *
+   * The returned executable is the work library directory.
+   */
+  async compile(files: string[], options?: SimulationRunOptions): Promise<CompileResult> {
+    const workDir = options?.workDir ?? process.cwd();
+    const library = path.join(workDir, LIBRARY_DIR);
+    const top = options?.sources?.top;
+    const vhdl = files.filter(isVhdlFile);
+    const verilog = files.filter(file => !isVhdlFile(file));
+
+    const steps = [`${siblingExecutable(this.config, 'vlib')} ${library}`];
+    if (verilog.length > 0) {
+      steps.push([
+        siblingExecutable(this.config, 'vlog'),
+        '-work', library,
+        '-l', path.join(workDir, 'vlog.log'),
+        ...sourceArgs(options?.sources, 'plusargs'),
+        ...(this.config?.args ?? []),
+        ...verilog,
+      ].join(' '));
+    }
+    if (vhdl.length > 0) {
+      steps.push([
+        siblingExecutable(this.config, 'vcom'),
+        '-work', library,
+        '-l', path.join(workDir, 'vcom.log'),
+        ...(this.config?.args ?? []),
+        ...vhdl,
+      ].join(' '));
+    }
+    if (top) {
+      steps.push([
+        siblingExecutable(this.config, 'vopt'),
+        '-work', library,
+        top,
+        '-o', OPTIMIZED_TOP,
+        ...(this.config?.elaborateArgs ?? []),
+      ].join(' '));
+    }
+
+    const commands: string[] = [];
+    let stdout = '';
+    let stderr = '';
+    for (const step of steps) {
+      const result = await runToolCommand(step, { config: this.config, cwd: workDir });
+      commands.push(step);
+      stdout += result.stdout ?? '';
+      stderr += result.stderr ?? '';
+
+      if (!result.success) {
+        // ** Error: rtl/fifo.sv(12): near "endmodule": syntax error, unexpected endmodule.
+        // ** Error (suppressible): rtl/fifo.sv(20): (vlog-2388) 'count' already declared
+        const output = `${result.stdout ?? ''}\n${result.stderr ?? ''}`;
+        const errors = output.split('\n').filter(line => /^#?\s*\*\* (?:Error|Fatal)/.test(line));
+        return {
+          success: false,
+          errors: result.licenseError || errors.length === 0 ? result.errors : errors,
+          stdout,
+          stderr,
+          command: commands.join(' && '),
+          licenseError: result.licenseError,
+        };
+      }
+    }
+
+    this.executable = library;
+    this.design = top ? OPTIMIZED_TOP : undefined;
+
+    return {
+      success: true,
+      executable: library,
+      stdout,
+      stderr,
+      command: commands.join(' && '),
+    };
+  }
+
+  /**
+   * Run the compiled design in batch mode
+   *
+   * @param testbench Testbench; its module is run when no top was optimized
+   * @param args Plusargs and vsim options
+   * @param options Work directory, timeout and library for this run
+   */
+  async simulate(testbench: string, args?: string[], options?: SimulationRunOptions): Promise<SimulationResult> {
+    const library = options?.executable ?? this.executable;
+    if (!library) {
+      return {
+        success: false,
+        passed: false,
+        stderr: 'Design not compiled. Call compile() first.',
+      };
+    }
+
+    const cwd = path.dirname(library);
+    const design = options?.sources?.top
+      ? OPTIMIZED_TOP
+      : this.design ?? path.basename(testbench).replace(/\.[^.]+$/, '');
+    const cmd = [
+      this.command,
+      '-c',
+      '-lib', library,
+      design,
+      '-do', '"run -all; quit -f"',
+      '-l', path.join(cwd, 'vsim.log'),
+      ...(this.config?.runArgs ?? []),
+      ...(args ?? []),
+    ].join(' ');
+    const result = await runToolCommand(cmd, {
+      config: this.config,
+      cwd,
+      timeoutMs: options?.timeoutMs ?? 60000,  // 60 second default timeout
+    });
+
+    // No verdict: the design never ran
+    if (result.licenseError) {
+      return {
+        success: false,
+        passed: false,
+        errors: result.errors,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        command: cmd,
+        licenseError: result.licenseError,
+      };
+    }
+
+    const verdict = this.classifier.classify({
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+    });
+    const waveform = path.join(cwd, 'dump.vcd');
+
+    return {
+      success: result.success,
+      passed: verdict.passed,
+      verdict,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      command: cmd,
+      ...(fs.existsSync(waveform) ? { waveform } : {}),
+    };
+  }
+
+  /**
+   * Seed for $urandom and randomize()
+   */
+  seedArgs(seed: number): string[] {
+    return ['-sv_seed', String(seed)];
+  }
+}
@@ -0,0 +1,291 @@
+/**
+ * Failure Triage
+ *
+ * Turns a failing simulation run into a compact report for whoever has to
+ * fix it:
+ * 1. First failure: the first failure evidence of the verdict (assertion,
+ *    $error/$fatal, UVM_ERROR, fail pattern, cocotb failure) and its
+ *    simulation time
+ * 2. Source: the file and line of the assertion or report, with the lines
+ *    around it
+ * 3. Waveform: the signals the failing statement reads (plus configured
+ *    ones), sampled on the clock for a few cycles up to the failure
+ *
+ * Every part is best effort; whatever cannot be found is explained in notes.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SimulationResult, TriageConfig, FailureTriage, FailureSource, FailureWaveform, GeneratorRun } from '../../types.js';
+import { createScalaLocator } from '../../sources/index.js';
+import { parseAssertionFailure } from './classifier.js';
+import { openWaveform, resolveSignal, detectClock, type WaveformHeader, type WaveformVariable } from '../waveform/index.js';
+
+/** Source lines shown before and after the failing line */
+const CONTEXT_LINES = 3;
+
+/** Report lines after the failure line that may hold its time, scope or location */
+const REPORT_LINES = 3;
+
+const DEFAULT_CYCLES = 8;
+const DEFAULT_MAX_SIGNALS = 8;
+
+/**
+ * Simulation time of a report
+ *
+ * verilator, $display: "[150] %Error: ..."
+ * uvm:                 "UVM_ERROR tb.sv(42) @ 150: ..."
+ * iverilog, questa:    "Time: 150 ns  Scope: tb.dut ..."
+ * xrun:                "(time 150 NS)"
+ */
+const TIME_PATTERNS = [
+  /^\s*#?\s*\[\s*(\d+(?:\.\d+)?\s*(?:[munpf]?s\b)?)\s*\]/i,
+  /@\s*(\d+(?:\.\d+)?\s*(?:[munpf]?s\b)?)/i,
+  /\bTime:\s*(\d+(?:\.\d+)?\s*(?:[munpf]?s\b)?)/i,
+  /\btime\s+(\d+(?:\.\d+)?\s*(?:[munpf]?s\b)?)/i,
+];
+
+/**
+ * Source location of a report
+ *
+ * questa:             "File: tb.sv Line: 42"
+ * python traceback:   'File "test_fifo.py", line 42'
+ * vcs:                '"tb.sv", 42'
+ * uvm:                "tb.sv(42)"
+ * verilator/iverilog: "tb.sv:42:"
+ */
+const PYTHON_FRAME_PATTERN = /File "([^"]+)", line (\d+)/;
+const SOURCE_PATTERNS = [
+  /File:\s*(\S+)\s+Line:\s*(\d+)/,
+  PYTHON_FRAME_PATTERN,
+  /"([^"]+)",\s*(\d+)/,
+  /([\w./-]+\.(?:sv|svh|v|vh|vhd|vhdl|py))\((\d+)\)/,
+  /([\w./-]+\.(?:sv|svh|v|vh|vhd|vhdl|py)):(\d+)/,
+];
+
+const SCOPE_PATTERN = /\bScope:\s*(\S+)/;
+
+export interface TriageOptions extends TriageConfig {
+  /** Compiled files, to find sources reported by base name */
+  files?: string[];
+  /** Directories relative source paths are resolved against (run directory, workspace) */
+  searchDirs?: string[];
+  /** Elaboration that generated some of the files, to point at their Scala source */
+  elaboration?: GeneratorRun;
+}
+
+function firstMatch(patterns: RegExp[], lines: string[]): RegExpMatchArray | undefined {
+  for (const line of lines) {
+    for (const pattern of patterns) {
+      const match = line.match(pattern);
+      if (match) return match;
+    }
+  }
+  return undefined;
+}
+
+function findSource(file: string, options: TriageOptions): string | undefined {
+  if (path.isAbsolute(file)) {
+    return fs.existsSync(file) ? file : undefined;
+  }
+  for (const dir of options.searchDirs ?? []) {
+    const candidate = path.resolve(dir, file);
+    if (fs.existsSync(candidate)) return candidate;
+  }
+  const base = path.basename(file);
+  return options.files?.find(f => path.basename(f) === base && fs.existsSync(f));
+}
+
+/**
+ * Identifiers read by the failing statement
+ *
+ * An assertion runs from its line to the closing ';'; any other report is
+ * taken with the two lines before it, which usually hold its condition.
+ */
+function statementIdentifiers(text: string[], line: number, assertion: boolean, python: boolean): string[] {
+  const start = assertion ? line : Math.max(1, line - 2);
+  let end = line;
+  if (assertion) {
+    while (end < text.length && end < line + 8 && !text[end - 1].includes(';')) end++;
+  }
+
+  const identifiers = new Set<string>();
+  for (const source of text.slice(start - 1, end)) {
+    const code = source
+      .replace(/"(?:[^"\\]|\\.)*"/g, '')
+      .replace(python ? /#.*$/ : /\/\/.*$/, '');
+    // Skips system tasks ($error) and based literals (8'hff)
+    for (const match of code.matchAll(/(?<![\w$'])[A-Za-z_]\w*/g)) {
+      identifiers.add(match[0]);
+    }
+  }
+  return [...identifiers];
+}
+
+/**
+ * Resolve a name in the failing scope, its parents, then anywhere it is unique
+ *
+ * Leading scope components are dropped too, since simulators name the top
+ * differently in reports and dumps ('TOP.tb.dut' vs 'tb.dut').
+ */
+function resolveInScope(header: WaveformHeader, name: string, scope?: string): WaveformVariable | undefined {
+  const parts = scope ? scope.split('.') : [];
+  for (let end = parts.length; end >= 0; end--) {
+    for (let start = 0; start <= end; start++) {
+      try {
+        return resolveSignal(header, [...parts.slice(start, end), name].join('.'));
+      } catch {
+        // Not in this scope
+      }
+    }
+  }
+  return undefined;
+}
+
+async function sampleFailure(
+  file: string,
+  identifiers: string[],
+  scope: string | undefined,
+  time: string | undefined,
+  options: TriageOptions
+): Promise<FailureWaveform> {
+  let clock: WaveformVariable | undefined;
+  let names: string[] = [];
+
+  const waveform = await openWaveform(file, {
+    select: header => {
+      clock = detectClock(header);
+      if (!clock) {
+        throw new Error('no clock found in the waveform');
+      }
+      const variables = [
+        ...(options.signals ?? []).map(name => resolveInScope(header, name)),
+        ...identifiers.map(name => resolveInScope(header, name, scope)),
+      ].filter((v): v is WaveformVariable => v !== undefined && v.id !== clock!.id);
+      names = variables
+        .filter((v, i) => variables.findIndex(other => other.id === v.id) === i)
+        .slice(0, options.maxSignals ?? DEFAULT_MAX_SIGNALS)
+        .map(v => v.name);
+      if (names.length === 0) {
+        throw new Error('no signal of the failing statement is in the waveform');
+      }
+      return [clock.name, ...names];
+    },
+  });
+
+  const reported = time?.replace(/\s+/g, '');
+  const failureTime = reported === undefined
+    ? waveform.endTime
+    : Math.min(waveform.endTime, /^\d+(\.\d+)?$/.test(reported) ? Math.round(parseFloat(reported)) : waveform.parseTime(reported));
+
+  const edges = waveform.clockEdges({ clock: clock!.name });
+  if (edges.length === 0) {
+    throw new Error(`clock ${clock!.name} never toggles`);
+  }
+  let index = edges.length - 1;
+  while (index > 0 && edges[index] > failureTime) index--;
+  const cycles = options.cycles ?? DEFAULT_CYCLES;
+  const table = waveform.sample(names, {
+    clock: clock!.name,
+    from: edges[Math.max(0, index - cycles + 1)],
+    to: edges[Math.min(edges.length - 1, index + 1)],
+    changesOnly: false,
+    limit: cycles + 1,
+  });
+
+  return {
+    file,
+    timescale: waveform.header.timescale,
+    time: failureTime,
+    clock: clock!.name,
+    ...table,
+  };
+}
+
+/**
+ * Build a triage report for a failing run
+ *
+ * @param result Simulation result with its verdict and waveform
+ * @returns undefined for passing runs and runs without a verdict (compile failures)
+ */
+export async function triageFailure(result: SimulationResult, options: TriageOptions = {}): Promise<FailureTriage | undefined> {
+  const verdict = result.verdict;
+  if (!verdict || verdict.passed) {
+    return undefined;
+  }
+
+  const output = [...(result.stdout ?? '').split('\n'), ...(result.stderr ?? '').split('\n')];
+  const first = verdict.evidence[0];
+  const triage: FailureTriage = first
+    ? { kind: first.kind, message: first.text, ...(first.line !== undefined ? { line: first.line } : {}) }
+    : { kind: verdict.status === 'fail' ? 'exit' : verdict.status as 'timeout' | 'no-verdict', message: verdict.reason };
+  const notes: string[] = [];
+
+  // Report lines: the failure and what follows it, or a cocotb traceback
+  let report: string[] = [];
+  let time: string | undefined;
+  if (first?.line !== undefined) {
+    report = output.slice(first.line - 1, first.line - 1 + REPORT_LINES);
+  } else if (first?.kind === 'cocotb') {
+    const testCase = verdict.cocotb?.testCases.find(t => first.text.startsWith(`${t.name}:`));
+    // Innermost frame of the test, not of cocotb or the libraries it calls
+    report = (testCase?.traceback ?? '').split('\n')
+      .filter(line => PYTHON_FRAME_PATTERN.test(line) && !/site-packages|dist-packages/.test(line))
+      .reverse();
+    if (testCase?.simTimeNs !== undefined) time = `${testCase.simTimeNs} ns`;
+  }
+
+  const assertion = report.length > 0 ? parseAssertionFailure(report[0]) : undefined;
+  time ??= assertion?.time ?? firstMatch(TIME_PATTERNS, report)?.[1].trim();
+  if (time !== undefined) triage.time = time;
+  const scope = assertion?.scope?.split('.').slice(0, -1).join('.') || report.join('\n').match(SCOPE_PATTERN)?.[1];
+
+  // Source of the assertion or report
+  let identifiers: string[] = [];
+  const reported = assertion ? undefined : firstMatch(SOURCE_PATTERNS, report);
+  const location = assertion
+    ? { file: assertion.file, line: assertion.line }
+    : reported && { file: reported[1], line: parseInt(reported[2], 10) };
+  if (!location) {
+    notes.push('No source location in the failure report');
+  } else {
+    const file = findSource(location.file, options);
+    if (!file) {
+      notes.push(`Source not found: ${location.file}`);
+    } else {
+      const text = fs.readFileSync(file, 'utf8').split('\n');
+      const start = Math.max(1, location.line - CONTEXT_LINES);
+      const end = Math.min(text.length, location.line + CONTEXT_LINES);
+      const width = String(end).length;
+      const source: FailureSource = { file, line: location.line, excerpt: [] };
+      for (let n = start; n <= end; n++) {
+        source.excerpt.push(`${n === location.line ? '>' : ' '} ${String(n).padStart(width)} | ${text[n - 1]}`);
+      }
+      const origin = options.elaboration && createScalaLocator(options.elaboration)(file, location.line);
+      if (origin) source.origin = origin;
+      triage.source = source;
+      identifiers = statementIdentifiers(text, location.line, assertion !== undefined, file.endsWith('.py'));
+    }
+  }
+
+  // Signal values up to the failure
+  if (!result.waveform || !fs.existsSync(result.waveform)) {
+    notes.push('No waveform: dump one ($dumpfile/$dumpvars, or waves for cocotb) to see signal values');
+  } else if (identifiers.length === 0 && !options.signals?.length) {
+    notes.push('No signals to sample: the failing statement was not found');
+  } else {
+    try {
+      triage.waveform = await sampleFailure(result.waveform, identifiers, scope, time, options);
+      if (time === undefined) {
+        notes.push('No failure time reported: values end at the end of the dump');
+      }
+    } catch (error) {
+      notes.push(`Waveform not sampled: ${(error as Error).message}`);
+    }
+  }
+
+  if (notes.length > 0) {
+    triage.notes = notes;
+  }
+  return triage;
+}
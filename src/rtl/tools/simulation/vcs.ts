@@ -0,0 +1,176 @@
+/**
+ * Synopsys VCS Simulation Tool
+ *
+ * VCS compiles and elaborates Verilog/SystemVerilog into a simv
+ * executable, which is then run with plusargs.
+ *
+ * https://www.synopsys.com/verification/simulation/vcs.html
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { SimulationTool, SimulationRunOptions, ToolInput, CompileResult } from '../types.js';
+import type { SimulationResult, ToolConfig, ToolResult } from '../../types.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { sourceArgs } from '../../sources/index.js';
+import { probeTool, runToolCommand, toolExecutable } from '../commercial.js';
+
+export interface VcsSimOptions {
+  /** Pass/fail classifier (default: built-in patterns) */
+  classifier?: SimulationResultClassifier;
+  /** Executable, extra args and env (tools.commercial.vcs) */
+  config?: ToolConfig;
+}
+
+export class VcsSim implements SimulationTool {
+  private executable?: string;
+  private classifier: SimulationResultClassifier;
+  private config?: ToolConfig;
+
+  constructor(options: VcsSimOptions = {}) {
+    this.classifier = options.classifier ?? new SimulationResultClassifier();
+    this.config = options.config;
+  }
+
+  private get command(): string {
+    return toolExecutable(this.config, 'vcs');
+  }
+
+  async isInstalled(): Promise<boolean> {
+    const output = await probeTool(`${this.command} -ID`, this.config);
+    return output !== undefined && /vcs/i.test(output);
+  }
+
+  async getVersion(): Promise<string> {
+    const output = await probeTool(`${this.command} -ID`, this.config);
+    const match = output?.match(/version\s*[:=]\s*(?:VCS\s+)?(\S+)/i);
+    return match ? match[1] : 'unknown';
+  }
+
+  async run(input: ToolInput, cwd?: string): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    return runToolCommand(`${this.command} ${args.join(' ')}`, { config: this.config, cwd, env: input.env });
+  }
+
+  /**
+   * Compile and elaborate into simv
+   *
+   * VCS workflow:
+   * 1. vcs -full64 -sverilog -o <workDir>/simv -Mdir=<workDir>/csrc [+incdir+...] [-top <top>] files
+   * 2. <workDir>/simv [plusargs]
+   */
+  async compile(files: string[], options?: SimulationRunOptions): Promise<CompileResult> {
+    const workDir = options?.workDir ?? process.cwd();
+    const executable = path.join(workDir, 'simv');
+    const top = options?.sources?.top;
+
+    const result = await this.run({
+      files,
+      args: [
+        '-full64',
+        '-sverilog',
+        '-o', executable,
+        `-Mdir=${path.join(workDir, 'csrc')}`,
+        '-l', path.join(workDir, 'vcs_compile.log'),
+        ...sourceArgs(options?.sources, 'plusargs'),
+        ...(top ? ['-top', top] : []),
+        ...(this.config?.args ?? []),
+      ],
+    }, workDir);
+
+    if (!result.success) {
+      // Error-[SE] Syntax error
+      //   Following verilog source has syntax error :
+      //   "rtl/fifo.sv", 12: token is 'endmodule'
+      const output = `${result.stdout ?? ''}\n${result.stderr ?? ''}`;
+      const errors = output.split('\n').filter(line => /^Error-\[/.test(line));
+      return {
+        success: false,
+        errors: result.licenseError || errors.length === 0 ? result.errors : errors,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        command: result.command,
+        licenseError: result.licenseError,
+      };
+    }
+
+    this.executable = executable;
+
+    return {
+      success: true,
+      executable,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      command: result.command,
+    };
+  }
+
+  /**
+   * Run simv
+   *
+   * @param testbench Testbench (ignored, runs the compiled simv)
+   * @param args Plusargs and simv options
+   * @param options Work directory, timeout and simv for this run
+   */
+  async simulate(_testbench: string, args?: string[], options?: SimulationRunOptions): Promise<SimulationResult> {
+    const executable = options?.executable ?? this.executable;
+    if (!executable) {
+      return {
+        success: false,
+        passed: false,
+        stderr: 'Design not compiled. Call compile() first.',
+      };
+    }
+
+    const cwd = path.dirname(executable);
+    const cmd = [
+      path.resolve(executable),
+      '-l', path.join(cwd, 'simv.log'),
+      ...(this.config?.runArgs ?? []),
+      ...(args ?? []),
+    ].join(' ');
+    const result = await runToolCommand(cmd, {
+      config: this.config,
+      cwd,
+      timeoutMs: options?.timeoutMs ?? 60000,  // 60 second default timeout
+    });
+
+    // No verdict: the design never ran
+    if (result.licenseError) {
+      return {
+        success: false,
+        passed: false,
+        errors: result.errors,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        command: cmd,
+        licenseError: result.licenseError,
+      };
+    }
+
+    const verdict = this.classifier.classify({
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+    });
+    const waveform = path.join(cwd, 'dump.vcd');
+
+    return {
+      success: result.success,
+      passed: verdict.passed,
+      verdict,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      command: cmd,
+      ...(fs.existsSync(waveform) ? { waveform } : {}),
+    };
+  }
+
+  /**
+   * Seed for $urandom and randomize()
+   */
+  seedArgs(seed: number): string[] {
+    return [`+ntb_random_seed=${seed}`];
+  }
+}
@@ -9,14 +9,35 @@
 
 import { promisify } from 'util';
 import { exec } from 'child_process';
+import * as fs from 'fs';
 import * as path from 'path';
-import type { SimulationTool, ToolInput, CompileResult } from '../types.js';
+import type { SimulationTool, SimulationRunOptions, ToolInput, CompileResult } from '../types.js';
 import type { SimulationResult, CoverageResult, ToolResult } from '../../types.js';
+import { parseCoverageDat, summarizeCoverage } from '../coverage/verilator.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { sourceArgs } from '../../sources/index.js';
+import { VerilatorHierarchy, buildHierarchy, inferTopModule } from '../hierarchy/index.js';
 
 const execAsync = promisify(exec);
 
+export interface VerilatorSimOptions {
+  /** Coverage database written by the simulation (default: coverage.dat, then logs/coverage.dat) */
+  coverageFile?: string;
+  /** Directory for `verilator_coverage --annotate` output (skipped if unset) */
+  annotateDir?: string;
+  /** Pass/fail classifier (default: built-in patterns) */
+  classifier?: SimulationResultClassifier;
+}
+
 export class VerilatorSim implements SimulationTool {
   private executable?: string;
+  private options: VerilatorSimOptions;
+  private classifier: SimulationResultClassifier;
+
+  constructor(options: VerilatorSimOptions = {}) {
+    this.options = options;
+    this.classifier = options.classifier ?? new SimulationResultClassifier();
+  }
 
   async isInstalled(): Promise<boolean> {
     try {
@@ -50,6 +71,7 @@ export class VerilatorSim implements SimulationTool {
         stdout,
         stderr,
         exitCode: 0,
+        command: cmd,
       };
     } catch (error: any) {
       return {
@@ -58,6 +80,7 @@ export class VerilatorSim implements SimulationTool {
         stderr: error.stderr || '',
         exitCode: error.code || 1,
         errors: [error.message],
+        command: cmd,
       };
     }
   }
@@ -69,11 +92,14 @@ export class VerilatorSim implements SimulationTool {
    * 1. verilator --cc design.sv --exe testbench.cpp
    * 2. make -C obj_dir -f Vdesign.mk
    * 3. obj_dir/Vdesign
+   *
+   * With options.workDir, obj_dir is created inside the work directory.
+   * options.sources adds -I/-D/-y/-v/+libext+ flags. The top module is
+   * options.sources.top, else the testbench top found by elaboration.
    */
-  async compile(files: string[]): Promise<CompileResult> {
-    // Determine top module name from first file
-    const topFile = files[0];
-    const topModule = path.basename(topFile, path.extname(topFile));
+  async compile(files: string[], options?: SimulationRunOptions): Promise<CompileResult> {
+    const topModule = options?.sources?.top ?? await this.inferTop(files, options);
+    const objDir = options?.workDir ? path.join(options.workDir, 'obj_dir') : 'obj_dir';
 
     // Verilate to C++
     const verilateArgs = [
@@ -82,7 +108,11 @@ export class VerilatorSim implements SimulationTool {
       '--exe',                   // Include executable generation
       '--Wall',                  // All warnings
       '--trace',                 // Enable waveform tracing (VCD)
+      '--assert',                // Check assertions (SVA, unique/priority case)
       '--coverage',              // Enable coverage
+      '--Mdir', objDir,          // Build directory
+      '--top-module', topModule,
+      ...sourceArgs(options?.sources, 'verilator'),
       ...files,
     ];
 
@@ -96,28 +126,46 @@ export class VerilatorSim implements SimulationTool {
         success: false,
         errors: result.errors,
         stderr: result.stderr,
+        command: result.command,
       };
     }
 
     // Executable path: obj_dir/V{topModule}
-    this.executable = `obj_dir/V${topModule}`;
+    const executable = path.join(objDir, `V${topModule}`);
+    this.executable = executable;
 
     return {
       success: true,
-      executable: this.executable,
+      executable,
       stdout: result.stdout,
       stderr: result.stderr,
+      command: result.command,
     };
   }
 
+  /**
+   * Testbench top from the elaborated hierarchy (default: basename of the first file)
+   */
+  private async inferTop(files: string[], options?: SimulationRunOptions): Promise<string> {
+    const fallback = path.basename(files[0], path.extname(files[0]));
+    try {
+      const { modules } = await new VerilatorHierarchy().elaborate(files, options?.sources);
+      return inferTopModule(buildHierarchy(modules), 'testbench') ?? fallback;
+    } catch {
+      return fallback;
+    }
+  }
+
   /**
    * Run simulation
    *
    * @param testbench Testbench executable (ignored for Verilator, uses compiled executable)
    * @param args Simulation arguments
+   * @param options Work directory, timeout and executable for this run
    */
-  async simulate(testbench: string, args?: string[]): Promise<SimulationResult> {
-    if (!this.executable) {
+  async simulate(testbench: string, args?: string[], options?: SimulationRunOptions): Promise<SimulationResult> {
+    const executable = options?.executable ?? this.executable;
+    if (!executable) {
       return {
         success: false,
         passed: false,
@@ -126,29 +174,46 @@ export class VerilatorSim implements SimulationTool {
     }
 
     const simArgs = args || [];
-    const cmd = `${this.executable} ${simArgs.join(' ')}`;
+    const cwd = options?.workDir ?? process.cwd();
+    const cmd = `${path.resolve(executable)} ${simArgs.join(' ')}`;
 
     try {
       const { stdout, stderr } = await execAsync(cmd, {
-        timeout: 60000,  // 60 second timeout
+        cwd,
+        timeout: options?.timeoutMs ?? 60000,  // 60 second default timeout
       });
 
-      // Check for pass/fail in output
-      const passed = this.checkSimulationPassed(stdout);
+      const verdict = this.classifier.classify({
+        stdout,
+        stderr,
+        exitCode: 0,
+        cocotbResultsXml: this.classifier.readCocotbResults(cwd),
+      });
 
       return {
         success: true,
-        passed,
+        passed: verdict.passed,
+        verdict,
         stdout,
         stderr,
-        waveform: 'dump.vcd',  // Default VCD output
+        command: cmd,
+        waveform: path.join(cwd, 'dump.vcd'),  // Default VCD output
       };
     } catch (error: any) {
+      const verdict = this.classifier.classify({
+        stdout: error.stdout || '',
+        stderr: error.stderr || '',
+        exitCode: typeof error.code === 'number' ? error.code : 1,
+        timedOut: error.killed === true,
+      });
+
       return {
         success: false,
         passed: false,
+        verdict,
         stdout: error.stdout || '',
         stderr: error.stderr || error.message,
+        command: cmd,
       };
     }
   }
@@ -156,54 +221,41 @@ export class VerilatorSim implements SimulationTool {
   /**
    * Collect coverage data
    *
-   * Verilator generates coverage.dat file
+   * Parses the coverage.dat written by the simulation and, if annotateDir
+   * is set, runs `verilator_coverage --annotate` for line-level source views.
    */
-  async collectCoverage(): Promise<CoverageResult> {
-    // TODO: Parse coverage.dat file
-    // verilator_coverage --annotate annotated coverage.dat
+  async collectCoverage(options?: SimulationRunOptions): Promise<CoverageResult> {
+    const cwd = options?.workDir ?? process.cwd();
+    const candidates = (this.options.coverageFile
+      ? [this.options.coverageFile]
+      : ['coverage.dat', path.join('logs', 'coverage.dat')]
+    ).map(candidate => path.resolve(cwd, candidate));
+    const database = candidates.find(candidate => fs.existsSync(candidate));
 
-    return {
-      line: 0,
-      toggle: 0,
-      fsm: 0,
-    };
-  }
-
-  /**
-   * Check if simulation passed
-   *
-   * Looks for common pass/fail indicators in output
-   */
-  private checkSimulationPassed(output: string): boolean {
-    const passPatterns = [
-      /test passed/i,
-      /all tests passed/i,
-      /simulation passed/i,
-      /\*\*\* PASS \*\*\*/i,
-    ];
+    if (!database) {
+      throw new Error(`Coverage database not found (looked for ${candidates.join(', ')})`);
+    }
 
-    const failPatterns = [
-      /test failed/i,
-      /error:/i,
-      /assertion failed/i,
-      /\*\*\* FAIL \*\*\*/i,
-    ];
+    const content = await fs.promises.readFile(database, 'utf8');
+    const coverage = summarizeCoverage(parseCoverageDat(content));
+    coverage.database = database;
 
-    // Check for explicit failure first
-    for (const pattern of failPatterns) {
-      if (pattern.test(output)) {
-        return false;
+    if (this.options.annotateDir) {
+      try {
+        await execAsync(`verilator_coverage --annotate ${this.options.annotateDir} ${database}`);
+        coverage.annotated = this.options.annotateDir;
+      } catch (error: any) {
+        console.warn(`verilator_coverage --annotate failed: ${error.stderr || error.message}`);
       }
     }
 
-    // Check for explicit pass
-    for (const pattern of passPatterns) {
-      if (pattern.test(output)) {
-        return true;
-      }
-    }
+    return coverage;
+  }
 
-    // If no explicit pass/fail, assume pass if no errors
-    return true;
+  /**
+   * Seed runtime arguments (Verilator runtime seed plus a generic +seed plusarg)
+   */
+  seedArgs(seed: number): string[] {
+    return [`+verilator+seed+${seed}`, `+seed=${seed}`];
   }
 }
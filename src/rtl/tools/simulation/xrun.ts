@@ -0,0 +1,180 @@
+/**
+ * Cadence Xcelium (xrun) Simulation Tool
+ *
+ * xrun compiles, elaborates and runs Verilog, SystemVerilog and VHDL in
+ * one invocation; here compile/elaborate and run are separate so the
+ * snapshot can be rerun with other seeds and plusargs.
+ *
+ * https://www.cadence.com/en_US/home/tools/system-design-and-verification/simulation-and-testbench-verification/xcelium-simulator.html
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HdlFamily, SimulationTool, SimulationRunOptions, ToolInput, CompileResult } from '../types.js';
+import type { SimulationResult, ToolConfig, ToolResult } from '../../types.js';
+import { SimulationResultClassifier } from './classifier.js';
+import { sourceArgs } from '../../sources/index.js';
+import { probeTool, runToolCommand, toolExecutable } from '../commercial.js';
+
+/** Snapshot library inside the work directory */
+const LIBRARY_DIR = 'xcelium.d';
+
+export interface XrunSimOptions {
+  /** Pass/fail classifier (default: built-in patterns) */
+  classifier?: SimulationResultClassifier;
+  /** Executable, extra args and env (tools.commercial.xrun) */
+  config?: ToolConfig;
+}
+
+export class XrunSim implements SimulationTool {
+  readonly hdls: HdlFamily[] = ['verilog', 'vhdl'];
+  private executable?: string;
+  private classifier: SimulationResultClassifier;
+  private config?: ToolConfig;
+
+  constructor(options: XrunSimOptions = {}) {
+    this.classifier = options.classifier ?? new SimulationResultClassifier();
+    this.config = options.config;
+  }
+
+  private get command(): string {
+    return toolExecutable(this.config, 'xrun');
+  }
+
+  async isInstalled(): Promise<boolean> {
+    const output = await probeTool(`${this.command} -version`, this.config);
+    return output !== undefined && /xrun/i.test(output);
+  }
+
+  async getVersion(): Promise<string> {
+    const output = await probeTool(`${this.command} -version`, this.config);
+    const match = output?.match(/xrun(?:\(64\))?:?\s+(\d[\w.-]*)/i);
+    return match ? match[1] : 'unknown';
+  }
+
+  async run(input: ToolInput, cwd?: string): Promise<ToolResult> {
+    const args = [...(input.args || []), ...input.files];
+    return runToolCommand(`${this.command} ${args.join(' ')}`, { config: this.config, cwd, env: input.env });
+  }
+
+  /**
+   * Compile and elaborate into a snapshot
+   *
+   * xrun workflow:
+   * 1. xrun -elaborate -xmlibdirname <workDir>/xcelium.d [+incdir+...] [-top <top>] files
+   * 2. xrun -R -xmlibdirname <workDir>/xcelium.d [plusargs]
+   *
+   * The returned executable is the snapshot library directory.
+   */
+  async compile(files: string[], options?: SimulationRunOptions): Promise<CompileResult> {
+    const workDir = options?.workDir ?? process.cwd();
+    const library = path.join(workDir, LIBRARY_DIR);
+    const top = options?.sources?.top;
+
+    const result = await this.run({
+      files,
+      args: [
+        '-elaborate',
+        '-xmlibdirname', library,
+        '-l', path.join(workDir, 'xrun_compile.log'),
+        ...sourceArgs(options?.sources, 'plusargs'),
+        ...(top ? ['-top', top] : []),
+        ...(this.config?.args ?? []),
+      ],
+    }, workDir);
+
+    if (!result.success) {
+      const output = `${result.stdout ?? ''}\n${result.stderr ?? ''}`;
+      const errors = output.split('\n').filter(line => /\*[EF],\w+/.test(line));
+      return {
+        success: false,
+        errors: result.licenseError || errors.length === 0 ? result.errors : errors,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        command: result.command,
+        licenseError: result.licenseError,
+      };
+    }
+
+    this.executable = library;
+
+    return {
+      success: true,
+      executable: library,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      command: result.command,
+    };
+  }
+
+  /**
+   * Run the elaborated snapshot
+   *
+   * @param testbench Testbench (ignored, runs the compiled snapshot)
+   * @param args Plusargs and xrun run options
+   * @param options Work directory, timeout and snapshot for this run
+   */
+  async simulate(_testbench: string, args?: string[], options?: SimulationRunOptions): Promise<SimulationResult> {
+    const library = options?.executable ?? this.executable;
+    if (!library) {
+      return {
+        success: false,
+        passed: false,
+        stderr: 'Design not compiled. Call compile() first.',
+      };
+    }
+
+    const cwd = path.dirname(library);
+    const cmd = [
+      this.command,
+      '-R',
+      '-xmlibdirname', library,
+      '-l', path.join(cwd, 'xrun.log'),
+      ...(this.config?.runArgs ?? []),
+      ...(args ?? []),
+    ].join(' ');
+    const result = await runToolCommand(cmd, {
+      config: this.config,
+      cwd,
+      timeoutMs: options?.timeoutMs ?? 60000,  // 60 second default timeout
+    });
+
+    // No verdict: the design never ran
+    if (result.licenseError) {
+      return {
+        success: false,
+        passed: false,
+        errors: result.errors,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        command: cmd,
+        licenseError: result.licenseError,
+      };
+    }
+
+    const verdict = this.classifier.classify({
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+    });
+    const waveform = path.join(cwd, 'dump.vcd');
+
+    return {
+      success: result.success,
+      passed: verdict.passed,
+      verdict,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      command: cmd,
+      ...(fs.existsSync(waveform) ? { waveform } : {}),
+    };
+  }
+
+  /**
+   * Seed for $urandom and randomize()
+   */
+  seedArgs(seed: number): string[] {
+    return ['-svseed', String(seed)];
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * GHDL Synthesis Tool
+ *
+ * Yosys with the ghdl plugin (ghdl-yosys-plugin), which reads VHDL into
+ * yosys; Verilog files of a mixed design still go through read_verilog.
+ * The plugin is either built into yosys or loaded with `yosys -m ghdl`.
+ *
+ * https://github.com/ghdl/ghdl-yosys-plugin
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import type { HdlFamily, SynthesisTool, SynthesisRunOptions, TimingAnalysisOptions, ToolInput } from '../types.js';
+import type { SynthesisResult, TimingConstraints, TimingResult, PPAResult, ToolResult } from '../../types.js';
+import { YosysSynth, type YosysSynthOptions } from './yosys.js';
+
+const execAsync = promisify(exec);
+
+export class GhdlSynth implements SynthesisTool {
+  readonly hdls: HdlFamily[] = ['vhdl', 'verilog'];
+  private options: YosysSynthOptions;
+  private yosys?: Promise<YosysSynth | null>;
+
+  /**
+   * @param options Yosys settings; options.vhdl holds the VHDL standard and libraries
+   */
+  constructor(options: YosysSynthOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Yosys with the ghdl command available, detected once
+   */
+  private resolveYosys(): Promise<YosysSynth | null> {
+    this.yosys ??= (async () => {
+      for (const modules of [[], ['ghdl']]) {
+        const load = modules.map(module => `-m ${module} `).join('');
+        try {
+          const { stdout } = await execAsync(`yosys ${load}-p "help ghdl"`);
+          if (!/No such command/i.test(stdout)) {
+            return new YosysSynth({ ...this.options, modules: [...(this.options.modules ?? []), ...modules] });
+          }
+        } catch {
+          // Not built in, or the plugin is not installed
+        }
+      }
+      return null;
+    })();
+    return this.yosys;
+  }
+
+  private async requireYosys(): Promise<YosysSynth> {
+    const yosys = await this.resolveYosys();
+    if (!yosys) {
+      throw new Error('yosys ghdl plugin not available');
+    }
+    return yosys;
+  }
+
+  async isInstalled(): Promise<boolean> {
+    return (await this.resolveYosys()) !== null;
+  }
+
+  async getVersion(): Promise<string> {
+    const yosys = await this.resolveYosys();
+    return yosys ? yosys.getVersion() : 'unknown';
+  }
+
+  async run(input: ToolInput): Promise<ToolResult> {
+    const yosys = await this.resolveYosys();
+    if (!yosys) {
+      return { success: false, errors: ['yosys ghdl plugin not available'] };
+    }
+    return yosys.run(input);
+  }
+
+  /**
+   * Synthesize VHDL or mixed VHDL/Verilog designs (see YosysSynth.synthesize)
+   */
+  async synthesize(
+    design: string[],
+    constraints?: TimingConstraints,
+    options?: SynthesisRunOptions
+  ): Promise<SynthesisResult> {
+    const yosys = await this.resolveYosys();
+    if (!yosys) {
+      return { success: false, stderr: 'yosys ghdl plugin not available' };
+    }
+    return yosys.synthesize(design, constraints, options);
+  }
+
+  async analyzeTiming(netlist: string, options?: TimingAnalysisOptions): Promise<TimingResult> {
+    return (await this.requireYosys()).analyzeTiming(netlist, options);
+  }
+
+  async estimatePPA(netlist: string): Promise<PPAResult> {
+    return (await this.requireYosys()).estimatePPA(netlist);
+  }
+}
@@ -3,16 +3,32 @@
  *
  * Provides unified interface for various synthesis tools:
  * - yosys (opensource)
+ * - ghdl (opensource, VHDL through the yosys ghdl plugin)
  * - design compiler (commercial, Synopsys)
  * - genus (commercial, Cadence)
  */
 
-import type { SynthesisTool } from '../types.js';
-import type { SynthesisResult } from '../../types.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { HdlFamily, SynthesisTool, SynthesisRunOptions } from '../types.js';
+import type { SynthesisResult, RTLLanguage, RTLProjectConfig, SourceSet, TimingConstraints } from '../../types.js';
+import { loadRTLConfig, resolveToolPreference, parseClockPeriod } from '../../config/index.js';
+import { createRunDirectory, writeRunManifest } from '../run.js';
+import { ConstraintsError, loadConstraints, parseNetlistPorts, validateConstraints } from '../timing/index.js';
+import { SourceSetError, resolveSourceSet } from '../../sources/index.js';
+import { designHdl, readsHdl, resolveVhdlConfig } from '../hdl.js';
+import type { YosysSynthOptions } from './yosys.js';
+
+export { parseYosysStat } from './yosys.js';
+export type { YosysSynthOptions, YosysStat } from './yosys.js';
 
 export class SynthesisManager {
   private tools: Map<string, SynthesisTool>;
   private preferredTool?: string;
+  private runRoot?: string;
+  private defaultConstraints: string[] = [];
+  private resolveSources?: () => Promise<SourceSet>;
+  private language?: RTLLanguage;
 
   constructor() {
     this.tools = new Map();
@@ -54,57 +70,204 @@ export class SynthesisManager {
     return installed;
   }
 
+  /**
+   * Use a fresh run directory under root for every run without options.workDir
+   */
+  setRunRoot(root: string): void {
+    this.runRoot = root;
+  }
+
+  /**
+   * Constraint files used when synthesize() is called without any
+   */
+  setDefaultConstraints(files: string[]): void {
+    this.defaultConstraints = files;
+  }
+
+  /**
+   * Resolve include dirs, defines, top and default files before every run
+   */
+  setSources(resolve: () => Promise<SourceSet>): void {
+    this.resolveSources = resolve;
+  }
+
+  /**
+   * Configured language, deciding the HDL when no HDL file is given
+   */
+  setLanguage(language: RTLLanguage): void {
+    this.language = language;
+  }
+
   /**
    * Synthesize design
    *
-   * @param design RTL design files
-   * @param constraints Synthesis constraints (SDC, TCL, etc.)
+   * Constraint files are parsed before the run and checked against the
+   * synthesized top's ports afterwards; unknown ports or clocks fail the
+   * run without timing analysis.
+   *
+   * VHDL designs run on a tool that reads VHDL (ghdl).
+   *
+   * Runs with a work directory (options.workDir or a new directory under the
+   * run root) write a run.json manifest there and return it as `result.run`.
+   *
+   * @param design RTL design files (default: the files of the source set)
+   * @param constraints SDC/XDC constraint files (default: setDefaultConstraints())
    * @param preferredTool Override preferred tool for this run
+   * @param options Work directory for this run
    */
   async synthesize(
     design: string[],
-    constraints: string,
-    preferredTool?: string
+    constraints: string | string[] = [],
+    preferredTool?: string,
+    options: SynthesisRunOptions = {}
   ): Promise<SynthesisResult> {
-    const tool = await this.selectTool(preferredTool);
+    let sources: SourceSet | undefined;
+    try {
+      sources = await this.resolveSources?.();
+    } catch (error) {
+      if (!(error instanceof SourceSetError)) throw error;
+      return {
+        success: false,
+        errors: error.issues,
+        stderr: error.message,
+      };
+    }
 
+    const designFiles = design.length > 0 ? design : sources?.files ?? [];
+    if (designFiles.length === 0) {
+      return {
+        success: false,
+        stderr: 'No files to synthesize (pass files or configure sources in .rtl-config.json)',
+      };
+    }
+
+    const hdl = designHdl(designFiles, this.language);
+    const tool = await this.selectTool(preferredTool, hdl);
     if (!tool) {
       return {
         success: false,
-        stderr: 'No synthesis tool available',
+        stderr: hdl === 'vhdl'
+          ? 'No VHDL synthesis tool available (install the yosys ghdl plugin)'
+          : 'No synthesis tool available',
+      };
+    }
+
+    const constraintFiles = (Array.isArray(constraints) ? constraints : [constraints]).filter(Boolean);
+    let timingConstraints: TimingConstraints | undefined;
+    try {
+      const files = constraintFiles.length > 0 ? constraintFiles : this.defaultConstraints;
+      timingConstraints = files.length > 0 ? await loadConstraints(files) : undefined;
+    } catch (error) {
+      if (!(error instanceof ConstraintsError)) throw error;
+      return {
+        success: false,
+        errors: error.issues,
+        stderr: error.message,
       };
     }
 
+    const startTime = new Date().toISOString();
+    const runOptions: SynthesisRunOptions = { sources, ...options };
+
+    let result: SynthesisResult;
     try {
-      const result = await tool.synthesize(design, constraints);
+      if (!runOptions.workDir && this.runRoot) {
+        const top = sources?.top ?? path.basename(designFiles[0], path.extname(designFiles[0]));
+        runOptions.workDir = await createRunDirectory(this.runRoot, top);
+      }
+
+      result = await tool.synthesize(designFiles, timingConstraints, runOptions);
 
-      // Analyze timing if synthesis succeeded
+      // Constraints must match the synthesized design's ports
+      if (result.success && result.netlist && timingConstraints) {
+        const ports = parseNetlistPorts(await fs.promises.readFile(result.netlist, 'utf8'), result.top);
+        const issues = validateConstraints(timingConstraints, ports);
+        if (issues.length > 0) {
+          result.success = false;
+          result.errors = [...(result.errors ?? []), ...issues];
+        }
+      }
+
+      // Analyze timing and PPA if synthesis succeeded; one failing keeps the other
       if (result.success && result.netlist) {
         try {
-          result.timing = await tool.analyzeTiming(result.netlist);
+          result.timing = await tool.analyzeTiming(result.netlist, {
+            constraints: timingConstraints,
+            top: result.top,
+          });
+        } catch (error) {
+          console.warn('Failed to analyze timing:', error);
+        }
+        try {
           result.ppa = await tool.estimatePPA(result.netlist);
+          if (result.timing?.source) {
+            result.ppa.performance.frequency = result.timing.frequency;
+          }
         } catch (error) {
-          console.warn('Failed to analyze timing/PPA:', error);
+          console.warn('Failed to estimate PPA:', error);
         }
       }
 
-      return result;
+      // Negative slack fails the run (netlist is still returned)
+      if (result.timing?.met === false) {
+        const { slack, criticalPath, clock } = result.timing;
+        result.success = false;
+        result.errors = [
+          ...(result.errors ?? []),
+          `Timing not met${clock ? ` on ${clock.name} (${clock.period} ns)` : ''}: ` +
+            `worst slack ${slack} ns on ${criticalPath.start} -> ${criticalPath.end}`,
+        ];
+      }
     } catch (error: any) {
-      return {
+      result = {
         success: false,
         stderr: error.message,
       };
     }
+
+    if (runOptions.workDir) {
+      try {
+        result.run = await writeRunManifest(runOptions.workDir, {
+          kind: 'synthesis',
+          tool: this.toolName(tool) ?? 'unknown',
+          toolVersion: await tool.getVersion(),
+          args: [],
+          commands: result.command ? [result.command] : [],
+          inputs: [...designFiles, ...(sources?.origins ?? []), ...(timingConstraints?.files ?? [])],
+          outputs: {
+            netlist: result.netlist,
+            script: result.script,
+            log: result.log,
+            timing: result.timing?.report,
+          },
+          success: result.success,
+          startTime,
+        });
+      } catch (error) {
+        console.warn('Failed to write run manifest:', error);
+      }
+    }
+
+    return result;
+  }
+
+  private toolName(tool: SynthesisTool): string | null {
+    for (const [name, registered] of this.tools) {
+      if (registered === tool) {
+        return name;
+      }
+    }
+    return null;
   }
 
   /**
-   * Select appropriate synthesis tool
+   * Select appropriate synthesis tool among those reading the design's HDL
    */
-  private async selectTool(preferred?: string): Promise<SynthesisTool | null> {
+  private async selectTool(preferred?: string, hdl: HdlFamily = 'verilog'): Promise<SynthesisTool | null> {
     // User override
     if (preferred && this.tools.has(preferred)) {
       const tool = this.tools.get(preferred)!;
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
@@ -112,14 +275,14 @@ export class SynthesisManager {
     // Manager's preferred
     if (this.preferredTool && this.tools.has(this.preferredTool)) {
       const tool = this.tools.get(this.preferredTool)!;
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
 
     // First installed
     for (const [name, tool] of this.tools) {
-      if (await tool.isInstalled()) {
+      if (readsHdl(tool, hdl) && await tool.isInstalled()) {
         return tool;
       }
     }
@@ -137,23 +300,63 @@ export class SynthesisManager {
 
 /**
  * Create default synthesis manager with all supported tools
+ *
+ * @param config RTL project config (default: loaded from the current workspace)
+ * @param workspaceRoot Project root for run directories and filelists (default: cwd)
  */
-export async function createSynthesisManager(): Promise<SynthesisManager> {
+export async function createSynthesisManager(
+  config?: RTLProjectConfig,
+  workspaceRoot: string = process.cwd()
+): Promise<SynthesisManager> {
+  const rtlConfig = config ?? await loadRTLConfig(workspaceRoot);
   const manager = new SynthesisManager();
 
+  const synthesis = rtlConfig.tools.synthesis;
+
+  const yosysOptions: YosysSynthOptions = {
+    top: synthesis?.top,
+    technology: synthesis?.target?.technology,
+    device: synthesis?.target?.device,
+    package: synthesis?.target?.package,
+    liberty: synthesis?.liberty ? path.resolve(workspaceRoot, synthesis.liberty) : undefined,
+    includeDirs: synthesis?.includeDirs?.map(dir => path.resolve(workspaceRoot, dir)),
+    defines: synthesis?.defines,
+    language: rtlConfig.language,
+    clockPeriod: synthesis?.target?.clock ? parseClockPeriod(synthesis.target.clock) : undefined,
+    vhdl: resolveVhdlConfig(rtlConfig.vhdl, workspaceRoot),
+  };
+
   // Load opensource tools
   try {
     const { YosysSynth } = await import('./yosys.js');
-    manager.register('yosys', new YosysSynth());
+    manager.register('yosys', new YosysSynth(yosysOptions));
   } catch (error) {
     console.warn('Failed to load yosys:', error);
   }
 
-  // Set default preference
+  try {
+    const { GhdlSynth } = await import('./ghdl.js');
+    manager.register('ghdl', new GhdlSynth(yosysOptions));
+  } catch (error) {
+    console.warn('Failed to load ghdl synth:', error);
+  }
+
+  // Set preference: configured tool, configured fallback, then yosys
   const installed = await manager.detectInstalledTools();
-  if (installed.includes('yosys')) {
-    manager.setPreferred('yosys');
+  const preferred = resolveToolPreference(
+    installed,
+    synthesis?.preferred,
+    synthesis?.fallback,
+    'yosys'
+  );
+  if (preferred) {
+    manager.setPreferred(preferred);
   }
 
+  manager.setRunRoot(path.resolve(workspaceRoot, rtlConfig.paths.synthesis, 'runs'));
+  manager.setDefaultConstraints((synthesis?.constraints ?? []).map(file => path.resolve(workspaceRoot, file)));
+  manager.setSources(() => resolveSourceSet(rtlConfig, workspaceRoot, 'synthesis'));
+  manager.setLanguage(rtlConfig.language);
+
   return manager;
 }
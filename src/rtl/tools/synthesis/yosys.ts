@@ -2,7 +2,8 @@
  * Yosys Synthesis Tool
  *
  * Yosys is an open-source synthesis tool for Verilog/SystemVerilog.
- * Part of the YosysHQ ecosystem and OSS CAD Suite.
+ * Part of the YosysHQ ecosystem and OSS CAD Suite. VHDL files are read
+ * with the ghdl plugin (see ghdl.ts).
  *
  * https://yosyshq.net/yosys/
  */
@@ -11,13 +12,106 @@ import { promisify } from 'util';
 import { exec } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import type { SynthesisTool, ToolInput } from '../types.js';
-import type { SynthesisResult, TimingResult, PPAResult, ToolResult } from '../../types.js';
+import type { SynthesisTool, SynthesisRunOptions, TimingAnalysisOptions, ToolInput } from '../types.js';
+import { Nextpnr, OpenSTA, toTimingResult, toSdc, DEFAULT_TIMING_PATHS } from '../timing/index.js';
+import type {
+  SynthesisResult,
+  SynthesisTechnology,
+  RTLLanguage,
+  SourceOptions,
+  TimingConstraints,
+  TimingResult,
+  PPAResult,
+  ToolResult,
+  VhdlConfig,
+} from '../../types.js';
+import { isVhdlFile } from '../hdl.js';
 
 const execAsync = promisify(exec);
 const writeFileAsync = promisify(fs.writeFile);
 
+const STAT_JSON_FILENAME = 'synth_stat.json';
+const LOG_FILENAME = 'synth.log';
+
+/**
+ * Yosys settings, usually from RTLProjectConfig.tools.synthesis
+ */
+export interface YosysSynthOptions {
+  /** Top module (default: hierarchy -auto-top) */
+  top?: string;
+  technology?: SynthesisTechnology;
+  /** Liberty file for dfflibmap/abc mapping and stat area (generic target only) */
+  liberty?: string;
+  includeDirs?: string[];
+  defines?: Record<string, string>;
+  /** Source language; 'systemverilog' reads every file with -sv */
+  language?: RTLLanguage;
+  /** Target clock period in ns (abc delay target and timing constraint) */
+  clockPeriod?: number;
+  /** nextpnr device and package (FPGA targets) */
+  device?: string;
+  package?: string;
+  /** VHDL settings for files read with the ghdl plugin (library files resolved) */
+  vhdl?: VhdlConfig;
+  /** Plugins loaded before the script (yosys -m), e.g. 'ghdl' */
+  modules?: string[];
+}
+
+/**
+ * Cell and wire statistics from `stat -json`
+ */
+export interface YosysStat {
+  cells: number;
+  /** Liberty area (only when stat ran with -liberty) */
+  area?: number;
+  cellTypes: Record<string, number>;
+  wires: number;
+  wireBits: number;
+  memoryBits: number;
+}
+
+/**
+ * Yosys JSON netlist written next to the Verilog netlist (FPGA targets)
+ */
+function jsonNetlistPath(netlist: string): string {
+  return netlist.replace(/\.v$/, '') + '.json';
+}
+
+/**
+ * Timing result when no backend could run
+ */
+function unanalyzedTiming(): TimingResult {
+  return {
+    criticalPath: {
+      start: 'input',
+      end: 'output',
+      delay: 0,
+    },
+    slack: 0,
+    frequency: 0,
+  };
+}
+
+/**
+ * Guess clock input ports from a Verilog netlist
+ */
+export function detectClockPorts(netlist: string): string[] {
+  const ports = new Set<string>();
+  for (const match of netlist.matchAll(/^\s*input\s+(?:wire\s+)?(\w+)\s*;/gm)) {
+    if (/^(?:i_)?(?:clk|clock)(?:_i|_in|\d+)?$|_(?:clk|clock)(?:_i)?$/i.test(match[1])) {
+      ports.add(match[1]);
+    }
+  }
+  return [...ports];
+}
+
 export class YosysSynth implements SynthesisTool {
+  private options: YosysSynthOptions;
+
+  constructor(options: YosysSynthOptions = {}) {
+    this.options = options;
+  }
+
   async isInstalled(): Promise<boolean> {
     try {
       const { stdout } = await execAsync('yosys --version');
@@ -38,7 +132,8 @@ export class YosysSynth implements SynthesisTool {
   }
 
   async run(input: ToolInput): Promise<ToolResult> {
-    const args = [...(input.args || []), ...input.files];
+    const modules = (this.options.modules ?? []).flatMap(module => ['-m', module]);
+    const args = [...modules, ...(input.args || []), ...input.files];
     const cmd = `yosys ${args.join(' ')}`;
 
     try {
@@ -50,6 +145,7 @@ export class YosysSynth implements SynthesisTool {
         stdout,
         stderr,
         exitCode: 0,
+        command: cmd,
       };
     } catch (error: any) {
       return {
@@ -58,6 +154,7 @@ export class YosysSynth implements SynthesisTool {
         stderr: error.stderr || '',
         exitCode: error.code || 1,
         errors: [error.message],
+        command: cmd,
       };
     }
   }
@@ -66,17 +163,39 @@ export class YosysSynth implements SynthesisTool {
    * Synthesize design using Yosys
    *
    * Yosys workflow:
-   * 1. read_verilog design.v
-   * 2. synth (or synth_ice40, synth_xilinx, etc.)
-   * 3. write_verilog netlist.v
-   * 4. stat (for area estimation)
+   * 1. read_verilog [-sv] [-D...] [-I...] design.v
+   *    ghdl [--std=08] --work=<lib> <library files> --work=work design.vhd -e [top]
+   * 2. hierarchy -top <top> (or -auto-top)
+   * 3. synth (or synth_ice40, synth_ecp5, synth_xilinx, synth_gowin)
+   * 4. dfflibmap/abc -liberty (generic target with a liberty file)
+   * 5. stat -json (cell counts and liberty area)
+   * 6. write_verilog netlist.v
+   *
+   * Yosys does not read SDC/XDC; the fastest constraint clock only sets the
+   * abc delay target. options.sources adds include dirs, defines, library
+   * files/dirs (hierarchy -libdir) and the top module. Script, netlist,
+   * stat JSON and log are written to options.workDir (default: cwd).
    */
-  async synthesize(design: string[], constraints: string): Promise<SynthesisResult> {
+  async synthesize(
+    design: string[],
+    constraints?: TimingConstraints,
+    options?: SynthesisRunOptions
+  ): Promise<SynthesisResult> {
+    const workDir = options?.workDir ?? process.cwd();
+    const scriptPath = path.join(workDir, 'synth_script.ys');
+    const netlistPath = path.join(workDir, 'synthesized.v');
+    const statJsonPath = path.join(workDir, STAT_JSON_FILENAME);
+    const logPath = path.join(workDir, LOG_FILENAME);
+
     // Generate Yosys script
-    const scriptContent = this.generateYosysScript(design, constraints);
-    const scriptPath = 'synth_script.ys';
-    const netlistPath = 'synthesized.v';
-    const statsPath = 'synth_stats.txt';
+    const scriptContent = this.generateYosysScript(
+      design.map(f => path.resolve(f)),
+      netlistPath,
+      statJsonPath,
+      constraints,
+      options?.sources
+    );
+    const artifacts = { script: scriptPath, log: logPath };
 
     try {
       // Write script
@@ -85,14 +204,19 @@ export class YosysSynth implements SynthesisTool {
       // Run Yosys
       const result = await this.run({
         files: [],
-        args: ['-s', scriptPath, '-l', statsPath],
+        args: ['-s', scriptPath, '-l', logPath],
       });
 
       if (!result.success) {
+        const yosysErrors = `${result.stdout ?? ''}\n${result.stderr ?? ''}`
+          .split('\n')
+          .filter(line => line.startsWith('ERROR:'));
         return {
           success: false,
-          errors: result.errors,
+          errors: yosysErrors.length > 0 ? yosysErrors : result.errors,
           stderr: result.stderr,
+          command: result.command,
+          ...artifacts,
         };
       }
 
@@ -101,14 +225,22 @@ export class YosysSynth implements SynthesisTool {
         return {
           success: false,
           stderr: 'Netlist file not generated',
+          command: result.command,
+          ...artifacts,
         };
       }
 
+      const log = fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf8') : '';
+      const autoTop = log.match(/Automatically selected (\S+) as design top module/);
+
       return {
         success: true,
         netlist: netlistPath,
+        top: this.options.top ?? options?.sources?.top ?? autoTop?.[1].replace(/^\\/, ''),
         stdout: result.stdout,
         stderr: result.stderr,
+        command: result.command,
+        ...artifacts,
       };
     } catch (error: any) {
       return {
@@ -119,50 +251,121 @@ export class YosysSynth implements SynthesisTool {
   }
 
   /**
-   * Analyze timing
+   * Analyze timing against the constraint clocks
    *
-   * Note: Yosys doesn't do full timing analysis (needs place & route).
-   * This provides basic delay estimation.
+   * - FPGA targets: nextpnr place & route on the JSON netlist
+   * - generic target with a liberty file: OpenSTA on the mapped netlist
+   *
+   * Clocks come from the constraints; without them, the target clock
+   * applies to every clock port (FPGA: every clock nextpnr finds).
+   * Without a usable backend the result has no `source` and zero slack.
+   * Reports are written next to the netlist.
    */
-  async analyzeTiming(netlist: string): Promise<TimingResult> {
-    // TODO: Integrate with nextpnr for actual timing analysis
-    // For now, return placeholder
-
-    return {
-      criticalPath: {
-        start: 'input',
-        end: 'output',
-        delay: 0,
-      },
-      slack: 0,
-      frequency: 0,
-    };
+  async analyzeTiming(netlist: string, options: TimingAnalysisOptions = {}): Promise<TimingResult> {
+    const { technology = 'generic', liberty, clockPeriod } = this.options;
+    const constrained = options.constraints?.clocks ?? [];
+    if (!clockPeriod && constrained.length === 0) {
+      return unanalyzedTiming();
+    }
+
+    const workDir = path.dirname(netlist);
+    const paths = options.paths ?? DEFAULT_TIMING_PATHS;
+
+    if (technology !== 'generic') {
+      const nextpnr = new Nextpnr(technology);
+      if (!(await nextpnr.isInstalled())) {
+        return unanalyzedTiming();
+      }
+
+      const defaultPeriod = clockPeriod ?? Math.min(...constrained.map(clock => clock.period));
+      const report = await nextpnr.analyze({
+        jsonNetlist: jsonNetlistPath(netlist),
+        workDir,
+        frequency: Math.round((1000 / defaultPeriod) * 1000) / 1000,
+        device: this.options.device,
+        package: this.options.package,
+        clocks: constrained
+          .filter(clock => clock.ports.length > 0)
+          .map(clock => ({ name: clock.name, port: clock.ports[0], period: clock.period })),
+      });
+
+      const clocks = constrained.length > 0
+        ? constrained
+        : Object.keys(report.fmax).map(name => ({ name, period: defaultPeriod }));
+      const fmax = Object.fromEntries(Object.entries(report.fmax).map(([name, value]) => [name, value.achieved]));
+      const result = toTimingResult(report.paths, clocks, 'nextpnr', fmax);
+      result.paths = result.paths?.slice(0, paths);
+      result.report = report.report;
+      return result;
+    }
+
+    if (!liberty) {
+      return unanalyzedTiming();
+    }
+
+    const sta = new OpenSTA();
+    const top = options.top ?? this.options.top;
+    if (!top || !(await sta.isInstalled())) {
+      return unanalyzedTiming();
+    }
+
+    let sdc: string | undefined;
+    let clocks: Array<{ name: string; port: string; period: number }> = [];
+    if (options.constraints && constrained.length > 0) {
+      sdc = path.join(workDir, 'constraints.sdc');
+      await writeFileAsync(sdc, toSdc(options.constraints));
+    } else if (clockPeriod) {
+      clocks = detectClockPorts(fs.readFileSync(netlist, 'utf8'))
+        .map(port => ({ name: port, port, period: clockPeriod }));
+    }
+    if (!sdc && clocks.length === 0) {
+      return unanalyzedTiming();
+    }
+
+    const report = await sta.analyze({
+      netlist,
+      liberty: path.resolve(liberty),
+      top,
+      workDir,
+      sdc,
+      clocks,
+      paths,
+    });
+
+    const result = toTimingResult(report.paths, sdc ? constrained : clocks, 'opensta');
+    result.report = report.report;
+    return result;
   }
 
   /**
    * Estimate PPA from synthesis statistics
    *
-   * Parses Yosys 'stat' command output
+   * Reads the `stat -json` output written next to the netlist. Area comes
+   * from the liberty file when one is configured; otherwise it is a rough
+   * cell-count estimate.
    */
   async estimatePPA(netlist: string): Promise<PPAResult> {
     try {
-      // Read synthesis statistics
-      const statsContent = fs.readFileSync('synth_stats.txt', 'utf8');
-
-      // Parse cell count
-      const cellMatch = statsContent.match(/Number of cells:\s+(\d+)/);
-      const cells = cellMatch ? parseInt(cellMatch[1], 10) : 0;
+      const stat = parseYosysStat(
+        fs.readFileSync(path.join(path.dirname(netlist), STAT_JSON_FILENAME), 'utf8'),
+        this.options.top
+      );
 
-      // Estimate area (rough approximation)
-      const area = cells * 10;  // Assume 10 μm² per cell (very rough)
+      const estimated = stat.area === undefined;
+      const area = stat.area ?? stat.cells * 10;  // Assume 10 μm² per cell (very rough)
 
       // Estimate power (very rough approximation)
-      const power = cells * 0.001;  // 1 μW per cell
+      const power = stat.cells * 0.001;  // 1 μW per cell
 
       return {
         area: {
-          cells,
+          cells: stat.cells,
           area,
+          estimated,
+          cellTypes: stat.cellTypes,
+          wires: stat.wires,
+          wireBits: stat.wireBits,
+          memoryBits: stat.memoryBits,
         },
         power: {
           dynamic: power * 0.7,
@@ -170,7 +373,7 @@ export class YosysSynth implements SynthesisTool {
           total: power,
         },
         performance: {
-          frequency: 100,  // Placeholder, needs real timing analysis
+          frequency: 0,  // Filled in from analyzeTiming() by SynthesisManager
         },
       };
     } catch (error) {
@@ -185,37 +388,139 @@ export class YosysSynth implements SynthesisTool {
 
   /**
    * Generate Yosys synthesis script
+   *
+   * @param constraints Timing constraints; the fastest clock overrides the target clock as abc delay target
+   * @param sources Source set options; tools.synthesis includeDirs/defines/top take precedence
    */
-  private generateYosysScript(design: string[], constraints: string): string {
-    const designFiles = design.map(f => `read_verilog ${f}`).join('\n');
+  generateYosysScript(
+    design: string[],
+    netlistPath: string,
+    statJsonPath: string,
+    constraints?: TimingConstraints,
+    sources: SourceOptions = {}
+  ): string {
+    const { technology = 'generic', liberty, language } = this.options;
+    const top = this.options.top ?? sources.top;
+    const includeDirs = [...(sources.includeDirs ?? []), ...(this.options.includeDirs ?? [])];
+    const defines = { ...sources.defines, ...this.options.defines };
+    const libraryDirs = sources.libraryDirs ?? [];
 
-    return `
-# Yosys synthesis script
-# Generated by oh-my-claude-rtl
+    const readFlags = [
+      ...Object.entries(defines).map(([name, value]) => (value === '' ? `-D${name}` : `-D${name}=${value}`)),
+      ...[...new Set(includeDirs.map(dir => path.resolve(dir)))].map(dir => `-I${dir}`),
+    ];
+    const files = [...design, ...(sources.libraryFiles ?? [])];
+    const readCommands = files.filter(file => !isVhdlFile(file)).map(file => {
+      const sv = language === 'systemverilog' || /\.svh?$/i.test(file);
+      return ['read_verilog', ...(sv ? ['-sv'] : []), ...readFlags, file].join(' ');
+    });
 
-# Read design files
-${designFiles}
+    // VHDL is analyzed and elaborated in one ghdl command; a Verilog top
+    // instantiates the VHDL entities ghdl elaborates on its own
+    const vhdlFiles = files.filter(isVhdlFile);
+    if (vhdlFiles.length > 0) {
+      const vhdl = this.options.vhdl ?? {};
+      const vhdlTop = top && design.every(isVhdlFile) ? top : undefined;
+      readCommands.push([
+        'ghdl',
+        ...(vhdl.standard ? [`--std=${vhdl.standard}`] : []),
+        ...(vhdl.analyzeArgs ?? []),
+        ...Object.entries(vhdl.libraries ?? {})
+          .filter(([, libraryFiles]) => libraryFiles.length > 0)
+          .flatMap(([library, libraryFiles]) => [`--work=${library}`, ...libraryFiles]),
+        `--work=${vhdl.workLibrary ?? 'work'}`,
+        ...vhdlFiles,
+        '-e',
+        ...(vhdlTop ? [vhdlTop] : []),
+      ].join(' '));
+    }
 
-# Hierarchy check
-hierarchy -check
+    const topFlag = top ? `-top ${top}` : '';
+    const synthPass = technology === 'generic' ? 'synth' : `synth_${technology}`;
+    const lines = [
+      '# Yosys synthesis script',
+      '# Generated by oh-my-claude-rtl',
+      '',
+      '# Read design files',
+      ...readCommands,
+      '',
+      '# Hierarchy check',
+      [
+        'hierarchy -check',
+        ...libraryDirs.map(dir => `-libdir ${path.resolve(dir)}`),
+        top ? `-top ${top}` : '-auto-top',
+      ].join(' '),
+      '',
+      `# Synthesis (${technology})`,
+      [synthPass, topFlag].filter(Boolean).join(' '),
+    ];
 
-# Synthesis
-synth -top top
+    if (technology === 'generic' && liberty) {
+      const libertyPath = path.resolve(liberty);
+      const periods = constraints?.clocks.map(clock => clock.period) ?? [];
+      const period = periods.length > 0 ? Math.min(...periods) : this.options.clockPeriod;
+      const delayTarget = period ? ` -D ${Math.round(period * 1000)}` : '';  // abc delay target in ps
+      lines.push(
+        '',
+        '# Technology mapping',
+        `dfflibmap -liberty ${libertyPath}`,
+        `abc -liberty ${libertyPath}${delayTarget}`,
+        'opt_clean',
+      );
+    }
 
-# Technology mapping (generic)
-dfflibmap -liberty ${constraints || 'cells.lib'}
-abc -liberty ${constraints || 'cells.lib'}
+    const statLiberty = technology === 'generic' && liberty ? ` -liberty ${path.resolve(liberty)}` : '';
+    lines.push(
+      '',
+      '# Clean up',
+      'clean',
+      '',
+      '# Statistics',
+      `tee -q -o ${statJsonPath} stat -json${statLiberty}`,
+      `stat${statLiberty}`,
+      '',
+      '# Write netlist',
+      `write_verilog -noattr ${netlistPath}`,
+      ...(technology === 'generic' ? [] : [`write_json ${jsonNetlistPath(netlistPath)}`]),
+      '',
+    );
 
-# Clean up
-clean
+    return lines.join('\n');
+  }
+}
 
-# Statistics
-stat
+/**
+ * Parse `stat -json` output
+ *
+ * Uses the whole-design totals when present (hierarchical designs),
+ * otherwise the top module's entry.
+ *
+ * @param json Contents of the stat JSON file
+ * @param top Top module, used to pick the module entry
+ */
+export function parseYosysStat(json: string, top?: string): YosysStat {
+  const data = JSON.parse(json) as {
+    modules?: Record<string, Record<string, unknown>>;
+    design?: Record<string, unknown>;
+  };
 
-# Write netlist
-write_verilog synthesized.v
+  const modules = data.modules ?? {};
+  const moduleNames = Object.keys(modules);
+  const topKey = top ? moduleNames.find(name => name.replace(/^\\/, '') === top) : undefined;
+  const entry = data.design ?? modules[topKey ?? moduleNames[moduleNames.length - 1]] ?? {};
 
-# Done
-`;
+  const num = (key: string): number => (typeof entry[key] === 'number' ? entry[key] as number : 0);
+  const cellTypes: Record<string, number> = {};
+  for (const [cell, count] of Object.entries((entry.num_cells_by_type ?? {}) as Record<string, number>)) {
+    cellTypes[cell.replace(/^\\/, '')] = count;
   }
+
+  return {
+    cells: num('num_cells'),
+    area: typeof entry.area === 'number' ? entry.area : undefined,
+    cellTypes,
+    wires: num('num_wires'),
+    wireBits: num('num_wire_bits'),
+    memoryBits: num('num_memory_bits'),
+  };
 }
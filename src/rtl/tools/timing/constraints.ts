@@ -0,0 +1,660 @@
+/**
+ * SDC/XDC Timing Constraints
+ *
+ * Reads the timing subset of SDC (and the Tcl-compatible XDC dialect):
+ * - create_clock
+ * - set_input_delay / set_output_delay
+ * - set_false_path
+ * - set_multicycle_path
+ *
+ * Physical XDC commands (set_property, pblocks) are skipped; any other
+ * command is listed in `ignored`. Constraints are checked against the
+ * synthesized design's ports with validateConstraints() and written back
+ * as SDC for OpenSTA with toSdc().
+ */
+
+import * as fs from 'fs';
+import type {
+  ClockConstraint,
+  ConstraintObjects,
+  IODelayConstraint,
+  PathConstraint,
+  TimingConstraints,
+} from '../../types.js';
+
+/**
+ * Constraint file parse or validation failure
+ */
+export class ConstraintsError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'ConstraintsError';
+  }
+}
+
+/**
+ * Ports of the synthesized top module
+ */
+export interface DesignPorts {
+  inputs: string[];
+  outputs: string[];
+  inouts: string[];
+}
+
+/** Physical XDC commands that carry no timing information */
+const PHYSICAL_COMMANDS = new Set(['set_property', 'create_pblock', 'add_cells_to_pblock', 'resize_pblock']);
+
+const QUERY_KINDS: Record<string, ConstraintObjects['kind']> = {
+  get_ports: 'ports',
+  get_clocks: 'clocks',
+  get_pins: 'pins',
+  get_cells: 'cells',
+  get_nets: 'nets',
+  all_inputs: 'all_inputs',
+  all_outputs: 'all_outputs',
+  all_clocks: 'all_clocks',
+  all_registers: 'all_registers',
+};
+
+/** Query options that take a value (e.g. `get_ports -filter {DIRECTION == IN}`) */
+const QUERY_VALUE_OPTIONS = new Set(['-filter', '-of_objects', '-regexp_filter']);
+
+interface Word {
+  text: string;
+  query?: ConstraintObjects;
+}
+
+interface Command {
+  words: Word[];
+  line: number;
+}
+
+/**
+ * Index of the bracket or brace closing the one at `start`
+ */
+function findClosing(text: string, start: number): number {
+  const open = text[start];
+  const close = open === '[' ? ']' : '}';
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === open) {
+      depth++;
+    } else if (text[i] === close && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split Tcl source into commands (newline/semicolon separated, with
+ * comments and backslash continuations removed)
+ */
+function splitCommands(text: string): Array<{ text: string; line: number }> {
+  const commands: Array<{ text: string; line: number }> = [];
+  let current = '';
+  let line = 1;
+  let startLine = 1;
+  let depth = 0;
+
+  const flush = () => {
+    if (current.trim()) {
+      commands.push({ text: current.trim(), line: startLine });
+    }
+    current = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (!current.trim() && char === '#') {
+      while (i < text.length && text[i] !== '\n') i++;
+      i--;
+      continue;
+    }
+    if (!current.trim()) {
+      startLine = line;
+    }
+
+    if (char === '\\' && text[i + 1] === '\n') {
+      current += ' ';
+      line++;
+      i++;
+      continue;
+    }
+    if (char === '\\') {
+      current += char + (text[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '[' || char === '{') depth++;
+    if ((char === ']' || char === '}') && depth > 0) depth--;
+
+    if (char === '\n') {
+      line++;
+      if (depth === 0) {
+        flush();
+        continue;
+      }
+    }
+    if (char === ';' && depth === 0) {
+      flush();
+      continue;
+    }
+    current += char;
+  }
+  flush();
+
+  return commands;
+}
+
+function unescape(text: string): string {
+  return text.replace(/\\(.)/g, '$1');
+}
+
+/**
+ * Split a command into words; `[...]` words are parsed as object queries
+ */
+function splitWords(text: string): Word[] {
+  const words: Word[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    if (/\s/.test(text[i])) {
+      i++;
+      continue;
+    }
+
+    if (text[i] === '{' || text[i] === '[') {
+      const end = findClosing(text, i);
+      if (end < 0) {
+        throw new Error(`unbalanced '${text[i]}'`);
+      }
+      const inner = text.slice(i + 1, end);
+      words.push(text[i] === '[' ? { text: inner, query: parseQuery(inner) } : { text: inner });
+      i = end + 1;
+      continue;
+    }
+
+    if (text[i] === '"') {
+      const end = text.indexOf('"', i + 1);
+      if (end < 0) {
+        throw new Error('unbalanced \'"\'');
+      }
+      words.push({ text: unescape(text.slice(i + 1, end)) });
+      i = end + 1;
+      continue;
+    }
+
+    // Bare word; brackets inside it (data[0]) are kept as bit selects
+    let end = i;
+    while (end < text.length && !/\s/.test(text[end])) {
+      if (text[end] === '\\') end++;
+      end++;
+    }
+    words.push({ text: unescape(text.slice(i, end)) });
+    i = end;
+  }
+
+  return words;
+}
+
+function splitList(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean).map(item => item.replace(/^\{(.*)\}$/, '$1'));
+}
+
+/**
+ * Parse an object query such as `get_ports {a b}` or `all_inputs`
+ */
+function parseQuery(text: string): ConstraintObjects {
+  const words = splitWords(text);
+  const command = words[0]?.text ?? '';
+  const kind = QUERY_KINDS[command];
+  if (!kind) {
+    throw new Error(`unsupported object query [${text}]`);
+  }
+
+  const names: string[] = [];
+  for (let i = 1; i < words.length; i++) {
+    if (words[i].text.startsWith('-')) {
+      if (QUERY_VALUE_OPTIONS.has(words[i].text)) i++;
+      continue;
+    }
+    names.push(...(words[i].query?.names ?? splitList(words[i].text)));
+  }
+
+  return { kind, names };
+}
+
+/**
+ * Objects of a positional or option argument
+ */
+function toObjects(word: Word): ConstraintObjects {
+  return word.query ?? { kind: 'names', names: splitList(word.text) };
+}
+
+/**
+ * Split command arguments into options and positional words
+ *
+ * @param spec Option name -> true when it takes a value
+ */
+function parseArgs(
+  words: Word[],
+  spec: Record<string, boolean>
+): { options: Map<string, Word | true>; positional: Word[] } {
+  const options = new Map<string, Word | true>();
+  const positional: Word[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+    if (!word.query && /^-[a-z_]+$/.test(word.text)) {
+      if (!(word.text in spec)) {
+        throw new Error(`unsupported option ${word.text}`);
+      }
+      if (spec[word.text]) {
+        if (i + 1 >= words.length) {
+          throw new Error(`${word.text} requires a value`);
+        }
+        options.set(word.text, words[++i]);
+      } else {
+        options.set(word.text, true);
+      }
+      continue;
+    }
+    positional.push(word);
+  }
+
+  return { options, positional };
+}
+
+function toNumber(word: Word | true | undefined, what: string): number {
+  const value = word && word !== true ? Number(word.text) : NaN;
+  if (!Number.isFinite(value)) {
+    throw new Error(`${what} must be a number`);
+  }
+  return value;
+}
+
+function optionObjects(options: Map<string, Word | true>, name: string): ConstraintObjects | undefined {
+  const word = options.get(name);
+  return word && word !== true ? toObjects(word) : undefined;
+}
+
+function emptyConstraints(): TimingConstraints {
+  return { clocks: [], inputDelays: [], outputDelays: [], falsePaths: [], multicyclePaths: [], files: [], ignored: [] };
+}
+
+/**
+ * Parse SDC/XDC text
+ *
+ * @param text File contents
+ * @param file File name used in issues and constraint sources
+ * @throws ConstraintsError listing every malformed command (`file:line: command: problem`)
+ */
+export function parseConstraints(text: string, file = '<constraints>'): TimingConstraints {
+  const constraints = emptyConstraints();
+  constraints.files.push(file);
+  const issues: string[] = [];
+
+  for (const { text: commandText, line } of splitCommands(text)) {
+    const name = commandText.split(/\s/)[0];
+    try {
+      const words = splitWords(commandText);
+      parseCommand({ words: words.slice(1), line }, name, file, constraints);
+    } catch (error) {
+      issues.push(`${file}:${line}: ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const clockNames = new Map<string, ClockConstraint>();
+  for (const clock of constraints.clocks) {
+    const previous = clockNames.get(clock.name);
+    if (previous) {
+      issues.push(`${file}:${clock.line}: create_clock: clock '${clock.name}' already defined at line ${previous.line}`);
+    }
+    clockNames.set(clock.name, clock);
+  }
+
+  if (issues.length > 0) {
+    throw new ConstraintsError(`Invalid constraints in ${file}`, issues);
+  }
+
+  return constraints;
+}
+
+function parseCommand(command: Command, name: string, file: string, constraints: TimingConstraints): void {
+  const source = { file, line: command.line };
+
+  switch (name) {
+    case 'create_clock': {
+      const { options, positional } = parseArgs(command.words, {
+        '-period': true, '-name': true, '-waveform': true, '-add': false, '-comment': true,
+      });
+      const period = toNumber(options.get('-period'), '-period');
+      if (period <= 0) {
+        throw new Error('-period must be positive');
+      }
+      const ports = positional.flatMap(word => toObjects(word).names);
+      const nameOption = options.get('-name');
+      const clockName = nameOption && nameOption !== true ? nameOption.text : ports[0];
+      if (!clockName) {
+        throw new Error('virtual clocks need -name');
+      }
+
+      const clock: ClockConstraint = { ...source, name: clockName, period, ports };
+      const waveform = options.get('-waveform');
+      if (waveform && waveform !== true) {
+        const edges = splitList(waveform.text).map(Number);
+        if (edges.length !== 2 || edges.some(edge => !Number.isFinite(edge))) {
+          throw new Error('-waveform must be {rise fall}');
+        }
+        clock.waveform = [edges[0], edges[1]];
+      }
+      constraints.clocks.push(clock);
+      return;
+    }
+
+    case 'set_input_delay':
+    case 'set_output_delay': {
+      const { options, positional } = parseArgs(command.words, {
+        '-clock': true, '-max': false, '-min': false, '-clock_fall': false, '-add_delay': false,
+        '-rise': false, '-fall': false, '-reference_pin': true,
+        '-network_latency_included': false, '-source_latency_included': false,
+      });
+      const clockWord = options.get('-clock');
+      if (!clockWord || clockWord === true) {
+        throw new Error('-clock is required');
+      }
+      if (positional.length !== 2) {
+        throw new Error('expected <delay> <objects>');
+      }
+
+      const delay: IODelayConstraint = {
+        ...source,
+        clock: toObjects(clockWord).names[0],
+        delay: toNumber(positional[0], 'delay'),
+        objects: toObjects(positional[1]),
+      };
+      if (options.has('-max') !== options.has('-min')) {
+        delay.minMax = options.has('-max') ? 'max' : 'min';
+      }
+      if (options.has('-clock_fall')) {
+        delay.clockFall = true;
+      }
+      (name === 'set_input_delay' ? constraints.inputDelays : constraints.outputDelays).push(delay);
+      return;
+    }
+
+    case 'set_false_path':
+    case 'set_multicycle_path': {
+      const { options, positional } = parseArgs(command.words, {
+        '-from': true, '-to': true, '-through': true, '-setup': false, '-hold': false,
+        '-start': false, '-end': false, '-rise': false, '-fall': false, '-comment': true,
+      });
+
+      const path: PathConstraint = {
+        ...source,
+        from: optionObjects(options, '-from'),
+        through: optionObjects(options, '-through'),
+        to: optionObjects(options, '-to'),
+      };
+      if (!path.from && !path.through && !path.to) {
+        throw new Error('expected -from, -through or -to');
+      }
+      if (options.has('-setup')) path.setup = true;
+      if (options.has('-hold')) path.hold = true;
+
+      if (name === 'set_false_path') {
+        if (positional.length > 0) {
+          throw new Error(`unexpected argument '${positional[0].text}'`);
+        }
+        constraints.falsePaths.push(path);
+        return;
+      }
+
+      if (positional.length !== 1) {
+        throw new Error('expected <path_multiplier>');
+      }
+      const multiplier = toNumber(positional[0], 'path multiplier');
+      if (!Number.isInteger(multiplier) || multiplier < 0) {
+        throw new Error('path multiplier must be a non-negative integer');
+      }
+      constraints.multicyclePaths.push({ ...path, multiplier });
+      return;
+    }
+
+    default:
+      if (!PHYSICAL_COMMANDS.has(name)) {
+        constraints.ignored.push(`${file}:${command.line}: ${name}`);
+      }
+  }
+}
+
+/**
+ * Read and merge constraint files (.sdc, .xdc)
+ *
+ * @throws ConstraintsError with the issues of every file, or when a file is missing
+ */
+export async function loadConstraints(files: string[]): Promise<TimingConstraints> {
+  const merged = emptyConstraints();
+  const issues: string[] = [];
+
+  for (const file of files) {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+      issues.push(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+
+    try {
+      const parsed = parseConstraints(text, file);
+      merged.clocks.push(...parsed.clocks);
+      merged.inputDelays.push(...parsed.inputDelays);
+      merged.outputDelays.push(...parsed.outputDelays);
+      merged.falsePaths.push(...parsed.falsePaths);
+      merged.multicyclePaths.push(...parsed.multicyclePaths);
+      merged.files.push(file);
+      merged.ignored.push(...parsed.ignored);
+    } catch (error) {
+      if (!(error instanceof ConstraintsError)) throw error;
+      issues.push(...error.issues);
+    }
+  }
+
+  const defined = new Map<string, ClockConstraint>();
+  for (const clock of merged.clocks) {
+    const previous = defined.get(clock.name);
+    if (previous && previous.file !== clock.file) {
+      issues.push(`${clock.file}:${clock.line}: create_clock: clock '${clock.name}' already defined at ${previous.file}:${previous.line}`);
+    }
+    defined.set(clock.name, clock);
+  }
+
+  if (issues.length > 0) {
+    throw new ConstraintsError(`Invalid constraints: ${issues.length} issue(s)`, issues);
+  }
+
+  return merged;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
+
+/**
+ * Match a port pattern against port names (bit selects match the bus)
+ */
+function matchPorts(pattern: string, ports: string[]): string[] {
+  const base = pattern.replace(/\[[^\]]*\]$/, '');
+  const regex = globToRegExp(base);
+  return ports.filter(port => regex.test(port));
+}
+
+/**
+ * Check constraints against the design
+ *
+ * Clock ports and I/O delay ports must exist (with the right direction)
+ * and every referenced clock must be defined by create_clock.
+ *
+ * @returns Issues as `file:line: command: problem`
+ */
+export function validateConstraints(constraints: TimingConstraints, ports: DesignPorts): string[] {
+  const issues: string[] = [];
+  const allPorts = [...ports.inputs, ...ports.outputs, ...ports.inouts];
+  const clockNames = constraints.clocks.map(clock => clock.name);
+
+  const checkClock = (name: string, at: { file: string; line: number }, command: string) => {
+    if (!clockNames.some(clock => globToRegExp(name).test(clock))) {
+      issues.push(`${at.file}:${at.line}: ${command}: clock '${name}' is not defined by create_clock`);
+    }
+  };
+
+  for (const clock of constraints.clocks) {
+    for (const port of clock.ports) {
+      if (matchPorts(port, allPorts).length === 0) {
+        issues.push(`${clock.file}:${clock.line}: create_clock: port '${port}' not found in design`);
+      }
+    }
+  }
+
+  const delays = [
+    ...constraints.inputDelays.map(delay => ({ delay, command: 'set_input_delay', allowed: [...ports.inputs, ...ports.inouts] })),
+    ...constraints.outputDelays.map(delay => ({ delay, command: 'set_output_delay', allowed: [...ports.outputs, ...ports.inouts] })),
+  ];
+  for (const { delay, command, allowed } of delays) {
+    checkClock(delay.clock, delay, command);
+    if (delay.objects.kind !== 'ports' && delay.objects.kind !== 'names') continue;
+
+    for (const port of delay.objects.names) {
+      if (matchPorts(port, allPorts).length === 0) {
+        issues.push(`${delay.file}:${delay.line}: ${command}: port '${port}' not found in design`);
+      } else if (matchPorts(port, allowed).length === 0) {
+        const direction = command === 'set_input_delay' ? 'an input' : 'an output';
+        issues.push(`${delay.file}:${delay.line}: ${command}: port '${port}' is not ${direction}`);
+      }
+    }
+  }
+
+  const paths = [
+    ...constraints.falsePaths.map(path => ({ path, command: 'set_false_path' })),
+    ...constraints.multicyclePaths.map(path => ({ path, command: 'set_multicycle_path' })),
+  ];
+  for (const { path, command } of paths) {
+    for (const objects of [path.from, path.through, path.to]) {
+      if (objects?.kind === 'clocks') {
+        objects.names.forEach(name => checkClock(name, path, command));
+      } else if (objects?.kind === 'ports') {
+        for (const port of objects.names) {
+          if (matchPorts(port, allPorts).length === 0) {
+            issues.push(`${path.file}:${path.line}: ${command}: port '${port}' not found in design`);
+          }
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read port names and directions of a module from Verilog (ANSI or
+ * non-ANSI port declarations, e.g. a Yosys netlist)
+ *
+ * @param top Module name (default: the last module in the file)
+ */
+export function parseNetlistPorts(verilog: string, top?: string): DesignPorts {
+  const source = verilog.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+  const modules = [...source.matchAll(/\bmodule\s+(\\?\S+?)\s*[#(;][\s\S]*?\bendmodule\b/g)];
+  const module = (top ? modules.find(match => match[1].replace(/^\\/, '') === top) : undefined)
+    ?? modules[modules.length - 1];
+  const ports: DesignPorts = { inputs: [], outputs: [], inouts: [] };
+  if (!module) {
+    return ports;
+  }
+
+  const declaration = /\b(input|output|inout)\b([\s\S]*?)(?=\binput\b|\boutput\b|\binout\b|;|\)\s*;)/g;
+  for (const match of module[0].matchAll(declaration)) {
+    const list = match[1] === 'input' ? ports.inputs : match[1] === 'output' ? ports.outputs : ports.inouts;
+    for (const item of match[2].split(',')) {
+      const name = item
+        .replace(/=.*$/, '')
+        .replace(/\[[^\]]*\]/g, ' ')
+        .match(/(\\\S+|[A-Za-z_][\w$]*)\s*$/)?.[1];
+      if (name && !/^(wire|reg|logic|signed|unsigned|var|bit|integer)$/.test(name) && !list.includes(name)) {
+        list.push(name);
+      }
+    }
+  }
+
+  return ports;
+}
+
+/**
+ * Tcl list of object names, braced so bus bits and wildcards like
+ * din[*] are not evaluated as commands or variables
+ */
+function formatList(names: string[]): string {
+  return names.length === 1 && !/[\s[\]${}]/.test(names[0]) ? names[0] : `{${names.join(' ')}}`;
+}
+
+function formatObjects(objects: ConstraintObjects): string {
+  const query = Object.entries(QUERY_KINDS).find(([, kind]) => kind === objects.kind)?.[0];
+  if (!query) {
+    return formatList(objects.names);
+  }
+  return objects.names.length > 0 ? `[${query} ${formatList(objects.names)}]` : `[${query}]`;
+}
+
+function formatPath(path: PathConstraint): string[] {
+  return [
+    ...(path.setup ? ['-setup'] : []),
+    ...(path.hold ? ['-hold'] : []),
+    ...(path.from ? ['-from', formatObjects(path.from)] : []),
+    ...(path.through ? ['-through', formatObjects(path.through)] : []),
+    ...(path.to ? ['-to', formatObjects(path.to)] : []),
+  ];
+}
+
+/**
+ * Write constraints as SDC (supported commands only)
+ */
+export function toSdc(constraints: TimingConstraints): string {
+  const lines = ['# Generated by oh-my-claude-rtl', ...constraints.files.map(file => `# from ${file}`)];
+
+  for (const clock of constraints.clocks) {
+    lines.push([
+      'create_clock', '-name', clock.name, '-period', String(clock.period),
+      ...(clock.waveform ? ['-waveform', `{${clock.waveform.join(' ')}}`] : []),
+      ...(clock.ports.length > 0 ? [`[get_ports ${formatList(clock.ports)}]`] : []),
+    ].join(' '));
+  }
+
+  for (const [command, delays] of [
+    ['set_input_delay', constraints.inputDelays],
+    ['set_output_delay', constraints.outputDelays],
+  ] as const) {
+    for (const delay of delays) {
+      lines.push([
+        command, String(delay.delay), '-clock', delay.clock,
+        ...(delay.clockFall ? ['-clock_fall'] : []),
+        ...(delay.minMax ? [`-${delay.minMax}`] : []),
+        '-add_delay',
+        formatObjects(delay.objects),
+      ].join(' '));
+    }
+  }
+
+  for (const path of constraints.falsePaths) {
+    lines.push(['set_false_path', ...formatPath(path)].join(' '));
+  }
+  for (const path of constraints.multicyclePaths) {
+    lines.push(['set_multicycle_path', String(path.multiplier), ...formatPath(path)].join(' '));
+  }
+
+  return lines.join('\n') + '\n';
+}
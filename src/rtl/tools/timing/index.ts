@@ -0,0 +1,96 @@
+/**
+ * Timing Analysis Backends
+ *
+ * - nextpnr (FPGA targets: place & route timing)
+ * - OpenSTA (liberty-mapped netlists)
+ * - SDC/XDC constraints (clocks, I/O delays, timing exceptions)
+ */
+
+import type { ClockTiming, TimingPath, TimingResult } from '../../types.js';
+
+export { OpenSTA, parseOpenSTAReport, generateOpenSTAScript } from './opensta.js';
+export type { OpenSTAInput, OpenSTAReport } from './opensta.js';
+export { Nextpnr, parseNextpnrReport, parseNextpnrLog, generateNextpnrClockScript } from './nextpnr.js';
+export type { NextpnrArch, NextpnrClockFmax, NextpnrReport, NextpnrInput } from './nextpnr.js';
+export {
+  ConstraintsError,
+  parseConstraints,
+  loadConstraints,
+  validateConstraints,
+  parseNetlistPorts,
+  toSdc,
+} from './constraints.js';
+export type { DesignPorts } from './constraints.js';
+
+/** Default number of worst paths to report */
+export const DEFAULT_TIMING_PATHS = 5;
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+/**
+ * A constrained clock
+ */
+export interface TimingClock {
+  name: string;
+  period: number;  // ns
+}
+
+/**
+ * Build a TimingResult from the worst paths of a timing report
+ *
+ * Each clock gets its worst slack and achieved frequency; the top-level
+ * slack, frequency and clock are those of the worst path's clock.
+ *
+ * @param paths Timing paths (any order)
+ * @param clocks Constraint clocks
+ * @param source Backend that produced the paths
+ * @param fmax Achieved fmax in MHz per clock (default: derived from worst slack)
+ */
+export function toTimingResult(
+  paths: TimingPath[],
+  clocks: TimingClock[],
+  source: TimingResult['source'],
+  fmax: Record<string, number> = {}
+): TimingResult {
+  const sorted = [...paths].sort((a, b) => a.slack - b.slack);
+
+  const summaries: ClockTiming[] = [];
+  for (const clock of clocks) {
+    const worstPath = sorted.find(p => p.clock === clock.name || (!p.clock && clocks.length === 1));
+    const achieved = fmax[clock.name];
+    if (!worstPath && achieved === undefined) {
+      continue;  // No paths in this domain
+    }
+
+    const slack = worstPath ? worstPath.slack : round(clock.period - 1000 / achieved);
+    const achievedPeriod = clock.period - slack;
+    summaries.push({
+      ...clock,
+      slack,
+      frequency: achieved ?? (achievedPeriod > 0 ? round(1000 / achievedPeriod) : 0),
+      met: slack >= 0,
+    });
+  }
+
+  const worst = sorted[0];
+  const worstClock = summaries.find(clock => clock.name === worst?.clock)
+    ?? [...summaries].sort((a, b) => a.slack - b.slack)[0];
+  const slack = worst?.slack ?? worstClock?.slack ?? 0;
+
+  return {
+    criticalPath: {
+      start: worst?.startpoint ?? 'none',
+      end: worst?.endpoint ?? 'none',
+      delay: worst?.delay ?? 0,
+    },
+    slack,
+    frequency: worstClock?.frequency ?? 0,
+    source,
+    met: slack >= 0 && summaries.every(clock => clock.met),
+    clock: worstClock ? { name: worstClock.name, period: worstClock.period } : clocks[0],
+    clocks: summaries,
+    paths: sorted,
+  };
+}
@@ -0,0 +1,264 @@
+/**
+ * nextpnr Timing Analysis
+ *
+ * Place-and-route timing for FPGA targets. Runs nextpnr-<arch> on the
+ * Yosys JSON netlist with `--report` and parses the JSON report
+ * (fmax per clock and critical paths).
+ *
+ * https://github.com/YosysHQ/nextpnr
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TimingPath, TimingStage } from '../../types.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * FPGA architectures with a nextpnr backend
+ */
+export type NextpnrArch = 'ice40' | 'ecp5' | 'gowin' | 'xilinx';
+
+/**
+ * Achieved vs. constrained frequency for one clock (MHz)
+ */
+export interface NextpnrClockFmax {
+  achieved: number;
+  constraint: number;
+}
+
+/**
+ * Parsed nextpnr timing report
+ */
+export interface NextpnrReport {
+  fmax: Record<string, NextpnrClockFmax>;
+  paths: TimingPath[];
+  report?: string;  // Path to the saved report
+}
+
+/**
+ * Input for a nextpnr run
+ */
+export interface NextpnrInput {
+  /** Yosys JSON netlist (write_json) */
+  jsonNetlist: string;
+  workDir: string;
+  /** Target frequency in MHz */
+  frequency: number;
+  /** Device flag without dashes, e.g. 'up5k', '25k', 'GW1N-LV1QN48C6/I5' */
+  device?: string;
+  package?: string;
+  /** Per-port clock constraints (default: --freq for every clock) */
+  clocks?: Array<{ name: string; port: string; period: number }>;
+  /** Extra nextpnr arguments (e.g. constraint files) */
+  args?: string[];
+}
+
+interface ReportEndpoint {
+  cell?: string;
+  port?: string;
+}
+
+interface ReportSegment {
+  type?: string;
+  net?: string;
+  from?: ReportEndpoint;
+  to?: ReportEndpoint;
+  delay?: number;
+}
+
+function endpointName(endpoint?: ReportEndpoint): string {
+  if (!endpoint) return 'unknown';
+  return endpoint.port ? `${endpoint.cell}/${endpoint.port}` : endpoint.cell ?? 'unknown';
+}
+
+/**
+ * Strip nextpnr's clock net decorations ('clk$SB_IO_IN_$glb_clk' -> 'clk')
+ */
+function clockName(name: string): string {
+  return name.replace(/^(posedge|negedge)\s+/, '').split('$')[0];
+}
+
+/**
+ * Parse a nextpnr `--report` JSON file
+ *
+ * @param json Report contents
+ * @param periods Constraint period (ns) per clock, used to compute path slack
+ */
+export function parseNextpnrReport(json: string, periods: Record<string, number> = {}): NextpnrReport {
+  const data = JSON.parse(json) as {
+    fmax?: Record<string, NextpnrClockFmax>;
+    critical_paths?: Array<{ from?: string; to?: string; path?: ReportSegment[] }>;
+  };
+
+  const fmax: Record<string, NextpnrClockFmax> = {};
+  for (const [name, value] of Object.entries(data.fmax ?? {})) {
+    fmax[clockName(name)] = value;
+  }
+
+  const paths: TimingPath[] = [];
+  for (const criticalPath of data.critical_paths ?? []) {
+    const segments = criticalPath.path ?? [];
+    if (segments.length === 0) continue;
+
+    let time = 0;
+    const stages: TimingStage[] = segments.map(segment => {
+      const delay = segment.delay ?? 0;
+      time += delay;
+      return {
+        point: segment.type === 'routing' && segment.net ? segment.net : endpointName(segment.to),
+        cell: segment.type,
+        delay,
+        time: Math.round(time * 1000) / 1000,
+      };
+    });
+
+    const clock = clockName(criticalPath.to ?? criticalPath.from ?? '');
+    const constraint = fmax[clock]?.constraint;
+    const period = periods[clock] ?? (constraint ? 1000 / constraint : undefined);
+    const delay = stages[stages.length - 1].time;
+
+    paths.push({
+      startpoint: endpointName(segments[0].from),
+      endpoint: endpointName(segments[segments.length - 1].to),
+      clock: clock || undefined,
+      delay,
+      required: period,
+      slack: period !== undefined ? Math.round((period - delay) * 1000) / 1000 : 0,
+      stages,
+    });
+  }
+
+  return { fmax, paths: paths.sort((a, b) => a.slack - b.slack) };
+}
+
+/**
+ * Parse fmax lines from a nextpnr log (for versions without --report)
+ *
+ * "Info: Max frequency for clock 'clk': 143.66 MHz (PASS at 12.00 MHz)"
+ */
+export function parseNextpnrLog(log: string): Record<string, NextpnrClockFmax> {
+  const fmax: Record<string, NextpnrClockFmax> = {};
+  const pattern = /Max frequency for clock\s+'([^']+)':\s*([\d.]+)\s*MHz\s*\((?:PASS|FAIL) at ([\d.]+)\s*MHz\)/g;
+
+  for (const match of log.matchAll(pattern)) {
+    fmax[clockName(match[1])] = {
+      achieved: parseFloat(match[2]),
+      constraint: parseFloat(match[3]),
+    };
+  }
+
+  return fmax;
+}
+
+/**
+ * Generate a --pre-pack script constraining each clock port
+ *
+ * ctx.addClock() works on every nextpnr architecture, unlike PCF/LPF/CST
+ * frequency constraints.
+ */
+export function generateNextpnrClockScript(clocks: NonNullable<NextpnrInput['clocks']>): string {
+  const lines = ['# Generated by oh-my-claude-rtl'];
+  for (const clock of clocks) {
+    const frequency = Math.round((1000 / clock.period) * 1000) / 1000;
+    lines.push(`ctx.addClock(${JSON.stringify(clock.port)}, ${frequency})  # ${clock.name}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+export class Nextpnr {
+  constructor(private arch: NextpnrArch) {}
+
+  get executable(): string {
+    return this.arch === 'gowin' ? 'nextpnr-himbaechel' : `nextpnr-${this.arch}`;
+  }
+
+  async isInstalled(): Promise<boolean> {
+    try {
+      await execAsync(`${this.executable} --version`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Build the nextpnr command line
+   */
+  buildArgs(input: NextpnrInput, reportPath: string, logPath: string): string[] {
+    // Failing timing is reported in the result, not as a failed run
+    const args = [
+      '--json', input.jsonNetlist, '--report', reportPath, '--log', logPath, '--freq', String(input.frequency),
+      '--timing-allow-fail',
+    ];
+
+    if (this.arch === 'gowin') {
+      if (input.device) args.push('--device', input.device);
+    } else if (input.device) {
+      args.push(`--${input.device}`);
+    }
+    if (input.package) {
+      args.push('--package', input.package);
+    }
+    if (this.arch === 'ice40') {
+      args.push('--pcf-allow-unconstrained');
+    }
+
+    return [...args, ...(input.args ?? [])];
+  }
+
+  /**
+   * Place and route, then parse timing
+   *
+   * Writes nextpnr-report.json and nextpnr.log (and clocks.py for per-port
+   * clocks) into the work directory. A non-zero exit is only an error when
+   * no clock was timed. Clocks in the result are named after
+   * the constraint clocks rather than nextpnr's clock nets.
+   */
+  async analyze(input: NextpnrInput): Promise<NextpnrReport> {
+    const reportPath = path.join(input.workDir, 'nextpnr-report.json');
+    const logPath = path.join(input.workDir, 'nextpnr.log');
+    const clocks = input.clocks ?? [];
+    const args = [...(input.args ?? [])];
+
+    if (clocks.length > 0) {
+      const scriptPath = path.join(input.workDir, 'clocks.py');
+      await fs.promises.writeFile(scriptPath, generateNextpnrClockScript(clocks));
+      args.push('--pre-pack', scriptPath);
+    }
+
+    const cmd = [this.executable, ...this.buildArgs({ ...input, args }, reportPath, logPath)].join(' ');
+    let failure: unknown;
+    try {
+      await execAsync(cmd, { cwd: input.workDir, maxBuffer: 16 * 1024 * 1024 });
+    } catch (error) {
+      // Builds without --timing-allow-fail exit non-zero on failing timing
+      failure = error;
+    }
+
+    const periods = Object.fromEntries(clocks.map(clock => [clock.port, clock.period]));
+    const clockNames = new Map(clocks.map(clock => [clock.port, clock.name]));
+    const rename = (name: string) => clockNames.get(name) ?? name;
+
+    let report: NextpnrReport;
+    if (fs.existsSync(reportPath)) {
+      report = { ...parseNextpnrReport(fs.readFileSync(reportPath, 'utf8'), periods), report: reportPath };
+    } else {
+      const log = fs.existsSync(logPath) ? fs.readFileSync(logPath, 'utf8') : '';
+      report = { fmax: parseNextpnrLog(log), paths: [], report: logPath };
+    }
+
+    // Place and route failed before timing was reported
+    if (failure && Object.keys(report.fmax).length === 0) {
+      throw failure;
+    }
+
+    return {
+      ...report,
+      fmax: Object.fromEntries(Object.entries(report.fmax).map(([name, value]) => [rename(name), value])),
+      paths: report.paths.map(p => (p.clock ? { ...p, clock: rename(p.clock) } : p)),
+    };
+  }
+}
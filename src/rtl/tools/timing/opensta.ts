@@ -0,0 +1,169 @@
+/**
+ * OpenSTA Timing Analysis
+ *
+ * Static timing for liberty-mapped netlists (generic target with a
+ * liberty file). Runs `sta` on a generated Tcl script and parses the
+ * `report_checks -format full` output.
+ *
+ * https://github.com/The-OpenROAD-Project/OpenSTA
+ */
+
+import { promisify } from 'util';
+import { exec } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { TimingPath, TimingStage } from '../../types.js';
+
+const execAsync = promisify(exec);
+
+/**
+ * Input for an OpenSTA run
+ */
+export interface OpenSTAInput {
+  netlist: string;
+  liberty: string;
+  top: string;
+  workDir: string;
+  /** SDC file; when absent, clocks are created from `clocks` */
+  sdc?: string;
+  clocks?: Array<{ name: string; port: string; period: number }>;
+  /** Number of worst paths to report */
+  paths: number;
+}
+
+/**
+ * Parsed OpenSTA run
+ */
+export interface OpenSTAReport {
+  paths: TimingPath[];
+  report: string;  // Path to the saved report
+}
+
+const STAGE_PATTERN = /^\s*(-?\d+\.\d+)\s+(-?\d+\.\d+)\s+([\^v])\s+(\S+)(?:\s+\(([^)]+)\))?\s*$/;
+const ARRIVAL_PATTERN = /^\s*(-?\d+\.\d+)\s+data arrival time\s*$/;
+const REQUIRED_PATTERN = /^\s*(-?\d+\.\d+)\s+data required time\s*$/;
+const SLACK_PATTERN = /^\s*(-?\d+\.\d+)\s+slack\s+\((MET|VIOLATED)\)/;
+
+/**
+ * Parse `report_checks -format full` output into timing paths
+ */
+export function parseOpenSTAReport(report: string): TimingPath[] {
+  const paths: TimingPath[] = [];
+  const blocks = report.split(/^Startpoint:\s*/m).slice(1);
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const startpoint = lines[0].replace(/\s*\(.*$/, '').trim();
+    const endpointLine = lines.find(line => line.startsWith('Endpoint:')) ?? '';
+    const endpoint = endpointLine.replace(/^Endpoint:\s*/, '').replace(/\s*\(.*$/, '').trim();
+    const clock = endpointLine.match(/clocked by (\S+?)\)/)?.[1]
+      ?? lines.find(line => line.startsWith('Path Group:'))?.replace(/^Path Group:\s*/, '').trim();
+
+    const stages: TimingStage[] = [];
+    let delay: number | undefined;
+    let required: number | undefined;
+    let slack: number | undefined;
+
+    for (const line of lines) {
+      if (delay === undefined) {
+        const stage = line.match(STAGE_PATTERN);
+        if (stage) {
+          stages.push({
+            point: stage[4],
+            cell: stage[5],
+            edge: stage[3] === '^' ? 'rise' : 'fall',
+            delay: parseFloat(stage[1]),
+            time: parseFloat(stage[2]),
+          });
+          continue;
+        }
+        const arrival = line.match(ARRIVAL_PATTERN);
+        if (arrival) {
+          delay = parseFloat(arrival[1]);
+        }
+        continue;
+      }
+
+      const requiredMatch = line.match(REQUIRED_PATTERN);
+      if (requiredMatch && required === undefined) {
+        required = parseFloat(requiredMatch[1]);
+        continue;
+      }
+
+      const slackMatch = line.match(SLACK_PATTERN);
+      if (slackMatch) {
+        slack = parseFloat(slackMatch[1]);
+        break;
+      }
+    }
+
+    if (delay === undefined || slack === undefined) {
+      continue;  // Unconstrained or truncated path
+    }
+
+    paths.push({ startpoint, endpoint, clock, delay, required, slack, stages });
+  }
+
+  return paths.sort((a, b) => a.slack - b.slack);
+}
+
+/**
+ * Generate the OpenSTA Tcl script
+ */
+export function generateOpenSTAScript(input: OpenSTAInput): string {
+  const lines = [
+    '# OpenSTA timing script',
+    '# Generated by oh-my-claude-rtl',
+    `read_liberty ${input.liberty}`,
+    `read_verilog ${input.netlist}`,
+    `link_design ${input.top}`,
+  ];
+
+  if (input.sdc) {
+    lines.push(`read_sdc ${input.sdc}`);
+  } else {
+    for (const clock of input.clocks ?? []) {
+      lines.push(`create_clock -name ${clock.name} -period ${clock.period} [get_ports ${clock.port}]`);
+    }
+  }
+
+  lines.push(
+    `report_checks -path_delay max -group_count ${input.paths} -endpoint_count 1 -format full -digits 3`,
+    'exit',
+    '',
+  );
+
+  return lines.join('\n');
+}
+
+export class OpenSTA {
+  constructor(private executable: string = 'sta') {}
+
+  async isInstalled(): Promise<boolean> {
+    try {
+      await execAsync(`${this.executable} -version`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Run OpenSTA and parse the worst paths
+   *
+   * Writes sta.tcl and timing.rpt into the work directory.
+   */
+  async analyze(input: OpenSTAInput): Promise<OpenSTAReport> {
+    const scriptPath = path.join(input.workDir, 'sta.tcl');
+    const reportPath = path.join(input.workDir, 'timing.rpt');
+
+    await fs.promises.writeFile(scriptPath, generateOpenSTAScript(input));
+    const { stdout } = await execAsync(`${this.executable} -no_init -no_splash -exit ${scriptPath}`, {
+      cwd: input.workDir,
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    await fs.promises.writeFile(reportPath, stdout);
+
+    return { paths: parseOpenSTAReport(stdout), report: reportPath };
+  }
+}
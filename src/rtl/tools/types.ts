@@ -2,7 +2,12 @@
  * Tool Abstraction Types
  */
 
-import type { ToolResult } from '../types.js';
+import type { SourceOptions, ToolResult } from '../types.js';
+
+/**
+ * HDL families a design is written in, for tool selection
+ */
+export type HdlFamily = 'verilog' | 'vhdl';
 
 /**
  * Base tool runner interface
@@ -11,6 +16,8 @@ export interface ToolRunner {
   run(input: ToolInput): Promise<ToolResult>;
   isInstalled(): Promise<boolean>;
   getVersion(): Promise<string>;
+  /** HDL families the tool reads (default: ['verilog'], which covers SystemVerilog) */
+  readonly hdls?: HdlFamily[];
 }
 
 /**
@@ -26,16 +33,48 @@ export interface ToolInput {
  * Lint tool interface
  */
 export interface LintTool extends ToolRunner {
-  lint(files: string[]): Promise<import('../types.js').LintResult>;
+  lint(files: string[], sources?: SourceOptions): Promise<import('../types.js').LintResult>;
+}
+
+/**
+ * Hierarchy extraction tool interface
+ */
+export interface HierarchyTool extends ToolRunner {
+  /** Elaborate every uninstantiated module and list the modules with their instances */
+  elaborate(files: string[], sources?: SourceOptions): Promise<import('../types.js').ElaborationResult>;
+}
+
+/**
+ * Per-run simulation options
+ */
+export interface SimulationRunOptions {
+  /** Directory for build outputs and run artifacts (default: cwd) */
+  workDir?: string;
+  /** Simulation timeout in milliseconds (default: 60000) */
+  timeoutMs?: number;
+  /** Compiled executable to run (default: result of the last compile()) */
+  executable?: string;
+  /** Design files of this run, for simulators that build at run time (cocotb) */
+  files?: string[];
+  /** Random seed for this run (passed via seedArgs) */
+  seed?: number;
+  /** Test name recorded in the coverage database (default: testbench) */
+  testName?: string;
+  /** Test functions to run (cocotb TESTCASE; default: every test in the module) */
+  testcases?: string[];
+  /** Include dirs, defines and libraries for compile() */
+  sources?: SourceOptions;
 }
 
 /**
  * Simulation tool interface
  */
 export interface SimulationTool extends ToolRunner {
-  compile(files: string[]): Promise<CompileResult>;
-  simulate(testbench: string, args?: string[]): Promise<import('../types.js').SimulationResult>;
-  collectCoverage?(): Promise<import('../types.js').CoverageResult>;
+  compile(files: string[], options?: SimulationRunOptions): Promise<CompileResult>;
+  simulate(testbench: string, args?: string[], options?: SimulationRunOptions): Promise<import('../types.js').SimulationResult>;
+  collectCoverage?(options?: SimulationRunOptions): Promise<import('../types.js').CoverageResult>;
+  /** Runtime arguments that set the random seed */
+  seedArgs?(seed: number): string[];
 }
 
 /**
@@ -45,11 +84,37 @@ export interface CompileResult extends ToolResult {
   executable?: string;
 }
 
+/**
+ * Per-run synthesis options
+ */
+export interface SynthesisRunOptions {
+  /** Directory for scripts, netlist and reports (default: cwd) */
+  workDir?: string;
+  /** Include dirs, defines, libraries and top module */
+  sources?: SourceOptions;
+}
+
+/**
+ * Timing analysis options
+ */
+export interface TimingAnalysisOptions {
+  /** Timing constraints (clocks, I/O delays, exceptions) */
+  constraints?: import('../types.js').TimingConstraints;
+  /** Synthesized top module */
+  top?: string;
+  /** Number of worst paths to report (default: 5) */
+  paths?: number;
+}
+
 /**
  * Synthesis tool interface
  */
 export interface SynthesisTool extends ToolRunner {
-  synthesize(design: string[], constraints: string): Promise<import('../types.js').SynthesisResult>;
-  analyzeTiming(netlist: string): Promise<import('../types.js').TimingResult>;
+  synthesize(
+    design: string[],
+    constraints?: import('../types.js').TimingConstraints,
+    options?: SynthesisRunOptions
+  ): Promise<import('../types.js').SynthesisResult>;
+  analyzeTiming(netlist: string, options?: TimingAnalysisOptions): Promise<import('../types.js').TimingResult>;
   estimatePPA(netlist: string): Promise<import('../types.js').PPAResult>;
 }
@@ -0,0 +1,76 @@
+/**
+ * Waveform Tools
+ *
+ * Query simulation waveforms:
+ * - VCD, streamed from the file
+ * - FST, streamed through GTKWave's fst2vcd
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import type { Readable } from 'stream';
+import { parseVcd, type VcdParseOptions } from './vcd.js';
+import { Waveform } from './waveform.js';
+
+export { parseVcd, timeToFs, toTimescaleUnits } from './vcd.js';
+export type { WaveformVariable, WaveformHeader, ValueChanges, VcdData, VcdParseOptions } from './vcd.js';
+export {
+  Waveform,
+  resolveSignal,
+  detectClock,
+  formatValue,
+  compileCondition,
+  DEFAULT_QUERY_LIMIT,
+} from './waveform.js';
+export type {
+  WaveformRadix,
+  ClockEdge,
+  WaveformTransition,
+  WaveformMatch,
+  WaveformTable,
+  WindowOptions,
+  ClockedOptions,
+} from './waveform.js';
+
+/**
+ * Load a VCD or FST waveform
+ *
+ * @param file Waveform file (.fst is converted with fst2vcd)
+ * @param options Signals to load and the last time needed
+ * @throws Error when the file is missing, not a VCD, or fst2vcd is not installed
+ */
+export async function openWaveform(file: string, options: VcdParseOptions = {}): Promise<Waveform> {
+  if (!fs.existsSync(file)) {
+    throw new Error(`Waveform not found: ${file}`);
+  }
+
+  if (!file.endsWith('.fst')) {
+    const stream = fs.createReadStream(file, { encoding: 'utf8' });
+    try {
+      return new Waveform(await parseVcd(stream, options));
+    } finally {
+      stream.destroy();
+    }
+  }
+
+  const child = spawn('fst2vcd', [file], { stdio: ['ignore', 'pipe', 'pipe'] });
+  let stderr = '';
+  child.stderr.on('data', chunk => { stderr += chunk; });
+  const spawned = new Promise<void>((resolve, reject) => {
+    child.once('spawn', resolve);
+    child.once('error', error => reject((error as NodeJS.ErrnoException).code === 'ENOENT'
+      ? new Error('fst2vcd not found: install GTKWave to read FST waveforms, or dump VCD')
+      : error));
+  });
+
+  try {
+    await spawned;
+    const data = await parseVcd(child.stdout as Readable, options);
+    return new Waveform(data);
+  } catch (error) {
+    throw stderr.trim() ? new Error(`fst2vcd failed: ${stderr.trim()}`) : error;
+  } finally {
+    // Reading may stop at options.until before fst2vcd is done
+    if (child.exitCode === null) child.kill();
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * VCD Parser
+ *
+ * Streams a Value Change Dump line by line. The header (scopes, variables,
+ * timescale) is always read; value changes are kept only for the variables
+ * the caller selects once the header is known, so large dumps can be queried
+ * for a handful of signals without holding the whole file in memory.
+ *
+ * Values are stored as written: '0'/'1'/'x'/'z' for scalars, binary strings
+ * left-extended to the variable width for vectors, text for reals and strings.
+ */
+
+import * as readline from 'readline';
+import type { Readable } from 'stream';
+
+/**
+ * Variable declared in the VCD header
+ */
+export interface WaveformVariable {
+  name: string;   // Hierarchical name ('tb.dut.in_valid', 'tb.dut.mem[3]')
+  id: string;     // VCD identifier code (shared by aliases)
+  type: string;   // 'wire', 'reg', 'logic', 'real', 'parameter', ...
+  width: number;
+}
+
+/**
+ * Everything before $enddefinitions
+ */
+export interface WaveformHeader {
+  timescale: string;     // As declared, e.g. '1ps'
+  timescaleFs: number;   // One time unit in femtoseconds
+  version?: string;
+  date?: string;
+  variables: WaveformVariable[];
+}
+
+/**
+ * Value changes of one identifier code
+ */
+export interface ValueChanges {
+  times: number[];
+  values: string[];
+}
+
+/**
+ * Parsed dump: header plus changes of the selected variables
+ */
+export interface VcdData {
+  header: WaveformHeader;
+  changes: Map<string, ValueChanges>;  // By identifier code, selected variables only
+  endTime: number;                     // Last timestamp read
+  complete: boolean;                   // False when reading stopped at options.until
+}
+
+export interface VcdParseOptions {
+  /** Names of the variables to keep changes for (default: all) */
+  select?: (header: WaveformHeader) => string[];
+  /** Stop reading after this time (timescale units, or a string with a unit) */
+  until?: number | string;
+}
+
+const UNIT_FS: Record<string, number> = {
+  s: 1e15, ms: 1e12, us: 1e9, ns: 1e6, ps: 1e3, fs: 1,
+};
+
+/**
+ * Femtoseconds in a time like '10ns', '1 ps' or '2.5us'
+ *
+ * @throws Error on an unknown unit
+ */
+export function timeToFs(text: string): number {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(s|ms|us|ns|ps|fs)$/i);
+  if (!match) {
+    throw new Error(`Invalid time '${text}': expected a number and a unit (s, ms, us, ns, ps, fs)`);
+  }
+  return parseFloat(match[1]) * UNIT_FS[match[2].toLowerCase()];
+}
+
+/**
+ * Time in timescale units from a number or a string with a unit ('120ns')
+ */
+export function toTimescaleUnits(time: number | string, header: WaveformHeader): number {
+  if (typeof time === 'number') return time;
+  if (/^\s*\d+\s*$/.test(time)) return parseInt(time, 10);
+  return Math.round(timeToFs(time) / header.timescaleFs);
+}
+
+function extend(value: string, width: number): string {
+  if (value.length >= width) {
+    return value.length > width ? value.slice(value.length - width) : value;
+  }
+  const fill = value[0] === 'x' || value[0] === 'z' ? value[0] : '0';
+  return fill.repeat(width - value.length) + value;
+}
+
+/**
+ * Parse a VCD stream
+ *
+ * @throws Error when the stream ends before $enddefinitions
+ */
+export async function parseVcd(input: Readable, options: VcdParseOptions = {}): Promise<VcdData> {
+  const header: WaveformHeader = { timescale: '1ns', timescaleFs: 1e6, variables: [] };
+  const changes = new Map<string, ValueChanges>();
+  const widths = new Map<string, number>();
+  const scopes: string[] = [];
+
+  let inHeader = true;
+  let command: string | undefined;     // Header or body command collecting tokens until $end
+  let args: string[] = [];
+  let pendingValue: string | undefined;  // Vector/real value waiting for its identifier
+  let time = 0;
+  let until: number | undefined;
+  let complete = true;
+
+  const record = (id: string, value: string) => {
+    const signal = changes.get(id);
+    if (!signal) return;
+    const width = widths.get(id) ?? 1;
+    const normalized = /^[rRsS]/.test(value) ? value.slice(1) : extend(value.toLowerCase(), width);
+    const last = signal.times.length - 1;
+    if (last >= 0 && signal.times[last] === time) {
+      signal.values[last] = normalized;
+      if (last > 0 && signal.values[last - 1] === normalized) {
+        signal.times.pop();
+        signal.values.pop();
+      }
+    } else if (last < 0 || signal.values[last] !== normalized) {
+      signal.times.push(time);
+      signal.values.push(normalized);
+    }
+  };
+
+  const finishCommand = () => {
+    switch (command) {
+      case '$scope':
+        scopes.push(args[1] ?? args[0] ?? '');
+        break;
+      case '$upscope':
+        scopes.pop();
+        break;
+      case '$timescale': {
+        const text = args.join('');
+        header.timescale = text;
+        header.timescaleFs = timeToFs(text);
+        break;
+      }
+      case '$version':
+        header.version = args.join(' ');
+        break;
+      case '$date':
+        header.date = args.join(' ');
+        break;
+      case '$var': {
+        const [type, width, id, reference, range] = args;
+        const bits = parseInt(width, 10) || 1;
+        const bitSelect = range && bits === 1 && /^\[\d+\]$/.test(range) ? range : '';
+        header.variables.push({ name: [...scopes, `${reference}${bitSelect}`].join('.'), id, type, width: bits });
+        if (!widths.has(id)) widths.set(id, bits);
+        break;
+      }
+      case '$enddefinitions': {
+        inHeader = false;
+        until = options.until !== undefined ? toTimescaleUnits(options.until, header) : undefined;
+        const selected = options.select ? new Set(options.select(header)) : undefined;
+        for (const variable of header.variables) {
+          if (selected && !selected.has(variable.name)) continue;
+          if (!changes.has(variable.id)) changes.set(variable.id, { times: [], values: [] });
+        }
+        break;
+      }
+    }
+    command = undefined;
+    args = [];
+  };
+
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  try {
+    reading: for await (const line of lines) {
+      for (const token of line.split(/\s+/)) {
+        if (!token) continue;
+
+        if (command) {
+          if (token === '$end') finishCommand();
+          else args.push(token);
+          if (!inHeader && changes.size === 0) {
+            // Header only: nothing selected
+            complete = false;
+            break reading;
+          }
+          continue;
+        }
+
+        if (inHeader) {
+          if (token.startsWith('$') && token !== '$end') command = token;
+          continue;
+        }
+
+        if (pendingValue !== undefined) {
+          record(token, pendingValue);
+          pendingValue = undefined;
+          continue;
+        }
+
+        const first = token[0];
+        if (first === '#') {
+          const next = parseInt(token.slice(1), 10);
+          if (until !== undefined && next > until) {
+            complete = false;
+            break reading;
+          }
+          time = next;
+        } else if (first === '$') {
+          // $dumpvars/$dumpall/$dumpon/$dumpoff wrap value changes; comments are skipped
+          if (token === '$comment') command = token;
+        } else if ('bBrRsS'.includes(first)) {
+          pendingValue = first === 'b' || first === 'B' ? token.slice(1) : token;
+        } else if ('01xzXZ'.includes(first)) {
+          record(token.slice(1), first);
+        }
+      }
+    }
+  } finally {
+    lines.close();
+  }
+
+  if (inHeader) {
+    throw new Error('Not a VCD file: no $enddefinitions in the header');
+  }
+  return { header, changes, endTime: time, complete };
+}
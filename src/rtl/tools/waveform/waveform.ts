@@ -0,0 +1,480 @@
+/**
+ * Waveform Queries
+ *
+ * Answers the questions an agent asks while debugging a failing test,
+ * with results small enough to read:
+ * - signals: declared signals matching a pattern
+ * - value: values at a time
+ * - transitions: changes of a signal in a time window
+ * - find: clock edges where a condition held for N consecutive cycles
+ * - sample: a clock-sampled table of signals
+ *
+ * Signals are named by their full hierarchical name or any unique suffix
+ * ('dut.in_valid', 'in_valid'). Times are in timescale units, or strings
+ * with a unit ('120ns'). Conditions are sampled like SVA: the value just
+ * before the clock edge.
+ */
+
+import type { VcdData, WaveformHeader, WaveformVariable, ValueChanges } from './vcd.js';
+import { toTimescaleUnits } from './vcd.js';
+
+export type WaveformRadix = 'hex' | 'bin' | 'dec';
+export type ClockEdge = 'posedge' | 'negedge' | 'both';
+
+/** Default number of rows, transitions or matches returned */
+export const DEFAULT_QUERY_LIMIT = 50;
+
+/**
+ * A signal change
+ */
+export interface WaveformTransition {
+  time: number;
+  value: string;
+}
+
+/**
+ * Interval where a condition held on consecutive clock edges
+ */
+export interface WaveformMatch {
+  start: number;   // First sampling edge
+  end: number;     // Last sampling edge
+  cycles: number;
+}
+
+/**
+ * Clock-sampled table
+ */
+export interface WaveformTable {
+  columns: string[];   // 'time' followed by the signal names
+  rows: string[][];
+  truncated: boolean;
+}
+
+export interface WindowOptions {
+  from?: number | string;
+  to?: number | string;
+  limit?: number;   // Default: DEFAULT_QUERY_LIMIT
+}
+
+export interface ClockedOptions extends WindowOptions {
+  clock?: string;      // Default: detectClock()
+  edge?: ClockEdge;    // Default: 'posedge'
+}
+
+/**
+ * Resolve a signal name against the header
+ *
+ * @throws Error when no signal or more than one signal matches
+ */
+export function resolveSignal(header: WaveformHeader, name: string): WaveformVariable {
+  const exact = header.variables.find(v => v.name === name);
+  if (exact) return exact;
+
+  const matches = header.variables.filter(v => v.name.endsWith(`.${name}`));
+  // Aliases (same identifier code) count as one signal
+  const distinct = matches.filter((v, i) => matches.findIndex(m => m.id === v.id) === i);
+  if (distinct.length === 1) {
+    return matches.reduce((best, v) => v.name.length < best.name.length ? v : best);
+  }
+  if (distinct.length > 1) {
+    const names = distinct.slice(0, 5).map(v => v.name).join(', ');
+    throw new Error(`Signal '${name}' is ambiguous: ${names}${distinct.length > 5 ? ', ...' : ''}`);
+  }
+  throw new Error(`Signal '${name}' not found in the waveform`);
+}
+
+/**
+ * Most likely clock: a 1-bit signal named clk/clock (or *_clk, clk_*),
+ * nearest to the top
+ */
+export function detectClock(header: WaveformHeader): WaveformVariable | undefined {
+  const leaf = (v: WaveformVariable) => v.name.slice(v.name.lastIndexOf('.') + 1);
+  return header.variables
+    .filter(v => v.width === 1 && /^(clk|clock|aclk|clk_i|i_clk)$|_clk$|^clk_/i.test(leaf(v)))
+    .sort((a, b) => a.name.split('.').length - b.name.split('.').length || leaf(a).length - leaf(b).length)[0];
+}
+
+/**
+ * Format a stored value in a radix ('8'h3f', '4'b10x1', '255')
+ */
+export function formatValue(value: string, width: number, radix: WaveformRadix = 'hex'): string {
+  if (width === 1 || !/^[01xz]+$/.test(value)) {
+    return value;
+  }
+  if (radix === 'bin') {
+    return `${width}'b${value}`;
+  }
+  if (radix === 'dec') {
+    return /[xz]/.test(value) ? `${width}'b${value}` : BigInt(`0b${value}`).toString();
+  }
+  let hex = '';
+  for (let end = value.length; end > 0; end -= 4) {
+    const nibble = value.slice(Math.max(0, end - 4), end);
+    hex = (/^[01]+$/.test(nibble)
+      ? parseInt(nibble, 2).toString(16)
+      : /^x+$/.test(nibble) ? 'x' : /^z+$/.test(nibble) ? 'z' : 'X') + hex;
+  }
+  return `${width}'h${hex}`;
+}
+
+/**
+ * Loaded waveform with queries
+ */
+export class Waveform {
+  readonly header: WaveformHeader;
+  readonly endTime: number;
+  private changes: Map<string, ValueChanges>;
+
+  constructor(data: VcdData) {
+    this.header = data.header;
+    this.endTime = data.endTime;
+    this.changes = data.changes;
+  }
+
+  /**
+   * Signals whose name matches a glob ('*' wildcard, case-insensitive; default: all)
+   */
+  signals(pattern?: string): WaveformVariable[] {
+    if (!pattern) return this.header.variables;
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    const regex = new RegExp(pattern.includes('*') ? `^${escaped}$` : escaped, 'i');
+    return this.header.variables.filter(v => regex.test(v.name));
+  }
+
+  /**
+   * Resolve a loaded signal
+   *
+   * @throws Error when the signal is unknown, ambiguous or was not loaded
+   */
+  signal(name: string): WaveformVariable {
+    const variable = resolveSignal(this.header, name);
+    if (!this.changes.has(variable.id)) {
+      throw new Error(`Signal '${variable.name}' was not loaded from the waveform`);
+    }
+    return variable;
+  }
+
+  /**
+   * Time in timescale units from a number or a string with a unit
+   */
+  parseTime(time: number | string): number {
+    return toTimescaleUnits(time, this.header);
+  }
+
+  /**
+   * Value at a time, after the changes at that time ('x' before the first change)
+   */
+  valueAt(name: string, time: number | string): string {
+    const changes = this.changesOf(this.signal(name));
+    const index = lastIndexAtOrBefore(changes.times, this.parseTime(time));
+    return index < 0 ? 'x' : changes.values[index];
+  }
+
+  /**
+   * Changes of a signal in [from, to]
+   */
+  transitions(name: string, options: WindowOptions = {}): { initial: string; transitions: WaveformTransition[]; total: number; truncated: boolean } {
+    const { from, to, limit } = this.window(options);
+    const changes = this.changesOf(this.signal(name));
+    const before = lastIndexAtOrBefore(changes.times, from - 1);
+    const transitions: WaveformTransition[] = [];
+    let total = 0;
+    for (let i = before + 1; i < changes.times.length && changes.times[i] <= to; i++) {
+      total++;
+      if (transitions.length < limit) {
+        transitions.push({ time: changes.times[i], value: changes.values[i] });
+      }
+    }
+    return { initial: before < 0 ? 'x' : changes.values[before], transitions, total, truncated: total > transitions.length };
+  }
+
+  /**
+   * Times of the sampling edges of a clock in [from, to]
+   */
+  clockEdges(options: ClockedOptions = {}): number[] {
+    const clock = this.clockSignal(options.clock);
+    const { from, to } = this.window(options);
+    const edge = options.edge ?? 'posedge';
+    const changes = this.changesOf(clock);
+    const edges: number[] = [];
+    for (let i = 0; i < changes.times.length; i++) {
+      const time = changes.times[i];
+      if (time < from) continue;
+      if (time > to) break;
+      const value = changes.values[i];
+      const previous = i > 0 ? changes.values[i - 1] : 'x';
+      if ((edge !== 'negedge' && value === '1' && previous !== '1') || (edge !== 'posedge' && value === '0' && previous !== '0')) {
+        edges.push(time);
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Intervals where a condition held on at least `cycles` consecutive edges
+   *
+   * @param condition Expression over signals: && || ! ~ & | ^ == != < <= > >=,
+   *   bit selects (data[3], data[7:4]) and literals (5, 'h1f, 8'b1010, 0x1f)
+   * @param cycles Minimum consecutive edges (default: 1)
+   */
+  find(condition: string, cycles = 1, options: ClockedOptions = {}): { matches: WaveformMatch[]; total: number; truncated: boolean } {
+    const evaluate = compileCondition(condition, name => this.signal(name));
+    const limit = options.limit ?? DEFAULT_QUERY_LIMIT;
+    const matches: WaveformMatch[] = [];
+    let total = 0;
+    let start: number | undefined;
+    let last = 0;
+    let run = 0;
+
+    const close = () => {
+      if (start !== undefined && run >= cycles) {
+        total++;
+        if (matches.length < limit) matches.push({ start, end: last, cycles: run });
+      }
+      start = undefined;
+      run = 0;
+    };
+
+    for (const edge of this.clockEdges(options)) {
+      const value = evaluate(variable => this.sampledValue(variable, edge));
+      if (value !== null && value !== 0n) {
+        if (start === undefined) start = edge;
+        last = edge;
+        run++;
+      } else {
+        close();
+      }
+    }
+    close();
+    return { matches, total, truncated: total > matches.length };
+  }
+
+  /**
+   * Values sampled on clock edges, one row per edge
+   *
+   * @param changesOnly Skip rows identical to the previous row (default: true)
+   */
+  sample(names: string[], options: ClockedOptions & { radix?: WaveformRadix; changesOnly?: boolean } = {}): WaveformTable {
+    const signals = names.map(name => this.signal(name));
+    const limit = options.limit ?? DEFAULT_QUERY_LIMIT;
+    const rows: string[][] = [];
+    let previous: string | undefined;
+    let truncated = false;
+
+    for (const edge of this.clockEdges(options)) {
+      const values = signals.map(s => formatValue(this.sampledValue(s, edge), s.width, options.radix));
+      const key = values.join('\u0000');
+      if (options.changesOnly !== false && key === previous) continue;
+      previous = key;
+      if (rows.length === limit) {
+        truncated = true;
+        break;
+      }
+      rows.push([String(edge), ...values]);
+    }
+    return { columns: ['time', ...signals.map(s => s.name)], rows, truncated };
+  }
+
+  /**
+   * Value just before a time (what a clocked process samples at that edge)
+   */
+  private sampledValue(variable: WaveformVariable, time: number): string {
+    const changes = this.changesOf(variable);
+    const index = lastIndexAtOrBefore(changes.times, time - 1);
+    return index < 0 ? 'x' : changes.values[index];
+  }
+
+  private clockSignal(name?: string): WaveformVariable {
+    if (name) return this.signal(name);
+    const clock = detectClock(this.header);
+    if (!clock) {
+      throw new Error('No clock found in the waveform: name the clock signal');
+    }
+    return this.signal(clock.name);
+  }
+
+  private changesOf(variable: WaveformVariable): ValueChanges {
+    return this.changes.get(variable.id) ?? { times: [], values: [] };
+  }
+
+  private window(options: WindowOptions): { from: number; to: number; limit: number } {
+    return {
+      from: options.from !== undefined ? this.parseTime(options.from) : 0,
+      to: options.to !== undefined ? this.parseTime(options.to) : this.endTime,
+      limit: options.limit ?? DEFAULT_QUERY_LIMIT,
+    };
+  }
+}
+
+function lastIndexAtOrBefore(times: number[], time: number): number {
+  let low = 0;
+  let high = times.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/** Value of an expression; null when it depends on x/z bits */
+type Value = bigint | null;
+type Lookup = (variable: WaveformVariable) => string;
+type Expression = (lookup: Lookup) => Value;
+
+const BINARY_OPERATORS: string[][] = [
+  ['||'],
+  ['&&'],
+  ['|'],
+  ['^'],
+  ['&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+];
+
+function toValue(bits: string): Value {
+  return /^[01]+$/.test(bits) ? BigInt(`0b${bits}`) : null;
+}
+
+function parseLiteral(text: string): bigint {
+  const based = text.match(/^(\d*)'([hbdo])([0-9a-f_]+)$/i);
+  if (based) {
+    const digits = based[3].replace(/_/g, '');
+    const prefix = { h: '0x', b: '0b', o: '0o', d: '' }[based[2].toLowerCase() as 'h' | 'b' | 'o' | 'd'];
+    return BigInt(`${prefix}${digits}`);
+  }
+  return BigInt(text.replace(/_/g, ''));
+}
+
+/**
+ * Compile a condition over signal values
+ *
+ * @param resolve Checks a signal name and returns its declaration
+ * @throws Error on a syntax error or unknown signal
+ */
+export function compileCondition(condition: string, resolve: (name: string) => WaveformVariable): (lookup: Lookup) => Value {
+  const tokens = condition.match(/\d*'[hbdoHBDO][0-9a-fA-F_]+|0x[0-9a-fA-F_]+|\d+|[A-Za-z_$][\w$]*(?:(?:\[\d+\])?\.[A-Za-z_$][\w$]*)*|\[\d+(?::\d+)?\]|&&|\|\||==|!=|<=|>=|[()!~&|^<>]|\S/g) ?? [];
+  let position = 0;
+  let operandWidth = 1;  // Width of the last parsed operand, for ~
+  const peek = () => tokens[position];
+  const fail = (message: string): never => {
+    throw new Error(`Invalid condition '${condition}': ${message}`);
+  };
+
+  const parseBinary = (level: number): Expression => {
+    if (level === BINARY_OPERATORS.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (BINARY_OPERATORS[level].includes(peek())) {
+      const operator = tokens[position++];
+      const right = parseBinary(level + 1);
+      const l = left;
+      left = lookup => applyBinary(operator, l(lookup), right(lookup));
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    const token = peek();
+    if (token === '!' || token === '~') {
+      position++;
+      const operand = parseUnary();
+      if (token === '!') {
+        return lookup => {
+          const value = operand(lookup);
+          return value === null ? null : value === 0n ? 1n : 0n;
+        };
+      }
+      // Bitwise invert needs a width: only applied to signals
+      const width = operandWidth;
+      return lookup => {
+        const value = operand(lookup);
+        return value === null ? null : ~value & ((1n << BigInt(width)) - 1n);
+      };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = tokens[position++];
+    if (token === undefined) return fail('unexpected end');
+    if (token === '(') {
+      const inner = parseBinary(0);
+      if (tokens[position++] !== ')') fail("missing ')'");
+      return inner;
+    }
+    if (/^(\d|0x|\d*')/.test(token)) {
+      let value: bigint;
+      try {
+        value = parseLiteral(token);
+      } catch {
+        return fail(`bad literal ${token}`);
+      }
+      operandWidth = value.toString(2).length;
+      return () => value;
+    }
+    if (/^[A-Za-z_$]/.test(token)) {
+      let name = token;
+      let select: [number, number] | undefined;
+      const next = peek();
+      if (next?.startsWith('[')) {
+        // data[3] may be a bit-blasted signal of its own, else a bit select
+        let bitSignal: WaveformVariable | undefined;
+        try {
+          bitSignal = resolve(`${token}${next}`);
+        } catch {
+          bitSignal = undefined;
+        }
+        position++;
+        if (bitSignal) {
+          name = `${token}${next}`;
+        } else {
+          const [high, low = high] = next.slice(1, -1).split(':').map(Number);
+          select = [high, low];
+        }
+      }
+      const variable = resolve(name);
+      operandWidth = select ? select[0] - select[1] + 1 : variable.width;
+      return lookup => {
+        const value = toValue(lookup(variable));
+        if (value === null || !select) return value;
+        return (value >> BigInt(select[1])) & ((1n << BigInt(select[0] - select[1] + 1)) - 1n);
+      };
+    }
+    return fail(`unexpected '${token}'`);
+  };
+
+  const expression = parseBinary(0);
+  if (position < tokens.length) {
+    fail(`unexpected '${tokens[position]}'`);
+  }
+  return expression;
+}
+
+function applyBinary(operator: string, left: Value, right: Value): Value {
+  // Short-circuit on known operands, as 4-state logic does
+  if (operator === '&&') {
+    if (left === 0n || right === 0n) return 0n;
+    return left === null || right === null ? null : 1n;
+  }
+  if (operator === '||') {
+    if ((left !== null && left !== 0n) || (right !== null && right !== 0n)) return 1n;
+    return left === null || right === null ? null : 0n;
+  }
+  if (left === null || right === null) return null;
+  switch (operator) {
+    case '|': return left | right;
+    case '^': return left ^ right;
+    case '&': return left & right;
+    case '==': return left === right ? 1n : 0n;
+    case '!=': return left !== right ? 1n : 0n;
+    case '<': return left < right ? 1n : 0n;
+    case '<=': return left <= right ? 1n : 0n;
+    case '>': return left > right ? 1n : 0n;
+    default: return left >= right ? 1n : 0n;
+  }
+}
@@ -18,14 +18,16 @@ export type ToolType = 'opensource' | 'commercial';
 export type ToolCategory = 'lsp' | 'lint' | 'simulation' | 'synthesis' | 'coverage' | 'waveform';
 
 /**
- * Tool configuration
+ * Tool configuration (tools.commercial.<tool>)
  */
 export interface ToolConfig {
-  type: ToolType;
-  name: string;
-  executable: string;
-  args?: string[];
-  env?: Record<string, string>;
+  type?: ToolType;
+  name?: string;
+  executable?: string;        // Path or command (default: the tool's command on PATH; questa: vsim, with vlib/vlog/vopt next to it)
+  args?: string[];            // Extra compile arguments (xrun -elaborate, vcs, vlog, spyglass)
+  elaborateArgs?: string[];   // Extra elaboration arguments (questa vopt)
+  runArgs?: string[];         // Extra run arguments (xrun -R, simv, vsim)
+  env?: Record<string, string>;  // Added to the environment of every command, e.g. LM_LICENSE_FILE
 }
 
 /**
@@ -37,8 +39,18 @@ export interface ToolResult {
   stderr?: string;
   exitCode?: number;
   errors?: string[];
+  command?: string;  // Command line that was executed
+  licenseError?: string;  // License checkout failure reported by the tool (not a design failure)
 }
 
+/**
+ * Synthesis target technologies
+ *
+ * 'generic' maps to the internal cell library, or to a liberty file when
+ * one is configured; the rest select the matching Yosys synth_* pass.
+ */
+export type SynthesisTechnology = 'generic' | 'ice40' | 'ecp5' | 'xilinx' | 'gowin';
+
 /**
  * File pattern
  */
@@ -51,7 +63,17 @@ export interface FilePattern {
  * RTL project configuration
  */
 export interface RTLProjectConfig {
+  project?: {
+    name?: string;
+    version?: string;
+  };
   language: RTLLanguage;
+  standard?: '1995' | '2001' | '2005' | '2009' | '2012' | '2017';
+  vhdl?: VhdlConfig;
+  elaboration?: GeneratorConfig;  // Chisel/SpinalHDL generator run before every RTL tool
+  defines?: Record<string, string>;
+  includePaths?: string[];  // Include directories, relative to the workspace root
+  sources?: Record<string, SourceSpec>;  // Per target: 'lint', 'simulation', 'synthesis', 'lsp' or 'default'
   tools: {
     lsp?: {
       preferred: string;
@@ -69,15 +91,26 @@ export interface RTLProjectConfig {
         enabled: boolean;
         types?: string[];
       };
+      passDetection?: PassDetectionConfig;
+      cocotb?: CocotbConfig;
+      triage?: TriageConfig;
     };
     synthesis?: {
       preferred: string;
       fallback?: string;
+      top?: string;                      // Top module (default: auto-detected)
       target?: {
-        technology: string;
-        clock: string;
+        technology: SynthesisTechnology;
+        clock?: string;                  // e.g. '100MHz' or '10ns' (default clock when no constraints)
+        device?: string;                 // nextpnr device flag, e.g. 'up5k', '25k'
+        package?: string;                // nextpnr package, e.g. 'sg48'
       };
+      liberty?: string;                  // Liberty file for cell mapping and area
+      constraints?: string[];            // SDC/XDC files (clocks, I/O delays, exceptions)
+      includeDirs?: string[];
+      defines?: Record<string, string>;  // Merged over top-level defines
     };
+    commercial?: Partial<Record<'xrun' | 'vcs' | 'questa' | 'spyglass', ToolConfig>>;  // Executables, extra args and env
   };
   paths: {
     rtl: string;
@@ -87,6 +120,87 @@ export interface RTLProjectConfig {
   };
 }
 
+/**
+ * Filelist or FuseSoC core providing the sources of one target
+ */
+export interface SourceSpec {
+  filelist?: string;  // .f file, relative to the workspace root
+  core?: string;      // FuseSoC .core file, relative to the workspace root
+  target?: string;    // Core target (default: lint/sim/synth by RTL target, then 'default')
+}
+
+/**
+ * Include directories, defines and libraries passed to every backend
+ */
+export interface SourceOptions {
+  includeDirs?: string[];
+  defines?: Record<string, string>;  // '' defines the macro without a value
+  libraryDirs?: string[];            // -y: directories searched for undefined modules
+  libraryFiles?: string[];           // -v: files searched for undefined modules
+  libraryExtensions?: string[];      // +libext+ (e.g. ['.v', '.sv'])
+  top?: string;                      // Top module (filelist -top or core toplevel)
+}
+
+/**
+ * Ordered sources of a target, resolved from config, filelists and cores
+ */
+export interface SourceSet extends SourceOptions {
+  files: string[];  // Absolute paths in compile order
+  includeDirs: string[];
+  defines: Record<string, string>;
+  libraryDirs: string[];
+  libraryFiles: string[];
+  libraryExtensions: string[];
+  origins: string[];  // Filelists and core files read
+  /** Options and files outside the supported subset (file:line: text) */
+  ignored: string[];
+  /** Chisel/SpinalHDL elaboration that generated some of the files */
+  elaboration?: GeneratorRun;
+}
+
+/**
+ * Chisel/SpinalHDL generator settings (elaboration)
+ */
+export interface GeneratorConfig {
+  mainClass: string;                       // Generator main, e.g. 'fifo.FifoMain'
+  generator?: 'chisel' | 'spinalhdl';      // Default: the language when it is one of them, else 'chisel'
+  buildTool?: 'sbt' | 'mill' | 'scala-cli';  // Default: mill with build.mill/build.sc, sbt with build.sbt, else scala-cli
+  module?: string;                         // sbt project or mill module (required for mill)
+  args?: string[];                         // Generator arguments
+  outputDir?: string;                      // Where the generator writes, relative to the workspace root (default: 'generated')
+  sourceDirs?: string[];                   // Scala sources hashed for the cache, compiled by scala-cli (default: 'src', mill: '<module>/src')
+  timeoutMs?: number;                      // Default: 600000
+}
+
+/**
+ * Outputs of a generator run, or of the cached run with the same source hash
+ */
+export interface GeneratorRun {
+  generator: 'chisel' | 'spinalhdl';
+  buildTool: 'sbt' | 'mill' | 'scala-cli';
+  command: string;
+  cached: boolean;
+  hash: string;             // sha256 of the Scala sources, build files and generator settings
+  outputDir: string;
+  files: string[];          // Emitted Verilog/SystemVerilog
+  includeDirs: string[];    // Directories of emitted headers (.vh/.svh)
+  annotations: string[];    // FIRRTL annotation files (*.anno.json)
+  firrtl: string[];         // FIRRTL files (*.fir)
+  sources: string[];        // Scala/Java sources that were hashed
+  time: string;             // ISO time of the generator run
+  stdout?: string;
+  stderr?: string;
+}
+
+/**
+ * Scala source of a generated Verilog line, from its source locator comment
+ */
+export interface ScalaLocation {
+  file: string;
+  line: number;
+  column?: number;
+}
+
 /**
  * Lint result
  */
@@ -105,6 +219,7 @@ export interface LintWarning {
   code: string;
   message: string;
   severity: 'warning' | 'info';
+  origin?: ScalaLocation;  // Scala source when the file was generated by elaboration
 }
 
 /**
@@ -117,6 +232,7 @@ export interface LintError {
   code: string;
   message: string;
   severity: 'error';
+  origin?: ScalaLocation;  // Scala source when the file was generated by elaboration
 }
 
 /**
@@ -124,18 +240,221 @@ export interface LintError {
  */
 export interface SimulationResult extends ToolResult {
   passed: boolean;
+  verdict?: SimulationVerdict;
   coverage?: CoverageResult;
   waveform?: string;  // Path to waveform file
+  run?: RunRecord;
+  triage?: FailureTriage;  // Failing runs: first failure with source and waveform context
+}
+
+/**
+ * Pass/fail detection settings (tools.simulation.passDetection)
+ */
+export interface PassDetectionConfig {
+  passPatterns?: string[];       // Extra regexes marking a passing run
+  failPatterns?: string[];       // Extra regexes marking a failing run
+  useDefaultPatterns?: boolean;  // Keep built-in patterns (default: true)
+  requirePassMarker?: boolean;   // Fail runs with no pass evidence (default: true)
+  errorSeverity?: 'fail' | 'warning';  // How $error reports and assertion failures count (default: 'fail')
+  uvm?: boolean;                 // Parse UVM report summary (default: true)
+  cocotbResults?: string;        // Path to cocotb results.xml
+}
+
+/**
+ * VHDL settings for GHDL lint, simulation and synthesis (vhdl)
+ */
+export interface VhdlConfig {
+  standard?: '87' | '93' | '93c' | '00' | '02' | '08';  // ghdl --std (default: GHDL's, 93c)
+  workLibrary?: string;                  // Library the design is analyzed into (default: 'work')
+  libraries?: Record<string, string[]>;  // Other libraries: name -> files (relative to the workspace root), analyzed first
+  analyzeArgs?: string[];                // Extra GHDL flags, e.g. ['-fsynopsys', '-frelaxed']
+  waveform?: 'vcd' | 'fst' | 'ghw';      // Simulation dump format (default: 'vcd')
+}
+
+/**
+ * Failure triage settings (tools.simulation.triage)
+ */
+export interface TriageConfig {
+  enabled?: boolean;     // Attach a triage report to failing runs (default: true)
+  cycles?: number;       // Clock cycles of signal values up to the failure (default: 8)
+  maxSignals?: number;   // Max signals sampled from the failing statement (default: 8)
+  signals?: string[];    // Signals always sampled, e.g. 'tb.dut.state'
+}
+
+/**
+ * cocotb runner settings (tools.simulation.cocotb)
+ */
+export interface CocotbConfig {
+  simulator?: string;               // cocotb SIM: icarus, verilator, questa, ... (default: 'icarus')
+  flow?: 'makefile' | 'runner';     // cocotb makefiles or the Python runner API (default: 'makefile')
+  toplevel?: string;                // HDL toplevel (default: sources top, else test_<top>.py name)
+  waves?: boolean;                  // Dump waveforms (default: true)
+}
+
+/**
+ * Structured pass/fail verdict for a simulation run
+ */
+export interface SimulationVerdict {
+  passed: boolean;
+  status: 'pass' | 'fail' | 'timeout' | 'no-verdict';
+  reason: string;
+  evidence: VerdictEvidence[];
+  uvm?: UVMReportCounts;
+  cocotb?: CocotbResults;
+  assertions?: AssertionFailure[];
+}
+
+/**
+ * Output line supporting a verdict
+ */
+export interface VerdictEvidence {
+  kind: 'pass' | 'fail' | 'fatal' | 'error' | 'uvm' | 'cocotb' | 'assertion';
+  line?: number;  // 1-based line in stdout followed by stderr
+  text: string;
+}
+
+/**
+ * Failed assertion reported by the simulator
+ */
+export interface AssertionFailure {
+  file: string;       // Source file of the assertion, as reported
+  line: number;       // Line of the assertion in that file
+  scope?: string;     // Hierarchical assertion name ('tb.dut.u_fifo_sva.a_push_overflow')
+  time?: string;      // Simulation time of the failure, as reported
+  message?: string;
+}
+
+/**
+ * First failure of a failing run, with the source and signal values around it
+ */
+export interface FailureTriage {
+  kind: VerdictEvidence['kind'] | 'timeout' | 'no-verdict' | 'exit';
+  message: string;          // Failure report, or the verdict reason when no line shows the failure
+  line?: number;            // 1-based line in stdout followed by stderr
+  time?: string;            // Simulation time of the failure, as reported
+  source?: FailureSource;
+  waveform?: FailureWaveform;
+  notes?: string[];         // Why source or waveform context is missing
+}
+
+/**
+ * Source lines of the failing assertion or report
+ */
+export interface FailureSource {
+  file: string;
+  line: number;
+  excerpt: string[];  // Numbered lines around the failure, '>' marks the failing line
+  origin?: ScalaLocation;  // Scala source when the file was generated by elaboration
+}
+
+/**
+ * Signals of the failing statement sampled on the clock up to the failure
+ */
+export interface FailureWaveform {
+  file: string;
+  timescale: string;
+  time: number;        // Failure time in timescale units (end of the dump when none was reported)
+  clock: string;
+  columns: string[];   // 'time', then hierarchical signal names
+  rows: string[][];    // One row per clock edge, values sampled before the edge
+  truncated: boolean;
+}
+
+/**
+ * UVM report summary counts
+ */
+export interface UVMReportCounts {
+  info: number;
+  warning: number;
+  error: number;
+  fatal: number;
+}
+
+/**
+ * Parsed cocotb results.xml
+ */
+export interface CocotbResults {
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+  testCases: CocotbTestCase[];
+}
+
+/**
+ * Single cocotb test outcome
+ */
+export interface CocotbTestCase {
+  name: string;
+  classname?: string;
+  status: 'passed' | 'failed' | 'error' | 'skipped';
+  duration: number;  // seconds
+  simTimeNs?: number;
+  message?: string;
+  traceback?: string;
 }
 
 /**
  * Coverage result
+ *
+ * Percentages (0-100). Metrics with no coverage points report 0;
+ * check `counts` to distinguish "not collected" from "not hit".
  */
 export interface CoverageResult {
   line: number;
   toggle: number;
   fsm: number;
+  branch?: number;
   functional?: number;
+  counts?: Partial<Record<CoverageMetric, CoverageCount>>;
+  files?: FileCoverage[];
+  modules?: ModuleCoverage[];
+  database?: string;  // Path to raw coverage database (e.g., coverage.dat)
+  annotated?: string;  // Path to annotated source directory
+}
+
+/**
+ * Coverage metric kinds
+ */
+export type CoverageMetric = 'line' | 'toggle' | 'branch' | 'fsm' | 'functional';
+
+/**
+ * Covered / total coverage points
+ */
+export interface CoverageCount {
+  covered: number;
+  total: number;
+}
+
+/**
+ * Inclusive source line range
+ */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Per-file coverage breakdown
+ */
+export interface FileCoverage {
+  file: string;
+  line: number;
+  toggle: number;
+  branch: number;
+  counts: Partial<Record<CoverageMetric, CoverageCount>>;
+  uncoveredLines: LineRange[];
+}
+
+/**
+ * Per-module coverage breakdown (all instances combined)
+ */
+export interface ModuleCoverage {
+  module: string;
+  line: number;
+  toggle: number;
+  branch: number;
+  counts: Partial<Record<CoverageMetric, CoverageCount>>;
 }
 
 /**
@@ -143,8 +462,143 @@ export interface CoverageResult {
  */
 export interface SynthesisResult extends ToolResult {
   netlist?: string;  // Path to netlist
+  top?: string;      // Synthesized top module
+  script?: string;   // Path to generated synthesis script
+  log?: string;      // Path to synthesis log
   timing?: TimingResult;
   ppa?: PPAResult;
+  run?: RunRecord;
+}
+
+/**
+ * Module, interface, package or program declaration
+ */
+export interface DesignUnit {
+  kind: 'module' | 'interface' | 'package' | 'program';
+  name: string;
+  file: string;
+  line: number;
+  ports: PortInfo[];
+  parameters: ParameterInfo[];
+  clocks: string[];
+  resets: ResetInfo[];
+  instances: InstanceInfo[];
+  imports: string[];     // Imported packages
+  modports?: string[];   // Interfaces only
+}
+
+/**
+ * Port of a design unit
+ */
+export interface PortInfo {
+  name: string;
+  direction: 'input' | 'output' | 'inout' | 'ref' | 'interface';
+  type: string;       // 'logic', 'wire', 'axi_pkg::req_t', 'axi_if.master', ...
+  packed?: string;    // Packed dimensions as written ('[WIDTH-1:0]')
+  unpacked?: string;  // Unpacked dimensions as written ('[4]')
+  width?: number;     // Bits per element with parameter defaults (unset when not constant)
+  line: number;
+}
+
+/**
+ * Parameter or localparam
+ */
+export interface ParameterInfo {
+  name: string;
+  type?: string;
+  default?: string;
+  local: boolean;
+  line: number;
+}
+
+/**
+ * Reset inferred from port names and sensitivity lists
+ */
+export interface ResetInfo {
+  name: string;
+  activeLow: boolean;
+  asynchronous: boolean;  // Appears as an edge in a sensitivity list
+}
+
+/**
+ * Instantiation inside a design unit
+ */
+export interface InstanceInfo {
+  module: string;
+  name: string;
+  line: number;
+  parameters: Record<string, string>;   // Overrides by name (or position)
+  connections: Record<string, string>;  // Port -> expression ('*' for .*)
+}
+
+/**
+ * Module definition found by elaboration
+ */
+export interface ModuleInfo {
+  name: string;
+  file?: string;
+  line?: number;
+  ports: number;
+  instances: ModuleInstance[];
+}
+
+/**
+ * Instance inside a module body (generate block names prefix `name`)
+ */
+export interface ModuleInstance {
+  name: string;
+  module: string;
+  file?: string;
+  line?: number;
+}
+
+/**
+ * Elaboration result of a hierarchy tool
+ */
+export interface ElaborationResult extends ToolResult {
+  modules: ModuleInfo[];
+}
+
+/**
+ * Uninstantiated module
+ */
+export interface TopModule {
+  name: string;
+  kind: 'design' | 'testbench';
+  reason: string;  // Why it was classified as design or testbench top
+}
+
+/**
+ * Node of the instance tree
+ */
+export interface HierarchyNode {
+  instance: string;
+  module: string;
+  path: string;  // Dotted hierarchical path from the top
+  file?: string;
+  line?: number;
+  defined: boolean;  // False for modules without a definition (cells, black boxes)
+  children: HierarchyNode[];
+}
+
+/**
+ * Module hierarchy of a design
+ */
+export interface HierarchyResult extends ToolResult {
+  modules: ModuleInfo[];
+  tops: TopModule[];
+  tree: HierarchyNode[];  // One tree per top
+  undefinedModules: string[];
+  outline?: string;  // Rendered tree
+}
+
+/**
+ * Isolated run directory of a tool invocation
+ */
+export interface RunRecord {
+  dir: string;       // Absolute run directory
+  manifest: string;  // Absolute path to run.json
+  artifacts: Record<string, string>;  // Artifact name -> path relative to dir
 }
 
 /**
@@ -158,6 +612,123 @@ export interface TimingResult {
   };
   slack: number;  // ns
   frequency: number;  // MHz
+  source?: 'opensta' | 'nextpnr';  // Absent when no timing backend ran
+  met?: boolean;  // False when any path has negative slack
+  clock?: {
+    name: string;
+    period: number;  // ns (constraint)
+  };
+  clocks?: ClockTiming[];  // Per-clock results (multi-clock designs)
+  paths?: TimingPath[];  // Worst paths first
+  report?: string;  // Path to the raw timing report
+}
+
+/**
+ * Timing summary for one clock domain
+ */
+export interface ClockTiming {
+  name: string;
+  period: number;     // ns (constraint)
+  slack: number;      // ns (worst path in this domain)
+  frequency: number;  // MHz (achieved)
+  met: boolean;
+}
+
+/**
+ * A timing path from a static timing report
+ */
+export interface TimingPath {
+  startpoint: string;
+  endpoint: string;
+  clock?: string;
+  delay: number;     // ns (data arrival time)
+  required?: number; // ns (data required time)
+  slack: number;     // ns
+  stages: TimingStage[];
+}
+
+/**
+ * One stage (pin or net hop) along a timing path
+ */
+export interface TimingStage {
+  point: string;     // Pin, cell/port or net name
+  cell?: string;     // Library cell or stage type (e.g. 'routing')
+  edge?: 'rise' | 'fall';
+  delay: number;     // ns (incremental)
+  time: number;      // ns (cumulative arrival)
+}
+
+/**
+ * Design objects referenced by a constraint
+ *
+ * `[get_ports {a b}]` -> { kind: 'ports', names: ['a', 'b'] }; bare names
+ * (e.g. `-from clk_a`) have kind 'names'.
+ */
+export interface ConstraintObjects {
+  kind: 'ports' | 'clocks' | 'pins' | 'cells' | 'nets' | 'names'
+    | 'all_inputs' | 'all_outputs' | 'all_clocks' | 'all_registers';
+  names: string[];
+}
+
+/**
+ * Location of a constraint in its source file
+ */
+export interface ConstraintSource {
+  file: string;
+  line: number;
+}
+
+/**
+ * create_clock
+ */
+export interface ClockConstraint extends ConstraintSource {
+  name: string;
+  period: number;               // ns
+  waveform?: [number, number];  // Rise and fall edge (ns)
+  ports: string[];              // Empty for virtual clocks
+}
+
+/**
+ * set_input_delay / set_output_delay
+ */
+export interface IODelayConstraint extends ConstraintSource {
+  clock: string;
+  delay: number;  // ns
+  minMax?: 'min' | 'max';  // Both when absent
+  clockFall?: boolean;
+  objects: ConstraintObjects;
+}
+
+/**
+ * set_false_path / set_multicycle_path endpoints
+ */
+export interface PathConstraint extends ConstraintSource {
+  from?: ConstraintObjects;
+  through?: ConstraintObjects;
+  to?: ConstraintObjects;
+  setup?: boolean;  // -setup only (default: both)
+  hold?: boolean;   // -hold only (default: both)
+}
+
+/**
+ * set_multicycle_path
+ */
+export interface MulticyclePathConstraint extends PathConstraint {
+  multiplier: number;
+}
+
+/**
+ * Timing constraints read from SDC/XDC files
+ */
+export interface TimingConstraints {
+  clocks: ClockConstraint[];
+  inputDelays: IODelayConstraint[];
+  outputDelays: IODelayConstraint[];
+  falsePaths: PathConstraint[];
+  multicyclePaths: MulticyclePathConstraint[];
+  files: string[];
+  /** Commands outside the supported subset (file:line: command) */
+  ignored: string[];
 }
 
 /**
@@ -166,7 +737,12 @@ export interface TimingResult {
 export interface PPAResult {
   area: {
     cells: number;
-    area: number;  // μm²
+    area: number;  // μm² (liberty area when available, otherwise estimated)
+    estimated?: boolean;  // True when area is a cell-count estimate
+    cellTypes?: Record<string, number>;  // Cell count per cell type
+    wires?: number;
+    wireBits?: number;
+    memoryBits?: number;
   };
   power: {
     dynamic: number;  // mW
@@ -0,0 +1,381 @@
+/**
+ * SVA Assertion Generator
+ *
+ * Instantiates parameterized SystemVerilog assertion templates against the
+ * ports of a module and binds them into it, leaving the DUT source alone:
+ * - <dut>_sva.sv: checker module with one labelled assertion per check
+ * - <dut>_sva_bind.sv: bind statement connecting the checker to every
+ *   instance of the DUT
+ *
+ * Templates:
+ * - valid_ready: valid holds and data is stable until ready
+ * - fifo: no push while full, no pop while empty
+ * - onehot: exactly one bit set ($onehot0 with allowZero)
+ * - gray: at most one bit changes per cycle
+ * - reset_value: value in the cycle after reset is asserted
+ * - req_ack: ack within [min:max] cycles of a new request
+ *
+ * Every check except reset_value is disabled during reset. Failures call
+ * $error, reported with file and line by Verilator (--assert) and the
+ * commercial simulators.
+ */
+
+import * as path from 'path';
+import type { DesignUnit, PortInfo } from '../types.js';
+import { headerParameters, padColumns, svType, type GeneratedFile } from './testbench.js';
+
+export type AssertionTemplate = 'valid_ready' | 'fifo' | 'onehot' | 'gray' | 'reset_value' | 'req_ack';
+
+/**
+ * One template instance; the fields a template reads are listed with it
+ */
+export interface AssertionSpec {
+  template: AssertionTemplate;
+  signal?: string;        // onehot, gray, reset_value
+  valid?: string;         // valid_ready
+  ready?: string;         // valid_ready
+  data?: string[];        // valid_ready: payload held stable while waiting (default: none)
+  push?: string;          // fifo: checked against full
+  pop?: string;           // fifo: checked against empty
+  full?: string;          // fifo
+  empty?: string;         // fifo
+  req?: string;           // req_ack
+  ack?: string;           // req_ack
+  min?: number;           // req_ack: earliest ack in cycles (default: 1)
+  max?: number;           // req_ack: latest ack in cycles (default: 16)
+  allowZero?: boolean;    // onehot: also accept no bit set
+  value?: string;         // reset_value: expected value (default: '0)
+}
+
+/**
+ * Generator options
+ */
+export interface AssertionOptions {
+  assertions?: AssertionSpec[];  // Default: inferred from port names (inferAssertions)
+  clock?: string;                // Default: first clock input
+  reset?: string;                // Default: first reset input
+}
+
+/**
+ * Generated checker and bind file
+ */
+export interface AssertionSet {
+  files: GeneratedFile[];
+  checker: string;     // Checker module name
+  labels: string[];    // Assertion labels in the checker
+}
+
+/** Manifest written next to the generated checker */
+export const SVA_MANIFEST = '.sva-manifest.json';
+
+interface Check {
+  label: string;
+  comment: string;
+  property: string;
+  message: string;
+  disable: boolean;   // Disabled during reset
+  signals: string[];
+}
+
+interface CheckContext {
+  unit: DesignUnit;
+  clock: PortInfo;
+  reset?: PortInfo & { activeLow: boolean };
+}
+
+const DEFAULT_MAX_LATENCY = 16;
+
+/**
+ * Generate an assertion checker for a module and a file binding it in
+ *
+ * @throws Error when the unit is not a clocked module, or a spec names
+ *   signals that are not ports of the module
+ */
+export function generateAssertions(unit: DesignUnit, options: AssertionOptions = {}): AssertionSet {
+  if (unit.kind !== 'module') {
+    throw new Error(`${unit.name} is ${unit.kind === 'interface' ? 'an' : 'a'} ${unit.kind}, not a module`);
+  }
+  const context = createContext(unit, options);
+  const specs = options.assertions ?? inferAssertions(unit);
+  if (specs.length === 0) {
+    throw new Error(`No assertions for ${unit.name}: no port names match a template, list the assertions to generate`);
+  }
+
+  const checks = specs.flatMap(spec => instantiate(context, spec));
+  const labels = new Set<string>();
+  for (const check of checks) {
+    if (labels.has(check.label)) {
+      throw new Error(`Duplicate assertion ${check.label}: the same check is listed twice`);
+    }
+    labels.add(check.label);
+  }
+
+  const checker = `${unit.name}_sva`;
+  const used = new Set([context.clock.name, ...(context.reset ? [context.reset.name] : []), ...checks.flatMap(c => c.signals)]);
+  const ports = unit.ports.filter(p => used.has(p.name));
+  const origin = `${path.basename(unit.file)}:${unit.line}`;
+  return {
+    files: [
+      { path: `${checker}.sv`, content: generateChecker(context, checker, ports, checks, origin) },
+      { path: `${checker}_bind.sv`, content: generateBind(unit, checker, ports, origin) },
+    ],
+    checker,
+    labels: checks.map(c => c.label),
+  };
+}
+
+/**
+ * Assertions suggested by port names:
+ * - <p>valid with <p>ready: valid_ready, with the other <p>* ports as data,
+ *   and reset_value 0 for an output valid
+ * - <p>req with <p>ack: req_ack
+ * - *full/*empty with push/wr_en and pop/rd_en inputs: fifo
+ * - *_oh / *onehot: onehot; *gray*: gray
+ */
+export function inferAssertions(unit: DesignUnit): AssertionSpec[] {
+  const specs: AssertionSpec[] = [];
+  const ports = unit.ports.filter(p => p.direction === 'input' || p.direction === 'output');
+  const inputs = ports.filter(p => p.direction === 'input');
+  const outputs = ports.filter(p => p.direction === 'output');
+  const hasReset = unit.resets.length > 0;
+  const one = (candidates: PortInfo[], pattern: RegExp) => {
+    const matches = candidates.filter(p => pattern.test(p.name));
+    return matches.length === 1 ? matches[0].name : undefined;
+  };
+
+  for (const valid of ports) {
+    const prefix = valid.name.match(/^(.*)valid$/i)?.[1];
+    if (prefix === undefined) continue;
+    const ready = ports.find(p => p.name.toLowerCase() === `${prefix}ready`.toLowerCase() && p.direction !== valid.direction);
+    if (!ready) continue;
+    const data = prefix
+      ? ports.filter(p => p.name.startsWith(prefix) && p !== valid && p !== ready && p.direction === valid.direction)
+      : [];
+    specs.push({ template: 'valid_ready', valid: valid.name, ready: ready.name, data: data.map(p => p.name) });
+    if (valid.direction === 'output' && hasReset) {
+      specs.push({ template: 'reset_value', signal: valid.name });
+    }
+  }
+
+  for (const req of ports) {
+    const prefix = req.name.match(/^(.*)req$/i)?.[1];
+    if (prefix === undefined) continue;
+    const ack = ports.find(p => p.name.toLowerCase() === `${prefix}ack`.toLowerCase() && p.direction !== req.direction);
+    if (ack) {
+      specs.push({ template: 'req_ack', req: req.name, ack: ack.name });
+    }
+  }
+
+  const full = one(outputs, /full$/i);
+  const empty = one(outputs, /empty$/i);
+  const push = one(inputs, /(push|wr_en|write)$/i);
+  const pop = one(inputs, /(pop|rd_en|read)$/i);
+  if ((full && push) || (empty && pop)) {
+    specs.push({
+      template: 'fifo',
+      ...(full && push ? { full, push } : {}),
+      ...(empty && pop ? { empty, pop } : {}),
+    });
+  }
+
+  for (const port of ports) {
+    if (/(_oh|onehot)$/i.test(port.name)) {
+      specs.push({ template: 'onehot', signal: port.name });
+    } else if (/gray/i.test(port.name)) {
+      specs.push({ template: 'gray', signal: port.name });
+    }
+  }
+
+  return specs;
+}
+
+function createContext(unit: DesignUnit, options: AssertionOptions): CheckContext {
+  const inputs = unit.ports.filter(p => p.direction === 'input');
+  const clock = options.clock
+    ? inputs.find(p => p.name === options.clock)
+    : inputs.find(p => unit.clocks.includes(p.name));
+  if (!clock) {
+    throw new Error(options.clock
+      ? `${options.clock} is not an input of ${unit.name}`
+      : `${unit.name} has no clock input: concurrent assertions sample on a clock edge`);
+  }
+
+  let reset: CheckContext['reset'];
+  const resetName = options.reset ?? unit.resets.find(r => inputs.some(p => p.name === r.name))?.name;
+  if (resetName) {
+    const port = inputs.find(p => p.name === resetName);
+    if (!port) {
+      throw new Error(`${resetName} is not an input of ${unit.name}`);
+    }
+    const info = unit.resets.find(r => r.name === resetName);
+    reset = { ...port, activeLow: info?.activeLow ?? /_n$|_b$|n$/i.test(resetName) };
+  }
+
+  return { unit, clock, reset };
+}
+
+function instantiate(context: CheckContext, spec: AssertionSpec): Check[] {
+  const { unit } = context;
+  const port = (name: string): string => {
+    if (!unit.ports.some(p => p.name === name && (p.direction === 'input' || p.direction === 'output'))) {
+      throw new Error(`${name} is not an input or output of ${unit.name}`);
+    }
+    return name;
+  };
+  const signal = (field: keyof AssertionSpec): string => {
+    const name = spec[field];
+    if (typeof name !== 'string') {
+      throw new Error(`${spec.template} assertion needs ${field}`);
+    }
+    return port(name);
+  };
+  const check = (label: string, comment: string, property: string, message: string, signals: string[], disable = true): Check =>
+    ({ label: `a_${label}`, comment, property, message, disable, signals });
+
+  switch (spec.template) {
+    case 'valid_ready': {
+      const valid = signal('valid');
+      const ready = signal('ready');
+      const waiting = `${valid} && !${ready}`;
+      return [
+        check(`${valid}_hold`, `${valid} holds until ${ready}`, `${waiting} |=> ${valid}`,
+          `${valid} dropped before ${ready}`, [valid, ready]),
+        ...(spec.data ?? []).map(port).map(data =>
+          check(`${data}_stable`, `${data} is stable while ${valid} waits for ${ready}`, `${waiting} |=> $stable(${data})`,
+            `${data} changed while ${valid} waited for ${ready}`, [valid, ready, data])),
+      ];
+    }
+
+    case 'fifo': {
+      if (!((spec.push && spec.full) || (spec.pop && spec.empty))) {
+        throw new Error('fifo assertion needs push and full, or pop and empty');
+      }
+      const checks: Check[] = [];
+      if (spec.push || spec.full) {
+        const push = signal('push');
+        const full = signal('full');
+        checks.push(check(`${push}_overflow`, `No ${push} while ${full}`, `${push} |-> !${full}`,
+          `${push} while ${full}: FIFO overflow`, [push, full]));
+      }
+      if (spec.pop || spec.empty) {
+        const pop = signal('pop');
+        const empty = signal('empty');
+        checks.push(check(`${pop}_underflow`, `No ${pop} while ${empty}`, `${pop} |-> !${empty}`,
+          `${pop} while ${empty}: FIFO underflow`, [pop, empty]));
+      }
+      return checks;
+    }
+
+    case 'onehot': {
+      const name = signal('signal');
+      const fn = spec.allowZero ? '$onehot0' : '$onehot';
+      return [check(`${name}_${fn.slice(1)}`, `${name} is one-hot${spec.allowZero ? ' or zero' : ''}`, `${fn}(${name})`,
+        `${name} is not one-hot${spec.allowZero ? ' or zero' : ''}: %b`, [name])];
+    }
+
+    case 'gray': {
+      const name = signal('signal');
+      return [check(`${name}_gray`, `${name} changes at most one bit per cycle`, `$countones(${name} ^ $past(${name})) <= 1`,
+        `${name} changed more than one bit: now %b`, [name])];
+    }
+
+    case 'reset_value': {
+      const name = signal('signal');
+      if (!context.reset) {
+        throw new Error(`reset_value assertion on ${name} needs a reset: ${unit.name} has none, set reset`);
+      }
+      const value = spec.value ?? "'0";
+      return [check(`${name}_reset`, `${name} is ${value} after reset`, `${active(context)} |=> ${name} == ${value}`,
+        `${name} is not ${value} after reset: %h`, [name], false)];
+    }
+
+    case 'req_ack': {
+      const req = signal('req');
+      const ack = signal('ack');
+      const min = spec.min ?? 1;
+      const max = spec.max ?? DEFAULT_MAX_LATENCY;
+      if (!Number.isInteger(min) || !Number.isInteger(max) || min < 0 || max < min) {
+        throw new Error(`req_ack latency bounds must be integers with 0 <= min <= max (got ${min}..${max})`);
+      }
+      return [check(`${req}_ack_latency`, `${ack} within ${min}..${max} cycles of a new ${req}`, `$rose(${req}) |-> ##[${min}:${max}] ${ack}`,
+        `no ${ack} within ${min}..${max} cycles of ${req}`, [req, ack])];
+    }
+  }
+}
+
+function active(context: CheckContext): string {
+  const reset = context.reset!;
+  return reset.activeLow ? `!${reset.name}` : reset.name;
+}
+
+/**
+ * $error argument for a message that prints the checked signal
+ */
+function messageArgs(check: Check): string {
+  return /%[bh]/.test(check.message) ? `, ${check.signals[0]}` : '';
+}
+
+function generateChecker(context: CheckContext, checker: string, ports: PortInfo[], checks: Check[], origin: string): string {
+  const { unit, clock } = context;
+  const lines = [
+    `// Assertions for ${unit.name}, bound in by ${checker}_bind.sv`,
+    `// Generated by oh-my-claude-rtl from ${origin}`,
+    '',
+    `module ${checker}`,
+    ...unit.imports.map(pkg => `  import ${pkg}::*;`),
+  ];
+
+  const parameters = headerParameters(unit);
+  const overridable = parameters.filter(p => !p.local);
+  if (overridable.length) {
+    lines.push('#(');
+    overridable.forEach((parameter, index) => {
+      const value = parameter.default === undefined ? '' : ` = ${parameter.default}`;
+      lines.push(`  parameter ${parameter.type ? `${parameter.type} ` : ''}${parameter.name}${value}${index < overridable.length - 1 ? ',' : ''}`);
+    });
+    lines.push(')');
+  }
+
+  lines.push('(');
+  const rows = ports.map((port, index) => [
+    `  input ${svType(port)}`,
+    port.packed ?? '',
+    `${port.name}${port.unpacked ? ` ${port.unpacked}` : ''}${index < ports.length - 1 ? ',' : ''}`,
+  ]);
+  lines.push(...padColumns(rows), ');');
+
+  const locals = parameters.filter(p => p.local && p.default !== undefined);
+  if (locals.length) {
+    lines.push(...locals.map(p => `  localparam ${p.type ? `${p.type} ` : ''}${p.name} = ${p.default};`));
+  }
+
+  for (const check of checks) {
+    const disable = check.disable && context.reset ? ` disable iff (${active(context)})` : '';
+    lines.push(
+      '',
+      `  // ${check.comment}`,
+      `  ${check.label}: assert property (@(posedge ${clock.name})${disable}`,
+      `    ${check.property})`,
+      `    else $error("${check.message}"${messageArgs(check)});`,
+    );
+  }
+  lines.push('endmodule', '');
+  return lines.join('\n');
+}
+
+function generateBind(unit: DesignUnit, checker: string, ports: PortInfo[], origin: string): string {
+  const overridable = headerParameters(unit).filter(p => !p.local);
+  const parameters = overridable.length
+    ? ` #(${overridable.map(p => `.${p.name}(${p.name})`).join(', ')})`
+    : '';
+  const width = Math.max(...ports.map(p => p.name.length));
+  return [
+    `// Binds ${checker} into every instance of ${unit.name}`,
+    `// Generated by oh-my-claude-rtl from ${origin}`,
+    '',
+    `bind ${unit.name} ${checker}${parameters} u_${checker} (`,
+    ...ports.map((port, index) => `  .${port.name.padEnd(width)} (${port.name})${index < ports.length - 1 ? ',' : ''}`),
+    ');',
+    '',
+  ].join('\n');
+}
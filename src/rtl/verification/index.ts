@@ -2,11 +2,20 @@
  * Verification Helpers
  * 
  * Utilities for:
+ * - Testbench skeletons (SystemVerilog, Verilator C++, cocotb)
  * - UVM environment generation
  * - cocotb test helpers
  * - Assertion (SVA/PSL) templates
  * - Reference model comparison
  */
 
-// TODO: Implement verification helpers
+export { generateTestbench } from './testbench.js';
+export type { TestbenchStyle, TestbenchOptions, GeneratedFile } from './testbench.js';
+export { generateUvmEnvironment, uvmLibrary, UVM_MANIFEST } from './uvm.js';
+export type { UvmProtocol, UvmAgentSpec, UvmOptions, UvmEnvironment } from './uvm.js';
+export { generateAssertions, inferAssertions, SVA_MANIFEST } from './assertions.js';
+export type { AssertionTemplate, AssertionSpec, AssertionOptions, AssertionSet } from './assertions.js';
+export { writeGeneratedFiles } from './manifest.js';
+export type { GeneratedFileStatus } from './manifest.js';
+
 export const VERIFICATION_VERSION = '0.1.0';
@@ -0,0 +1,100 @@
+/**
+ * Generated File Manifest
+ *
+ * Records the hash of every file a generator wrote, so running it again
+ * refreshes files nobody touched and keeps the ones that were edited.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { GeneratedFile } from './testbench.js';
+
+interface GeneratedManifest {
+  version: 1;
+  generator: string;
+  files: Record<string, string>;  // Path relative to the output directory -> sha256
+}
+
+/**
+ * What happened to one generated file
+ * - created: did not exist
+ * - updated: unmodified since the last run, rewritten with new content
+ * - unchanged: unmodified and identical to the new content
+ * - kept: edited since it was generated (or not generated by us), left alone
+ */
+export interface GeneratedFileStatus {
+  path: string;
+  status: 'created' | 'updated' | 'unchanged' | 'kept';
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Write generated files into a directory, skipping files edited since the
+ * previous run
+ *
+ * @param dir Output directory
+ * @param files Files named relative to dir
+ * @param generator Generator name recorded in the manifest
+ * @param manifestName Manifest file in dir
+ * @param force Overwrite edited files too
+ */
+export async function writeGeneratedFiles(
+  dir: string,
+  files: GeneratedFile[],
+  generator: string,
+  manifestName: string,
+  force = false
+): Promise<GeneratedFileStatus[]> {
+  const manifestPath = path.join(dir, manifestName);
+  let previous: GeneratedManifest | undefined;
+  try {
+    previous = JSON.parse(await fs.promises.readFile(manifestPath, 'utf8')) as GeneratedManifest;
+  } catch {
+    previous = undefined;
+  }
+
+  const next: GeneratedManifest = { version: 1, generator, files: {} };
+  const statuses: GeneratedFileStatus[] = [];
+
+  for (const file of files) {
+    const target = path.join(dir, file.path);
+    const hash = sha256(file.content);
+    let current: string | undefined;
+    try {
+      current = await fs.promises.readFile(target, 'utf8');
+    } catch {
+      current = undefined;
+    }
+
+    let status: GeneratedFileStatus['status'];
+    if (current === undefined) {
+      status = 'created';
+    } else if (current === file.content) {
+      status = 'unchanged';
+    } else if (force || previous?.files[file.path] === sha256(current)) {
+      status = 'updated';
+    } else {
+      status = 'kept';
+    }
+
+    if (status === 'created' || status === 'updated') {
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.writeFile(target, file.content);
+    }
+    if (status === 'kept') {
+      // Keep tracking the original hash so the file stays protected
+      if (previous?.files[file.path]) next.files[file.path] = previous.files[file.path];
+    } else {
+      next.files[file.path] = hash;
+    }
+    statuses.push({ path: file.path, status });
+  }
+
+  await fs.promises.mkdir(dir, { recursive: true });
+  await fs.promises.writeFile(manifestPath, JSON.stringify(next, null, 2));
+  return statuses;
+}
@@ -0,0 +1,471 @@
+/**
+ * Testbench Skeleton Generator
+ *
+ * Emits the boilerplate every block needs, from a design database unit:
+ * - 'systemverilog': self-checking SystemVerilog testbench
+ * - 'verilator': Verilator C++ harness driving the DUT as the top
+ * - 'cocotb': cocotb Python test with its Makefile
+ *
+ * Each style drives clocks and resets, idles the inputs, dumps waves and
+ * reports a verdict the simulation pass detector recognizes:
+ * "*** TEST PASSED ***" / "*** TEST FAILED ***" (cocotb: results.xml).
+ */
+
+import * as path from 'path';
+import type { DesignUnit, ParameterInfo, PortInfo } from '../types.js';
+
+export type TestbenchStyle = 'systemverilog' | 'verilator' | 'cocotb';
+
+/**
+ * Generator options
+ */
+export interface TestbenchOptions {
+  clockPeriodNs?: number;               // Default: 10
+  resetCycles?: number;                 // Default: 5
+  runCycles?: number;                   // Cycles after reset before finishing (default: 100)
+  timeoutCycles?: number;               // Watchdog (default: 100000)
+  parameters?: Record<string, string>;  // Overrides of the DUT parameter defaults
+  sources?: string[];                   // DUT sources for the cocotb Makefile (default: the unit's file)
+  dumpFile?: string;                    // Default: 'dump.vcd'
+}
+
+/**
+ * A generated file, named relative to the output directory
+ */
+export interface GeneratedFile {
+  path: string;
+  content: string;
+}
+
+const PASS_MARKER = '*** TEST PASSED ***';
+const FAIL_MARKER = '*** TEST FAILED ***';
+
+/** Net and variable keywords replaced by logic in testbench declarations */
+const NET_TYPES = new Set(['wire', 'reg', 'var', 'tri', 'tri0', 'tri1', 'wand', 'wor', 'uwire', 'supply0', 'supply1']);
+const BUILTIN_TYPES = new Set(['logic', 'bit', 'byte', 'shortint', 'int', 'longint', 'integer', 'time', 'signed', 'unsigned']);
+
+/**
+ * Generate a testbench skeleton for a module
+ *
+ * @throws Error when the unit is not a module
+ */
+export function generateTestbench(
+  unit: DesignUnit,
+  style: TestbenchStyle,
+  options: TestbenchOptions = {}
+): GeneratedFile[] {
+  if (unit.kind !== 'module') {
+    throw new Error(`${unit.name} is ${unit.kind === 'interface' ? 'an' : 'a'} ${unit.kind}, not a module`);
+  }
+
+  const context = createContext(unit, options);
+  switch (style) {
+    case 'systemverilog':
+      return [{ path: `tb_${unit.name}.sv`, content: generateSystemVerilog(context) }];
+    case 'verilator':
+      return [{ path: `tb_${unit.name}.cpp`, content: generateVerilatorHarness(context) }];
+    case 'cocotb':
+      return [
+        { path: `test_${unit.name}.py`, content: generateCocotbTest(context) },
+        { path: 'Makefile', content: generateCocotbMakefile(context) },
+      ];
+  }
+}
+
+interface GeneratorContext {
+  unit: DesignUnit;
+  clocks: PortInfo[];
+  resets: Array<PortInfo & { activeLow: boolean }>;
+  inputs: PortInfo[];  // Inputs other than clocks and resets
+  options: Required<Omit<TestbenchOptions, 'parameters' | 'sources'>> & Pick<TestbenchOptions, 'parameters' | 'sources'>;
+  origin: string;
+}
+
+function createContext(unit: DesignUnit, options: TestbenchOptions): GeneratorContext {
+  const inputs = unit.ports.filter(p => p.direction === 'input');
+  const clocks = inputs.filter(p => unit.clocks.includes(p.name));
+  const resets = inputs.flatMap(p => {
+    const reset = unit.resets.find(r => r.name === p.name);
+    return reset ? [{ ...p, activeLow: reset.activeLow }] : [];
+  });
+
+  return {
+    unit,
+    clocks,
+    resets,
+    inputs: inputs.filter(p => !clocks.includes(p) && !resets.some(r => r.name === p.name)),
+    options: {
+      clockPeriodNs: options.clockPeriodNs ?? 10,
+      resetCycles: options.resetCycles ?? 5,
+      runCycles: options.runCycles ?? 100,
+      timeoutCycles: options.timeoutCycles ?? 100000,
+      dumpFile: options.dumpFile ?? 'dump.vcd',
+      parameters: options.parameters,
+      sources: options.sources,
+    },
+    origin: `${path.basename(unit.file)}:${unit.line}`,
+  };
+}
+
+export function isBuiltinType(port: PortInfo): boolean {
+  const first = port.type.split(/\s+/)[0];
+  return NET_TYPES.has(first) || BUILTIN_TYPES.has(first);
+}
+
+/**
+ * Testbench variable type of a port ("wire signed" -> "logic signed")
+ */
+export function svType(port: PortInfo): string {
+  const words = port.type.split(/\s+/).filter(word => !NET_TYPES.has(word));
+  if (words.length === 0 || words[0] === 'signed' || words[0] === 'unsigned') {
+    words.unshift('logic');
+  }
+  return words.join(' ');
+}
+
+/**
+ * Parameters declared in the module header: parameters an instance can
+ * override, and header localparams used by port declarations
+ */
+export function headerParameters(unit: DesignUnit): ParameterInfo[] {
+  const lastPortLine = Math.max(unit.line, ...unit.ports.map(p => p.line));
+  return unit.parameters.filter(p => !p.local || p.line <= lastPortLine);
+}
+
+export function padColumns(rows: string[][]): string[] {
+  const widths = rows.reduce<number[]>((acc, row) => row.map((cell, i) => Math.max(acc[i] ?? 0, cell.length)), []);
+  return rows.map(row => row.map((cell, i) => i < row.length - 1 ? cell.padEnd(widths[i]) : cell).join(' ').trimEnd());
+}
+
+function generateSystemVerilog(context: GeneratorContext): string {
+  const { unit, clocks, resets, inputs, options } = context;
+  const tb = `tb_${unit.name}`;
+  const clock = clocks[0]?.name;
+  const wait = (cycles: string) => clock ? `repeat (${cycles}) @(posedge ${clock});` : `#((${cycles}) * CLK_PERIOD);`;
+  const lines: string[] = [
+    `// Self-checking testbench for ${unit.name}`,
+    `// Generated by oh-my-claude-rtl from ${context.origin}`,
+    '',
+    '`timescale 1ns / 1ps',
+    '',
+    `module ${tb};`,
+  ];
+  for (const pkg of unit.imports) {
+    lines.push(`  import ${pkg}::*;`);
+  }
+
+  lines.push('', `  localparam real CLK_PERIOD     = ${options.clockPeriodNs.toFixed(1)};  // ns`);
+  lines.push(`  localparam int  RESET_CYCLES   = ${options.resetCycles};`);
+  lines.push(`  localparam int  RUN_CYCLES     = ${options.runCycles};`);
+  lines.push(`  localparam int  TIMEOUT_CYCLES = ${options.timeoutCycles};`);
+
+  // DUT parameters
+  const parameters = unit.parameters.filter(p => !p.local);
+  const overridden: string[] = [];
+  if (parameters.length) {
+    lines.push('', `  // ${unit.name} parameters`);
+    for (const parameter of parameters) {
+      const value = options.parameters?.[parameter.name] ?? parameter.default;
+      if (value === undefined) {
+        lines.push(`  // ${parameter.name} has no default: add an override`);
+        continue;
+      }
+      lines.push(`  localparam ${parameter.type ? `${parameter.type} ` : ''}${parameter.name} = ${value};`);
+      overridden.push(parameter.name);
+    }
+  }
+
+  // Signals
+  const rows: string[][] = [];
+  const interfaces: PortInfo[] = [];
+  for (const port of unit.ports) {
+    if (port.direction === 'interface') {
+      interfaces.push(port);
+    } else {
+      const type = port.direction === 'inout' ? svType(port).replace(/^logic\b/, 'wire') : svType(port);
+      rows.push([`  ${type}`, port.packed ?? '', `${port.name}${port.unpacked ? ` ${port.unpacked}` : ''};`]);
+    }
+  }
+  if (rows.length || interfaces.length) {
+    lines.push('', '  // DUT ports');
+    lines.push(...padColumns(rows));
+    for (const port of interfaces) {
+      const [name] = port.type.split('.');
+      lines.push(name === 'interface'
+        ? `  // ${port.name}: generic interface port, instantiate the interface to connect`
+        : `  ${name} ${port.name} ();`);
+    }
+  }
+
+  lines.push('', '  int errors = 0;');
+  lines.push('', '  // Report a mismatch without stopping the test');
+  lines.push('  `define CHECK_EQ(ACTUAL, EXPECTED) \\');
+  lines.push('    if ((ACTUAL) !== (EXPECTED)) begin \\');
+  lines.push('      errors++; \\');
+  lines.push('      $display("[%0t] ERROR: %s = 0x%0h, expected 0x%0h", $time, `"ACTUAL`", ACTUAL, EXPECTED); \\');
+  lines.push('    end');
+
+  // Clocks
+  if (clocks.length) {
+    lines.push('', clocks.length > 1 ? '  // Clocks (same period: adjust per domain)' : '  // Clock');
+    for (const port of clocks) {
+      lines.push('  initial begin', `    ${port.name} = 1'b0;`, `    forever #(CLK_PERIOD / 2) ${port.name} = ~${port.name};`, '  end');
+    }
+  }
+
+  // DUT
+  lines.push('');
+  const connections = unit.ports.filter(p => p.direction !== 'interface' || p.type !== 'interface');
+  const width = Math.max(0, ...connections.map(p => p.name.length), ...overridden.map(name => name.length));
+  if (overridden.length) {
+    lines.push(`  ${unit.name} #(`);
+    lines.push(overridden.map(name => `    .${name.padEnd(width)} (${name})`).join(',\n'));
+    lines.push('  ) dut (');
+  } else {
+    lines.push(`  ${unit.name} dut (`);
+  }
+  if (connections.length) {
+    lines.push(connections.map(p => `    .${p.name.padEnd(width)} (${p.name})`).join(',\n'));
+  }
+  lines.push('  );');
+
+  // Stimulus
+  lines.push('', '  initial begin : stimulus');
+  for (const port of inputs) {
+    lines.push(`    ${port.name} = ${port.unpacked ? "'{default: '0}" : isBuiltinType(port) ? "'0" : `${svType(port)}'(0)`};`);
+  }
+  for (const reset of resets) {
+    lines.push(`    ${reset.name} = 1'b${reset.activeLow ? 0 : 1};`);
+  }
+  if (resets.length) {
+    lines.push(`    ${wait('RESET_CYCLES')}`);
+    for (const reset of resets) {
+      lines.push(`    ${reset.name} ${clock ? '<=' : '='} 1'b${reset.activeLow ? 1 : 0};`);
+    }
+  }
+  lines.push('');
+  lines.push('    // TODO: drive stimulus and check outputs, e.g.');
+  lines.push(`    // \`CHECK_EQ(${unit.ports.find(p => p.direction === 'output')?.name ?? 'dout'}, '0)`);
+  lines.push(`    ${wait('RUN_CYCLES')}`);
+  lines.push('    finish_test();');
+  lines.push('  end');
+
+  lines.push('', '  task automatic finish_test();');
+  lines.push(`    if (errors == 0) $display("${PASS_MARKER}");`);
+  lines.push(`    else $display("${FAIL_MARKER} (%0d error(s))", errors);`);
+  lines.push('    $finish;');
+  lines.push('  endtask');
+
+  lines.push('', '  // Watchdog');
+  lines.push('  initial begin');
+  lines.push(`    ${wait('TIMEOUT_CYCLES')}`);
+  lines.push(`    $display("${FAIL_MARKER} (timeout after %0d cycles)", TIMEOUT_CYCLES);`);
+  lines.push('    $finish;');
+  lines.push('  end');
+
+  lines.push('', '  initial begin');
+  lines.push(`    $dumpfile("${options.dumpFile}");`);
+  lines.push(`    $dumpvars(0, ${tb});`);
+  lines.push('  end');
+  lines.push('', 'endmodule', '');
+  return lines.join('\n');
+}
+
+function generateVerilatorHarness(context: GeneratorContext): string {
+  const { unit, clocks, resets, inputs, options } = context;
+  const model = `V${unit.name}`;
+  const halfPeriodPs = Math.max(1, Math.round(options.clockPeriodNs * 500));
+  const assignable = (port: PortInfo) => !port.unpacked && port.width !== undefined && port.width <= 64;
+  const setClocks = (level: number) => clocks.map(p => `dut->${p.name} = ${level};`).join(' ');
+
+  const lines: string[] = [
+    `// Verilator harness for ${unit.name}`,
+    `// Generated by oh-my-claude-rtl from ${context.origin}`,
+    '//',
+    `// Build: verilator --cc --exe --build --trace ${path.basename(unit.file)} tb_${unit.name}.cpp`,
+  ];
+  const interfaces = unit.ports.filter(p => p.direction === 'interface');
+  if (interfaces.length) {
+    lines.push(`// Interface ports (${interfaces.map(p => p.name).join(', ')}) cannot be driven from C++:`);
+    lines.push('// wrap the DUT in a SystemVerilog top and build the harness around it.');
+  }
+  lines.push(
+    '',
+    '#include <cinttypes>',
+    '#include <cstdio>',
+    '#include <memory>',
+    '',
+    `#include "${model}.h"`,
+    '#include "verilated.h"',
+    '#include "verilated_vcd_c.h"',
+    '',
+    '// Time is counted in the design\'s time precision (Verilator default: 1ps)',
+    `static const uint64_t HALF_PERIOD_PS = ${halfPeriodPs};`,
+    `static const int RESET_CYCLES = ${options.resetCycles};`,
+    `static const int RUN_CYCLES = ${options.runCycles};`,
+    '',
+    'int main(int argc, char** argv) {',
+    '    const std::unique_ptr<VerilatedContext> contextp{new VerilatedContext};',
+    '    contextp->commandArgs(argc, argv);',
+    '    contextp->traceEverOn(true);',
+    `    const std::unique_ptr<${model}> dut{new ${model}{contextp.get()}};`,
+    '',
+    '    VerilatedVcdC* tfp = new VerilatedVcdC;',
+    '    dut->trace(tfp, 99);',
+    `    tfp->open("${options.dumpFile}");`,
+    '',
+    '    int errors = 0;',
+    '    // Report a mismatch without stopping the test',
+    '    auto check = [&](const char* what, uint64_t actual, uint64_t expected) {',
+    '        if (actual != expected) {',
+    '            ++errors;',
+    '            std::printf("[%" PRIu64 "] ERROR: %s = 0x%" PRIx64 ", expected 0x%" PRIx64 "\\n",',
+    '                        contextp->time(), what, actual, expected);',
+    '        }',
+    '    };',
+    '',
+    clocks.length ? '    // One clock period (all clocks toggle together)' : '    // One step (no clock)',
+    '    auto tick = [&]() {',
+  );
+  if (clocks.length) {
+    lines.push(
+      `        ${setClocks(0)}`,
+      '        dut->eval();',
+      '        tfp->dump(contextp->time());',
+      '        contextp->timeInc(HALF_PERIOD_PS);',
+      `        ${setClocks(1)}`,
+      '        dut->eval();',
+      '        tfp->dump(contextp->time());',
+      '        contextp->timeInc(HALF_PERIOD_PS);',
+    );
+  } else {
+    lines.push(
+      '        dut->eval();',
+      '        tfp->dump(contextp->time());',
+      '        contextp->timeInc(2 * HALF_PERIOD_PS);',
+    );
+  }
+  lines.push('    };', '', '    // Idle inputs and assert reset');
+  for (const port of inputs) {
+    lines.push(assignable(port)
+      ? `    dut->${port.name} = 0;`
+      : `    // ${port.name}: ${port.unpacked ? 'unpacked array' : 'wide or non-constant width'}, left at its initial value`);
+  }
+  for (const reset of resets) {
+    lines.push(`    dut->${reset.name} = ${reset.activeLow ? 0 : 1};`);
+  }
+  lines.push('    for (int cycle = 0; cycle < RESET_CYCLES; ++cycle) tick();');
+  for (const reset of resets) {
+    lines.push(`    dut->${reset.name} = ${reset.activeLow ? 1 : 0};`);
+  }
+
+  const output = unit.ports.find(p => p.direction === 'output' && assignable(p));
+  lines.push(
+    '',
+    '    // TODO: drive stimulus and check outputs, e.g.',
+    `    // check("${output?.name ?? 'dout'}", dut->${output?.name ?? 'dout'}, 0);`,
+    '    (void)check;',
+    '    for (int cycle = 0; cycle < RUN_CYCLES && !contextp->gotFinish(); ++cycle) tick();',
+    '',
+    '    dut->final();',
+    '    tfp->close();',
+    '    delete tfp;',
+    '',
+    '    if (errors == 0) {',
+    `        std::printf("${PASS_MARKER}\\n");`,
+    '        return 0;',
+    '    }',
+    `    std::printf("${FAIL_MARKER} (%d error(s))\\n", errors);`,
+    '    return 1;',
+    '}',
+    '',
+  );
+  return lines.join('\n');
+}
+
+function generateCocotbTest(context: GeneratorContext): string {
+  const { unit, clocks, resets, inputs, options } = context;
+  const clock = clocks[0]?.name;
+  const wait = (cycles: string) => clock
+    ? `await ClockCycles(dut.${clock}, ${cycles})`
+    : `await Timer(${cycles} * CLOCK_PERIOD_NS, units="ns")`;
+  const triggers = clock ? ['ClockCycles', 'RisingEdge'] : ['Timer'];
+
+  const lines: string[] = [
+    `"""cocotb test for ${unit.name}`,
+    '',
+    `Generated by oh-my-claude-rtl from ${context.origin}`,
+    '"""',
+    '',
+    'import cocotb',
+  ];
+  if (clocks.length) lines.push('from cocotb.clock import Clock');
+  lines.push(
+    `from cocotb.triggers import ${triggers.join(', ')}`,
+    '',
+    `CLOCK_PERIOD_NS = ${options.clockPeriodNs}`,
+    `RESET_CYCLES = ${options.resetCycles}`,
+    `RUN_CYCLES = ${options.runCycles}`,
+    '',
+    '',
+    'async def reset_dut(dut):',
+    '    """Idle the inputs and pulse the reset"""',
+  );
+  for (const port of inputs) {
+    lines.push(port.unpacked || !isBuiltinType(port)
+      ? `    # ${port.name}: ${port.unpacked ? 'unpacked array' : port.type}, left at its initial value`
+      : `    dut.${port.name}.value = 0`);
+  }
+  for (const reset of resets) {
+    lines.push(`    dut.${reset.name}.value = ${reset.activeLow ? 0 : 1}`);
+  }
+  lines.push(`    ${wait('RESET_CYCLES')}`);
+  for (const reset of resets) {
+    lines.push(`    dut.${reset.name}.value = ${reset.activeLow ? 1 : 0}`);
+  }
+  if (clock) lines.push(`    await RisingEdge(dut.${clock})`);
+
+  const output = unit.ports.find(p => p.direction === 'output')?.name ?? 'dout';
+  lines.push('', '', '@cocotb.test()', `async def test_${unit.name}(dut):`, `    """Reset ${unit.name} and check its outputs"""`);
+  for (const port of clocks) {
+    lines.push(`    cocotb.start_soon(Clock(dut.${port.name}, CLOCK_PERIOD_NS, units="ns").start())`);
+  }
+  lines.push(
+    '    await reset_dut(dut)',
+    '',
+    '    # TODO: drive stimulus and check outputs, e.g.',
+    `    # assert dut.${output}.value == 0, f"${output} = {dut.${output}.value}"`,
+    `    ${wait('RUN_CYCLES')}`,
+    '',
+  );
+  return lines.join('\n');
+}
+
+function generateCocotbMakefile(context: GeneratorContext): string {
+  const { unit } = context;
+  const sources = context.options.sources ?? [unit.file];
+  const verilog = sources.map(source => `VERILOG_SOURCES += ${source}`);
+  const lines = [
+    `# cocotb Makefile for ${unit.name}`,
+    `# Generated by oh-my-claude-rtl from ${context.origin}`,
+    '#',
+    '# Run: make SIM=icarus (or SIM=verilator); results land in results.xml',
+    '',
+    'SIM ?= icarus',
+    'TOPLEVEL_LANG ?= verilog',
+    '',
+    ...verilog,
+    `TOPLEVEL = ${unit.name}`,
+    `MODULE = test_${unit.name}`,
+    '',
+    '# Waves: icarus writes sim_build/*.fst, verilator dump.vcd',
+    'WAVES ?= 1',
+    'ifeq ($(SIM),verilator)',
+    'EXTRA_ARGS += --trace',
+    'endif',
+    '',
+    'include $(shell cocotb-config --makefiles)/Makefile.sim',
+    '',
+  ];
+  return lines.join('\n');
+}
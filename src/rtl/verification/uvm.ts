@@ -0,0 +1,757 @@
+/**
+ * UVM Environment Generator
+ *
+ * Emits a UVM skeleton for a module from its design database unit, one
+ * agent per DUT interface:
+ * - <dut>_params_pkg.sv: DUT parameters and testbench constants
+ * - <agent>_if.sv: signals with driver and monitor clocking blocks
+ * - <agent>_seq_item/_sequencer/_seq/_driver/_monitor/_agent.svh
+ * - <dut>_scoreboard/_env/_base_test.svh, included by <dut>_tb_pkg.sv
+ * - tb_<dut>_uvm.sv: clocks, resets, interfaces bound to the DUT, run_test()
+ * - <dut>_uvm.f: compile order
+ *
+ * Protocols:
+ * - 'generic': every agent port is a sequence item field, driven and
+ *   sampled each transfer
+ * - 'valid_ready': transfers complete when valid and ready are both high;
+ *   the agent drives valid and data when valid is a DUT input, else ready
+ */
+
+import * as path from 'path';
+import type { DesignUnit, PortInfo } from '../types.js';
+import { headerParameters, isBuiltinType, padColumns, svType, type GeneratedFile } from './testbench.js';
+
+export type UvmProtocol = 'generic' | 'valid_ready';
+
+/**
+ * One agent and the DUT ports it owns
+ */
+export interface UvmAgentSpec {
+  name: string;             // Prefix of the generated classes and interface
+  protocol?: UvmProtocol;   // Default: valid_ready when the ports have one valid/ready pair
+  ports?: string[];         // Default: ports named <name>_*
+}
+
+/**
+ * Generator options
+ */
+export interface UvmOptions {
+  agents?: UvmAgentSpec[];              // Default: one agent named after the DUT with every data port
+  clockPeriodNs?: number;               // Default: 10
+  resetCycles?: number;                 // Default: 5
+  sequenceLength?: number;              // Items per agent in the base test (default: 20)
+  parameters?: Record<string, string>;  // Overrides of the DUT parameter defaults
+  sources?: string[];                   // DUT sources listed in the filelist, relative to the output directory
+}
+
+/**
+ * Generated environment
+ */
+export interface UvmEnvironment {
+  files: GeneratedFile[];
+  compileOrder: string[];  // Compilation units in order (.svh files are included by the package)
+  top: string;
+}
+
+/** Manifest written next to the generated environment */
+export const UVM_MANIFEST = '.uvm-manifest.json';
+
+interface AgentPlan {
+  name: string;
+  protocol: UvmProtocol;
+  ports: PortInfo[];
+  fields: PortInfo[];   // Sequence item fields: ports other than the handshake
+  valid?: PortInfo;
+  ready?: PortInfo;
+  active: boolean;      // Has DUT inputs to drive
+}
+
+interface UvmContext {
+  unit: DesignUnit;
+  agents: AgentPlan[];
+  clock: PortInfo;
+  clocks: PortInfo[];
+  resets: Array<PortInfo & { activeLow: boolean }>;
+  options: Required<Omit<UvmOptions, 'agents' | 'parameters' | 'sources'>> & Pick<UvmOptions, 'parameters' | 'sources'>;
+  header: string[];
+}
+
+/**
+ * Generate a UVM environment skeleton for a module
+ *
+ * @throws Error when the unit is not a clocked module or an agent matches no ports
+ */
+export function generateUvmEnvironment(unit: DesignUnit, options: UvmOptions = {}): UvmEnvironment {
+  if (unit.kind !== 'module') {
+    throw new Error(`${unit.name} is ${unit.kind === 'interface' ? 'an' : 'a'} ${unit.kind}, not a module`);
+  }
+  const context = createContext(unit, options);
+  const dut = unit.name;
+  const files: GeneratedFile[] = [];
+  const svh: GeneratedFile[] = [];
+
+  files.push({ path: `${dut}_params_pkg.sv`, content: generateParamsPackage(context) });
+  for (const agent of context.agents) {
+    files.push({ path: `${agent.name}_if.sv`, content: generateInterface(context, agent) });
+    svh.push({ path: `${agent.name}_seq_item.svh`, content: generateSeqItem(context, agent) });
+    if (agent.active) {
+      svh.push({ path: `${agent.name}_sequencer.svh`, content: generateSequencer(context, agent) });
+      svh.push({ path: `${agent.name}_seq.svh`, content: generateSequence(context, agent) });
+      svh.push({ path: `${agent.name}_driver.svh`, content: generateDriver(context, agent) });
+    }
+    svh.push({ path: `${agent.name}_monitor.svh`, content: generateMonitor(context, agent) });
+    svh.push({ path: `${agent.name}_agent.svh`, content: generateAgent(context, agent) });
+  }
+  svh.push({ path: `${dut}_scoreboard.svh`, content: generateScoreboard(context) });
+  svh.push({ path: `${dut}_env.svh`, content: generateEnv(context) });
+  svh.push({ path: `${dut}_base_test.svh`, content: generateBaseTest(context) });
+  files.push({ path: `${dut}_tb_pkg.sv`, content: generateTbPackage(context, svh.map(file => file.path)) });
+  files.push({ path: `tb_${dut}_uvm.sv`, content: generateTop(context) });
+
+  const compileOrder = files.map(file => file.path);
+  files.push({ path: `${dut}_uvm.f`, content: generateFilelist(context, compileOrder) });
+  return { files: [...files, ...svh], compileOrder, top: `tb_${dut}_uvm` };
+}
+
+/**
+ * UVM library sources from $UVM_HOME, for simulators without a built-in UVM
+ */
+export function uvmLibrary(env: NodeJS.ProcessEnv = process.env): { files: string[]; includeDirs: string[] } | undefined {
+  if (!env.UVM_HOME) {
+    return undefined;
+  }
+  const src = path.join(env.UVM_HOME, 'src');
+  return { files: [path.join(src, 'uvm_pkg.sv')], includeDirs: [src] };
+}
+
+function createContext(unit: DesignUnit, options: UvmOptions): UvmContext {
+  const inputs = unit.ports.filter(p => p.direction === 'input');
+  const clocks = inputs.filter(p => unit.clocks.includes(p.name));
+  if (clocks.length === 0) {
+    throw new Error(`${unit.name} has no clock input: UVM agents sample on a clock edge`);
+  }
+  const resets = inputs.flatMap(p => {
+    const reset = unit.resets.find(r => r.name === p.name);
+    return reset ? [{ ...p, activeLow: reset.activeLow }] : [];
+  });
+  const dataPorts = unit.ports.filter(p =>
+    (p.direction === 'input' || p.direction === 'output') &&
+    !clocks.includes(p) && !resets.some(r => r.name === p.name)
+  );
+
+  return {
+    unit,
+    agents: planAgents(unit, dataPorts, options.agents ?? [{ name: unit.name }]),
+    clock: clocks[0],
+    clocks,
+    resets,
+    options: {
+      clockPeriodNs: options.clockPeriodNs ?? 10,
+      resetCycles: options.resetCycles ?? 5,
+      sequenceLength: options.sequenceLength ?? 20,
+      parameters: options.parameters,
+      sources: options.sources,
+    },
+    header: [`// Generated by oh-my-claude-rtl from ${path.basename(unit.file)}:${unit.line}`],
+  };
+}
+
+function planAgents(unit: DesignUnit, dataPorts: PortInfo[], specs: UvmAgentSpec[]): AgentPlan[] {
+  const claimed = new Set<string>();
+  const plans: AgentPlan[] = [];
+
+  for (const spec of specs) {
+    if (!/^[A-Za-z_]\w*$/.test(spec.name)) {
+      throw new Error(`Agent name '${spec.name}' is not a SystemVerilog identifier`);
+    }
+    let ports: PortInfo[];
+    if (spec.ports) {
+      ports = spec.ports.map(name => {
+        const port = dataPorts.find(p => p.name === name);
+        if (!port) throw new Error(`${name} is not a data port of ${unit.name}`);
+        return port;
+      });
+    } else if (specs.length === 1 && spec.name === unit.name) {
+      ports = dataPorts;
+    } else {
+      ports = dataPorts.filter(p => p.name.startsWith(`${spec.name}_`) && !claimed.has(p.name));
+    }
+    if (ports.length === 0) {
+      throw new Error(`No ports of ${unit.name} for agent ${spec.name} (name it after a port prefix or list its ports)`);
+    }
+    ports.forEach(p => claimed.add(p.name));
+
+    const valids = ports.filter(p => /valid$/i.test(p.name));
+    const readies = ports.filter(p => /ready$/i.test(p.name));
+    const [valid, ready] = valids.length === 1 && readies.length === 1 ? [valids[0], readies[0]] : [];
+    const protocol = spec.protocol ?? (valid && ready ? 'valid_ready' : 'generic');
+    if (protocol === 'valid_ready' && !(valid && ready && valid.direction !== ready.direction)) {
+      throw new Error(`Agent ${spec.name} needs a *valid input and *ready output (or the reverse) for valid_ready`);
+    }
+
+    const handshake = protocol === 'valid_ready' ? [valid, ready] : [];
+    plans.push({
+      name: spec.name,
+      protocol,
+      ports,
+      fields: ports.filter(p => !handshake.includes(p)),
+      valid: protocol === 'valid_ready' ? valid : undefined,
+      ready: protocol === 'valid_ready' ? ready : undefined,
+      active: ports.some(p => p.direction === 'input'),
+    });
+  }
+  return plans;
+}
+
+function declaration(port: PortInfo): string[] {
+  return [svType(port), port.packed ?? '', `${port.name}${port.unpacked ? ` ${port.unpacked}` : ''};`];
+}
+
+function zero(port: PortInfo): string {
+  return port.unpacked ? "'{default: '0}" : isBuiltinType(port) ? "'0" : `${svType(port)}'(0)`;
+}
+
+/**
+ * Expression that is true while the DUT is held in reset
+ */
+function inReset(context: UvmContext): string | undefined {
+  const reset = context.resets[0];
+  return reset ? `vif.${reset.name} !== 1'b${reset.activeLow ? 1 : 0}` : undefined;
+}
+
+function imports(context: UvmContext, indent = '  '): string[] {
+  return context.unit.imports.map(pkg => `${indent}import ${pkg}::*;`);
+}
+
+function classHeader(context: UvmContext, what: string): string[] {
+  return [`// ${what}`, ...context.header, ''];
+}
+
+function constructor(name: string, component: boolean): string[] {
+  return component
+    ? [
+      '  function new(string name, uvm_component parent);',
+      '    super.new(name, parent);',
+      '  endfunction',
+    ]
+    : [
+      `  function new(string name = "${name}");`,
+      '    super.new(name);',
+      '  endfunction',
+    ];
+}
+
+function getVif(agent: AgentPlan, owner: string): string[] {
+  return [
+    '  function void build_phase(uvm_phase phase);',
+    '    super.build_phase(phase);',
+    `    if (!uvm_config_db#(virtual ${agent.name}_if)::get(this, "", "vif", vif))`,
+    `      \`uvm_fatal("NOVIF", "virtual ${agent.name}_if not set for ${owner}")`,
+    '  endfunction',
+  ];
+}
+
+function generateParamsPackage(context: UvmContext): string {
+  const { unit, options } = context;
+  const lines = [
+    `// Parameters and testbench constants for the ${unit.name} UVM environment`,
+    ...context.header,
+    '',
+    `package ${unit.name}_params_pkg;`,
+    ...imports(context),
+  ];
+  const parameters = headerParameters(unit);
+  if (parameters.length) {
+    lines.push('', `  // ${unit.name} parameters`);
+    for (const parameter of parameters) {
+      const value = (parameter.local ? undefined : options.parameters?.[parameter.name]) ?? parameter.default;
+      lines.push(value === undefined
+        ? `  // ${parameter.name} has no default: add an override`
+        : `  localparam ${parameter.type ? `${parameter.type} ` : ''}${parameter.name} = ${value};`);
+    }
+  }
+  lines.push(
+    '',
+    `  localparam real CLK_PERIOD   = ${options.clockPeriodNs.toFixed(1)};  // ns`,
+    `  localparam int  RESET_CYCLES = ${options.resetCycles};`,
+    `  localparam int  SEQ_LENGTH   = ${options.sequenceLength};`,
+    'endpackage',
+    '',
+  );
+  return lines.join('\n');
+}
+
+function generateInterface(context: UvmContext, agent: AgentPlan): string {
+  const { unit, clock } = context;
+  const reset = context.resets[0];
+  const driven = agent.ports.filter(p => p.direction === 'input');
+  const sampled = agent.ports.filter(p => p.direction === 'output');
+  const names = (ports: PortInfo[]) => ports.map(p => p.name).join(', ');
+  const lines = [
+    `// ${agent.name} interface of ${unit.name} (${agent.protocol})`,
+    ...context.header,
+    '',
+    '`timescale 1ns / 1ps',
+    '',
+    `interface ${agent.name}_if`,
+    `  import ${unit.name}_params_pkg::*;`,
+    ...imports(context),
+    '(',
+    `  input logic ${clock.name}${reset ? ',' : ''}`,
+  ];
+  if (reset) lines.push(`  input logic ${reset.name}`);
+  lines.push(');');
+  lines.push(...padColumns(agent.ports.map(declaration).map(([type, ...rest]) => [`  ${type}`, ...rest])));
+
+  lines.push('', '  // Driver: outputs change one time unit after the clock edge');
+  lines.push(`  clocking drv_cb @(posedge ${clock.name});`);
+  lines.push('    default input #1step output #1;');
+  if (driven.length) lines.push(`    output ${names(driven)};`);
+  if (sampled.length) lines.push(`    input  ${names(sampled)};`);
+  lines.push('  endclocking');
+
+  lines.push('', '  // Monitor: samples every signal');
+  lines.push(`  clocking mon_cb @(posedge ${clock.name});`);
+  lines.push('    default input #1step;');
+  lines.push(`    input ${names(agent.ports)};`);
+  lines.push('  endclocking');
+  lines.push('endinterface', '');
+  return lines.join('\n');
+}
+
+function generateSeqItem(context: UvmContext, agent: AgentPlan): string {
+  const item = `${agent.name}_seq_item`;
+  const rows = agent.fields.map(port => {
+    const [type, packed, name] = declaration(port);
+    return [`  ${port.direction === 'input' ? 'rand ' : ''}${type}`, packed, `${name}  // ${port.direction === 'input' ? 'driven' : 'sampled'}`];
+  });
+  rows.push(['  rand int unsigned', '', 'delay;  // Idle cycles before the transfer']);
+
+  const lines = [
+    ...classHeader(context, `${agent.name} transfer`),
+    `class ${item} extends uvm_sequence_item;`,
+    ...padColumns(rows),
+    '',
+    '  constraint c_delay { delay inside {[0:3]}; }',
+    '',
+    `  \`uvm_object_utils_begin(${item})`,
+  ];
+  for (const port of agent.fields) {
+    if (!isBuiltinType(port)) {
+      lines.push(`    // ${port.name}: ${port.type} is not automated, extend do_copy/do_compare`);
+    } else {
+      lines.push(`    \`uvm_field_${port.unpacked ? 'sarray_int' : 'int'}(${port.name}, UVM_ALL_ON)`);
+    }
+  }
+  lines.push('    `uvm_field_int(delay, UVM_ALL_ON | UVM_NOCOMPARE)');
+  lines.push('  `uvm_object_utils_end', '', ...constructor(item, false), 'endclass', '');
+  return lines.join('\n');
+}
+
+function generateSequencer(context: UvmContext, agent: AgentPlan): string {
+  return [
+    ...classHeader(context, `${agent.name} sequencer`),
+    `typedef uvm_sequencer #(${agent.name}_seq_item) ${agent.name}_sequencer;`,
+    '',
+  ].join('\n');
+}
+
+function generateSequence(context: UvmContext, agent: AgentPlan): string {
+  const seq = `${agent.name}_seq`;
+  const item = `${agent.name}_seq_item`;
+  return [
+    ...classHeader(context, `Random ${agent.name} transfers`),
+    `class ${seq} extends uvm_sequence #(${item});`,
+    `  \`uvm_object_utils(${seq})`,
+    '',
+    '  int unsigned count = SEQ_LENGTH;',
+    '',
+    ...constructor(seq, false),
+    '',
+    '  task body();',
+    '    repeat (count) begin',
+    `      req = ${item}::type_id::create("req");`,
+    '      start_item(req);',
+    `      if (!req.randomize()) \`uvm_error("RANDFAIL", "${item} randomization failed")`,
+    '      finish_item(req);',
+    '    end',
+    '  endtask',
+    'endclass',
+    '',
+  ].join('\n');
+}
+
+function generateDriver(context: UvmContext, agent: AgentPlan): string {
+  const driver = `${agent.name}_driver`;
+  const item = `${agent.name}_seq_item`;
+  const reset = inReset(context);
+  const dataInputs = agent.fields.filter(p => p.direction === 'input');
+  const width = Math.max(0, ...agent.ports.map(p => p.name.length));
+  const drive = (name: string, value: string) => `    vif.drv_cb.${name.padEnd(width)} <= ${value};`;
+
+  const lines = [
+    ...classHeader(context, `${agent.name} driver`),
+    `class ${driver} extends uvm_driver #(${item});`,
+    `  \`uvm_component_utils(${driver})`,
+    '',
+    `  virtual ${agent.name}_if vif;`,
+    '',
+    ...constructor(driver, true),
+    '',
+    ...getVif(agent, driver),
+    '',
+    '  task run_phase(uvm_phase phase);',
+    '    idle();',
+  ];
+  if (reset) lines.push(`    while (${reset}) @(vif.drv_cb);`);
+  lines.push(
+    '    forever begin',
+    '      seq_item_port.get_next_item(req);',
+    '      drive_item(req);',
+    '      seq_item_port.item_done();',
+    '    end',
+    '  endtask',
+    '',
+    '  // Inputs driven by this agent at their idle value',
+    '  protected task idle();',
+  );
+  for (const port of agent.ports.filter(p => p.direction === 'input')) {
+    lines.push(`    vif.${port.name.padEnd(width)} <= ${zero(port)};`);
+  }
+  lines.push('  endtask', '', `  protected virtual task drive_item(${item} item);`, '    repeat (item.delay) @(vif.drv_cb);');
+
+  if (agent.protocol === 'valid_ready' && agent.valid?.direction === 'input') {
+    lines.push(drive(agent.valid.name, "1'b1"));
+    dataInputs.forEach(p => lines.push(drive(p.name, `item.${p.name}`)));
+    lines.push(`    do @(vif.drv_cb); while (vif.drv_cb.${agent.ready!.name} !== 1'b1);`);
+    lines.push(drive(agent.valid.name, "1'b0"));
+  } else if (agent.protocol === 'valid_ready') {
+    dataInputs.forEach(p => lines.push(drive(p.name, `item.${p.name}`)));
+    lines.push(drive(agent.ready!.name, "1'b1"));
+    lines.push(`    do @(vif.drv_cb); while (vif.drv_cb.${agent.valid!.name} !== 1'b1);`);
+    lines.push(drive(agent.ready!.name, "1'b0"));
+  } else {
+    dataInputs.forEach(p => lines.push(drive(p.name, `item.${p.name}`)));
+    lines.push('    @(vif.drv_cb);');
+  }
+  lines.push('  endtask', 'endclass', '');
+  return lines.join('\n');
+}
+
+function generateMonitor(context: UvmContext, agent: AgentPlan): string {
+  const monitor = `${agent.name}_monitor`;
+  const item = `${agent.name}_seq_item`;
+  const reset = inReset(context);
+  const width = Math.max(0, ...agent.fields.map(p => p.name.length));
+
+  const lines = [
+    ...classHeader(context, `${agent.name} monitor`),
+    `class ${monitor} extends uvm_monitor;`,
+    `  \`uvm_component_utils(${monitor})`,
+    '',
+    `  virtual ${agent.name}_if vif;`,
+    `  uvm_analysis_port #(${item}) ap;`,
+    '',
+    '  function new(string name, uvm_component parent);',
+    '    super.new(name, parent);',
+    '    ap = new("ap", this);',
+    '  endfunction',
+    '',
+    ...getVif(agent, monitor),
+    '',
+    '  task run_phase(uvm_phase phase);',
+    `    ${item} item;`,
+    '    forever begin',
+    '      @(vif.mon_cb);',
+  ];
+  if (reset) lines.push(`      if (${reset}) continue;`);
+  if (agent.protocol === 'valid_ready') {
+    lines.push(`      if (!(vif.mon_cb.${agent.valid!.name} === 1'b1 && vif.mon_cb.${agent.ready!.name} === 1'b1)) continue;`);
+  } else {
+    lines.push('      // Samples every cycle: narrow to the cycles that carry a transfer');
+  }
+  lines.push(`      item = ${item}::type_id::create("item");`);
+  for (const port of agent.fields) {
+    lines.push(`      item.${port.name.padEnd(width)} = vif.mon_cb.${port.name};`);
+  }
+  lines.push('      ap.write(item);', '    end', '  endtask', 'endclass', '');
+  return lines.join('\n');
+}
+
+function generateAgent(context: UvmContext, agent: AgentPlan): string {
+  const name = `${agent.name}_agent`;
+  const lines = [
+    ...classHeader(context, `${agent.name} agent${agent.active ? '' : ' (passive: the DUT drives every signal)'}`),
+    `class ${name} extends uvm_agent;`,
+    `  \`uvm_component_utils(${name})`,
+    '',
+  ];
+  if (agent.active) {
+    lines.push(`  ${agent.name}_sequencer sequencer;`, `  ${agent.name}_driver    driver;`);
+  }
+  lines.push(`  ${agent.name}_monitor   monitor;`, '', ...constructor(name, true), '');
+  lines.push('  function void build_phase(uvm_phase phase);', '    super.build_phase(phase);');
+  lines.push(`    monitor = ${agent.name}_monitor::type_id::create("monitor", this);`);
+  if (agent.active) {
+    lines.push(
+      '    if (get_is_active() == UVM_ACTIVE) begin',
+      `      sequencer = ${agent.name}_sequencer::type_id::create("sequencer", this);`,
+      `      driver    = ${agent.name}_driver::type_id::create("driver", this);`,
+      '    end',
+      '  endfunction',
+      '',
+      '  function void connect_phase(uvm_phase phase);',
+      '    if (get_is_active() == UVM_ACTIVE) begin',
+      '      driver.seq_item_port.connect(sequencer.seq_item_export);',
+      '    end',
+    );
+  }
+  lines.push('  endfunction', 'endclass', '');
+  return lines.join('\n');
+}
+
+function generateScoreboard(context: UvmContext): string {
+  const name = `${context.unit.name}_scoreboard`;
+  const lines = [
+    ...classHeader(context, `${context.unit.name} scoreboard`),
+    ...context.agents.map(agent => `\`uvm_analysis_imp_decl(_${agent.name})`),
+    '',
+    `class ${name} extends uvm_scoreboard;`,
+    `  \`uvm_component_utils(${name})`,
+    '',
+    ...context.agents.map(agent => `  uvm_analysis_imp_${agent.name} #(${agent.name}_seq_item, ${name}) ${agent.name}_export;`),
+    '',
+    '  int unsigned checks;',
+    '  int unsigned mismatches;',
+    '',
+    '  function new(string name, uvm_component parent);',
+    '    super.new(name, parent);',
+    ...context.agents.map(agent => `    ${agent.name}_export = new("${agent.name}_export", this);`),
+    '  endfunction',
+  ];
+  for (const agent of context.agents) {
+    lines.push(
+      '',
+      `  function void write_${agent.name}(${agent.name}_seq_item item);`,
+      `    // TODO: ${agent.active ? 'predict the expected outputs of this transfer' : 'compare with the predicted transfer'}`,
+      `    \`uvm_info("SCB", {"${agent.name}: ", item.sprint(uvm_default_line_printer)}, UVM_HIGH)`,
+      '  endfunction',
+    );
+  }
+  lines.push(
+    '',
+    '  function void check_phase(uvm_phase phase);',
+    '    if (mismatches > 0)',
+    '      `uvm_error("SCB", $sformatf("%0d mismatch(es) in %0d check(s)", mismatches, checks))',
+    '  endfunction',
+    '',
+    '  function void report_phase(uvm_phase phase);',
+    '    `uvm_info("SCB", $sformatf("%0d check(s), %0d mismatch(es)", checks, mismatches), UVM_LOW)',
+    '  endfunction',
+    'endclass',
+    '',
+  );
+  return lines.join('\n');
+}
+
+function generateEnv(context: UvmContext): string {
+  const name = `${context.unit.name}_env`;
+  const scoreboard = `${context.unit.name}_scoreboard`;
+  const rows = context.agents.map(agent => [`  ${agent.name}_agent`, `${agent.name}_agt;`]);
+  rows.push([`  ${scoreboard}`, 'scoreboard;']);
+  const lines = [
+    ...classHeader(context, `${context.unit.name} environment`),
+    `class ${name} extends uvm_env;`,
+    `  \`uvm_component_utils(${name})`,
+    '',
+    ...padColumns(rows),
+    '',
+    ...constructor(name, true),
+    '',
+    '  function void build_phase(uvm_phase phase);',
+    '    super.build_phase(phase);',
+  ];
+  for (const agent of context.agents) {
+    if (!agent.active) {
+      lines.push(`    uvm_config_db#(uvm_active_passive_enum)::set(this, "${agent.name}_agt", "is_active", UVM_PASSIVE);`);
+    }
+    lines.push(`    ${agent.name}_agt = ${agent.name}_agent::type_id::create("${agent.name}_agt", this);`);
+  }
+  lines.push(
+    `    scoreboard = ${scoreboard}::type_id::create("scoreboard", this);`,
+    '  endfunction',
+    '',
+    '  function void connect_phase(uvm_phase phase);',
+    ...context.agents.map(agent => `    ${agent.name}_agt.monitor.ap.connect(scoreboard.${agent.name}_export);`),
+    '  endfunction',
+    'endclass',
+    '',
+  );
+  return lines.join('\n');
+}
+
+function generateBaseTest(context: UvmContext): string {
+  const name = `${context.unit.name}_base_test`;
+  const env = `${context.unit.name}_env`;
+  const lines = [
+    ...classHeader(context, `${context.unit.name} base test: random traffic on every active agent`),
+    `class ${name} extends uvm_test;`,
+    `  \`uvm_component_utils(${name})`,
+    '',
+    `  ${env} env;`,
+    '',
+    ...constructor(name, true),
+    '',
+    '  function void build_phase(uvm_phase phase);',
+    '    super.build_phase(phase);',
+    `    env = ${env}::type_id::create("env", this);`,
+    '  endfunction',
+    '',
+    '  task run_phase(uvm_phase phase);',
+    '    phase.raise_objection(this);',
+    '    fork',
+  ];
+  for (const agent of context.agents.filter(a => a.active)) {
+    lines.push(
+      '      begin',
+      `        ${agent.name}_seq seq = ${agent.name}_seq::type_id::create("${agent.name}_seq");`,
+      `        seq.start(env.${agent.name}_agt.sequencer);`,
+      '      end',
+    );
+  }
+  lines.push(
+    '    join',
+    '    // Let the last transfers drain through the DUT',
+    '    #(10 * CLK_PERIOD * 1ns);',
+    '    phase.drop_objection(this);',
+    '  endtask',
+    'endclass',
+    '',
+  );
+  return lines.join('\n');
+}
+
+function generateTbPackage(context: UvmContext, includes: string[]): string {
+  const { unit } = context;
+  return [
+    `// UVM classes for ${unit.name}`,
+    ...context.header,
+    '',
+    `package ${unit.name}_tb_pkg;`,
+    '  import uvm_pkg::*;',
+    '  `include "uvm_macros.svh"',
+    `  import ${unit.name}_params_pkg::*;`,
+    ...imports(context),
+    '',
+    ...includes.map(file => `  \`include "${file}"`),
+    'endpackage',
+    '',
+  ].join('\n');
+}
+
+function generateTop(context: UvmContext): string {
+  const { unit, clocks, resets, agents } = context;
+  const tb = `tb_${unit.name}_uvm`;
+  const clock = context.clock.name;
+  const owner = new Map<string, AgentPlan>();
+  agents.forEach(agent => agent.ports.forEach(port => owner.set(port.name, agent)));
+
+  const lines = [
+    `// UVM testbench top for ${unit.name}`,
+    ...context.header,
+    '',
+    '`timescale 1ns / 1ps',
+    '',
+    `module ${tb};`,
+    '  import uvm_pkg::*;',
+    '  `include "uvm_macros.svh"',
+    `  import ${unit.name}_params_pkg::*;`,
+    `  import ${unit.name}_tb_pkg::*;`,
+    '',
+    ...[...clocks, ...resets].map(port => `  logic ${port.name};`),
+  ];
+
+  lines.push('', clocks.length > 1 ? '  // Clocks (same period: adjust per domain)' : '  // Clock');
+  for (const port of clocks) {
+    lines.push('  initial begin', `    ${port.name} = 1'b0;`, `    forever #(CLK_PERIOD / 2) ${port.name} = ~${port.name};`, '  end');
+  }
+  if (resets.length) {
+    lines.push('', '  // Reset', '  initial begin');
+    resets.forEach(r => lines.push(`    ${r.name} = 1'b${r.activeLow ? 0 : 1};`));
+    lines.push(`    repeat (RESET_CYCLES) @(posedge ${clock});`);
+    resets.forEach(r => lines.push(`    ${r.name} <= 1'b${r.activeLow ? 1 : 0};`));
+    lines.push('  end');
+  }
+
+  const resetPort = resets[0] ? `, .${resets[0].name}(${resets[0].name})` : '';
+  lines.push('', '  // Agent interfaces');
+  for (const agent of agents) {
+    lines.push(`  ${agent.name}_if ${agent.name}_vif (.${clock}(${clock})${resetPort});`);
+  }
+
+  // Ports no agent owns
+  const loose = unit.ports.filter(p => !owner.has(p.name) && !clocks.includes(p) && !resets.some(r => r.name === p.name));
+  if (loose.length) {
+    lines.push('', '  // Ports without an agent');
+    const rows: string[][] = [];
+    for (const port of loose) {
+      if (port.direction === 'interface') {
+        const [name] = port.type.split('.');
+        lines.push(name === 'interface'
+          ? `  // ${port.name}: generic interface port, instantiate the interface to connect`
+          : `  ${name} ${port.name} ();`);
+      } else {
+        const [type, packed, name] = declaration(port);
+        rows.push([`  ${port.direction === 'inout' ? type.replace(/^logic\b/, 'wire') : type}`, packed, name]);
+      }
+    }
+    lines.push(...padColumns(rows));
+    const tied = loose.filter(p => p.direction === 'input');
+    if (tied.length) {
+      lines.push('  initial begin');
+      tied.forEach(p => lines.push(`    ${p.name} = ${zero(p)};`));
+      lines.push('  end');
+    }
+  }
+
+  // DUT
+  const overrides = unit.parameters.filter(p => !p.local && (p.default !== undefined || context.options.parameters?.[p.name] !== undefined));
+  const connections = unit.ports.filter(p => p.direction !== 'interface' || p.type !== 'interface');
+  const width = Math.max(0, ...connections.map(p => p.name.length), ...overrides.map(p => p.name.length));
+  lines.push('');
+  if (overrides.length) {
+    lines.push(`  ${unit.name} #(`);
+    lines.push(overrides.map(p => `    .${p.name.padEnd(width)} (${p.name})`).join(',\n'));
+    lines.push('  ) dut (');
+  } else {
+    lines.push(`  ${unit.name} dut (`);
+  }
+  lines.push(connections.map(p => {
+    const agent = owner.get(p.name);
+    return `    .${p.name.padEnd(width)} (${agent ? `${agent.name}_vif.${p.name}` : p.name})`;
+  }).join(',\n'));
+  lines.push('  );');
+
+  lines.push('', '  initial begin');
+  for (const agent of agents) {
+    lines.push(`    uvm_config_db#(virtual ${agent.name}_if)::set(null, "uvm_test_top.env.${agent.name}_agt*", "vif", ${agent.name}_vif);`);
+  }
+  lines.push(`    run_test("${unit.name}_base_test");`, '  end');
+  lines.push('', '  initial begin', '    $dumpfile("dump.vcd");', `    $dumpvars(0, ${tb});`, '  end');
+  lines.push('', 'endmodule', '');
+  return lines.join('\n');
+}
+
+function generateFilelist(context: UvmContext, compileOrder: string[]): string {
+  return [
+    `// Compile order for the ${context.unit.name} UVM environment`,
+    ...context.header,
+    '// Use with -F (paths relative to this file); simulators without a built-in',
+    '// UVM also need +incdir+$UVM_HOME/src $UVM_HOME/src/uvm_pkg.sv',
+    '',
+    '+incdir+.',
+    ...(context.options.sources ?? []),
+    ...compileOrder,
+    '',
+  ].join('\n');
+}
@@ -11,3 +11,23 @@
 
 // TODO: Implement workflow orchestration
 export const WORKFLOW_VERSION = '0.1.0';
+
+export {
+  RegressionRunner,
+  TestListError,
+  loadTestList,
+  normalizeTestList,
+  isInfrastructureError,
+  toJUnitXml,
+  formatRegressionSummary,
+} from './regression.js';
+export type {
+  RegressionTestSpec,
+  RegressionTestList,
+  RegressionTest,
+  RegressionStatus,
+  RegressionRunResult,
+  RegressionTestSummary,
+  RegressionResult,
+  RegressionRunnerOptions,
+} from './regression.js';
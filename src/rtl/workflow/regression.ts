@@ -0,0 +1,598 @@
+/**
+ * Regression Runner
+ *
+ * Runs a test list (testbench, plusargs, seeds, timeout, tags) through the
+ * SimulationManager with parallel jobs. Every test/seed pair builds and runs
+ * in its own directory, infrastructure errors are retried, and results are
+ * written as JUnit XML plus a plain-text summary table.
+ *
+ * Output layout under <paths.reports>/regression/<timestamp>/:
+ *   <test>/seed_<n>/   Build directory, sim.log and simulator artifacts
+ *   junit.xml          One testsuite per test, one testcase per seed
+ *   summary.txt        Pass/fail/timeout table per test and seed
+ *   results.json       Machine-readable RegressionResult
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseJsonc, type ParseError } from 'jsonc-parser';
+import type { SimulationResult, RTLProjectConfig } from '../types.js';
+import type { SimulationManager } from '../tools/simulation/index.js';
+
+/** Default per-run timeout in seconds */
+const DEFAULT_TIMEOUT = 60;
+
+/** Max characters of simulator output kept in JUnit XML */
+const MAX_OUTPUT = 8000;
+
+/**
+ * Failures caused by the machine rather than the design; worth retrying
+ *
+ * A missing source or testbench (plain ENOENT) is a design failure; only a
+ * tool that could not be launched counts.
+ */
+const INFRASTRUCTURE_ERROR_PATTERNS = [
+  /\bspawn \S+ ENOENT\b/,
+  /command not found/i,
+  /\bEAGAIN\b/,
+  /\bENOMEM\b/,
+  /\bEMFILE\b/,
+  /\bENOSPC\b/,
+  /Cannot allocate memory/i,
+  /Resource temporarily unavailable/i,
+  /No space left on device/i,
+  /Too many open files/i,
+  /\bKilled\b.*signal 9|SIGKILL/,
+  /license checkout failed|unable to checkout license/i,
+];
+
+/**
+ * A test as written in the test list
+ */
+export interface RegressionTestSpec {
+  name: string;
+  /** Testbench top (file or module name) */
+  testbench: string;
+  /** Design and testbench sources, relative to the test list */
+  files?: string[];
+  /** Plusargs passed to every run, e.g. "+UVM_TESTNAME=smoke" */
+  plusargs?: string[];
+  /** Number of seeds, or an explicit seed list */
+  seeds?: number | number[];
+  /** Per-run timeout in seconds */
+  timeout?: number;
+  tags?: string[];
+  /** Simulator override for this test */
+  tool?: string;
+}
+
+/**
+ * Test list file (JSON or JSONC)
+ *
+ * `defaults` applies to every test; `files`, `plusargs` and `tags` are
+ * prepended to each test's own values.
+ */
+export interface RegressionTestList {
+  defaults?: Omit<RegressionTestSpec, 'name' | 'testbench'>;
+  tests: RegressionTestSpec[];
+}
+
+/**
+ * A test after defaults are applied and paths are resolved
+ */
+export interface RegressionTest {
+  name: string;
+  testbench: string;
+  files: string[];
+  plusargs: string[];
+  seeds: number | number[];
+  timeout: number;
+  tags: string[];
+  tool?: string;
+}
+
+export type RegressionStatus = 'pass' | 'fail' | 'timeout' | 'error';
+
+/**
+ * Result of one test/seed run
+ */
+export interface RegressionRunResult {
+  test: string;
+  seed: number;
+  status: RegressionStatus;
+  reason: string;
+  /** Wall-clock seconds of the final attempt */
+  duration: number;
+  attempts: number;
+  workDir: string;
+  tool?: string;
+  result: SimulationResult;
+}
+
+/**
+ * Totals for one test across its seeds
+ */
+export interface RegressionTestSummary {
+  test: string;
+  runs: number;
+  pass: number;
+  fail: number;
+  timeout: number;
+  error: number;
+}
+
+/**
+ * Result of a regression
+ */
+export interface RegressionResult {
+  passed: boolean;
+  outputDir: string;
+  startTime: string;
+  duration: number;
+  runs: RegressionRunResult[];
+  tests: RegressionTestSummary[];
+  totals: Omit<RegressionTestSummary, 'test'>;
+  junitPath: string;
+  summaryPath: string;
+}
+
+export interface RegressionRunnerOptions {
+  /** Parallel jobs, sharing the manager and its coverage database (default: 1) */
+  jobs?: number;
+  /** Retries per run for infrastructure errors (default: 1) */
+  retries?: number;
+  /** Output directory (default: <paths.reports>/regression/<timestamp>) */
+  outputDir?: string;
+  /** Only run tests carrying at least one of these tags */
+  tags?: string[];
+  /** Only run tests with these names */
+  tests?: string[];
+  /** Simulator override for every test */
+  tool?: string;
+  /** First seed when a test gives a seed count (default: 1) */
+  seedBase?: number;
+  /** Project config, used for the default output directory */
+  config?: RTLProjectConfig;
+  /** Workspace root (default: cwd) */
+  workspaceRoot?: string;
+}
+
+export class TestListError extends Error {
+  constructor(message: string, public source: string, public issues: string[] = []) {
+    super(message);
+    this.name = 'TestListError';
+  }
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function validateSpec(spec: Record<string, unknown>, at: string, issues: string[]): void {
+  const known = ['name', 'testbench', 'files', 'plusargs', 'seeds', 'timeout', 'tags', 'tool'];
+  for (const key of Object.keys(spec)) {
+    if (!known.includes(key)) {
+      issues.push(`${at}.${key}: is not a recognized option`);
+    }
+  }
+  for (const key of ['files', 'plusargs', 'tags']) {
+    if (spec[key] !== undefined && !isStringArray(spec[key])) {
+      issues.push(`${at}.${key}: must be an array of strings`);
+    }
+  }
+  for (const key of ['name', 'testbench', 'tool']) {
+    if (spec[key] !== undefined && typeof spec[key] !== 'string') {
+      issues.push(`${at}.${key}: must be a string`);
+    }
+  }
+  const seeds = spec.seeds;
+  if (seeds !== undefined) {
+    const validCount = typeof seeds === 'number' && Number.isInteger(seeds) && seeds > 0;
+    const validList = Array.isArray(seeds) && seeds.length > 0 && seeds.every(s => Number.isInteger(s));
+    if (!validCount && !validList) {
+      issues.push(`${at}.seeds: must be a positive integer or a non-empty array of integers`);
+    } else if (validList) {
+      // Each seed runs in its own seed_<n> directory
+      const duplicates = seeds.filter((seed, index) => seeds.indexOf(seed) !== index);
+      if (duplicates.length > 0) {
+        issues.push(`${at}.seeds: duplicate seed ${[...new Set(duplicates)].join(', ')}`);
+      }
+    }
+  }
+  if (spec.timeout !== undefined && !(typeof spec.timeout === 'number' && spec.timeout > 0)) {
+    issues.push(`${at}.timeout: must be a positive number of seconds`);
+  }
+}
+
+/**
+ * Validate a parsed test list and apply defaults
+ *
+ * @param list Parsed test list
+ * @param baseDir Directory that relative source paths are resolved against
+ * @param source Test list path, used in error messages
+ */
+export function normalizeTestList(list: unknown, baseDir: string, source = '<test list>'): RegressionTest[] {
+  const issues: string[] = [];
+
+  if (!list || typeof list !== 'object' || Array.isArray(list)) {
+    throw new TestListError(`Invalid test list ${source}: expected an object with a "tests" array`, source);
+  }
+
+  const raw = list as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    if (key !== 'defaults' && key !== 'tests' && key !== '$schema') {
+      issues.push(`${key}: is not a recognized option`);
+    }
+  }
+
+  const defaults = (raw.defaults ?? {}) as Record<string, unknown>;
+  if (typeof defaults !== 'object' || Array.isArray(defaults)) {
+    issues.push('defaults: must be an object');
+  } else {
+    validateSpec(defaults, 'defaults', issues);
+    for (const key of ['name', 'testbench']) {
+      if (key in defaults) {
+        issues.push(`defaults.${key}: is not allowed in defaults`);
+      }
+    }
+  }
+
+  if (!Array.isArray(raw.tests) || raw.tests.length === 0) {
+    issues.push('tests: must be a non-empty array');
+  } else {
+    // Run directories are named after the test
+    const names = new Map<string, string>();
+    raw.tests.forEach((test, index) => {
+      const at = `tests[${index}]`;
+      if (!test || typeof test !== 'object' || Array.isArray(test)) {
+        issues.push(`${at}: must be an object`);
+        return;
+      }
+      const spec = test as Record<string, unknown>;
+      validateSpec(spec, at, issues);
+      for (const key of ['name', 'testbench']) {
+        if (spec[key] === undefined) {
+          issues.push(`${at}.${key}: is required`);
+        }
+      }
+      if (typeof spec.name === 'string') {
+        const dir = safeName(spec.name);
+        const other = names.get(dir);
+        if (other === spec.name) {
+          issues.push(`${at}.name: duplicate test name '${spec.name}'`);
+        } else if (other !== undefined) {
+          issues.push(`${at}.name: '${spec.name}' and '${other}' share the run directory '${dir}'`);
+        }
+        names.set(dir, spec.name);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new TestListError(
+      `Invalid test list ${source}:\n${issues.map(issue => `  - ${issue}`).join('\n')}`,
+      source,
+      issues
+    );
+  }
+
+  const base = defaults as Omit<RegressionTestSpec, 'name' | 'testbench'>;
+  return (raw.tests as RegressionTestSpec[]).map(spec => ({
+    name: spec.name,
+    testbench: spec.testbench,
+    files: [...(base.files ?? []), ...(spec.files ?? [])].map(file => path.resolve(baseDir, file)),
+    plusargs: [...(base.plusargs ?? []), ...(spec.plusargs ?? [])],
+    seeds: spec.seeds ?? base.seeds ?? 1,
+    timeout: spec.timeout ?? base.timeout ?? DEFAULT_TIMEOUT,
+    tags: [...new Set([...(base.tags ?? []), ...(spec.tags ?? [])])],
+    tool: spec.tool ?? base.tool,
+  }));
+}
+
+/**
+ * Load a JSON/JSONC test list
+ */
+export function loadTestList(listPath: string): RegressionTest[] {
+  let content: string;
+  try {
+    content = fs.readFileSync(listPath, 'utf8');
+  } catch (error) {
+    throw new TestListError(`Failed to read test list ${listPath}: ${(error as Error).message}`, listPath);
+  }
+
+  const errors: ParseError[] = [];
+  const list = parseJsonc(content, errors, { allowTrailingComma: true });
+  if (errors.length > 0) {
+    throw new TestListError(`Failed to parse test list ${listPath}: invalid JSON at offset ${errors[0].offset}`, listPath);
+  }
+
+  return normalizeTestList(list, path.dirname(path.resolve(listPath)), listPath);
+}
+
+/**
+ * Whether a failed run looks like an infrastructure problem rather than a design failure
+ */
+export function isInfrastructureError(result: SimulationResult): boolean {
+  if (result.success || result.verdict) {
+    return false;
+  }
+  if (result.licenseError) {
+    return true;
+  }
+  const output = `${result.stderr ?? ''}\n${result.stdout ?? ''}`;
+  return INFRASTRUCTURE_ERROR_PATTERNS.some(pattern => pattern.test(output));
+}
+
+function classifyRun(result: SimulationResult): { status: RegressionStatus; reason: string } {
+  if (result.passed) {
+    return { status: 'pass', reason: result.verdict?.reason ?? 'passed' };
+  }
+  if (result.verdict?.status === 'timeout') {
+    return { status: 'timeout', reason: result.verdict.reason };
+  }
+  if (result.verdict) {
+    return { status: 'fail', reason: result.verdict.reason };
+  }
+  const reason = result.errors?.[0]
+    ?? ((result.stderr ?? '').trim().split('\n')[0] || 'Simulation did not run');
+  return { status: 'error', reason };
+}
+
+function expandSeeds(seeds: number | number[], seedBase: number): number[] {
+  return Array.isArray(seeds) ? seeds : Array.from({ length: seeds }, (_, i) => seedBase + i);
+}
+
+function safeName(name: string): string {
+  return name.replace(/[^A-Za-z0-9_.-]/g, '_');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '');
+}
+
+function tail(text: string | undefined, max: number = MAX_OUTPUT): string {
+  if (!text) return '';
+  return text.length > max ? text.slice(text.length - max) : text;
+}
+
+function emptyTotals(): Omit<RegressionTestSummary, 'test'> {
+  return { runs: 0, pass: 0, fail: 0, timeout: 0, error: 0 };
+}
+
+/**
+ * Render regression results as JUnit XML
+ */
+export function toJUnitXml(runs: RegressionRunResult[], name = 'regression'): string {
+  const suites = new Map<string, RegressionRunResult[]>();
+  for (const run of runs) {
+    const suite = suites.get(run.test) ?? [];
+    suite.push(run);
+    suites.set(run.test, suite);
+  }
+
+  const count = (list: RegressionRunResult[], ...statuses: RegressionStatus[]) =>
+    list.filter(run => statuses.includes(run.status)).length;
+  const seconds = (list: RegressionRunResult[]) =>
+    list.reduce((sum, run) => sum + run.duration, 0).toFixed(3);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(name)}" tests="${runs.length}" failures="${count(runs, 'fail', 'timeout')}" errors="${count(runs, 'error')}" time="${seconds(runs)}">`,
+  ];
+
+  for (const [test, suite] of suites) {
+    lines.push(
+      `  <testsuite name="${escapeXml(test)}" tests="${suite.length}" failures="${count(suite, 'fail', 'timeout')}" errors="${count(suite, 'error')}" time="${seconds(suite)}">`
+    );
+    for (const run of suite) {
+      lines.push(
+        `    <testcase name="${escapeXml(`seed_${run.seed}`)}" classname="${escapeXml(test)}" time="${run.duration.toFixed(3)}">`
+      );
+      lines.push(`      <properties>`);
+      lines.push(`        <property name="seed" value="${run.seed}"/>`);
+      lines.push(`        <property name="attempts" value="${run.attempts}"/>`);
+      if (run.tool) {
+        lines.push(`        <property name="tool" value="${escapeXml(run.tool)}"/>`);
+      }
+      lines.push(`      </properties>`);
+      if (run.status === 'fail' || run.status === 'timeout') {
+        lines.push(`      <failure type="${run.status}" message="${escapeXml(run.reason)}"/>`);
+      } else if (run.status === 'error') {
+        lines.push(`      <error type="error" message="${escapeXml(run.reason)}"/>`);
+      }
+      if (run.result.stdout) {
+        lines.push(`      <system-out>${escapeXml(tail(run.result.stdout))}</system-out>`);
+      }
+      if (run.result.stderr) {
+        lines.push(`      <system-err>${escapeXml(tail(run.result.stderr))}</system-err>`);
+      }
+      lines.push('    </testcase>');
+    }
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function formatTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  const format = (row: string[]) =>
+    row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [format(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(format)];
+}
+
+/**
+ * Render regression results as a plain-text summary table
+ */
+export function formatRegressionSummary(result: Omit<RegressionResult, 'junitPath' | 'summaryPath'>): string {
+  const runRows = result.runs.map(run => [
+    run.test,
+    String(run.seed),
+    run.status.toUpperCase(),
+    run.duration.toFixed(1),
+    String(run.attempts),
+    run.status === 'pass' ? '' : run.reason.slice(0, 80),
+  ]);
+  const testRows = result.tests.map(test => [
+    test.test,
+    String(test.runs),
+    String(test.pass),
+    String(test.fail),
+    String(test.timeout),
+    String(test.error),
+  ]);
+  const { totals } = result;
+
+  return [
+    `Regression ${result.passed ? 'PASSED' : 'FAILED'}: ${totals.pass}/${totals.runs} passed, ` +
+      `${totals.fail} failed, ${totals.timeout} timed out, ${totals.error} errors ` +
+      `(${result.duration.toFixed(1)}s)`,
+    '',
+    ...formatTable(['TEST', 'SEED', 'STATUS', 'TIME(s)', 'ATTEMPTS', 'REASON'], runRows),
+    '',
+    ...formatTable(['TEST', 'RUNS', 'PASS', 'FAIL', 'TIMEOUT', 'ERROR'], testRows),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Parallel regression runner on top of a SimulationManager
+ */
+export class RegressionRunner {
+  private manager: SimulationManager;
+  private options: RegressionRunnerOptions;
+
+  constructor(manager: SimulationManager, options: RegressionRunnerOptions = {}) {
+    this.manager = manager;
+    this.options = options;
+  }
+
+  /**
+   * Filter a test list by the configured names and tags
+   */
+  selectTests(tests: RegressionTest[]): RegressionTest[] {
+    const { tags, tests: names } = this.options;
+    return tests.filter(test =>
+      (!names?.length || names.includes(test.name)) &&
+      (!tags?.length || test.tags.some(tag => tags.includes(tag)))
+    );
+  }
+
+  /**
+   * Run every selected test/seed pair and write the reports
+   */
+  async run(tests: RegressionTest[]): Promise<RegressionResult> {
+    const started = Date.now();
+    const startTime = new Date(started).toISOString();
+    const outputDir = this.resolveOutputDir(startTime);
+    const seedBase = this.options.seedBase ?? 1;
+
+    const jobs = this.selectTests(tests).flatMap(test =>
+      expandSeeds(test.seeds, seedBase).map(seed => ({ test, seed }))
+    );
+
+    await fs.promises.mkdir(outputDir, { recursive: true });
+
+    const runs: RegressionRunResult[] = new Array(jobs.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < jobs.length) {
+        const index = next++;
+        runs[index] = await this.runOne(jobs[index].test, jobs[index].seed, outputDir);
+      }
+    };
+    const parallel = Math.max(1, Math.min(this.options.jobs ?? 1, jobs.length));
+    await Promise.all(Array.from({ length: parallel }, worker));
+
+    const summaries = new Map<string, RegressionTestSummary>();
+    const totals = emptyTotals();
+    for (const run of runs) {
+      const summary = summaries.get(run.test) ?? { test: run.test, ...emptyTotals() };
+      summary.runs++;
+      summary[run.status]++;
+      summaries.set(run.test, summary);
+      totals.runs++;
+      totals[run.status]++;
+    }
+
+    const report = {
+      passed: totals.runs > 0 && totals.pass === totals.runs,
+      outputDir,
+      startTime,
+      duration: (Date.now() - started) / 1000,
+      runs,
+      tests: [...summaries.values()],
+      totals,
+    };
+
+    const result: RegressionResult = {
+      ...report,
+      junitPath: path.join(outputDir, 'junit.xml'),
+      summaryPath: path.join(outputDir, 'summary.txt'),
+    };
+
+    await fs.promises.writeFile(result.junitPath, toJUnitXml(runs));
+    await fs.promises.writeFile(result.summaryPath, formatRegressionSummary(report));
+    await fs.promises.writeFile(path.join(outputDir, 'results.json'), JSON.stringify(result, null, 2));
+
+    return result;
+  }
+
+  private resolveOutputDir(startTime: string): string {
+    if (this.options.outputDir) {
+      return path.resolve(this.options.outputDir);
+    }
+    const root = this.options.workspaceRoot ?? process.cwd();
+    const reports = this.options.config?.paths.reports ?? 'reports';
+    return path.resolve(root, reports, 'regression', startTime.replace(/[:.]/g, '-'));
+  }
+
+  private async runOne(test: RegressionTest, seed: number, outputDir: string): Promise<RegressionRunResult> {
+    const workDir = path.join(outputDir, safeName(test.name), `seed_${seed}`);
+    const tool = this.options.tool ?? test.tool;
+    const maxAttempts = 1 + Math.max(0, this.options.retries ?? 1);
+
+    let attempts = 0;
+    let result: SimulationResult;
+    let duration: number;
+
+    do {
+      attempts++;
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+      await fs.promises.mkdir(workDir, { recursive: true });
+
+      const start = Date.now();
+      result = await this.manager.simulate(test.files, test.testbench, test.plusargs, tool, {
+        workDir,
+        timeoutMs: test.timeout * 1000,
+        seed,
+        testName: test.name,
+      });
+      duration = (Date.now() - start) / 1000;
+    } while (attempts < maxAttempts && isInfrastructureError(result));
+
+    await fs.promises.writeFile(
+      path.join(workDir, 'sim.log'),
+      [result.stdout ?? '', result.stderr ?? ''].filter(Boolean).join('\n')
+    );
+
+    return {
+      test: test.name,
+      seed,
+      ...classifyRun(result),
+      duration,
+      attempts,
+      workDir,
+      tool: (await this.manager.resolveToolName(tool)) ?? undefined,
+      result,
+    };
+  }
+}
@@ -68,14 +68,14 @@ function findFiles(directory: string, extensions: string[], ignoreDirs: string[]
 }
 
 /**
- * Run LSP diagnostics on all TypeScript/JavaScript files in a directory
+ * Run LSP diagnostics on all TypeScript/JavaScript and HDL files in a directory
  * @param directory - Project directory to scan
- * @param extensions - File extensions to check (default: ['.ts', '.tsx', '.js', '.jsx'])
+ * @param extensions - File extensions to check (default: TypeScript/JavaScript plus Verilog, SystemVerilog and VHDL)
  * @returns Aggregated diagnostics from all files
  */
 export async function runLspAggregatedDiagnostics(
   directory: string,
-  extensions: string[] = ['.ts', '.tsx', '.js', '.jsx']
+  extensions: string[] = ['.ts', '.tsx', '.js', '.jsx', '.v', '.vh', '.sv', '.svh', '.vhd', '.vhdl']
 ): Promise<LspAggregationResult> {
   // Find all matching files
   const files = findFiles(directory, extensions, ['node_modules', 'dist', 'build', '.git']);
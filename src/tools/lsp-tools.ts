@@ -14,6 +14,7 @@
 import { z } from 'zod';
 import {
   lspClientManager,
+  LSP_SERVERS,
   getAllServers,
   getServerForFile,
   formatHover,
@@ -26,6 +27,8 @@ import {
   countEdits
 } from './lsp/index.js';
 import { runDirectoryDiagnostics, LSP_DIAGNOSTICS_WAIT_MS } from './diagnostics/index.js';
+import { getLSPOrder } from '../rtl/lsp/index.js';
+import { loadRTLConfig } from '../rtl/config/index.js';
 
 export interface ToolDefinition<T extends z.ZodRawShape> {
   name: string;
@@ -252,7 +255,7 @@ export const lspDiagnosticsTool: ToolDefinition<{
  */
 export const lspServersTool: ToolDefinition<Record<string, never>> = {
   name: 'lsp_servers',
-  description: 'List all known language servers and their installation status. Shows which servers are available and how to install missing ones.',
+  description: 'List all known language servers and their installation status. Shows which servers are available, how to install missing ones, and the Verilog/SystemVerilog server fallback order from .rtl-config.json.',
   schema: {},
   handler: async () => {
     const servers = getAllServers();
@@ -278,6 +281,18 @@ export const lspServersTool: ToolDefinition<Record<string, never>> = {
         text += `  Extensions: ${server.extensions.join(', ')}\n`;
         text += `  Install: ${server.installHint}\n`;
       }
+      text += '\n';
+    }
+
+    text += '### RTL Fallback Order (tools.lsp in .rtl-config.json):\n';
+    try {
+      getLSPOrder(await loadRTLConfig()).forEach((key, index) => {
+        const server = LSP_SERVERS[key];
+        const status = installed.some(s => s.command === server.command) ? 'installed' : 'not installed';
+        text += `${index + 1}. ${server.name} (${server.command}) - ${status}\n`;
+      });
+    } catch (error) {
+      text += `Could not load RTL config: ${error instanceof Error ? error.message : String(error)}\n`;
     }
 
     return {
@@ -7,7 +7,7 @@
 
 import { spawn, ChildProcess } from 'child_process';
 import { readFileSync, existsSync } from 'fs';
-import { resolve, dirname, parse, join } from 'path';
+import { resolve, dirname, parse, join, extname } from 'path';
 import type { LspServerConfig } from './servers.js';
 import { getServerForFile, commandExists } from './servers.js';
 
@@ -115,6 +115,7 @@ export class LspClient {
   private buffer = '';
   private openDocuments = new Set<string>();
   private diagnostics = new Map<string, Diagnostic[]>();
+  private diagnosticWaiters = new Map<string, Array<(diagnostics: Diagnostic[]) => void>>();
   private workspaceRoot: string;
   private serverConfig: LspServerConfig;
   private initialized = false;
@@ -176,6 +177,13 @@ export class LspClient {
     });
   }
 
+  /**
+   * Whether the server process is running and initialized
+   */
+  get connected(): boolean {
+    return this.process !== null && this.initialized;
+  }
+
   /**
    * Disconnect from the LSP server
    */
@@ -266,6 +274,10 @@ export class LspClient {
     if (notification.method === 'textDocument/publishDiagnostics') {
       const params = notification.params as { uri: string; diagnostics: Diagnostic[] };
       this.diagnostics.set(params.uri, params.diagnostics);
+
+      const waiters = this.diagnosticWaiters.get(params.uri) ?? [];
+      this.diagnosticWaiters.delete(params.uri);
+      waiters.forEach(waiter => waiter(params.diagnostics));
     }
     // Handle other notifications as needed
   }
@@ -437,7 +449,13 @@ export class LspClient {
       'exs': 'elixir',
       'heex': 'elixir',
       'eex': 'elixir',
-      'cs': 'csharp'
+      'cs': 'csharp',
+      'v': 'verilog',
+      'vh': 'verilog',
+      'sv': 'systemverilog',
+      'svh': 'systemverilog',
+      'vhd': 'vhdl',
+      'vhdl': 'vhdl'
     };
     return langMap[ext] || ext;
   }
@@ -511,6 +529,30 @@ export class LspClient {
     return this.diagnostics.get(uri) || [];
   }
 
+  /**
+   * Wait for the next diagnostics published for a file
+   *
+   * Resolves with the last known diagnostics if none arrive within the timeout.
+   */
+  waitForDiagnostics(filePath: string, timeout = 3000): Promise<Diagnostic[]> {
+    const uri = `file://${resolve(filePath)}`;
+
+    return new Promise(resolvePromise => {
+      const timeoutHandle = setTimeout(() => {
+        const waiters = this.diagnosticWaiters.get(uri) ?? [];
+        this.diagnosticWaiters.set(uri, waiters.filter(waiter => waiter !== onDiagnostics));
+        resolvePromise(this.getDiagnostics(filePath));
+      }, timeout);
+
+      const onDiagnostics = (diagnostics: Diagnostic[]) => {
+        clearTimeout(timeoutHandle);
+        resolvePromise(diagnostics);
+      };
+
+      this.diagnosticWaiters.set(uri, [...(this.diagnosticWaiters.get(uri) ?? []), onDiagnostics]);
+    });
+  }
+
   /**
    * Prepare rename (check if rename is valid)
    */
@@ -553,6 +595,9 @@ export class LspClient {
   }
 }
 
+/** Verilog/SystemVerilog extensions served by the RTL language servers */
+const RTL_EXTENSIONS = ['.v', '.vh', '.sv', '.svh'];
+
 /**
  * Client manager - maintains a pool of LSP clients per workspace/server
  */
@@ -561,8 +606,20 @@ class LspClientManager {
 
   /**
    * Get or create a client for a file
+   *
+   * Verilog/SystemVerilog files go to the long-lived RTL session of their
+   * workspace (slang-server, verible-verilog-ls or svls per .rtl-config.json).
+   * Without a running RTL server they fall back to the server table.
    */
   async getClientForFile(filePath: string): Promise<LspClient | null> {
+    if (RTL_EXTENSIONS.includes(extname(filePath).toLowerCase())) {
+      const { getRTLLanguageClient } = await import('../../rtl/lsp/index.js');
+      const client = await getRTLLanguageClient(filePath);
+      if (client) {
+        return client;
+      }
+    }
+
     const serverConfig = getServerForFile(filePath);
     if (!serverConfig) {
       return null;
@@ -621,6 +678,9 @@ class LspClientManager {
       await client.disconnect();
     }
     this.clients.clear();
+
+    const { stopLSPSessions } = await import('../../rtl/lsp/index.js');
+    await stopLSPSessions();
   }
 }
 
@@ -26,6 +26,7 @@ export type { LspServerConfig } from './servers.js';
 
 export {
   uriToPath,
+  symbolKindName,
   formatPosition,
   formatRange,
   formatLocation,
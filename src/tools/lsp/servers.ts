@@ -132,6 +132,41 @@ export const LSP_SERVERS: Record<string, LspServerConfig> = {
     args: ['-lsp'],
     extensions: ['.cs'],
     installHint: 'dotnet tool install -g omnisharp'
+  },
+  slang: {
+    name: 'slang-server',
+    command: 'slang-server',
+    args: [],
+    extensions: ['.sv', '.svh', '.v', '.vh'],
+    installHint: 'Build from https://github.com/hudson-trading/slang-server'
+  },
+  verible: {
+    name: 'Verible Language Server',
+    command: 'verible-verilog-ls',
+    args: [],
+    extensions: ['.sv', '.svh', '.v', '.vh'],
+    installHint: 'Install from https://github.com/chipsalliance/verible/releases'
+  },
+  svls: {
+    name: 'svls',
+    command: 'svls',
+    args: [],
+    extensions: ['.sv', '.svh', '.v', '.vh'],
+    installHint: 'cargo install svls'
+  },
+  vhdl: {
+    name: 'VHDL Language Server (rust_hdl)',
+    command: 'vhdl_ls',
+    args: [],
+    extensions: ['.vhd', '.vhdl'],
+    installHint: 'cargo install vhdl_ls'
+  },
+  ghdl: {
+    name: 'GHDL Language Server',
+    command: 'ghdl-ls',
+    args: [],
+    extensions: ['.vhd', '.vhdl'],
+    installHint: 'pip install pyghdl (requires GHDL with libghdl)'
   }
 };
 
@@ -150,17 +185,19 @@ export function commandExists(command: string): boolean {
 
 /**
  * Get the LSP server config for a file based on its extension
+ *
+ * When several servers handle the extension, the first installed one wins;
+ * if none is installed, the first one is returned for its install hint.
  */
 export function getServerForFile(filePath: string): LspServerConfig | null {
   const ext = extname(filePath).toLowerCase();
 
-  for (const [_, config] of Object.entries(LSP_SERVERS)) {
-    if (config.extensions.includes(ext)) {
-      return config;
-    }
+  const candidates = Object.values(LSP_SERVERS).filter(config => config.extensions.includes(ext));
+  if (candidates.length > 1) {
+    return candidates.find(config => commandExists(config.command)) ?? candidates[0];
   }
 
-  return null;
+  return candidates[0] ?? null;
 }
 
 /**
@@ -215,7 +252,11 @@ export function getServerForLanguage(language: string): LspServerConfig | null {
     'eex': 'elixir',
     'csharp': 'csharp',
     'c#': 'csharp',
-    'cs': 'csharp'
+    'cs': 'csharp',
+    'verilog': 'slang',
+    'systemverilog': 'slang',
+    'sv': 'slang',
+    'vhdl': 'vhdl'
   };
 
   const serverKey = langMap[language.toLowerCase()];
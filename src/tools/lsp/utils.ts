@@ -48,6 +48,13 @@ const SEVERITY_NAMES: Record<number, string> = {
   4: 'Hint'
 };
 
+/**
+ * Get the name of an LSP symbol kind
+ */
+export function symbolKindName(kind: number): string {
+  return SYMBOL_KINDS[kind] || 'Unknown';
+}
+
 /**
  * Convert URI to file path
  */
@@ -132,7 +139,7 @@ export function formatDocumentSymbols(symbols: DocumentSymbol[] | SymbolInformat
   const prefix = '  '.repeat(indent);
 
   for (const symbol of symbols) {
-    const kind = SYMBOL_KINDS[symbol.kind] || 'Unknown';
+    const kind = symbolKindName(symbol.kind);
 
     if ('range' in symbol) {
       // DocumentSymbol
@@ -160,7 +167,7 @@ export function formatWorkspaceSymbols(symbols: SymbolInformation[] | null): str
   if (!symbols || symbols.length === 0) return 'No symbols found';
 
   const lines = symbols.map(symbol => {
-    const kind = SYMBOL_KINDS[symbol.kind] || 'Unknown';
+    const kind = symbolKindName(symbol.kind);
     const loc = formatLocation(symbol.location);
     const container = symbol.containerName ? ` (in ${symbol.containerName})` : '';
     return `${kind}: ${symbol.name}${container}\n  ${loc}`;
@@ -0,0 +1,713 @@
+/**
+ * RTL Tools
+ *
+ * Exposes the RTL tool managers (src/rtl/tools) as MCP tools so agents get
+ * structured LintResult / SimulationResult / SynthesisResult JSON instead of
+ * scraping terminal output:
+ * - rtl_lint
+ * - rtl_simulate
+ * - rtl_waveform_query
+ * - rtl_synthesize
+ * - rtl_hierarchy
+ * - rtl_module_info
+ * - rtl_find_instances
+ * - rtl_generate_testbench
+ * - rtl_generate_uvm
+ * - rtl_generate_assertions
+ * - rtl_check_environment
+ * - rtl_config_explain
+ *
+ * Tool selection follows .rtl-config.json in the workspace root.
+ */
+
+import { z } from 'zod';
+import { existsSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join, relative, resolve } from 'path';
+import { loadRTLConfig } from '../rtl/config/index.js';
+import type { RTLProjectConfig, ToolResult } from '../rtl/types.js';
+import type { ToolDefinition } from './lsp-tools.js';
+
+/** Max characters of raw tool stdout/stderr kept in results */
+const MAX_OUTPUT_LENGTH = 4000;
+
+/**
+ * Keep the tail of long tool output (errors usually appear last)
+ */
+function truncateOutput(output: string | undefined): string | undefined {
+  if (!output || output.length <= MAX_OUTPUT_LENGTH) {
+    return output;
+  }
+  return `[truncated ${output.length - MAX_OUTPUT_LENGTH} chars]\n` + output.slice(-MAX_OUTPUT_LENGTH);
+}
+
+/**
+ * Trim raw output fields so results fit in agent context
+ */
+function compactResult<T extends ToolResult>(result: T): T {
+  return {
+    ...result,
+    stdout: truncateOutput(result.stdout),
+    stderr: truncateOutput(result.stderr),
+  };
+}
+
+/**
+ * Load workspace config and run an RTL operation, returning JSON text
+ */
+async function withRtlConfig(
+  workspaceRoot: string | undefined,
+  operation: string,
+  fn: (config: RTLProjectConfig, root: string) => Promise<unknown>
+): Promise<{ content: Array<{ type: 'text'; text: string }> }> {
+  const root = resolve(workspaceRoot || process.cwd());
+
+  try {
+    const config = await loadRTLConfig(root);
+    const result = await fn(config, root);
+    return {
+      content: [{
+        type: 'text' as const,
+        text: JSON.stringify(result, null, 2)
+      }]
+    };
+  } catch (error) {
+    return {
+      content: [{
+        type: 'text' as const,
+        text: `Error in ${operation}: ${error instanceof Error ? error.message : String(error)}`
+      }]
+    };
+  }
+}
+
+const workspaceRootSchema = z.string().optional().describe('Project root containing .rtl-config.json (defaults to cwd)');
+const toolOverrideSchema = z.string().optional().describe('Override the configured tool for this run (e.g., "verilator", "iverilog")');
+
+/**
+ * RTL Lint Tool - Run the configured lint tool
+ */
+export const rtlLintTool: ToolDefinition<{
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  tool: z.ZodOptional<z.ZodString>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_lint',
+  description: 'Lint Verilog/SystemVerilog files with the configured lint tool (verilator, slang, verible, spyglass), and VHDL files with ghdl. Returns LintResult JSON with per-file warnings and errors; licenseError is set when a commercial tool could not check out a license.',
+  schema: {
+    files: z.array(z.string()).optional().describe('RTL source files to lint (defaults to the configured sources)'),
+    tool: toolOverrideSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { files, tool, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_lint', async (config, root) => {
+      const { createLintManager } = await import('../rtl/tools/lint/index.js');
+      const manager = await createLintManager(config, root);
+      const result = await manager.lint((files ?? []).map(f => resolve(root, f)), tool);
+      return compactResult(result);
+    });
+  }
+};
+
+/**
+ * RTL Simulate Tool - Compile and run a testbench
+ */
+export const rtlSimulateTool: ToolDefinition<{
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  testbench: z.ZodString;
+  args: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  testcases: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  tool: z.ZodOptional<z.ZodString>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_simulate',
+  description: 'Compile design and testbench files and run simulation with the configured simulator (verilator, iverilog, cocotb, or the commercial xrun, vcs, questa). Python testbenches (test_*.py) run with cocotb and report per-test results; VHDL designs (.vhd/.vhdl or language "vhdl") run with ghdl. Each run gets its own directory under <paths.reports>/runs with a run.json manifest. Returns SimulationResult JSON with pass/fail, coverage, waveform path and run directory; failing runs include a triage report with the first failure, its source lines and the signal values leading up to it. A license checkout failure sets licenseError and is not a test failure.',
+  schema: {
+    files: z.array(z.string()).optional().describe('Design and testbench source files to compile (defaults to the configured sources)'),
+    testbench: z.string().describe('Testbench top (file or module name), or cocotb test module(s) such as "tb/test_fifo.py" (comma-separated for several)'),
+    args: z.array(z.string()).optional().describe('Extra simulation runtime arguments (e.g., plusargs)'),
+    testcases: z.array(z.string()).optional().describe('cocotb test functions to run (defaults to every test in the module)'),
+    tool: toolOverrideSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { files, testbench, args: simArgs, testcases, tool, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_simulate', async (config, root) => {
+      const { createSimulationManager } = await import('../rtl/tools/simulation/index.js');
+      const manager = await createSimulationManager(config, root);
+      const testModules = testbench.split(',').map(t => t.trim()).map(t => t.endsWith('.py') ? resolve(root, t) : t).join(',');
+      const result = await manager.simulate((files ?? []).map(f => resolve(root, f)), testModules, simArgs, tool, { testcases });
+      return compactResult(result);
+    });
+  }
+};
+
+const timeSchema = z.union([z.number(), z.string()]);
+
+/**
+ * RTL Waveform Query Tool - Query a VCD/FST dump without reading it
+ */
+export const rtlWaveformQueryTool: ToolDefinition<{
+  query: z.ZodEnum<['signals', 'value', 'transitions', 'find', 'sample']>;
+  file: z.ZodOptional<z.ZodString>;
+  signals: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  pattern: z.ZodOptional<z.ZodString>;
+  time: z.ZodOptional<z.ZodUnion<[z.ZodNumber, z.ZodString]>>;
+  from: z.ZodOptional<z.ZodUnion<[z.ZodNumber, z.ZodString]>>;
+  to: z.ZodOptional<z.ZodUnion<[z.ZodNumber, z.ZodString]>>;
+  condition: z.ZodOptional<z.ZodString>;
+  cycles: z.ZodOptional<z.ZodNumber>;
+  clock: z.ZodOptional<z.ZodString>;
+  edge: z.ZodOptional<z.ZodEnum<['posedge', 'negedge', 'both']>>;
+  radix: z.ZodOptional<z.ZodEnum<['hex', 'bin', 'dec']>>;
+  limit: z.ZodOptional<z.ZodNumber>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_waveform_query',
+  description: 'Query a VCD or FST waveform (FST needs GTKWave\'s fst2vcd) instead of reading it: list signals matching a pattern, values at a time, transitions of signals in a time window, clock edges where a condition held for N consecutive cycles (e.g. "in_valid && !in_ready" for 16 cycles), or a table of signals sampled on a clock. Only the queried signals are loaded and results are capped by limit. Signals are named by hierarchical name or a unique suffix; times are in the dump\'s timescale units or strings like "120ns". Defaults to the waveform of the latest simulation run.',
+  schema: {
+    query: z.enum(['signals', 'value', 'transitions', 'find', 'sample']).describe('signals: list; value: values at time; transitions: changes in [from, to]; find: where condition held; sample: clock-sampled table'),
+    file: z.string().optional().describe('Waveform file (default: the waveform of the latest run under <paths.reports>/runs)'),
+    signals: z.array(z.string()).optional().describe('Signals for value, transitions and sample (hierarchical name or unique suffix)'),
+    pattern: z.string().optional().describe('signals: glob or substring of signal names, e.g. "tb.dut.*valid"'),
+    time: timeSchema.optional().describe('value: time to read, e.g. 1200 or "1.2us"'),
+    from: timeSchema.optional().describe('Start of the time window (default: 0)'),
+    to: timeSchema.optional().describe('End of the time window (default: end of the dump)'),
+    condition: z.string().optional().describe('find: expression over signals with && || ! ~ & | ^ == != < <= > >=, bit selects and literals (\'h1f, 8\'b1010)'),
+    cycles: z.number().int().positive().optional().describe('find: minimum consecutive cycles the condition holds (default: 1)'),
+    clock: z.string().optional().describe('find, sample: sampling clock (default: a signal named clk/clock)'),
+    edge: z.enum(['posedge', 'negedge', 'both']).optional().describe('find, sample: sampling edge (default: posedge)'),
+    radix: z.enum(['hex', 'bin', 'dec']).optional().describe('Vector value format (default: hex)'),
+    limit: z.number().int().positive().optional().describe('Max signals, transitions, matches or rows returned (default: 50)'),
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { query, file, signals = [], pattern, time, from, to, condition, cycles, clock, edge, radix, limit, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_waveform_query', async (config, root) => {
+      const waveforms = await import('../rtl/tools/waveform/index.js');
+      const { findLatestRunOutput } = await import('../rtl/tools/run.js');
+      const waveformFile = file
+        ? resolve(root, file)
+        : findLatestRunOutput(resolve(root, config.paths.reports, 'runs'), 'waveform');
+      if (!waveformFile) {
+        throw new Error('No waveform file given and no simulation run recorded one');
+      }
+      if (['value', 'transitions', 'sample'].includes(query) && signals.length === 0) {
+        throw new Error(`${query} query needs signals`);
+      }
+      if (query === 'value' && time === undefined) {
+        throw new Error('value query needs time');
+      }
+      if (query === 'find' && !condition) {
+        throw new Error('find query needs condition');
+      }
+
+      // Load only the signals the query reads, up to the end of its window
+      const waveform = await waveforms.openWaveform(waveformFile, {
+        until: query === 'value' ? time : to,
+        select: header => {
+          if (query === 'signals') return [];
+          const names = signals.map(name => waveforms.resolveSignal(header, name).name);
+          if (query === 'find') {
+            waveforms.compileCondition(condition!, name => {
+              const variable = waveforms.resolveSignal(header, name);
+              names.push(variable.name);
+              return variable;
+            });
+          }
+          if (query === 'find' || query === 'sample') {
+            const clockSignal = clock ? waveforms.resolveSignal(header, clock) : waveforms.detectClock(header);
+            if (!clockSignal) {
+              throw new Error('No clock found in the waveform: pass clock');
+            }
+            names.push(clockSignal.name);
+          }
+          return names;
+        },
+      });
+
+      const base = {
+        file: relative(root, waveformFile),
+        timescale: waveform.header.timescale,
+      };
+      const format = (name: string, value: string) => waveforms.formatValue(value, waveform.signal(name).width, radix);
+
+      switch (query) {
+        case 'signals': {
+          const matching = waveform.signals(pattern);
+          const shown = matching.slice(0, limit ?? waveforms.DEFAULT_QUERY_LIMIT);
+          return {
+            ...base,
+            total: matching.length,
+            truncated: matching.length > shown.length,
+            signals: shown.map(({ name, type, width }) => ({ name, type, width })),
+          };
+        }
+        case 'value':
+          return {
+            ...base,
+            time: waveform.parseTime(time!),
+            values: Object.fromEntries(signals.map(name => [waveform.signal(name).name, format(name, waveform.valueAt(name, time!))])),
+          };
+        case 'transitions':
+          return {
+            ...base,
+            endTime: waveform.endTime,
+            signals: signals.map(name => {
+              const result = waveform.transitions(name, { from, to, limit });
+              return {
+                signal: waveform.signal(name).name,
+                initial: format(name, result.initial),
+                transitions: result.transitions.map(t => ({ time: t.time, value: format(name, t.value) })),
+                total: result.total,
+                truncated: result.truncated,
+              };
+            }),
+          };
+        case 'find':
+          return {
+            ...base,
+            condition,
+            cycles: cycles ?? 1,
+            ...waveform.find(condition!, cycles, { clock, edge, from, to, limit }),
+          };
+        case 'sample':
+          return {
+            ...base,
+            ...waveform.sample(signals, { clock, edge, from, to, limit, radix }),
+          };
+      }
+    });
+  }
+};
+
+/**
+ * RTL Synthesize Tool - Synthesize design and estimate PPA
+ */
+export const rtlSynthesizeTool: ToolDefinition<{
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  constraints: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  tool: z.ZodOptional<z.ZodString>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_synthesize',
+  description: 'Synthesize RTL with the configured synthesis tool (yosys; VHDL through the yosys ghdl plugin). Each run gets its own directory under <paths.synthesis>/runs with a run.json manifest. Clocks, I/O delays and false/multicycle paths from the constraints are checked against the design ports and drive timing analysis. Returns SynthesisResult JSON with netlist path, per-clock timing, PPA estimates and run directory.',
+  schema: {
+    files: z.array(z.string()).optional().describe('RTL design files to synthesize (defaults to the configured sources)'),
+    constraints: z.array(z.string()).optional().describe('SDC/XDC constraint files (defaults to tools.synthesis.constraints)'),
+    tool: toolOverrideSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { files, constraints, tool, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_synthesize', async (config, root) => {
+      const { createSynthesisManager } = await import('../rtl/tools/synthesis/index.js');
+      const manager = await createSynthesisManager(config, root);
+      const result = await manager.synthesize(
+        (files ?? []).map(f => resolve(root, f)),
+        (constraints ?? []).map(f => resolve(root, f)),
+        tool
+      );
+      return compactResult(result);
+    });
+  }
+};
+
+/**
+ * RTL Hierarchy Tool - Elaborate the module instance tree
+ */
+export const rtlHierarchyTool: ToolDefinition<{
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  tool: z.ZodOptional<z.ZodString>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_hierarchy',
+  description: 'Elaborate the design with slang or verilator and return the module instance tree. Uninstantiated modules are listed as design or testbench tops with the reason; modules without a definition are listed separately. The result includes a rendered outline of the tree. Use to find the top module or to review block partitioning.',
+  schema: {
+    files: z.array(z.string()).optional().describe('Design and testbench files to elaborate (defaults to the configured sources)'),
+    tool: toolOverrideSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { files, tool, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_hierarchy', async (config, root) => {
+      const { createHierarchyManager, renderHierarchy } = await import('../rtl/tools/hierarchy/index.js');
+      const manager = await createHierarchyManager(config, root);
+      const result = await manager.extract((files ?? []).map(f => resolve(root, f)), tool);
+      return compactResult(result.success ? { ...result, outline: renderHierarchy(result, root) } : result);
+    });
+  }
+};
+
+/**
+ * Refresh the design database from the given files (default: project files)
+ */
+async function openUpdatedDesignDatabase(config: RTLProjectConfig, root: string, files?: string[]) {
+  const { openDesignDatabase, collectDesignFiles } = await import('../rtl/design/index.js');
+  const db = openDesignDatabase(config, root);
+  const stats = await db.update(files ? files.map(f => resolve(root, f)) : await collectDesignFiles(config, root));
+  return { db, stats };
+}
+
+const designFilesSchema = z.array(z.string()).optional().describe('Files to index (defaults to the configured sources, else every HDL file under paths.rtl and paths.testbench)');
+
+/**
+ * RTL Module Info Tool - Ports, parameters, clocks and resets of a unit
+ */
+export const rtlModuleInfoTool: ToolDefinition<{
+  name: z.ZodString;
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_module_info',
+  description: 'Look up a module, interface, package or program in the design database: ports (direction, type, packed dimensions, width with parameter defaults), parameters with defaults, clocks and resets inferred from port names and sensitivity lists, instantiations, and where the unit is instantiated. Files are parsed without a simulator and cached by content hash. Use before writing a testbench, documentation or a review of a block.',
+  schema: {
+    name: z.string().describe('Module, interface, package or program name'),
+    files: designFilesSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { name, files, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_module_info', async (config, root) => {
+      const { db, stats } = await openUpdatedDesignDatabase(config, root, files);
+      const unit = await db.getUnit(name);
+      if (!unit) {
+        const similar = (await db.getUnits())
+          .map(u => u.name)
+          .filter(n => n.toLowerCase().includes(name.toLowerCase()) || name.toLowerCase().includes(n.toLowerCase()));
+        throw new Error(
+          `${name} not found in ${stats.files} file(s)` + (similar.length ? ` (similar: ${similar.join(', ')})` : '')
+        );
+      }
+      const instantiatedBy = (await db.findInstances(name)).map(({ parent, name: instance, file, line }) => ({ parent, instance, file, line }));
+      return { ...unit, instantiatedBy };
+    });
+  }
+};
+
+/**
+ * RTL Find Instances Tool - Every instantiation of a module
+ */
+export const rtlFindInstancesTool: ToolDefinition<{
+  module: z.ZodString;
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_find_instances',
+  description: 'Find every instantiation of a module or interface in the design database with the containing unit, file, line, parameter overrides and port connections. Use to check how a block is configured and connected before changing its ports or parameters.',
+  schema: {
+    module: z.string().describe('Module or interface name'),
+    files: designFilesSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { module, files, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_find_instances', async (config, root) => {
+      const { db } = await openUpdatedDesignDatabase(config, root, files);
+      const definition = await db.getUnit(module);
+      return {
+        module,
+        defined: definition ? { file: definition.file, line: definition.line } : false,
+        instances: await db.findInstances(module),
+      };
+    });
+  }
+};
+
+/**
+ * RTL Generate Testbench Tool - Testbench skeleton from a module's ports
+ */
+export const rtlGenerateTestbenchTool: ToolDefinition<{
+  module: z.ZodString;
+  style: z.ZodOptional<z.ZodEnum<['systemverilog', 'verilator', 'cocotb']>>;
+  outputDir: z.ZodOptional<z.ZodString>;
+  clockPeriodNs: z.ZodOptional<z.ZodNumber>;
+  parameters: z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodString>>;
+  overwrite: z.ZodOptional<z.ZodBoolean>;
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_generate_testbench',
+  description: 'Generate a testbench skeleton for a module from its ports and parameters in the design database: a self-checking SystemVerilog testbench, a Verilator C++ harness, or a cocotb test with Makefile. Clocks and resets (with polarity) are driven, inputs idled, the DUT instantiated, waves dumped, and the verdict printed as "*** TEST PASSED ***"/"*** TEST FAILED ***" for rtl_simulate. Existing files are kept unless overwrite is set. Fill in the stimulus at the TODO.',
+  schema: {
+    module: z.string().describe('Module to test'),
+    style: z.enum(['systemverilog', 'verilator', 'cocotb']).optional().describe('Testbench style (default: systemverilog)'),
+    outputDir: z.string().optional().describe('Directory for the generated files (default: paths.testbench)'),
+    clockPeriodNs: z.number().positive().optional().describe('Clock period in ns (default: 10)'),
+    parameters: z.record(z.string(), z.string()).optional().describe('Parameter overrides, e.g. {"WIDTH": "16"}'),
+    overwrite: z.boolean().optional().describe('Replace existing files (default: false)'),
+    files: designFilesSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { module, style = 'systemverilog', outputDir, clockPeriodNs, parameters, overwrite, files, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_generate_testbench', async (config, root) => {
+      const { generateTestbench } = await import('../rtl/verification/index.js');
+      const { db } = await openUpdatedDesignDatabase(config, root, files);
+      const unit = await db.getUnit(module);
+      if (!unit) {
+        throw new Error(`${module} not found in the design database`);
+      }
+
+      const dir = resolve(root, outputDir ?? config.paths.testbench);
+      const sources = (await db.getDependencyFiles(module)).map(file => relative(dir, file));
+      const generated = generateTestbench(unit, style, { clockPeriodNs, parameters, sources });
+
+      const existing = generated.map(file => join(dir, file.path)).filter(file => existsSync(file));
+      if (existing.length && !overwrite) {
+        throw new Error(`Refusing to overwrite ${existing.map(file => relative(root, file)).join(', ')} (set overwrite)`);
+      }
+      for (const file of generated) {
+        const target = join(dir, file.path);
+        await mkdir(dirname(target), { recursive: true });
+        await writeFile(target, file.content);
+      }
+
+      return {
+        module,
+        style,
+        files: generated.map(file => relative(root, join(dir, file.path))),
+        clocks: unit.clocks,
+        resets: unit.resets,
+      };
+    });
+  }
+};
+
+/**
+ * RTL Generate UVM Tool - UVM environment skeleton for a module
+ */
+export const rtlGenerateUvmTool: ToolDefinition<{
+  module: z.ZodString;
+  agents: z.ZodOptional<z.ZodArray<z.ZodObject<{
+    name: z.ZodString;
+    protocol: z.ZodOptional<z.ZodEnum<['generic', 'valid_ready']>>;
+    ports: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  }>>>;
+  outputDir: z.ZodOptional<z.ZodString>;
+  clockPeriodNs: z.ZodOptional<z.ZodNumber>;
+  parameters: z.ZodOptional<z.ZodRecord<z.ZodString, z.ZodString>>;
+  force: z.ZodOptional<z.ZodBoolean>;
+  compile: z.ZodOptional<z.ZodBoolean>;
+  tool: z.ZodOptional<z.ZodString>;
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_generate_uvm',
+  description: 'Generate a UVM environment skeleton for a module from the design database: per agent an interface with clocking blocks, sequence item, sequencer, sequence, driver, monitor and agent (generic or valid/ready protocol), plus scoreboard, env, base test, a top binding the interfaces to the DUT, and a filelist. Files are written to <paths.testbench>/<module>_uvm with a manifest: re-running updates only files not edited since they were generated. The result is compiled with the selected simulator (UVM from $UVM_HOME for simulators without a built-in UVM).',
+  schema: {
+    module: z.string().describe('Module to verify'),
+    agents: z.array(z.object({
+      name: z.string().describe('Agent name, also the prefix of the ports it owns (e.g. "in" for in_valid, in_data)'),
+      protocol: z.enum(['generic', 'valid_ready']).optional().describe('Default: valid_ready when the ports have a valid/ready pair'),
+      ports: z.array(z.string()).optional().describe('DUT ports of this agent (default: ports named <name>_*)'),
+    })).optional().describe('Agents, one per DUT interface (default: one agent with every data port)'),
+    outputDir: z.string().optional().describe('Directory for the generated files (default: <paths.testbench>/<module>_uvm)'),
+    clockPeriodNs: z.number().positive().optional().describe('Clock period in ns (default: 10)'),
+    parameters: z.record(z.string(), z.string()).optional().describe('Parameter overrides, e.g. {"WIDTH": "16"}'),
+    force: z.boolean().optional().describe('Also overwrite files edited since they were generated (default: false)'),
+    compile: z.boolean().optional().describe('Compile the generated environment with the DUT (default: true)'),
+    tool: toolOverrideSchema,
+    files: designFilesSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { module, agents, outputDir, clockPeriodNs, parameters, force, compile = true, tool, files, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_generate_uvm', async (config, root) => {
+      const { generateUvmEnvironment, writeGeneratedFiles, uvmLibrary, UVM_MANIFEST } = await import('../rtl/verification/index.js');
+      const { db } = await openUpdatedDesignDatabase(config, root, files);
+      const unit = await db.getUnit(module);
+      if (!unit) {
+        throw new Error(`${module} not found in the design database`);
+      }
+
+      const dir = resolve(root, outputDir ?? join(config.paths.testbench, `${module}_uvm`));
+      const dependencies = await db.getDependencyFiles(module);
+      const environment = generateUvmEnvironment(unit, {
+        agents,
+        clockPeriodNs,
+        parameters,
+        sources: dependencies.map(file => relative(dir, file)),
+      });
+      const written = await writeGeneratedFiles(dir, environment.files, 'uvm', UVM_MANIFEST, force);
+
+      let compileResult;
+      if (compile) {
+        const { createSimulationManager } = await import('../rtl/tools/simulation/index.js');
+        const manager = await createSimulationManager(config, root);
+        const uvm = uvmLibrary();
+        compileResult = compactResult(await manager.compile(
+          [...(uvm?.files ?? []), ...dependencies, ...environment.compileOrder.map(file => join(dir, file))],
+          tool,
+          { testName: environment.top, sources: { includeDirs: [...(uvm?.includeDirs ?? []), dir], top: environment.top } }
+        ));
+      }
+
+      return {
+        module,
+        top: environment.top,
+        outputDir: relative(root, dir),
+        files: written,
+        kept: written.filter(file => file.status === 'kept').map(file => file.path),
+        compile: compileResult,
+      };
+    });
+  }
+};
+
+/**
+ * RTL Generate Assertions Tool - SVA checker and bind file for a module
+ */
+export const rtlGenerateAssertionsTool: ToolDefinition<{
+  module: z.ZodString;
+  assertions: z.ZodOptional<z.ZodArray<z.ZodObject<{
+    template: z.ZodEnum<['valid_ready', 'fifo', 'onehot', 'gray', 'reset_value', 'req_ack']>;
+    signal: z.ZodOptional<z.ZodString>;
+    valid: z.ZodOptional<z.ZodString>;
+    ready: z.ZodOptional<z.ZodString>;
+    data: z.ZodOptional<z.ZodArray<z.ZodString>>;
+    push: z.ZodOptional<z.ZodString>;
+    pop: z.ZodOptional<z.ZodString>;
+    full: z.ZodOptional<z.ZodString>;
+    empty: z.ZodOptional<z.ZodString>;
+    req: z.ZodOptional<z.ZodString>;
+    ack: z.ZodOptional<z.ZodString>;
+    min: z.ZodOptional<z.ZodNumber>;
+    max: z.ZodOptional<z.ZodNumber>;
+    allowZero: z.ZodOptional<z.ZodBoolean>;
+    value: z.ZodOptional<z.ZodString>;
+  }>>>;
+  clock: z.ZodOptional<z.ZodString>;
+  reset: z.ZodOptional<z.ZodString>;
+  outputDir: z.ZodOptional<z.ZodString>;
+  force: z.ZodOptional<z.ZodBoolean>;
+  compile: z.ZodOptional<z.ZodBoolean>;
+  tool: z.ZodOptional<z.ZodString>;
+  files: z.ZodOptional<z.ZodArray<z.ZodString>>;
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_generate_assertions',
+  description: 'Generate SystemVerilog assertions for a module from templates instantiated against its ports: valid/ready handshake stability, FIFO no overflow/underflow, one-hot, gray code, reset values and req/ack latency bounds. Emits a checker module <module>_sva.sv and a bind file <module>_sva_bind.sv that binds it into every instance of the module, so the RTL is not edited. Without assertions, templates are inferred from port names. Files are written to <paths.testbench>/<module>_sva with a manifest (edited files are kept) and compiled with the module. Add both files to a simulation: Verilator runs with --assert and failures are reported in the verdict with file and line.',
+  schema: {
+    module: z.string().describe('Module to check'),
+    assertions: z.array(z.object({
+      template: z.enum(['valid_ready', 'fifo', 'onehot', 'gray', 'reset_value', 'req_ack']).describe('Assertion template'),
+      signal: z.string().optional().describe('onehot, gray, reset_value: checked port'),
+      valid: z.string().optional().describe('valid_ready: valid port'),
+      ready: z.string().optional().describe('valid_ready: ready port'),
+      data: z.array(z.string()).optional().describe('valid_ready: payload ports held stable while valid waits for ready'),
+      push: z.string().optional().describe('fifo: push/write enable, checked against full'),
+      pop: z.string().optional().describe('fifo: pop/read enable, checked against empty'),
+      full: z.string().optional().describe('fifo: full flag'),
+      empty: z.string().optional().describe('fifo: empty flag'),
+      req: z.string().optional().describe('req_ack: request port'),
+      ack: z.string().optional().describe('req_ack: acknowledge port'),
+      min: z.number().int().nonnegative().optional().describe('req_ack: earliest ack in cycles after the request (default: 1)'),
+      max: z.number().int().nonnegative().optional().describe('req_ack: latest ack in cycles after the request (default: 16)'),
+      allowZero: z.boolean().optional().describe('onehot: also accept no bit set'),
+      value: z.string().optional().describe("reset_value: expected value after reset (default: '0)"),
+    })).optional().describe('Assertions to generate (default: inferred from port names)'),
+    clock: z.string().optional().describe('Sampling clock (default: the first clock input)'),
+    reset: z.string().optional().describe('Reset disabling the checks (default: the first reset input)'),
+    outputDir: z.string().optional().describe('Directory for the generated files (default: <paths.testbench>/<module>_sva)'),
+    force: z.boolean().optional().describe('Also overwrite files edited since they were generated (default: false)'),
+    compile: z.boolean().optional().describe('Compile the checker bound into the module (default: true)'),
+    tool: toolOverrideSchema,
+    files: designFilesSchema,
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { module, assertions, clock, reset, outputDir, force, compile = true, tool, files, workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_generate_assertions', async (config, root) => {
+      const { generateAssertions, writeGeneratedFiles, SVA_MANIFEST } = await import('../rtl/verification/index.js');
+      const { db } = await openUpdatedDesignDatabase(config, root, files);
+      const unit = await db.getUnit(module);
+      if (!unit) {
+        throw new Error(`${module} not found in the design database`);
+      }
+
+      const dir = resolve(root, outputDir ?? join(config.paths.testbench, `${module}_sva`));
+      const generated = generateAssertions(unit, { assertions, clock, reset });
+      const written = await writeGeneratedFiles(dir, generated.files, 'sva', SVA_MANIFEST, force);
+
+      let compileResult;
+      if (compile) {
+        const { createSimulationManager } = await import('../rtl/tools/simulation/index.js');
+        const manager = await createSimulationManager(config, root);
+        compileResult = compactResult(await manager.compile(
+          [...await db.getDependencyFiles(module), ...generated.files.map(file => join(dir, file.path))],
+          tool,
+          { testName: generated.checker, sources: { top: module } }
+        ));
+      }
+
+      return {
+        module,
+        checker: generated.checker,
+        assertions: generated.labels,
+        outputDir: relative(root, dir),
+        files: written,
+        kept: written.filter(file => file.status === 'kept').map(file => file.path),
+        compile: compileResult,
+      };
+    });
+  }
+};
+
+/**
+ * RTL Check Environment Tool - Report installed RTL tools
+ */
+export const rtlCheckEnvironmentTool: ToolDefinition<{
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_check_environment',
+  description: 'Detect installed RTL tools (LSP, lint, simulation, synthesis) and show the resolved .rtl-config.json. Use before rtl_lint/rtl_simulate/rtl_synthesize to see what is available.',
+  schema: {
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_check_environment', async (config) => {
+      const { checkRTLEnvironment } = await import('../rtl/index.js');
+      const installed = await checkRTLEnvironment(config);
+      return { installed, config };
+    });
+  }
+};
+
+/**
+ * RTL Config Explain Tool - Show where include paths and defines come from
+ */
+export const rtlConfigExplainTool: ToolDefinition<{
+  workspaceRoot: z.ZodOptional<z.ZodString>;
+}> = {
+  name: 'rtl_config_explain',
+  description: 'Explain the include paths and defines the RTL language servers use: each include directory lists why it was added (configured sources, includePaths, +incdir+ in build files, header locations, `include targets) and each define its origin and the values it overrode. Unresolved `include directives are listed under issues. Use when diagnostics report missing includes or macros.',
+  schema: {
+    workspaceRoot: workspaceRootSchema
+  },
+  handler: async (args) => {
+    const { workspaceRoot } = args;
+    return withRtlConfig(workspaceRoot, 'rtl_config_explain', async (config, root) => {
+      const { explainLSPConfig } = await import('../rtl/lsp/config-helper.js');
+      return explainLSPConfig(root, config);
+    });
+  }
+};
+
+/** All RTL tools for registration in omc-tools-server */
+export const rtlTools = [
+  rtlLintTool,
+  rtlSimulateTool,
+  rtlWaveformQueryTool,
+  rtlSynthesizeTool,
+  rtlHierarchyTool,
+  rtlModuleInfoTool,
+  rtlFindInstancesTool,
+  rtlGenerateTestbenchTool,
+  rtlGenerateUvmTool,
+  rtlGenerateAssertionsTool,
+  rtlCheckEnvironmentTool,
+  rtlConfigExplainTool,
+];